@@ -8,9 +8,24 @@
  * @module
  */
 
+import type * as account from "../account.js";
 import type * as actions from "../actions.js";
+import type * as authorization from "../authorization.js";
+import type * as budgets from "../budgets.js";
+import type * as categoryRules from "../categoryRules.js";
+import type * as currency from "../currency.js";
+import type * as documentEvents from "../documentEvents.js";
 import type * as documents from "../documents.js";
+import type * as insights from "../insights.js";
+import type * as merchants from "../merchants.js";
+import type * as savingsGoals from "../savingsGoals.js";
+import type * as sessions from "../sessions.js";
+import type * as subscriptions from "../subscriptions.js";
+import type * as transactionEdits from "../transactionEdits.js";
+import type * as transactions from "../transactions.js";
+import type * as usage from "../usage.js";
 import type * as users from "../users.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -19,9 +34,24 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  account: typeof account;
   actions: typeof actions;
+  authorization: typeof authorization;
+  budgets: typeof budgets;
+  categoryRules: typeof categoryRules;
+  currency: typeof currency;
+  documentEvents: typeof documentEvents;
   documents: typeof documents;
+  insights: typeof insights;
+  merchants: typeof merchants;
+  savingsGoals: typeof savingsGoals;
+  sessions: typeof sessions;
+  subscriptions: typeof subscriptions;
+  transactionEdits: typeof transactionEdits;
+  transactions: typeof transactions;
+  usage: typeof usage;
   users: typeof users;
+  workspaces: typeof workspaces;
 }>;
 
 /**
@@ -0,0 +1,93 @@
+/// <reference types="vite/client" />
+
+import { TestConvex, convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import { ensureWorkspace } from "./workspaces";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+type Tester = TestConvex<typeof schema>;
+
+// An account asked to be deleted, alone in its workspace with `documents` statements (two sharing one upload)
+// and `invites` invite codes
+async function setup(documents: number, invites: number) {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { code: "100001", password: "unused", deletionRequestedAt: Date.now() });
+    await ensureWorkspace(ctx, userId);
+    const { workspaceId } = (await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first())!;
+    const shared = await ctx.storage.store(new Blob(["statement"]));
+    for (let i = 0; i < documents; i++) {
+      const documentId = await ctx.db.insert("documents", {
+        title: `Statement ${i}`,
+        storageId: i < 2 ? shared : await ctx.storage.store(new Blob([`statement ${i}`])),
+        ownerId: userId,
+        workspaceId,
+        status: "completed",
+      });
+      await ctx.db.insert("transactions", {
+        documentId,
+        ownerId: userId,
+        workspaceId,
+        index: 0,
+        date: "2024-03-01",
+        merchant: "Tesco",
+        amount: 10,
+        currency: "GBP",
+        category: "Food",
+      });
+    }
+    for (let i = 0; i < invites; i++) {
+      await ctx.db.insert("workspaceInvites", { workspaceId, codeHash: `hash-${i}`, role: "viewer", createdBy: userId, expiresAt: Date.now() });
+    }
+    return { userId, workspaceId };
+  });
+  return { t, ...ids };
+}
+
+async function remaining(t: Tester) {
+  return await t.run(async (ctx) => ({
+    documents: (await ctx.db.query("documents").collect()).length,
+    transactions: (await ctx.db.query("transactions").collect()).length,
+    invites: (await ctx.db.query("workspaceInvites").collect()).length,
+    workspaces: (await ctx.db.query("workspaces").collect()).length,
+    users: (await ctx.db.query("users").collect()).length,
+  }));
+}
+
+describe("purgeAccount", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("removes documents a few at a time the way a delete from the list does", async () => {
+    const { t, userId } = await setup(7, 0);
+
+    await t.mutation(internal.account.purgeAccount, { userId });
+    expect(await remaining(t)).toMatchObject({ documents: 2, transactions: 2 });
+    const deletions = await t.run(async (ctx) => (await ctx.db.query("documentEvents").collect()).filter((e) => e.type === "deleted"));
+    expect(deletions).toHaveLength(5);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await remaining(t)).toEqual({ documents: 0, transactions: 0, invites: 0, workspaces: 0, users: 0 });
+  });
+
+  it("empties a workspace it leaves behind in batches before deleting it", async () => {
+    const { t, userId } = await setup(0, 150);
+
+    await t.mutation(internal.account.purgeAccount, { userId });
+    expect(await remaining(t)).toMatchObject({ invites: 50, workspaces: 1 });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await remaining(t)).toEqual({ documents: 0, transactions: 0, invites: 0, workspaces: 0, users: 0 });
+  });
+});
@@ -0,0 +1,214 @@
+// Account settings: profile, password change and account deletion
+
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Id, TableNames } from "./_generated/dataModel";
+import { validateProfile } from "./domain/entities/user";
+import { successorOwner } from "./domain/entities/workspace";
+import { Result, err, ok } from "./domain/types/result";
+import { hashPassword } from "./infrastructure/utils/crypto";
+import { createLogger } from "./infrastructure/utils/logger";
+import { removeDocument } from "./documents";
+import { requireUser, revokeSessions } from "./sessions";
+import { SignInFailure, confirmPassword, validatePassword } from "./users";
+
+const logger = createLogger("account");
+
+// Rows deleted per purge run, well inside a mutation's read/write limits
+const PURGE_BATCH_SIZE = 100;
+// Documents removed per purge run; each goes whole, with its rows, like a delete from the list
+const PURGE_DOCUMENT_BATCH_SIZE = 5;
+
+// 1. [Read] My profile
+export const getProfile = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    return { code: user.code, name: user.name ?? "", email: user.email ?? "" };
+  },
+});
+
+// 2. [Update] Name and email (blank clears)
+export const updateProfile = mutation({
+  args: {
+    sessionToken: v.string(),
+    name: v.string(),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const profile = validateProfile({ name: args.name, email: args.email });
+    if (!profile.ok) {
+      throw new Error(profile.error);
+    }
+    await ctx.db.patch(user._id, profile.value);
+    return profile.value;
+  },
+});
+
+// 3. [Update] Change password; every other session is signed out.
+// A wrong current password is returned, not thrown, so the failed attempt is counted.
+export const changePassword = mutation({
+  args: {
+    sessionToken: v.string(),
+    currentPassword: v.string(),
+    newPassword: v.string(),
+    clientId: v.string(),
+  },
+  handler: async (ctx, args): Promise<Result<null, SignInFailure>> => {
+    const user = await requireUser(ctx, args.sessionToken);
+    validatePassword(args.newPassword);
+
+    const confirmed = await confirmPassword(ctx, user, args.currentPassword, args.clientId);
+    if (!confirmed.ok) {
+      return err(confirmed.error);
+    }
+
+    await ctx.db.patch(user._id, { password: await hashPassword(args.newPassword) });
+    await revokeSessions(ctx, user._id, args.sessionToken);
+    return ok(null);
+  },
+});
+
+// 4. [Delete] Delete my account and everything it owns.
+// The user is signed out at once; the data goes in batches by purgeAccount.
+export const deleteAccount = mutation({
+  args: {
+    sessionToken: v.string(),
+    password: v.string(),
+    clientId: v.string(),
+  },
+  handler: async (ctx, args): Promise<Result<null, SignInFailure>> => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const confirmed = await confirmPassword(ctx, user, args.password, args.clientId);
+    if (!confirmed.ok) {
+      return err(confirmed.error);
+    }
+
+    await ctx.db.patch(user._id, { deletionRequestedAt: Date.now() });
+    await revokeSessions(ctx, user._id);
+    await ctx.scheduler.runAfter(0, internal.account.purgeAccount, { userId: user._id });
+    logger.info(`Account ${user._id} scheduled for deletion`);
+    return ok(null);
+  },
+});
+
+// 5. [Internal] One batch of an account's data; reschedules itself until nothing is left.
+// Every run re-reads what remains, so a failed run is resumed by running it again
+// (`npx convex run account:purgeAccount '{"userId": "..."}'`).
+export const purgeAccount = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user?.deletionRequestedAt) {
+      return null; // Already gone, or never asked for
+    }
+
+    const deleted = await purgeBatch(ctx, args.userId, PURGE_BATCH_SIZE);
+    if (deleted > 0) {
+      await ctx.scheduler.runAfter(0, internal.account.purgeAccount, args);
+      return null;
+    }
+
+    // Last of all, the code itself: its attempt counter, then the user row
+    const attempts = await ctx.db
+      .query("loginAttempts")
+      .withIndex("by_key", (q) => q.eq("key", `code:${user.code}`))
+      .first();
+    if (attempts) {
+      await ctx.db.delete(attempts._id);
+    }
+    await ctx.db.delete(args.userId);
+    logger.info(`Account ${args.userId} deleted`);
+    return null;
+  },
+});
+
+// Deletes up to `limit` rows (or a few whole documents) owned by the user and returns how many went
+async function purgeBatch(ctx: MutationCtx, userId: Id<"users">, limit: number): Promise<number> {
+  let deleted = 0;
+
+  // Documents first, through the same path as deleting one from the list: its file, failure history,
+  // transaction rows and hand edits go, later overlapping statements are released and other members'
+  // subscriptions are re-detected. Its run records and history are owned rows, purged below.
+  const docs = await ctx.db
+    .query("documents")
+    .withIndex("by_ownerId", (q) => q.eq("ownerId", userId))
+    .take(PURGE_DOCUMENT_BATCH_SIZE);
+  for (const doc of docs) {
+    await removeDocument(ctx, doc, userId);
+  }
+  if (docs.length > 0) {
+    return docs.length;
+  }
+
+  // Memberships: a workspace left without an owner passes to its longest-standing member,
+  // and one left with nobody goes entirely (its documents were all this user's, deleted above)
+  const memberships = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .take(limit - deleted);
+  for (const membership of memberships) {
+    const members = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", membership.workspaceId))
+      .collect();
+    const successor = successorOwner(members, userId);
+    if (successor && membership.role === "owner") {
+      await ctx.db.patch(successor._id, { role: "owner" });
+    }
+    if (members.length === 1) {
+      // Paged like the rest: the membership stays until the workspace is empty, so the next run comes back to it
+      const { workspaceId } = membership;
+      const leftovers: Array<() => Promise<Array<{ _id: Id<TableNames> }>>> = [
+        () => ctx.db.query("workspaceInvites").withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId)).take(limit - deleted),
+        () => ctx.db.query("budgets").withIndex("by_workspaceId_category", (q) => q.eq("workspaceId", workspaceId)).take(limit - deleted),
+        () => ctx.db.query("subscriptions").withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId)).take(limit - deleted),
+        () => ctx.db.query("merchants").withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId)).take(limit - deleted),
+      ];
+      for (const load of leftovers) {
+        for (const row of await load()) {
+          await ctx.db.delete(row._id);
+          deleted++;
+        }
+        if (deleted >= limit) {
+          return deleted;
+        }
+      }
+      await ctx.db.delete(workspaceId);
+    }
+    await ctx.db.delete(membership._id);
+    deleted++;
+    if (deleted >= limit) {
+      return deleted;
+    }
+  }
+  if (deleted >= limit) {
+    return deleted;
+  }
+
+  // Then everything else that points at the user
+  const owned: Array<() => Promise<Array<{ _id: Id<TableNames> }>>> = [
+    () => ctx.db.query("analysisResults").withIndex("by_ownerId_processedAt", (q) => q.eq("ownerId", userId)).take(limit - deleted),
+    () => ctx.db.query("categoryRules").withIndex("by_ownerId", (q) => q.eq("ownerId", userId)).take(limit - deleted),
+    () => ctx.db.query("savingsGoals").withIndex("by_ownerId", (q) => q.eq("ownerId", userId)).take(limit - deleted),
+    () => ctx.db.query("sessions").withIndex("by_userId", (q) => q.eq("userId", userId)).take(limit - deleted),
+    () => ctx.db.query("authEvents").withIndex("by_userId_timestamp", (q) => q.eq("userId", userId)).take(limit - deleted),
+    () => ctx.db.query("accessDenials").withIndex("by_userId", (q) => q.eq("userId", userId)).take(limit - deleted),
+    // History of my uploads; my actions on other members' documents stay in their history as "Deleted account"
+    () => ctx.db.query("documentEvents").withIndex("by_ownerId_timestamp", (q) => q.eq("ownerId", userId)).take(limit - deleted),
+  ];
+  for (const load of owned) {
+    for (const row of await load()) {
+      await ctx.db.delete(row._id);
+      deleted++;
+    }
+    if (deleted >= limit) {
+      return deleted;
+    }
+  }
+
+  return deleted;
+}
@@ -2,18 +2,40 @@
 
 "use node"; // Important: Run in Node.js environment
 
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
-// @ts-ignore - pdf-parse doesn't have type definitions
-import pdf from "pdf-parse";
-import OpenAI from "openai";
-
+import { internal } from "./_generated/api";
+import { analyzeDocument, analyzeStatementPages } from "./application/use-cases/analyze_doc";
+import { ConvexDocumentRepository } from "./infrastructure/db/document.repo";
+import { ConvexExchangeRateRepository } from "./infrastructure/db/rates.repo";
+import { ConvexCategoryRuleRepository } from "./infrastructure/db/rules.repo";
+import { ConvexMerchantRepository } from "./infrastructure/db/merchants.repo";
+import { PdfTextExtractor, parsePdfPages } from "./infrastructure/utils/pdf.parser";
+import { StorageStatementImporter } from "./infrastructure/utils/statement.importer";
+import { createLogger } from "./infrastructure/utils/logger";
+import { createLLMClient } from "./infrastructure/llm/llm.factory";
+import { priceForModel } from "./infrastructure/llm/pricing";
+import { ILLMClient } from "./domain/ports/llm.interface";
+import { columnMappingValidator, statementFormatValidator } from "./schema";
+
+const logger = createLogger("pipeline");
+
+// 1. [Extract] Text of a PDF the caller has uploaded
 export const extractText = action({
   args: {
     storageId: v.id("_storage"),
-    documentId: v.optional(v.id("documents")),
+    sessionToken: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<string> => {
+    // 0. Only files behind one of the caller's documents; a denial is recorded before we refuse
+    const denied = await ctx.runMutation(internal.authorization.authorizeFile, {
+      sessionToken: args.sessionToken,
+      storageId: args.storageId,
+    });
+    if (denied) {
+      throw new Error(denied.message);
+    }
+
     // 1. Get file URL
     const fileUrl = await ctx.storage.getUrl(args.storageId);
     if (!fileUrl) {
@@ -25,120 +47,87 @@ export const extractText = action({
     const arrayBuffer = await response.arrayBuffer();
 
     // 3. Extract text from PDF (using pdf-parse)
-    try {
-      const data = await pdf(Buffer.from(arrayBuffer));
-      return data.text;
-    } catch (error) {
-      console.error("PDF parsing error:", error);
-      throw new Error("Failed to extract text from PDF.");
+    const pages = await parsePdfPages(Buffer.from(arrayBuffer));
+    if (!pages.ok) {
+      throw new Error(pages.error.message);
     }
+    return pages.value.join("\n\n");
   },
 });
 
-// 2. [AI] Analyze text and convert to JSON (using GPT-4o-mini)
+// 2. [AI] Analyze text and convert to JSON (provider chosen by LLM_PROVIDER)
 export const analyzeFinancialText = action({
   args: {
     text: v.string(), // Text extracted from PDF
+    sessionToken: v.string(), // Signed-in callers only: every call is a paid model request
   },
-  handler: async (_ctx, args) => {
-    // 1. Create OpenAI client (using environment variable key)
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+  handler: async (ctx, args) => {
+    await ctx.runQuery(internal.authorization.authenticate, { sessionToken: args.sessionToken });
+    const result = await analyzeStatementPages([args.text], {
+      llm: createLLMClient(),
+      rates: new ConvexExchangeRateRepository(ctx),
     });
+    if (!result.ok) {
+      throw new Error(`${result.error.code}: ${result.error.message}`);
+    }
+    return result.value.analysis;
+  },
+});
 
-    console.log("🤖 Requesting analysis from GPT-4o-mini...");
-
-    // 2. Create prompt for GPT
-    const prompt = `
-      You are an expert financial assistant. Analyze the following credit card statement text (OCR result) and organize it into structured JSON data.
-
-      [Fields to Extract]
-
-      1. totalSpent: Total amount spent (number)
-
-      2. transactions: List of transactions (array)
-
-         - date: Transaction date (YYYY-MM-DD)
-
-         - merchant: Merchant name (Cleaned up)
-
-         - amount: Amount (Number)
-
-         - category: Category (Infer one from the list below):
-           * Food: Restaurants, cafes, grocery stores, food delivery, bars, pubs, clubs
-           * Shopping: Retail stores, online shopping, clothing, electronics
-           * Transport: Public transport, taxis, fuel, parking, car maintenance
-           * Utilities: Electricity, water, gas, internet, phone bills
-           * Travel: Hotels, flights, travel bookings, vacation expenses
-           * Transaction: Bank transfers, account transfers, direct debits, standing orders, wire transfers, remittances
-           * Other: Any transaction that doesn't fit the above categories
-
-      3. summary: A one-sentence sarcastic or encouraging comment on the user's spending habits (English).
-
-      4. advice: Specific advice on where to cut costs based on the highest spending category (English).
-
-      [Constraints]
-
-      - Output ONLY valid JSON.
-
-      - Exclude payment records.
-
-      [Text to Analyze]
-
-      ${args.text}
-
-    `;
-
-    // 3. Call GPT
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: "You are a helpful financial data extractor." },
-        { role: "user", content: prompt },
-      ],
-      response_format: { type: "json_object" }, // Force JSON mode
+// 3. [Pipeline] Extract -> Analyze -> Save, scheduled by documents.create and documents.retryDocument
+export const processDocument = internalAction({
+  args: {
+    documentId: v.id("documents"),
+    storageId: v.id("_storage"),
+    sourceFormat: v.optional(statementFormatValidator),
+    columnMapping: v.optional(columnMappingValidator),
+    fromStep: v.optional(v.union(v.literal("extraction"), v.literal("analysis"))),
+  },
+  handler: async (ctx, args): Promise<null> => {
+    logger.info(`Processing document ${args.documentId}`, {
+      format: args.sourceFormat ?? "pdf",
+      fromStep: args.fromStep ?? "extraction",
     });
+    const repo = new ConvexDocumentRepository(ctx);
 
-    // 4. Get and parse result
-    const result = completion.choices[0].message.content;
-    console.log("🤖 Analysis complete! Result length:", result?.length);
-
-    if (!result) throw new Error("GPT returned an empty response.");
-
-    const data = JSON.parse(result);
-
-    // 5. Calculate period and averageDailySpent using TypeScript
-    let averageDailySpent = 0;
-    let period = "날짜 정보 없음";
-
-    if (data.transactions && data.transactions.length > 0) {
-      // 1. 날짜 정렬 (TypeScript가 타입을 알 수 있게 t: any 사용)
-      const dates = data.transactions
-        .map((t: any) => new Date(t.date).getTime())
-        .sort((a: number, b: number) => a - b);
-
-      const minDate = new Date(dates[0]);
-      const maxDate = new Date(dates[dates.length - 1]);
-
-      // 2. 기간 문자열 생성
-      period = `${minDate.toISOString().split('T')[0]} ~ ${maxDate.toISOString().split('T')[0]}`;
-
-      // 3. 날짜 차이 계산 (+1일 추가)
-      const diffTime = Math.abs(maxDate.getTime() - minDate.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+    let llm: ILLMClient;
+    try {
+      llm = createLLMClient();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Document ${args.documentId} failed: LLM misconfigured`, message);
+      await repo.markFailed(args.documentId, { step: "analysis", code: "CONFIG_ERROR", message });
+      return null;
+    }
 
-      // 4. 평균 계산
-      if (diffDays > 0) {
-        averageDailySpent = Number((data.totalSpent / diffDays).toFixed(2));
+    const result = await analyzeDocument(
+      {
+        documentId: args.documentId,
+        storageId: args.storageId,
+        format: args.sourceFormat,
+        columnMapping: args.columnMapping,
+        fromStep: args.fromStep,
+      },
+      {
+        repo,
+        extractor: new PdfTextExtractor(ctx.storage),
+        importer: new StorageStatementImporter(ctx.storage),
+        llm,
+        rates: new ConvexExchangeRateRepository(ctx),
+        rules: new ConvexCategoryRuleRepository(ctx),
+        merchants: new ConvexMerchantRepository(ctx),
+        priceForModel,
       }
+    );
+
+    if (result.ok) {
+      logger.info(`Document ${args.documentId} completed`, {
+        totalSpent: result.value.analysis.totalSpent,
+        ...result.value.metadata,
+      });
+    } else {
+      logger.error(`Document ${args.documentId} failed at ${result.error.step}`, result.error);
     }
-
-    const finalResult = {
-      ...data,
-      period,
-      averageDailySpent,
-    };
-
-    return finalResult;
+    return null;
   },
 });
@@ -1,2 +1,296 @@
 // "Extract -> Analyze -> Save" flow orchestration
 
+import { IDocumentRepository } from "../../domain/ports/repo.interface";
+import { ITextExtractor } from "../../domain/ports/extractor.interface";
+import { CsvColumnMapping, ImportedStatement, IStatementImporter } from "../../domain/ports/importer.interface";
+import { ILLMClient, LLMError, TokenUsage } from "../../domain/ports/llm.interface";
+import { IExchangeRateRepository } from "../../domain/ports/rates.interface";
+import { ICategoryRuleRepository } from "../../domain/ports/rules.interface";
+import { IMerchantRepository } from "../../domain/ports/merchants.interface";
+import { AnalysisProgress, StatementFormat, isStructuredFormat } from "../../domain/entities/document";
+import {
+  AnalysisRunMetadata,
+  FinancialAnalysis,
+  Transaction,
+  ValidationIssue,
+} from "../../domain/types/analysis";
+import { PipelineError, PipelineStep } from "../../domain/types/errors";
+import { StatementTotals, summarizeTransactions } from "../../domain/services/period";
+import { parseCategory, validateTransactions } from "../../domain/services/transaction-validation";
+import { importedTransactions } from "../../domain/services/import";
+import { describeSpending, totalsByCategory } from "../../domain/services/spending";
+import { applyMerchantRegistry } from "../../domain/services/merchants";
+import { chunkPages, mergeChunkTransactions } from "../../domain/services/chunking";
+import { ModelPrice, estimateCostUsd } from "../../domain/services/usage";
+import {
+  DEFAULT_CURRENCY,
+  buildRateTable,
+  convertAmount,
+  currenciesToConvert,
+  normalizeCurrency,
+} from "../../domain/services/currency";
+import { Result, ok, err } from "../../domain/types/result";
+
+export interface AnalyzeDocumentInput {
+  documentId: string;
+  storageId: string;
+  format?: StatementFormat; // Defaults to "pdf" for documents uploaded before imports existed
+  columnMapping?: CsvColumnMapping;
+  // Retries resume from the step that failed; defaults to a full run
+  fromStep?: PipelineStep;
+}
+
+export interface AnalyzeDocumentDeps {
+  repo: IDocumentRepository;
+  extractor: ITextExtractor;
+  importer: IStatementImporter;
+  llm: ILLMClient;
+  rates: IExchangeRateRepository;
+  rules: ICategoryRuleRepository;
+  merchants: IMerchantRepository;
+  priceForModel: (model: string) => ModelPrice | null;
+}
+
+export interface AnalyzeStatementDeps {
+  llm: ILLMClient;
+  rates: IExchangeRateRepository;
+}
+
+export interface AnalyzeDocumentOutput {
+  analysis: FinancialAnalysis;
+  usage: TokenUsage;
+  model: string;
+}
+
+export interface AnalyzeDocumentResult extends AnalyzeDocumentOutput {
+  metadata: AnalysisRunMetadata;
+}
+
+// Merchants sent to the model per categorisation request
+const CATEGORIZE_BATCH_SIZE = 100;
+
+// Statement pages -> finished analysis. Shared by the pipeline and the ad-hoc analyze action.
+// Chunks are analysed one by one so progress is meaningful and provider rate limits are respected.
+export async function analyzeStatementPages(
+  pages: readonly string[],
+  deps: AnalyzeStatementDeps,
+  onProgress?: (progress: AnalysisProgress) => Promise<void>
+): Promise<Result<AnalyzeDocumentOutput, LLMError>> {
+  const { llm } = deps;
+  const chunks = chunkPages(pages);
+  const chunkTransactions: Transaction[][] = [];
+  const issues: ValidationIssue[] = [];
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let model = llm.model;
+  let statementCurrency: string | null = null;
+  let commentary: { spent: number; summary?: string; advice?: string } = { spent: -Infinity };
+
+  await onProgress?.({ completedChunks: 0, totalChunks: chunks.length });
+
+  for (const [index, chunk] of chunks.entries()) {
+    const response = await llm.analyzeStatement(chunk);
+    if (!response.ok) {
+      const where = chunks.length > 1 ? ` (chunk ${index + 1}/${chunks.length})` : "";
+      return err({ ...response.error, message: `${response.error.message}${where}` });
+    }
+
+    const { analysis } = response.value;
+    // Later chunks rarely repeat the statement header, so the first detected currency wins
+    statementCurrency ??= normalizeCurrency(analysis.currency);
+    const validated = validateTransactions(analysis.transactions, statementCurrency ?? DEFAULT_CURRENCY);
+
+    // Rows came back but none were usable: treat the whole response as malformed
+    if (analysis.transactions.length > 0 && validated.transactions.length === 0) {
+      return err({
+        code: "INVALID_FORMAT",
+        message: `All ${analysis.transactions.length} transactions were rejected: ${validated.issues[0].reason}`,
+      });
+    }
+
+    chunkTransactions.push(validated.transactions);
+    issues.push(...validated.issues.map((issue) => (chunks.length > 1 ? { ...issue, chunk: index } : issue)));
+    usage.promptTokens += response.value.usage.promptTokens;
+    usage.completionTokens += response.value.usage.completionTokens;
+    usage.totalTokens += response.value.usage.totalTokens;
+    model = response.value.model;
+
+    // Each chunk only saw part of the statement; keep the comment about the biggest slice of spending
+    const spent = validated.transactions.reduce((sum, t) => sum + t.amount, 0);
+    if (spent > commentary.spent) {
+      commentary = { spent, summary: analysis.summary, advice: analysis.advice };
+    }
+
+    await onProgress?.({ completedChunks: index + 1, totalChunks: chunks.length });
+  }
+
+  const { transactions, duplicatesRemoved } = mergeChunkTransactions(chunkTransactions);
+  const currency = statementCurrency ?? DEFAULT_CURRENCY;
+  const { totals } = await totalInCurrency(transactions, currency, deps.rates);
+
+  return ok({
+    analysis: {
+      currency,
+      totalSpent: totals.totalSpent,
+      period: totals.period,
+      averageDailySpent: totals.averageDailySpent,
+      missingRates: totals.missingRates.length > 0 ? totals.missingRates : undefined,
+      transactions,
+      summary: commentary.summary,
+      advice: commentary.advice,
+      issues,
+      duplicatesRemoved,
+    },
+    usage,
+    model,
+  });
+}
+
+// Parsed bank export -> finished analysis. The rows are exact, so the model only picks categories,
+// once per distinct merchant, and the commentary is computed from the numbers.
+export async function analyzeImportedStatement(
+  statement: ImportedStatement,
+  deps: AnalyzeStatementDeps,
+  onProgress?: (progress: AnalysisProgress) => Promise<void>
+): Promise<Result<AnalyzeDocumentOutput, LLMError>> {
+  const { llm } = deps;
+  const currency = normalizeCurrency(statement.currency) ?? DEFAULT_CURRENCY;
+  const { transactions, issues } = importedTransactions(statement.rows, currency);
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let model = llm.model;
+
+  const merchants = [...new Set(transactions.map((t) => t.merchant))];
+  const batches: string[][] = [];
+  for (let i = 0; i < merchants.length; i += CATEGORIZE_BATCH_SIZE) {
+    batches.push(merchants.slice(i, i + CATEGORIZE_BATCH_SIZE));
+  }
+
+  await onProgress?.({ completedChunks: 0, totalChunks: batches.length });
+
+  const categoryOf = new Map<string, Transaction["category"]>();
+  for (const [index, batch] of batches.entries()) {
+    const response = await llm.categorizeMerchants(batch);
+    if (!response.ok) {
+      const where = batches.length > 1 ? ` (batch ${index + 1}/${batches.length})` : "";
+      return err({ ...response.error, message: `${response.error.message}${where}` });
+    }
+
+    // Labels get the same check as model-produced rows; anything unknown or missing stays "Other"
+    batch.forEach((merchant, i) => {
+      categoryOf.set(merchant, parseCategory(response.value.categories[i]) ?? "Other");
+    });
+    usage.promptTokens += response.value.usage.promptTokens;
+    usage.completionTokens += response.value.usage.completionTokens;
+    usage.totalTokens += response.value.usage.totalTokens;
+    model = response.value.model;
+
+    await onProgress?.({ completedChunks: index + 1, totalChunks: batches.length });
+  }
+
+  const categorized = transactions.map((t) => ({ ...t, category: categoryOf.get(t.merchant) ?? t.category }));
+  const { totals, amountOf } = await totalInCurrency(categorized, currency, deps.rates);
+  const commentary = describeSpending(categorized.length, totals, totalsByCategory(categorized, amountOf), currency);
+
+  return ok({
+    analysis: {
+      currency,
+      totalSpent: totals.totalSpent,
+      period: totals.period,
+      averageDailySpent: totals.averageDailySpent,
+      missingRates: totals.missingRates.length > 0 ? totals.missingRates : undefined,
+      transactions: categorized,
+      summary: commentary.summary,
+      advice: commentary.advice,
+      issues,
+    },
+    usage,
+    model,
+  });
+}
+
+// Foreign-currency rows are converted into the statement currency before totalling
+async function totalInCurrency(
+  transactions: readonly Transaction[],
+  currency: string,
+  rates: IExchangeRateRepository
+): Promise<{ totals: StatementTotals; amountOf: (t: Transaction) => number | null }> {
+  const needed = currenciesToConvert(transactions, currency);
+  const rateTable = buildRateTable(needed.length > 0 ? await rates.getRates(needed) : []);
+  const amountOf = (t: Transaction) => convertAmount(t.amount, t.currency, currency, t.date, rateTable);
+  return { totals: summarizeTransactions(transactions, amountOf), amountOf };
+}
+
+// Drives the document through pending -> extracting -> analyzing -> completed.
+// Any failed step moves the document to "failed" with a typed error so it never stays stuck in-flight.
+export async function analyzeDocument(
+  input: AnalyzeDocumentInput,
+  deps: AnalyzeDocumentDeps
+): Promise<Result<AnalyzeDocumentResult, PipelineError>> {
+  const { repo, extractor, importer, priceForModel } = deps;
+  let step: PipelineStep = "extraction";
+  let pages: string[] | null = null;
+  let statement: ImportedStatement | null = null;
+
+  const fail = async (error: Omit<PipelineError, "step">): Promise<Result<never, PipelineError>> => {
+    const failure: PipelineError = { step, ...error };
+    await repo.markFailed(input.documentId, failure);
+    return err(failure);
+  };
+
+  try {
+    if (isStructuredFormat(input.format)) {
+      // 1. Parse the export (cheap and deterministic, so retries always re-read the file)
+      await repo.updateStatus(input.documentId, "extracting");
+      const imported = await importer.import(input.storageId, input.format, input.columnMapping);
+      if (!imported.ok) return await fail(imported.error);
+      statement = imported.value;
+    } else {
+      // 1. Extract (skipped when retrying analysis and the pages are still cached)
+      pages = input.fromStep === "analysis" ? await repo.getExtractedText(input.documentId) : null;
+      if (pages === null) {
+        await repo.updateStatus(input.documentId, "extracting");
+        const extracted = await extractor.extract(input.storageId);
+        if (!extracted.ok) return await fail(extracted.error);
+        pages = extracted.value;
+        await repo.saveExtractedText(input.documentId, pages);
+      }
+    }
+
+    // 2. Analyze (only categorisation reaches the model for imports)
+    step = "analysis";
+    await repo.updateStatus(input.documentId, "analyzing");
+    const startedAt = Date.now();
+    const onProgress = (progress: AnalysisProgress) => repo.updateProgress(input.documentId, progress);
+    const output = statement
+      ? await analyzeImportedStatement(statement, deps, onProgress)
+      : await analyzeStatementPages(pages ?? [], deps, onProgress);
+    if (!output.ok) return await fail(output.error);
+
+    const { usage, model } = output.value;
+    const metadata: AnalysisRunMetadata = {
+      model,
+      promptVersion: deps.llm.promptVersion,
+      ...usage,
+      estimatedCostUsd: estimateCostUsd(usage, priceForModel(model)),
+      durationMs: Date.now() - startedAt,
+    };
+
+    // 3. The workspace's merchant registry renames the rows; the user's category rules and the
+    // registry's default categories override the model
+    const rules = await deps.rules.rulesForDocument(input.documentId);
+    const merchants = await deps.merchants.merchantsForDocument(input.documentId);
+    const analysis = {
+      ...output.value.analysis,
+      transactions: applyMerchantRegistry(output.value.analysis.transactions, merchants, rules),
+    };
+
+    // 4. Save (also completes the document and records the run)
+    await repo.saveAnalysis(input.documentId, analysis, metadata);
+    return ok({ ...output.value, analysis, metadata });
+  } catch (error) {
+    // Unexpected infrastructure errors (network, storage, DB) are still a designed failure state
+    return await fail({
+      code: "UNEXPECTED_ERROR",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
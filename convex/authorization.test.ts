@@ -0,0 +1,139 @@
+/// <reference types="vite/client" />
+
+import { TestConvex, convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { WorkspaceRole } from "./domain/entities/workspace";
+import { createSession } from "./sessions";
+import { ensureWorkspace } from "./workspaces";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+type Tester = TestConvex<typeof schema>;
+
+async function signedIn(t: Tester, code: string) {
+  return await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { code, password: "unused" });
+    await ensureWorkspace(ctx, userId);
+    const { sessionToken } = await createSession(ctx, userId);
+    return { userId, sessionToken };
+  });
+}
+
+// An owner with a document in their workspace, and someone else
+async function setup() {
+  const t = convexTest(schema, modules);
+  const owner = await signedIn(t, "100001");
+  const other = await signedIn(t, "100002");
+  const { workspaceId, documentId, storageId } = await t.run(async (ctx) => {
+    const membership = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", owner.userId))
+      .first();
+    const storageId = await ctx.storage.store(new Blob(["statement"]));
+    const documentId = await ctx.db.insert("documents", {
+      title: "March statement",
+      storageId,
+      ownerId: owner.userId,
+      workspaceId: membership!.workspaceId,
+      status: "completed",
+    });
+    return { workspaceId: membership!.workspaceId, documentId, storageId };
+  });
+  return { t, owner, other, workspaceId, documentId, storageId };
+}
+
+async function join(t: Tester, workspaceId: Id<"workspaces">, userId: Id<"users">, role: WorkspaceRole) {
+  await t.run(async (ctx) => {
+    await ctx.db.insert("workspaceMembers", { workspaceId, userId, role, joinedAt: Date.now() });
+  });
+}
+
+async function denials(t: Tester) {
+  return await t.run(async (ctx) => await ctx.db.query("accessDenials").collect());
+}
+
+describe("denied mutations", () => {
+  it("return the denial to a non-member and record it", async () => {
+    const { t, other, documentId } = await setup();
+    const result = await t.mutation(api.documents.recategorizeTransaction, {
+      sessionToken: other.sessionToken,
+      documentId,
+      index: 0,
+      category: "Food",
+    });
+
+    expect(result).toEqual({ denied: true, message: "Document not found" });
+    expect(await denials(t)).toEqual([
+      expect.objectContaining({
+        userId: other.userId,
+        action: "update",
+        resource: "document",
+        resourceId: documentId,
+        reason: "not_member",
+      }),
+    ]);
+  });
+
+  it("tell a viewer it's their role, and record it", async () => {
+    const { t, other, workspaceId, documentId } = await setup();
+    await join(t, workspaceId, other.userId, "viewer");
+    const result = await t.mutation(api.documents.recategorizeTransaction, {
+      sessionToken: other.sessionToken,
+      documentId,
+      index: 0,
+      category: "Food",
+    });
+
+    expect(result).toEqual({ denied: true, message: "A viewer can't do this in this workspace" });
+    expect(await denials(t)).toEqual([
+      expect.objectContaining({ userId: other.userId, action: "update", resource: "document", reason: "insufficient_role" }),
+    ]);
+  });
+
+  it("record workspace denials against the workspace", async () => {
+    const { t, other, workspaceId } = await setup();
+    await join(t, workspaceId, other.userId, "editor");
+    const result = await t.mutation(api.workspaces.createInvite, { sessionToken: other.sessionToken, workspaceId, role: "viewer" });
+
+    expect(result).toEqual({ denied: true, message: "An editor can't do this in this workspace" });
+    expect(await denials(t)).toEqual([
+      expect.objectContaining({ userId: other.userId, action: "manage", resource: "workspace", resourceId: workspaceId }),
+    ]);
+  });
+});
+
+describe("authorizeFile", () => {
+  it("lets the uploader read the file and records nothing", async () => {
+    const { t, owner, storageId } = await setup();
+    expect(await t.mutation(internal.authorization.authorizeFile, { sessionToken: owner.sessionToken, storageId })).toBeNull();
+    expect(await denials(t)).toEqual([]);
+  });
+
+  it("lets a viewer of the document's workspace read the file", async () => {
+    const { t, other, workspaceId, storageId } = await setup();
+    await join(t, workspaceId, other.userId, "viewer");
+    expect(await t.mutation(internal.authorization.authorizeFile, { sessionToken: other.sessionToken, storageId })).toBeNull();
+  });
+
+  it("denies a non-member and records it against the file", async () => {
+    const { t, other, storageId } = await setup();
+    const result = await t.mutation(internal.authorization.authorizeFile, { sessionToken: other.sessionToken, storageId });
+
+    expect(result).toEqual({ denied: true, message: "Document not found" });
+    expect(await denials(t)).toEqual([
+      expect.objectContaining({ userId: other.userId, action: "extract", resource: "storage", resourceId: storageId, reason: "not_owner" }),
+    ]);
+  });
+
+  it("records a file no document uses as not_found", async () => {
+    const { t, other } = await setup();
+    const storageId = await t.run(async (ctx) => await ctx.storage.store(new Blob(["orphan"])));
+    const result = await t.mutation(internal.authorization.authorizeFile, { sessionToken: other.sessionToken, storageId });
+
+    expect(result).toEqual({ denied: true, message: "Document not found" });
+    expect(await denials(t)).toEqual([expect.objectContaining({ resource: "storage", reason: "not_found" })]);
+  });
+});
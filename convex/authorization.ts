@@ -0,0 +1,155 @@
+// Authorization: every workspace, document and file access goes through here
+
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  AccessAction,
+  AccessDenial,
+  AccessDenied,
+  DocumentAction,
+  checkDocumentAccess,
+  checkStorageAccess,
+  checkStorageClaim,
+  checkWorkspaceAccess,
+} from "./domain/services/authorization";
+import { WorkspaceRole } from "./domain/entities/workspace";
+import { Result, err } from "./domain/types/result";
+import { createLogger } from "./infrastructure/utils/logger";
+import { requireUser } from "./sessions";
+
+const logger = createLogger("audit");
+
+type Resource = "document" | "storage" | "workspace";
+
+export async function getMembership(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">
+): Promise<Doc<"workspaceMembers"> | null> {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspaceId_userId", (q) => q.eq("workspaceId", workspaceId).eq("userId", userId))
+    .first();
+}
+
+async function roleIn(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces"> | undefined
+): Promise<WorkspaceRole | null> {
+  return workspaceId ? ((await getMembership(ctx, userId, workspaceId))?.role ?? null) : null;
+}
+
+export async function authorizeWorkspace(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">,
+  action: AccessAction
+): Promise<Result<WorkspaceRole, AccessDenial>> {
+  return checkWorkspaceAccess(await roleIn(ctx, userId, workspaceId), action);
+}
+
+export async function requireWorkspace(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">,
+  action: AccessAction
+): Promise<WorkspaceRole> {
+  const access = await authorizeWorkspace(ctx, userId, workspaceId, action);
+  if (!access.ok) {
+    logger.warn("Access denied", { userId, resource: "workspace", resourceId: workspaceId, ...access.error });
+    throw new Error(access.error.message);
+  }
+  return access.value;
+}
+
+export async function authorizeDocument(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  documentId: Id<"documents">,
+  action: DocumentAction
+): Promise<Result<Doc<"documents">, AccessDenial>> {
+  const doc = await ctx.db.get(documentId);
+  return checkDocumentAccess(userId, doc, await roleIn(ctx, userId, doc?.workspaceId), action);
+}
+
+// Queries can't write, so a denial there is only logged before it is thrown
+export async function requireDocument(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  documentId: Id<"documents">,
+  action: DocumentAction
+): Promise<Doc<"documents">> {
+  const access = await authorizeDocument(ctx, userId, documentId, action);
+  if (!access.ok) {
+    logger.warn("Access denied", { userId, resource: "document", resourceId: documentId, ...access.error });
+    throw new Error(access.error.message);
+  }
+  return access.value;
+}
+
+// Mutations return the denial instead of throwing: a throw would roll back the audit record with everything else
+export async function denyAccess(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  resource: Resource,
+  resourceId: string,
+  denial: AccessDenial
+): Promise<AccessDenied> {
+  logger.warn("Access denied", { userId, resource, resourceId, ...denial });
+  await ctx.db.insert("accessDenials", {
+    userId,
+    action: denial.action,
+    resource,
+    resourceId,
+    reason: denial.reason,
+    timestamp: Date.now(),
+  });
+  return { denied: true, message: denial.message };
+}
+
+async function documentsUsingFile(ctx: QueryCtx, storageId: Id<"_storage">): Promise<Doc<"documents">[]> {
+  return await ctx.db
+    .query("documents")
+    .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+    .collect();
+}
+
+// An uploaded file must exist and not already back someone else's document
+export async function authorizeFileClaim(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  storageId: Id<"_storage">
+): Promise<Result<void, AccessDenial>> {
+  if (!(await ctx.db.system.get(storageId))) {
+    return err({ action: "create", reason: "not_found", message: "File not found" });
+  }
+  return checkStorageClaim(userId, await documentsUsingFile(ctx, storageId));
+}
+
+// 1. [Internal] File access check for actions, which can't read the database themselves
+export const authorizeFile = internalMutation({
+  args: {
+    sessionToken: v.string(),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args): Promise<AccessDenied | null> => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const docs = await documentsUsingFile(ctx, args.storageId);
+    const withRoles = await Promise.all(
+      docs.map(async (doc) => ({ doc, role: await roleIn(ctx, user._id, doc.workspaceId) }))
+    );
+    const access = checkStorageAccess(user._id, withRoles, "extract");
+    return access.ok ? null : await denyAccess(ctx, user._id, "storage", args.storageId, access.error);
+  },
+});
+
+// 2. [Internal] Session check for actions that don't touch a document
+export const authenticate = internalQuery({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args): Promise<Id<"users">> => {
+    const user = await requireUser(ctx, args.sessionToken);
+    return user._id;
+  },
+});
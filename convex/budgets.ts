@@ -0,0 +1,125 @@
+// Monthly category budgets of a workspace, and spend against them
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { budgetProgress, monthlySpending, validateBudgetLimit } from "./domain/services/budget";
+import { currenciesToConvert } from "./domain/services/currency";
+import { authorizeWorkspace, denyAccess, requireWorkspace } from "./authorization";
+import { getUserBaseCurrency, loadRateTable } from "./currency";
+import { requireUser } from "./sessions";
+import { countedTransactions, transactionMonths } from "./transactions";
+import { categoryValidator } from "./schema";
+
+// 1. [Read] Budgets of a workspace
+export const list = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    return await ctx.db
+      .query("budgets")
+      .withIndex("by_workspaceId_category", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+  },
+});
+
+// 2. [Upsert] Set a category's monthly limit (editors and owners), in my base currency
+export const set = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    category: categoryValidator,
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+
+    const limit = validateBudgetLimit(args.limit);
+    if (!limit.ok) {
+      throw new Error(limit.error);
+    }
+    const fields = { limit: limit.value, currency: await getUserBaseCurrency(ctx, user._id), updatedAt: Date.now() };
+    const existing = await ctx.db
+      .query("budgets")
+      .withIndex("by_workspaceId_category", (q) => q.eq("workspaceId", args.workspaceId).eq("category", args.category))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+    return await ctx.db.insert("budgets", { workspaceId: args.workspaceId, category: args.category, ...fields });
+  },
+});
+
+// 3. [Delete] Drop a category's limit (editors and owners)
+export const remove = mutation({
+  args: {
+    sessionToken: v.string(),
+    budgetId: v.id("budgets"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const budget = await ctx.db.get(args.budgetId);
+    if (!budget) {
+      throw new Error("Budget not found");
+    }
+    const access = await authorizeWorkspace(ctx, user._id, budget.workspaceId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", budget.workspaceId, access.error);
+    }
+
+    await ctx.db.delete(args.budgetId);
+    return { success: true };
+  },
+});
+
+// 4. [Read] Spend per category in one month (default: the latest with transactions) against each budget.
+// Covers every analysed document in the workspace.
+export const progress = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    month: v.optional(v.string()), // YYYY-MM
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const scope = { workspaceId: args.workspaceId };
+    const [budgets, months] = await Promise.all([
+      ctx.db
+        .query("budgets")
+        .withIndex("by_workspaceId_category", (q) => q.eq("workspaceId", args.workspaceId))
+        .collect(),
+      transactionMonths(ctx, scope),
+    ]);
+    const month = args.month ?? months[0] ?? new Date().toISOString().slice(0, 7);
+    // Only the month shown is read
+    const { transactions } = await countedTransactions(ctx, scope, { from: `${month}-01`, to: `${month}-31` });
+
+    // Budgets set by members with different base currencies are each measured in their own
+    const currencies = [...new Set(budgets.map((b) => b.currency))];
+    const rates = await loadRateTable(
+      ctx,
+      currencies.flatMap((currency) => currenciesToConvert(transactions, currency))
+    );
+    const spending = new Map(currencies.map((currency) => [currency, monthlySpending(transactions, currency, rates)]));
+
+    return {
+      month,
+      months,
+      budgets: budgets.map(({ _id, category, limit, currency }) => ({
+        _id,
+        ...budgetProgress({ category, limit, currency }, spending.get(currency)?.byMonth[month]?.[category] ?? 0),
+      })),
+      missingRates: [...new Set([...spending.values()].flatMap((s) => s.missingRates))],
+    };
+  },
+});
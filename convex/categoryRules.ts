@@ -0,0 +1,130 @@
+// Category rules (user overrides of the model's categories)
+
+import { internalQuery, mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { CategoryRule, validateRule } from "./domain/services/category-rules";
+import { applyMerchantRegistry } from "./domain/services/merchants";
+import { categoryValidator, ruleMatchValidator } from "./schema";
+import { requireUser } from "./sessions";
+import { recordDocumentEvent } from "./documentEvents";
+import { syncDocumentTransactions } from "./transactions";
+import { loadMerchants } from "./merchants";
+
+// Oldest first, which is also the order rules are applied in. Shared with merchants.categorizeTransactions.
+export async function loadRules(ctx: QueryCtx, ownerId: Id<"users">): Promise<CategoryRule[]> {
+  const rows = await ctx.db
+    .query("categoryRules")
+    .withIndex("by_ownerId", (q) => q.eq("ownerId", ownerId))
+    .collect();
+  return rows.map(({ match, pattern, category, minAmount, maxAmount }) => ({
+    match,
+    pattern,
+    category,
+    minAmount,
+    maxAmount,
+  }));
+}
+
+// 1. [Read] My rules
+export const list = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    return await ctx.db
+      .query("categoryRules")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", user._id))
+      .collect();
+  },
+});
+
+// 2. [Create] Add a rule (applied to new analyses; use reapplyRules for past statements)
+export const create = mutation({
+  args: {
+    sessionToken: v.string(),
+    match: ruleMatchValidator,
+    pattern: v.string(),
+    category: categoryValidator,
+    minAmount: v.optional(v.number()),
+    maxAmount: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { sessionToken, ...rule } = args;
+    const user = await requireUser(ctx, sessionToken);
+    const validated = validateRule(rule);
+    if (!validated.ok) {
+      throw new Error(validated.error);
+    }
+    return await ctx.db.insert("categoryRules", { ownerId: user._id, ...validated.value });
+  },
+});
+
+// 3. [Delete] Remove one of my rules
+export const remove = mutation({
+  args: {
+    ruleId: v.id("categoryRules"),
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const rule = await ctx.db.get(args.ruleId);
+    if (!rule) {
+      throw new Error("Rule not found");
+    }
+    if (rule.ownerId !== user._id) {
+      throw new Error("Not authorized to delete this rule");
+    }
+    await ctx.db.delete(args.ruleId);
+    return { success: true };
+  },
+});
+
+// 4. [Update] Re-run my rules (with each workspace's merchant registry) over saved analyses.
+// Only categories change, so no model call is needed.
+export const reapplyRules = mutation({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.optional(v.id("documents")), // Default: every analysed document
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const rules = await loadRules(ctx, user._id);
+    const docs = args.documentId
+      ? [await ctx.db.get(args.documentId)]
+      : await ctx.db
+          .query("documents")
+          .withIndex("by_ownerId", (q) => q.eq("ownerId", user._id))
+          .collect();
+
+    let documentsUpdated = 0;
+    let transactionsChanged = 0;
+    for (const doc of docs) {
+      if (!doc?.analysis || doc.ownerId !== user._id) continue;
+
+      const transactions = applyMerchantRegistry(doc.analysis.transactions, await loadMerchants(ctx, doc.workspaceId), rules);
+      const changed = transactions.filter((t, i) => t.category !== doc.analysis!.transactions[i].category).length;
+      if (changed === 0) continue;
+
+      const analysis = { ...doc.analysis, transactions };
+      await ctx.db.patch(doc._id, { analysis });
+      await syncDocumentTransactions(ctx, { ...doc, analysis });
+      await recordDocumentEvent(ctx, doc, {
+        type: "recategorized",
+        actorId: user._id,
+        detail: `${changed} transaction${changed === 1 ? "" : "s"} by category rules`,
+      });
+      documentsUpdated++;
+      transactionsChanged += changed;
+    }
+    return { documentsUpdated, transactionsChanged };
+  },
+});
+
+// 5. [Internal] Rules of a document's owner, for the analysis pipeline
+export const forDocument = internalQuery({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    return doc ? await loadRules(ctx, doc.ownerId) : [];
+  },
+});
@@ -0,0 +1,101 @@
+// Exchange rates & base currency
+
+import { internalMutation, internalQuery, mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import {
+  DEFAULT_CURRENCY,
+  ExchangeRate,
+  RateTable,
+  buildRateTable,
+  normalizeCurrency,
+} from "./domain/services/currency";
+import { requireUser } from "./sessions";
+
+// Shared by queries that aggregate across currencies
+export async function loadRateTable(ctx: QueryCtx, currencies: readonly string[]): Promise<RateTable> {
+  return buildRateTable(await loadRates(ctx, currencies));
+}
+
+async function loadRates(ctx: QueryCtx, currencies: readonly string[]): Promise<ExchangeRate[]> {
+  const rows = await Promise.all(
+    [...new Set(currencies)].map((currency) =>
+      ctx.db
+        .query("exchangeRates")
+        .withIndex("by_currency_date", (q) => q.eq("currency", currency))
+        .collect()
+    )
+  );
+  return rows.flat().map(({ currency, date, perUsd }) => ({ currency, date, perUsd }));
+}
+
+export async function getUserBaseCurrency(ctx: QueryCtx, userId: Id<"users">): Promise<string> {
+  const user = await ctx.db.get(userId);
+  return user?.baseCurrency ?? DEFAULT_CURRENCY;
+}
+
+// 1. [Read] Rates for the analysis pipeline (actions can't read the DB directly)
+export const ratesFor = internalQuery({
+  args: { currencies: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    return await loadRates(ctx, args.currencies);
+  },
+});
+
+// 2. [Upsert] Maintain the rate table, e.g. `npx convex run currency:upsertRates '{"rates": [...]}'`
+export const upsertRates = internalMutation({
+  args: {
+    rates: v.array(v.object({
+      currency: v.string(),
+      date: v.string(),   // YYYY-MM-DD
+      perUsd: v.number(), // Units of `currency` per 1 USD
+    })),
+  },
+  handler: async (ctx, args) => {
+    for (const rate of args.rates) {
+      const currency = normalizeCurrency(rate.currency);
+      if (!currency || !/^\d{4}-\d{2}-\d{2}$/.test(rate.date) || !(rate.perUsd > 0)) {
+        throw new Error(`Invalid exchange rate: ${JSON.stringify(rate)}`);
+      }
+
+      const existing = await ctx.db
+        .query("exchangeRates")
+        .withIndex("by_currency_date", (q) => q.eq("currency", currency).eq("date", rate.date))
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, { perUsd: rate.perUsd });
+      } else {
+        await ctx.db.insert("exchangeRates", { currency, date: rate.date, perUsd: rate.perUsd });
+      }
+    }
+    return { upserted: args.rates.length };
+  },
+});
+
+// 3. [Read] The currency a user's aggregates are expressed in
+export const getBaseCurrency = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    return await getUserBaseCurrency(ctx, user._id);
+  },
+});
+
+// 4. [Update] Change the user's base currency
+export const setBaseCurrency = mutation({
+  args: {
+    sessionToken: v.string(),
+    currency: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const currency = normalizeCurrency(args.currency);
+    if (!currency) {
+      throw new Error("Currency must be a 3-letter ISO code (e.g., GBP)");
+    }
+
+    await ctx.db.patch(user._id, { baseCurrency: currency });
+    return currency;
+  },
+});
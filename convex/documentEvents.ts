@@ -0,0 +1,113 @@
+// Document audit trail: what happened to each document, when, and who did it
+
+import { query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { DocumentEventType, DocumentStatus } from "./domain/entities/document";
+import { displayName } from "./domain/entities/user";
+import { requireDocument } from "./authorization";
+import { requireUser } from "./sessions";
+
+const FEED_LIMIT = 50;
+
+interface DocumentEvent {
+  type: DocumentEventType;
+  actorId?: Id<"users">; // Omit for the processing pipeline
+  toStatus?: DocumentStatus; // Set on "uploaded": the status the document starts in
+  detail?: string;
+}
+
+type EventSubject = Pick<Doc<"documents">, "_id" | "title" | "ownerId">;
+
+// Events are only ever inserted; nothing patches them, and only account deletion removes them
+export async function recordDocumentEvent(ctx: MutationCtx, doc: EventSubject, event: DocumentEvent) {
+  await ctx.db.insert("documentEvents", {
+    documentId: doc._id,
+    documentTitle: doc.title,
+    ownerId: doc.ownerId,
+    timestamp: Date.now(),
+    ...event,
+  });
+}
+
+// Records a move of the state machine, timed from the event that entered the current status.
+// Documents uploaded before the audit trail have no such event, so their first move has no duration.
+export async function recordStatusChange(
+  ctx: MutationCtx,
+  doc: EventSubject & { status: DocumentStatus },
+  toStatus: DocumentStatus,
+  event: Omit<DocumentEvent, "type" | "toStatus"> = {}
+) {
+  const entered = await ctx.db
+    .query("documentEvents")
+    .withIndex("by_documentId_timestamp", (q) => q.eq("documentId", doc._id))
+    .order("desc")
+    .filter((q) => q.neq(q.field("toStatus"), undefined))
+    .first();
+  const now = Date.now();
+
+  await ctx.db.insert("documentEvents", {
+    documentId: doc._id,
+    documentTitle: doc.title,
+    ownerId: doc.ownerId,
+    type: "status_changed",
+    fromStatus: doc.status,
+    toStatus,
+    durationMs: entered ? now - entered.timestamp : undefined,
+    timestamp: now,
+    ...event,
+  });
+}
+
+async function withActorNames(ctx: QueryCtx, userId: Id<"users">, events: Doc<"documentEvents">[]) {
+  const names = new Map<Id<"users">, string>();
+  for (const actorId of new Set(events.flatMap((e) => (e.actorId ? [e.actorId] : [])))) {
+    const actor = await ctx.db.get(actorId);
+    names.set(actorId, actor ? displayName(actor) : "Deleted account");
+  }
+  return events.map((e) => ({
+    ...e,
+    actorName: !e.actorId ? "System" : e.actorId === userId ? "Me" : names.get(e.actorId)!,
+  }));
+}
+
+// 1. [Read] Timeline of one document, oldest first
+export const timeline = query({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireDocument(ctx, user._id, args.documentId, "read");
+    const events = await ctx.db
+      .query("documentEvents")
+      .withIndex("by_documentId_timestamp", (q) => q.eq("documentId", args.documentId))
+      .collect();
+    return await withActorNames(ctx, user._id, events);
+  },
+});
+
+// 2. [Read] My activity: what I did, and what happened to what I uploaded, newest first
+export const myActivity = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const [done, received] = await Promise.all([
+      ctx.db
+        .query("documentEvents")
+        .withIndex("by_actorId_timestamp", (q) => q.eq("actorId", user._id))
+        .order("desc")
+        .take(FEED_LIMIT),
+      ctx.db
+        .query("documentEvents")
+        .withIndex("by_ownerId_timestamp", (q) => q.eq("ownerId", user._id))
+        .order("desc")
+        .take(FEED_LIMIT),
+    ]);
+
+    const merged = new Map([...done, ...received].map((e) => [e._id, e]));
+    const events = [...merged.values()].sort((a, b) => b.timestamp - a.timestamp).slice(0, FEED_LIMIT);
+    return await withActorNames(ctx, user._id, events);
+  },
+});
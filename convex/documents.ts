@@ -1,12 +1,154 @@
 // Queries & Mutations (Data Access)
 
-import { mutation, query } from "./_generated/server";
+import { mutation, query, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { canTransition, isInProgress } from "./domain/entities/document";
+import { spendingInCurrency, topCategory, topExpenses } from "./domain/services/spending";
+import { dateRange } from "./domain/services/period";
+import { findOverlap } from "./domain/services/overlap";
+import { setCategoryByHand } from "./domain/services/category-rules";
+import { diffAnalyses } from "./domain/services/analysis-diff";
+import { currenciesToConvert } from "./domain/services/currency";
+import { editTarget } from "./domain/services/transaction-edits";
+import { getUserBaseCurrency, loadRateTable } from "./currency";
+import { categorizeTransactions } from "./merchants";
+import {
+  analysisValidator,
+  categoryValidator,
+  columnMappingValidator,
+  documentStatusValidator,
+  overlapResolutionValidator,
+  runMetadataValidator,
+  statementFormatValidator,
+} from "./schema";
+import { requireUser } from "./sessions";
+import {
+  authorizeDocument,
+  authorizeFileClaim,
+  authorizeWorkspace,
+  denyAccess,
+  requireDocument,
+  requireWorkspace,
+} from "./authorization";
+import { displayName } from "./domain/entities/user";
+import { exportFilename, transactionsToCsv } from "./domain/services/export";
+import { recordDocumentEvent, recordStatusChange } from "./documentEvents";
+import { deleteDocumentTransactions, patchDocumentTransaction, syncDocumentTransactions } from "./transactions";
+import { applyStoredEdits, deleteDocumentEdits, storeTransactionEdit } from "./transactionEdits";
+
+// Public functions resolve the caller from the session token and check access through ./authorization.
+// A denied mutation returns { denied: true, message } so its audit record is kept; queries throw.
+// Internal functions are only reachable from the server-side pipeline and trust their arguments.
+
+// Largest charges shown on each document card
+const TOP_EXPENSES = 3;
+
+function summarizeAnalysis({ transactions, ...fields }: NonNullable<Doc<"documents">["analysis"]>, baseAmounts: ReadonlyArray<number | null>) {
+  return {
+    ...fields,
+    transactionCount: transactions.length,
+    dateRange: dateRange(transactions),
+    topExpenses: topExpenses(transactions, baseAmounts, TOP_EXPENSES),
+  };
+}
+
+// Kick off Extract -> Analyze -> Save on the server so closing the tab can't interrupt it
+async function startProcessing(ctx: MutationCtx, doc: Doc<"documents">) {
+  await ctx.scheduler.runAfter(0, internal.actions.processDocument, {
+    documentId: doc._id,
+    storageId: doc.storageId,
+    sourceFormat: doc.sourceFormat,
+    columnMapping: doc.columnMapping,
+  });
+}
+
+// Earlier analysed documents of the workspace that share this statement's transactions.
+// Only earlier ones, so of two overlapping documents the later one is the one that gives way.
+async function findOverlappingDocuments(ctx: MutationCtx, doc: Doc<"documents">, analysis: NonNullable<Doc<"documents">["analysis"]>) {
+  if (!doc.workspaceId) return [];
+  const earlier = await ctx.db
+    .query("documents")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", doc.workspaceId))
+    .filter((q) => q.lt(q.field("_creationTime"), doc._creationTime))
+    .collect();
+  return earlier.flatMap((other) => {
+    const overlap = other.analysis && findOverlap(analysis.transactions, other.analysis.transactions);
+    return overlap ? [{ document: other, ...overlap }] : [];
+  });
+}
+
+// The document no longer waits on others; a duplicate held back until now is analysed
+async function settleOverlap(ctx: MutationCtx, doc: Doc<"documents">, actorId: Id<"users">, detail: string) {
+  await ctx.db.patch(doc._id, { overlap: undefined });
+  await recordDocumentEvent(ctx, doc, { type: "overlap_resolved", actorId, detail });
+  if (doc.overlap?.kind === "duplicate" && !doc.overlap.merged) {
+    await startProcessing(ctx, doc);
+  }
+}
+
+// Removes a document, its file and what was derived from it; its history and run records stay.
+// Also how account.purgeAccount deletes an account's documents.
+export async function removeDocument(ctx: MutationCtx, doc: Doc<"documents">, actorId: Id<"users">) {
+  // Delete file from storage; two documents can share an upload, so it may already be gone
+  for (const storageId of [doc.storageId, doc.textStorageId]) {
+    if (storageId && (await ctx.db.system.get(storageId))) {
+      await ctx.storage.delete(storageId);
+    }
+  }
+
+  // Delete failure history
+  const errors = await ctx.db
+    .query("executionErrors")
+    .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+    .collect();
+  for (const error of errors) {
+    await ctx.db.delete(error._id);
+  }
+
+  await deleteDocumentTransactions(ctx, doc._id);
+  await deleteDocumentEdits(ctx, doc._id);
+
+  // Run records stay for usage reporting, but the transactions they hold go with the document
+  const results = await ctx.db
+    .query("analysisResults")
+    .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+    .collect();
+  for (const result of results) {
+    if (result.analysis) {
+      await ctx.db.patch(result._id, { analysis: undefined });
+    }
+  }
+
+  // Delete document record from database; its history stays
+  await recordDocumentEvent(ctx, doc, { type: "deleted", actorId });
+  await ctx.db.delete(doc._id);
+  if (!doc.workspaceId) return;
+
+  // Later documents stop pointing at it
+  const later = await ctx.db
+    .query("documents")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", doc.workspaceId))
+    .filter((q) => q.gt(q.field("_creationTime"), doc._creationTime))
+    .collect();
+  for (const other of later) {
+    if (!other.overlap?.documentIds.includes(doc._id)) continue;
+    const documentIds = other.overlap.documentIds.filter((id) => id !== doc._id);
+    if (documentIds.length > 0) {
+      await ctx.db.patch(other._id, { overlap: { ...other.overlap, documentIds } });
+      continue;
+    }
+    await settleOverlap(ctx, other, actorId, `"${doc.title}" was deleted`);
+  }
+  await ctx.scheduler.runAfter(0, internal.subscriptions.detect, { workspaceId: doc.workspaceId });
+}
 
 // 1. [Upload] Generate secure URL for file upload (Client uploads file to this URL)
 export const generateUploadUrl = mutation({
-  args: {},
-  handler: async (ctx) => {
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, args.sessionToken);
     return await ctx.storage.generateUploadUrl();
   },
 });
@@ -16,30 +158,137 @@ export const create = mutation({
   args: {
     title: v.string(),
     storageId: v.id("_storage"), // Convex file storage ID
-    userId: v.id("users"),       // User ID from users.ts
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"), // Editors and owners may upload
+    sourceFormat: v.optional(statementFormatValidator), // Defaults to PDF
+    columnMapping: v.optional(columnMappingValidator),  // CSV only
   },
   handler: async (ctx, args) => {
-    // Record in DB: "This file belongs to this user"
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "create");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+    const claim = await authorizeFileClaim(ctx, user._id, args.storageId);
+    if (!claim.ok) {
+      return await denyAccess(ctx, user._id, "storage", args.storageId, claim.error);
+    }
+
+    // The same file already in this workspace? File storage keeps a SHA-256 of every upload.
+    const contentHash = (await ctx.db.system.get(args.storageId))?.sha256;
+    const duplicates = contentHash
+      ? await ctx.db
+          .query("documents")
+          .withIndex("by_workspaceId_contentHash", (q) =>
+            q.eq("workspaceId", args.workspaceId).eq("contentHash", contentHash)
+          )
+          .collect()
+      : [];
+
+    // Record in DB: "This file belongs to this user, in this workspace"
+    const sourceFormat = args.sourceFormat ?? "pdf";
     const docId = await ctx.db.insert("documents", {
       title: args.title,
       storageId: args.storageId,
-      ownerId: args.userId,
+      ownerId: user._id,
+      workspaceId: args.workspaceId,
       status: "pending", // Initial state: pending
+      sourceFormat,
+      columnMapping: args.sourceFormat === "csv" ? args.columnMapping : undefined,
+      contentHash,
+      overlap: duplicates.length > 0 ? { kind: "duplicate", documentIds: duplicates.map((d) => d._id) } : undefined,
+    });
+    await recordDocumentEvent(ctx, { _id: docId, title: args.title, ownerId: user._id }, {
+      type: "uploaded",
+      actorId: user._id,
+      toStatus: "pending",
+      detail: sourceFormat.toUpperCase(),
     });
 
-    return docId;
+    // A duplicate isn't analysed (or paid for) until a member chooses to skip, replace or merge
+    if (duplicates.length > 0) {
+      await recordDocumentEvent(ctx, { _id: docId, title: args.title, ownerId: user._id }, {
+        type: "overlap_found",
+        detail: `Same file as "${duplicates[0].title}"`,
+      });
+      return { documentId: docId, duplicateOf: duplicates[0].title };
+    }
+
+    const doc = await ctx.db.get(docId);
+    await startProcessing(ctx, doc!);
+    return { documentId: docId, duplicateOf: null };
   },
 });
 
-// 3. [Read] Query list of my documents
+// 3. [Read] Query list of a workspace's documents, optionally only one member's uploads
 export const list = query({
-  args: { userId: v.id("users") },
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    uploaderId: v.optional(v.id("users")),
+  },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const workspaceDocs = await ctx.db
       .query("documents")
-      .withIndex("by_ownerId", (q) => q.eq("ownerId", args.userId))
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", args.workspaceId))
       .order("desc") // Sort by newest first
       .collect();
+    const docs = workspaceDocs.filter((doc) => !args.uploaderId || doc.ownerId === args.uploaderId);
+    const titles = new Map(workspaceDocs.map((doc) => [doc._id, doc.title]));
+
+    // Every aggregate is re-expressed in the user's base currency at each transaction's date
+    const baseCurrency = await getUserBaseCurrency(ctx, user._id);
+    const rates = await loadRateTable(
+      ctx,
+      docs.flatMap((doc) => (doc.analysis ? currenciesToConvert(doc.analysis.transactions, baseCurrency) : []))
+    );
+
+    return await Promise.all(
+      docs.map(async (doc) => {
+        const baseView = doc.analysis
+          ? spendingInCurrency(doc.analysis.transactions, baseCurrency, rates)
+          : null;
+
+        // Failed documents carry their most recent error so the card can explain what went wrong
+        const lastError =
+          doc.status === "failed"
+            ? await ctx.db
+                .query("executionErrors")
+                .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+                .order("desc")
+                .first()
+            : null;
+
+        // Cards get a summary; the rows themselves are paged from the transactions table
+        const { analysis, overlap, ...rest } = doc;
+        const uploader = await ctx.db.get(doc.ownerId);
+        return {
+          ...rest,
+          analysis: analysis && summarizeAnalysis(analysis, baseView?.amounts ?? []),
+          lastError,
+          // Per-row amounts stay on the server with the rows
+          baseView: baseView && {
+            currency: baseView.currency,
+            totalSpent: baseView.totalSpent,
+            averageDailySpent: baseView.averageDailySpent,
+            byCategory: baseView.byCategory,
+            missingRates: baseView.missingRates,
+          },
+          // The earlier documents by title, for the skip / replace / merge question
+          overlap: overlap && {
+            ...overlap,
+            documents: overlap.documentIds.flatMap((id) => {
+              const title = titles.get(id);
+              return title ? [{ _id: id, title }] : [];
+            }),
+          },
+          uploaderName: uploader ? displayName(uploader) : "Deleted account",
+          uploadedByMe: doc.ownerId === user._id,
+        };
+      })
+    );
   },
 });
 
@@ -47,69 +296,520 @@ export const list = query({
 export const deleteDocument = mutation({
   args: {
     documentId: v.id("documents"),
-    userId: v.id("users"), // For authorization check
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    // Verify access and get the document
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "delete");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    await removeDocument(ctx, access.value, user._id);
+    return { success: true };
+  },
+});
+
+// 5. [Update] Update document status (pending -> extracting -> analyzing -> completed/failed)
+// Internal: only the server-side pipeline drives the state machine.
+export const updateStatus = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    status: documentStatusValidator,
   },
   handler: async (ctx, args) => {
-    // Get the document to verify ownership and get storageId
     const doc = await ctx.db.get(args.documentId);
-    
     if (!doc) {
       throw new Error("Document not found");
     }
 
-    // Verify ownership
-    if (doc.ownerId !== args.userId) {
-      throw new Error("Not authorized to delete this document");
+    if (!canTransition(doc.status, args.status)) {
+      throw new Error(`Invalid status transition: ${doc.status} -> ${args.status}`);
     }
 
-    // Delete file from storage
-    if (doc.storageId) {
-      await ctx.storage.delete(doc.storageId);
+    await recordStatusChange(ctx, doc, args.status);
+    await ctx.db.patch(args.documentId, {
+      status: args.status,
+    });
+  },
+});
+
+// 6. [Update] Save AI Analysis Result
+export const saveAnalysisResult = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    analysis: analysisValidator,
+    metadata: runMetadataValidator,
+  },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
     }
 
-    // Delete document record from database
-    await ctx.db.delete(args.documentId);
+    if (!canTransition(doc.status, "completed")) {
+      throw new Error(`Invalid status transition: ${doc.status} -> completed`);
+    }
 
-    return { success: true };
+    // Every run becomes a new version; earlier versions stay available to compare and restore.
+    // Also the governance record of this run (kept even if the document is later deleted, so spend history stays accurate)
+    const { analysis, metadata } = args;
+    const previousVersions = await ctx.db
+      .query("analysisResults")
+      .withIndex("by_documentId", (q) => q.eq("documentId", args.documentId))
+      .collect();
+    const resultId = await ctx.db.insert("analysisResults", {
+      documentId: args.documentId,
+      ownerId: doc.ownerId,
+      summary: analysis.summary ?? "",
+      data: {
+        totalAmount: analysis.totalSpent,
+        category: topCategory(analysis.transactions) ?? "Other",
+        items: [...new Set(analysis.transactions.map((t) => t.merchant))],
+      },
+      version: previousVersions.length + 1,
+      analysis,
+      metadata: {
+        model: metadata.model,
+        promptVersion: metadata.promptVersion,
+        tokenUsage: metadata.totalTokens,
+        promptTokens: metadata.promptTokens,
+        completionTokens: metadata.completionTokens,
+        estimatedCostUsd: metadata.estimatedCostUsd,
+        durationMs: metadata.durationMs,
+        processedAt: Date.now(),
+      },
+    });
+
+    // The version keeps what the model read; the working copy carries the members' hand edits
+    const edited = await applyStoredEdits(ctx, doc, analysis);
+
+    // A statement that runs into earlier ones waits for a member to skip, replace or merge.
+    // A duplicate file keeps its flag: it is the same statement whatever the model read this time.
+    let overlap = doc.overlap;
+    let overlapFound: string | null = null;
+    if (doc.overlap?.kind !== "duplicate") {
+      const found = await findOverlappingDocuments(ctx, doc, edited);
+      const documentIds = found.map((o) => o.document._id);
+      // Already merged with the same documents (a re-analysis) stays merged
+      const merged = doc.overlap?.merged === true && documentIds.every((id) => doc.overlap!.documentIds.includes(id));
+      overlap =
+        found.length > 0
+          ? {
+              kind: "overlap",
+              documentIds,
+              sharedTransactions: found.reduce((sum, o) => sum + o.sharedTransactions, 0),
+              from: found.map((o) => o.from).sort()[0],
+              to: found.map((o) => o.to).sort().reverse()[0],
+              merged: merged || undefined,
+            }
+          : undefined;
+      if (overlap && !merged) {
+        overlapFound = `${overlap.sharedTransactions} transactions also in ${found.map((o) => `"${o.document.title}"`).join(", ")}`;
+      }
+    }
+
+    // The newest run becomes the active version
+    await recordStatusChange(ctx, doc, "completed");
+    await recordDocumentEvent(ctx, doc, {
+      type: "analysis_saved",
+      detail: `Version ${previousVersions.length + 1}, ${analysis.transactions.length} transactions`,
+    });
+    if (overlapFound) {
+      await recordDocumentEvent(ctx, doc, { type: "overlap_found", detail: overlapFound });
+    }
+    await ctx.db.patch(args.documentId, {
+      analysis: edited,
+      activeResultId: resultId,
+      status: "completed", // Update status to completed when saving
+      overlap,
+    });
+    await syncDocumentTransactions(ctx, { ...doc, analysis: edited });
+
+    // A new statement may start, continue or end a recurring charge
+    if (doc.workspaceId) {
+      await ctx.scheduler.runAfter(0, internal.subscriptions.detect, { workspaceId: doc.workspaceId });
+    }
   },
 });
 
-// 5. [Update] Update document status (pending -> extracting -> analyzing -> completed/failed)
-export const updateStatus = mutation({
+// 7. [Update] Mark document as failed and record a structured error (Failure as a designed state)
+export const markFailed = internalMutation({
   args: {
     documentId: v.id("documents"),
-    status: v.union(
-      v.literal("pending"),
-      v.literal("extracting"),
-      v.literal("analyzing"),
-      v.literal("completed"),
-      v.literal("failed")
-    ),
+    step: v.union(v.literal("extraction"), v.literal("analysis")),
+    code: v.string(),
+    message: v.string(),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.documentId, {
-      status: args.status,
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+
+    // A document that already failed keeps its status; the new error is still recorded
+    if (doc.status !== "failed") {
+      if (!canTransition(doc.status, "failed")) {
+        throw new Error(`Invalid status transition: ${doc.status} -> failed`);
+      }
+      await recordStatusChange(ctx, doc, "failed", { detail: `${args.step}: ${args.code}` });
+      await ctx.db.patch(args.documentId, { status: "failed" });
+    }
+
+    await ctx.db.insert("executionErrors", {
+      documentId: args.documentId,
+      step: args.step,
+      code: args.code,
+      message: args.message,
+      timestamp: Date.now(),
     });
   },
 });
 
-// 6. [Update] Save AI Analysis Result
-export const saveAnalysisResult = mutation({
+// 8. [Retry] Re-run a failed document from the step that failed
+export const retryDocument = mutation({
   args: {
     documentId: v.id("documents"),
-    analysis: v.object({
-      totalSpent: v.number(),
-      period: v.optional(v.string()),
-      averageDailySpent: v.optional(v.number()),
-      transactions: v.array(v.any()),
-      summary: v.optional(v.string()), // AI's sarcastic or encouraging comment (English)
-      advice: v.optional(v.string()), // Specific cost-cutting advice (English)
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "retry");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+
+    if (doc.status !== "failed") {
+      throw new Error("Only failed documents can be retried");
+    }
+
+    const lastError = await ctx.db
+      .query("executionErrors")
+      .withIndex("by_documentId", (q) => q.eq("documentId", args.documentId))
+      .order("desc")
+      .first();
+
+    await recordStatusChange(ctx, doc, "pending", { actorId: user._id, detail: "Retry" });
+    await ctx.db.patch(args.documentId, { status: "pending" });
+    await ctx.scheduler.runAfter(0, internal.actions.processDocument, {
+      documentId: args.documentId,
+      storageId: doc.storageId,
+      sourceFormat: doc.sourceFormat,
+      columnMapping: doc.columnMapping,
+      fromStep: lastError?.step ?? "extraction",
+    });
+
+    return { success: true };
+  },
+});
+
+// 9. [Internal] Chunk progress of the analysis step
+export const updateProgress = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    progress: v.object({
+      completedChunks: v.number(),
+      totalChunks: v.number(),
     }),
   },
   handler: async (ctx, args) => {
+    await ctx.db.patch(args.documentId, { progress: args.progress });
+  },
+});
+
+// 10. [Internal] Cached extraction output for retries
+export const setExtractedText = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    textStorageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error("Document not found");
+    }
+
+    // Replace, don't leak, text from a previous run
+    if (doc.textStorageId) {
+      await ctx.storage.delete(doc.textStorageId);
+    }
+    await ctx.db.patch(args.documentId, { textStorageId: args.textStorageId });
+  },
+});
+
+export const getTextStorageId = internalQuery({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    return doc?.textStorageId ?? null;
+  },
+});
+
+// 11. [Update] Set one transaction's category by hand (kept over rules and reapplyRules, and over re-analysis)
+export const recategorizeTransaction = mutation({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+    index: v.number(),     // Position in analysis.transactions
+    category: categoryValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+
+    const transaction = doc.analysis?.transactions[args.index];
+    if (!doc.analysis || !transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    const transactions = [...doc.analysis.transactions];
+    const updated = setCategoryByHand(transaction, args.category);
+    transactions[args.index] = updated;
+    // Stored like any other hand edit, so the category survives a re-analysis or a version switch
+    await storeTransactionEdit(ctx, args.documentId, user._id, { kind: "edit", target: editTarget(doc.analysis.transactions, args.index), rows: [updated] });
+    await ctx.db.patch(args.documentId, { analysis: { ...doc.analysis, transactions } });
+    await patchDocumentTransaction(ctx, args.documentId, args.index, {
+      category: updated.category,
+      categorySource: updated.categorySource,
+      modelCategory: updated.modelCategory,
+    });
+    await recordDocumentEvent(ctx, doc, {
+      type: "recategorized",
+      actorId: user._id,
+      detail: `${transaction.merchant}: ${transaction.category} → ${args.category}`,
+    });
+
+    return { merchant: transaction.merchant, category: args.category };
+  },
+});
+
+// 12. [Re-analyze] Run the analysis again (e.g. after a prompt or model change) as a new version
+export const reanalyzeDocument = mutation({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "reanalyze");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+
+    if (doc.status !== "completed") {
+      throw new Error("Only analysed documents can be re-analysed");
+    }
+
+    // The active version stays visible until the new run completes.
+    // Cached PDF text is reused; the use case re-extracts when there is none.
+    await recordStatusChange(ctx, doc, "pending", { actorId: user._id, detail: "Re-analysis" });
+    await ctx.db.patch(args.documentId, { status: "pending", progress: undefined });
+    await ctx.scheduler.runAfter(0, internal.actions.processDocument, {
+      documentId: args.documentId,
+      storageId: doc.storageId,
+      sourceFormat: doc.sourceFormat,
+      columnMapping: doc.columnMapping,
+      fromStep: "analysis",
+    });
+
+    return { success: true };
+  },
+});
+
+// 13. [Read] All saved versions of a document's analysis, oldest first
+export const listVersions = query({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const doc = await requireDocument(ctx, user._id, args.documentId, "read");
+    const results = await ctx.db
+      .query("analysisResults")
+      .withIndex("by_documentId", (q) => q.eq("documentId", args.documentId))
+      .collect();
+
+    return results.map((result, index) => ({
+      _id: result._id,
+      version: result.version ?? index + 1,
+      model: result.metadata.model,
+      promptVersion: result.metadata.promptVersion ?? null,
+      processedAt: result.metadata.processedAt,
+      totalSpent: result.analysis?.totalSpent ?? result.data.totalAmount ?? null,
+      transactionCount: result.analysis?.transactions.length ?? null,
+      available: result.analysis !== undefined, // Runs saved before versioning only kept totals
+      active: result._id === doc.activeResultId,
+    }));
+  },
+});
+
+// 14. [Read] What changed between two versions
+export const compareVersions = query({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+    fromResultId: v.id("analysisResults"),
+    toResultId: v.id("analysisResults"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireDocument(ctx, user._id, args.documentId, "read");
+    const [from, to] = await Promise.all([ctx.db.get(args.fromResultId), ctx.db.get(args.toResultId)]);
+
+    if (!from?.analysis || !to?.analysis || from.documentId !== args.documentId || to.documentId !== args.documentId) {
+      throw new Error("Version not available for comparison");
+    }
+
+    return diffAnalyses(from.analysis, to.analysis);
+  },
+});
+
+// 15. [Update] Make an earlier (or later) version the active one
+export const selectVersion = mutation({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+    resultId: v.id("analysisResults"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const result = await ctx.db.get(args.resultId);
+
+    if (!result?.analysis || result.documentId !== args.documentId) {
+      throw new Error("Version not available");
+    }
+
+    if (isInProgress(doc.status)) {
+      throw new Error("Wait for the running analysis to finish");
+    }
+
+    // The current registry and rules still override the model in whichever version is active, and hand edits
+    // are replayed over it. A saved version is a finished result, so this also settles a failed re-analysis.
+    if (doc.status !== "completed") {
+      await recordStatusChange(ctx, doc, "completed", { actorId: user._id });
+    }
+    await recordDocumentEvent(ctx, doc, {
+      type: "version_selected",
+      actorId: user._id,
+      detail: result.version !== undefined ? `Version ${result.version}` : undefined,
+    });
+    const analysis = await applyStoredEdits(ctx, doc, {
+      ...result.analysis,
+      transactions: await categorizeTransactions(ctx, doc, result.analysis.transactions),
+    });
     await ctx.db.patch(args.documentId, {
-      analysis: args.analysis,
-      status: "completed", // Update status to completed when saving
+      analysis,
+      activeResultId: result._id,
+      status: "completed",
+    });
+    await syncDocumentTransactions(ctx, { ...doc, analysis });
+
+    return { success: true };
+  },
+});
+
+// 16. [Export] The active version's transactions as CSV. A mutation, not a query, so the export is recorded.
+export const exportTransactions = mutation({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "read");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+
+    if (!doc.analysis) {
+      throw new Error("Only analysed documents can be exported");
+    }
+
+    await recordDocumentEvent(ctx, doc, {
+      type: "exported",
+      actorId: user._id,
+      detail: `CSV, ${doc.analysis.transactions.length} transactions`,
     });
+    return {
+      filename: exportFilename(doc.title),
+      csv: transactionsToCsv(doc.analysis.transactions, doc.analysis.currency),
+    };
+  },
+});
+
+// 17. [Resolve] Answer an overlap with earlier documents (editors and owners): skip drops this upload,
+// replace drops the earlier documents, merge keeps both and counts their shared transactions once
+export const resolveOverlap = mutation({
+  args: {
+    documentId: v.id("documents"),
+    sessionToken: v.string(),
+    resolution: overlapResolutionValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, args.resolution === "merge" ? "update" : "delete");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const overlap = doc.overlap;
+    if (!overlap) {
+      throw new Error("This document doesn't overlap another one");
+    }
+
+    if (args.resolution === "skip") {
+      await recordDocumentEvent(ctx, doc, { type: "overlap_resolved", actorId: user._id, detail: "Skipped this upload" });
+      await removeDocument(ctx, doc, user._id);
+      return { success: true };
+    }
+
+    if (args.resolution === "merge") {
+      if (!overlap.merged) {
+        await ctx.db.patch(doc._id, { overlap: { ...overlap, merged: true } });
+        await recordDocumentEvent(ctx, doc, {
+          type: "overlap_resolved",
+          actorId: user._id,
+          detail: "Kept both, shared transactions counted once",
+        });
+        if (overlap.kind === "duplicate") {
+          await startProcessing(ctx, doc);
+        }
+      }
+      return { success: true };
+    }
+
+    // Replace: every earlier document must be deletable before any of them is deleted
+    const earlier: Doc<"documents">[] = [];
+    for (const id of overlap.documentIds) {
+      if (!(await ctx.db.get(id))) continue; // Gone with its uploader's account
+      const other = await authorizeDocument(ctx, user._id, id, "delete");
+      if (!other.ok) {
+        return await denyAccess(ctx, user._id, "document", id, other.error);
+      }
+      earlier.push(other.value);
+    }
+    // Deleting the last of them settles this document's overlap
+    for (const other of earlier) {
+      await removeDocument(ctx, other, user._id);
+    }
+    const current = await ctx.db.get(doc._id);
+    if (current?.overlap) {
+      await settleOverlap(ctx, current, user._id, "Replaced the earlier documents");
+    }
+    return { success: true };
   },
 });
+
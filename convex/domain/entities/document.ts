@@ -1,2 +1,61 @@
 // Document domain model class/type
 
+export type DocumentStatus =
+  | "pending"     // Just uploaded
+  | "extracting"  // Text is being pulled from PDF
+  | "analyzing"   // LLM is processing the text
+  | "completed"   // Successfully analyzed
+  | "failed";     // Terminal error state
+
+// Kind of file the statement was uploaded as. PDFs go through the model;
+// bank exports already hold structured rows and are parsed deterministically.
+export const STATEMENT_FORMATS = ["pdf", "csv", "ofx", "qif"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+// Allowed moves of the processing state machine.
+// Every in-flight state may fall into "failed" so a crash never leaves a document hanging.
+// A retry sends "failed" back to "pending"; a retry of the analysis step skips extraction.
+// A re-analysis sends "completed" back to "pending" to produce a new version of the result.
+const STATUS_TRANSITIONS: Record<DocumentStatus, readonly DocumentStatus[]> = {
+  pending: ["extracting", "analyzing", "failed"],
+  extracting: ["analyzing", "failed"],
+  analyzing: ["completed", "failed"],
+  completed: ["pending"],
+  failed: ["pending"],
+};
+
+// Chunk-level progress of the analysis step for long statements
+export interface AnalysisProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export function canTransition(from: DocumentStatus, to: DocumentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Documents created before imports existed have no format and are PDFs
+export function isStructuredFormat(format: StatementFormat | undefined): format is Exclude<StatementFormat, "pdf"> {
+  return format !== undefined && format !== "pdf";
+}
+
+export function isInProgress(status: DocumentStatus): boolean {
+  return status === "pending" || status === "extracting" || status === "analyzing";
+}
+
+// What the audit trail records about a document. Status moves are "status_changed";
+// everything else is an action on the document by a member or by the pipeline.
+export const DOCUMENT_EVENT_TYPES = [
+  "uploaded",
+  "status_changed",
+  "analysis_saved",
+  "recategorized",
+  "version_selected",
+  "exported",
+  "deleted",
+  "overlap_found",
+  "overlap_resolved",
+  "edited",
+  "merchants_renamed",
+] as const;
+export type DocumentEventType = (typeof DOCUMENT_EVENT_TYPES)[number];
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { SessionState, isSessionActive, normalizeDeviceLabel } from "./session";
+
+describe("isSessionActive", () => {
+  const CASES: Array<[string, SessionState, boolean]> = [
+    ["a session before it expires", { expiresAt: 2000 }, true],
+    ["a session at its expiry", { expiresAt: 1000 }, false],
+    ["a revoked session", { expiresAt: 2000, revokedAt: 500 }, false],
+  ];
+
+  for (const [name, session, expected] of CASES) {
+    it(`${expected ? "accepts" : "refuses"} ${name}`, () => {
+      expect(isSessionActive(session, 1000)).toBe(expected);
+    });
+  }
+});
+
+describe("normalizeDeviceLabel", () => {
+  const CASES: Array<[string | undefined, string | undefined]> = [
+    ["  Chrome on macOS ", "Chrome on macOS"],
+    ["   ", undefined],
+    [undefined, undefined],
+    ["x".repeat(100), "x".repeat(80)],
+  ];
+
+  for (const [label, expected] of CASES) {
+    it(`turns ${JSON.stringify(label?.slice(0, 20))} into ${JSON.stringify(expected?.slice(0, 20))}`, () => {
+      expect(normalizeDeviceLabel(label)).toEqual(expected);
+    });
+  }
+});
@@ -0,0 +1,21 @@
+// Session domain model
+
+// How long a sign-in lasts before the user has to enter their password again
+export const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+
+export interface SessionState {
+  expiresAt: number;
+  revokedAt?: number;
+}
+
+export function isSessionActive(session: SessionState, now: number): boolean {
+  return session.revokedAt === undefined && session.expiresAt > now;
+}
+
+const MAX_DEVICE_LABEL_LENGTH = 80;
+
+// Client-supplied ("Chrome on macOS"), so it is only ever shown back to the same user
+export function normalizeDeviceLabel(label: string | undefined): string | undefined {
+  const trimmed = label?.trim().slice(0, MAX_DEVICE_LABEL_LENGTH);
+  return trimmed || undefined;
+}
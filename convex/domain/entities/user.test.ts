@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { Profile, isPendingDeletion, validateProfile } from "./user";
+
+describe("validateProfile", () => {
+  const ACCEPTED: Array<[string, Profile, Profile]> = [
+    ["trims the name and lower-cases the email", { name: "  Sam ", email: " Sam@Example.COM " }, { name: "Sam", email: "sam@example.com" }],
+    ["clears blank fields", { name: "  ", email: "" }, { name: undefined, email: undefined }],
+    ["leaves out fields not given", {}, { name: undefined, email: undefined }],
+    ["allows a 50-character name", { name: "x".repeat(50) }, { name: "x".repeat(50), email: undefined }],
+  ];
+
+  for (const [name, input, expected] of ACCEPTED) {
+    it(name, () => {
+      expect(validateProfile(input)).toEqual({ ok: true, value: expected });
+    });
+  }
+
+  const REFUSED: Array<[string, Profile, string]> = [
+    ["a name over 50 characters", { name: "x".repeat(51) }, "Name must be at most 50 characters"],
+    ["an email without a domain", { email: "sam@" }, "Email address is not valid"],
+    ["an email with spaces", { email: "sam smith@example.com" }, "Email address is not valid"],
+    ["an email over 254 characters", { email: `${"x".repeat(250)}@ex.com` }, "Email address is not valid"],
+  ];
+
+  for (const [name, input, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(validateProfile(input)).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("isPendingDeletion", () => {
+  it("is set by a deletion request", () => {
+    expect(isPendingDeletion({})).toBe(false);
+    expect(isPendingDeletion({ deletionRequestedAt: 0 })).toBe(true);
+  });
+});
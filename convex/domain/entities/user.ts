@@ -0,0 +1,37 @@
+// User domain model
+
+import { Result, err, ok } from "../types/result";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_EMAIL_LENGTH = 254;
+// Deliberately loose: the address is only shown back to the user, never sent mail
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface Profile {
+  name?: string;
+  email?: string;
+}
+
+// Blank fields clear the value
+export function validateProfile(input: Profile): Result<Profile, string> {
+  const name = input.name?.trim() || undefined;
+  const email = input.email?.trim().toLowerCase() || undefined;
+
+  if (name !== undefined && name.length > MAX_NAME_LENGTH) {
+    return err(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (email !== undefined && (email.length > MAX_EMAIL_LENGTH || !EMAIL_REGEX.test(email))) {
+    return err("Email address is not valid");
+  }
+  return ok({ name, email });
+}
+
+// An account being deleted is signed out everywhere and can't sign in while its data is purged
+export function isPendingDeletion(user: { deletionRequestedAt?: number }): boolean {
+  return user.deletionRequestedAt !== undefined;
+}
+
+// Names default to "User <code>"; the code is a sign-in secret, so other people see a placeholder instead
+export function displayName(user: { code: string; name?: string }): string {
+  return user.name && user.name !== `User ${user.code}` ? user.name : "Unnamed member";
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { WorkspaceRole, checkMembershipChange, hasRole, successorOwner, validateWorkspaceName } from "./workspace";
+
+describe("hasRole", () => {
+  const CASES: Array<[WorkspaceRole, WorkspaceRole, boolean]> = [
+    ["owner", "editor", true],
+    ["editor", "editor", true],
+    ["viewer", "editor", false],
+    ["editor", "owner", false],
+    ["viewer", "viewer", true],
+  ];
+
+  for (const [role, atLeast, expected] of CASES) {
+    it(`${expected ? "counts" : "doesn't count"} a ${role} as at least a ${atLeast}`, () => {
+      expect(hasRole(role, atLeast)).toBe(expected);
+    });
+  }
+});
+
+describe("validateWorkspaceName", () => {
+  const CASES: Array<[string, ReturnType<typeof validateWorkspaceName>]> = [
+    ["  Home ", { ok: true, value: "Home" }],
+    ["   ", { ok: false, error: "Workspace name is required" }],
+    ["x".repeat(51), { ok: false, error: "Workspace name must be at most 50 characters" }],
+  ];
+
+  for (const [name, expected] of CASES) {
+    it(`checks ${JSON.stringify(name.slice(0, 10))}`, () => {
+      expect(validateWorkspaceName(name)).toEqual(expected);
+    });
+  }
+});
+
+describe("checkMembershipChange", () => {
+  const members = [
+    { userId: "a", role: "owner" as const },
+    { userId: "b", role: "editor" as const },
+  ];
+
+  const CASES: Array<[string, typeof members, string, WorkspaceRole | null, string | null]> = [
+    ["promotes an editor", members, "b", "owner", null],
+    ["removes an editor", members, "b", null, null],
+    ["refuses someone who isn't a member", members, "c", "viewer", "Not a member of this workspace"],
+    ["keeps the last owner", members, "a", "editor", "Make someone else an owner first"],
+    ["keeps the last owner from leaving others behind", members, "a", null, "Make someone else an owner first"],
+    ["lets an owner step down when another remains", [...members, { userId: "c", role: "owner" as const }], "a", "viewer", null],
+    ["keeps the only member", [members[0]], "a", null, "You are the only member of this workspace"],
+  ];
+
+  for (const [name, list, userId, newRole, error] of CASES) {
+    it(name, () => {
+      expect(checkMembershipChange(list, userId, newRole)).toEqual(error === null ? { ok: true, value: undefined } : { ok: false, error });
+    });
+  }
+});
+
+describe("successorOwner", () => {
+  const members = [
+    { userId: "a", role: "owner" as const, joinedAt: 1 },
+    { userId: "c", role: "viewer" as const, joinedAt: 3 },
+    { userId: "b", role: "editor" as const, joinedAt: 2 },
+  ];
+
+  it("hands the workspace to the longest-standing member", () => {
+    expect(successorOwner(members, "a")?.userId).toBe("b");
+  });
+
+  it("isn't needed while another owner remains", () => {
+    expect(successorOwner([...members, { userId: "d", role: "owner", joinedAt: 4 }], "a")).toBeNull();
+  });
+
+  it("finds nobody when no one remains", () => {
+    expect(successorOwner([members[0]], "a")).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+// Workspace (household) domain model
+
+import { Result, err, ok } from "../types/result";
+
+// Ordered from least to most privileged
+export const WORKSPACE_ROLES = ["viewer", "editor", "owner"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+// Invite codes are single-use and short-lived: they are read out or texted, not kept
+export const INVITE_TTL_MS = 1000 * 60 * 60 * 24 * 7;
+
+const MAX_NAME_LENGTH = 50;
+
+export function hasRole(role: WorkspaceRole, atLeast: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(atLeast);
+}
+
+export function validateWorkspaceName(name: string): Result<string, string> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return err("Workspace name is required");
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    return err(`Workspace name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return ok(trimmed);
+}
+
+interface Member {
+  userId: string;
+  role: WorkspaceRole;
+}
+
+// A workspace always keeps an owner: the last one can't be demoted or removed while others remain
+export function checkMembershipChange(
+  members: readonly Member[],
+  userId: string,
+  newRole: WorkspaceRole | null // null = leaving / removed
+): Result<void, string> {
+  const target = members.find((m) => m.userId === userId);
+  if (!target) {
+    return err("Not a member of this workspace");
+  }
+
+  // Documents can't be left without a workspace
+  if (newRole === null && members.length === 1) {
+    return err("You are the only member of this workspace");
+  }
+
+  const otherOwners = members.filter((m) => m.role === "owner" && m.userId !== userId).length;
+  if (target.role === "owner" && newRole !== "owner" && otherOwners === 0) {
+    return err("Make someone else an owner first");
+  }
+  return ok(undefined);
+}
+
+// Who takes over when the last owner's account is deleted: the longest-standing member
+export function successorOwner<T extends Member & { joinedAt: number }>(members: readonly T[], leavingUserId: string): T | null {
+  const remaining = members.filter((m) => m.userId !== leavingUserId);
+  if (remaining.some((m) => m.role === "owner")) {
+    return null;
+  }
+  return [...remaining].sort((a, b) => a.joinedAt - b.joinedAt)[0] ?? null;
+}
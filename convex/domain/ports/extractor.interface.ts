@@ -0,0 +1,20 @@
+// ITextExtractor interface
+
+import { Result } from "../types/result";
+
+export type ExtractionErrorCode =
+  | "FILE_NOT_FOUND"   // storageId no longer points at a file
+  | "DOWNLOAD_FAILED"  // Storage returned a non-OK response
+  | "PARSE_FAILED"     // The file could not be parsed (corrupt, encrypted, not a PDF)
+  | "EMPTY_TEXT"       // Parsed fine but contains no text (e.g. a scanned image) or no transactions
+  | "MISSING_COLUMNS"; // A CSV export has no recognisable date, description or amount column
+
+export interface ExtractionError {
+  code: ExtractionErrorCode;
+  message: string;
+}
+
+export interface ITextExtractor {
+  // One entry per page, so long statements can be analysed in page-aligned chunks
+  extract(storageId: string): Promise<Result<string[], ExtractionError>>;
+}
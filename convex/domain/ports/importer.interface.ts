@@ -0,0 +1,41 @@
+// IStatementImporter interface
+
+import { Result } from "../types/result";
+import { StatementFormat } from "../entities/document";
+import { ExtractionError } from "./extractor.interface";
+
+export type StructuredFormat = Exclude<StatementFormat, "pdf">;
+
+// CSV header names picked by the user. Any column left out is detected from the header.
+// Exports either have one signed amount column or separate debit/credit columns.
+export interface CsvColumnMapping {
+  date?: string;
+  merchant?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  currency?: string;
+}
+
+// One transaction exactly as the bank exported it.
+// amount is money out as positive and money in as negative, whatever the file's own sign convention.
+// Values the parser could not read are passed on raw so validation rejects the row with a reason.
+export interface ImportedRow {
+  date: string; // YYYY-MM-DD when the parser understood it
+  merchant: string;
+  amount: number | string;
+  currency?: string;
+}
+
+export interface ImportedStatement {
+  currency?: string; // Account currency when the format declares one (OFX CURDEF)
+  rows: ImportedRow[];
+}
+
+export interface IStatementImporter {
+  import(
+    storageId: string,
+    format: StructuredFormat,
+    mapping?: CsvColumnMapping
+  ): Promise<Result<ImportedStatement, ExtractionError>>;
+}
@@ -1,2 +1,53 @@
 // ILLMClient interface
 
+import { Result } from "../types/result";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// What a model returns for one statement, before the domain derives period/averages.
+export interface StatementAnalysis {
+  currency?: string; // Billing currency as detected by the model
+  totalSpent: number;
+  transactions: unknown[]; // Raw rows, validated by the domain before use
+  summary?: string;
+  advice?: string;
+}
+
+export interface LLMAnalysisResponse {
+  analysis: StatementAnalysis;
+  usage: TokenUsage;
+  model: string;
+}
+
+// One raw category label per merchant, in the order the merchants were sent.
+// Labels are validated by the domain, like transaction rows.
+export interface LLMCategorizationResponse {
+  categories: unknown[];
+  usage: TokenUsage;
+  model: string;
+}
+
+export type LLMErrorCode =
+  | "MODEL_TIMEOUT"   // Provider did not answer in time
+  | "INVALID_FORMAT"  // Response was not the JSON we asked for
+  | "EMPTY_RESPONSE"  // Provider answered with no content
+  | "PROVIDER_ERROR"; // Auth, rate limit, network or any other provider failure
+
+export interface LLMError {
+  code: LLMErrorCode;
+  message: string;
+}
+
+// Any model provider (or a fake) must satisfy this contract to be used by the pipeline.
+export interface ILLMClient {
+  readonly model: string;
+  // Bumped whenever the prompts change, so each saved analysis says which prompts produced it
+  readonly promptVersion: string;
+  analyzeStatement(text: string): Promise<Result<LLMAnalysisResponse, LLMError>>;
+  // Used for imported bank exports, where the rows are already known and only categories are missing
+  categorizeMerchants(merchants: readonly string[]): Promise<Result<LLMCategorizationResponse, LLMError>>;
+}
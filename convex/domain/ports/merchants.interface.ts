@@ -0,0 +1,8 @@
+// IMerchantRepository interface
+
+import { Merchant } from "../services/merchants";
+
+export interface IMerchantRepository {
+  // The registry of the document's workspace, oldest merchant first (empty outside a workspace)
+  merchantsForDocument(documentId: string): Promise<Merchant[]>;
+}
@@ -0,0 +1,7 @@
+// IExchangeRateRepository interface
+
+import { ExchangeRate } from "../services/currency";
+
+export interface IExchangeRateRepository {
+  getRates(currencies: readonly string[]): Promise<ExchangeRate[]>;
+}
@@ -1,2 +1,18 @@
 // IRepository interface
 
+import { AnalysisProgress, DocumentStatus } from "../entities/document";
+import { AnalysisRunMetadata, FinancialAnalysis } from "../types/analysis";
+import { PipelineError } from "../types/errors";
+
+// Persistence boundary for the analysis pipeline.
+// IDs are plain strings so the domain never depends on Convex types.
+export interface IDocumentRepository {
+  updateStatus(documentId: string, status: DocumentStatus): Promise<void>;
+  saveAnalysis(documentId: string, analysis: FinancialAnalysis, metadata: AnalysisRunMetadata): Promise<void>;
+  // Moves the document to "failed" and records why, in one write
+  markFailed(documentId: string, error: PipelineError): Promise<void>;
+  updateProgress(documentId: string, progress: AnalysisProgress): Promise<void>;
+  // Extracted pages are kept so a retry of the analysis step doesn't re-parse the file
+  saveExtractedText(documentId: string, pages: string[]): Promise<void>;
+  getExtractedText(documentId: string): Promise<string[] | null>;
+}
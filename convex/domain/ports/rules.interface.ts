@@ -0,0 +1,8 @@
+// ICategoryRuleRepository interface
+
+import { CategoryRule } from "../services/category-rules";
+
+export interface ICategoryRuleRepository {
+  // Rules of the document's owner, in the order they are applied
+  rulesForDocument(documentId: string): Promise<CategoryRule[]>;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { diffAnalyses } from "./analysis-diff";
+import { TransactionCategory } from "../types/analysis";
+
+const row = (merchant: string, amount: number, category: TransactionCategory = "Food", currency = "GBP") => ({
+  date: "2024-03-01",
+  merchant,
+  amount,
+  currency,
+  category,
+});
+
+const analysis = (transactions: ReturnType<typeof row>[], summary = "s", advice = "a") => ({
+  totalSpent: transactions.reduce((sum, t) => sum + t.amount, 0),
+  transactions,
+  summary,
+  advice,
+});
+
+describe("diffAnalyses", () => {
+  it("finds nothing between identical versions", () => {
+    const version = analysis([row("Tesco", 5), row("Costa", 3)]);
+    expect(diffAnalyses(version, version)).toEqual({
+      totalSpent: { from: 8, to: 8 },
+      added: [],
+      removed: [],
+      recategorized: [],
+      unchanged: 2,
+      summaryChanged: false,
+      adviceChanged: false,
+    });
+  });
+
+  it("lists rows only one version has", () => {
+    const diff = diffAnalyses(analysis([row("Tesco", 5), row("Costa", 3)]), analysis([row("Tesco", 5), row("Boots", 4)]));
+    expect(diff.added).toEqual([row("Boots", 4)]);
+    expect(diff.removed).toEqual([row("Costa", 3)]);
+    expect(diff.totalSpent).toEqual({ from: 8, to: 9 });
+  });
+
+  it("reports a category change rather than a removed and added row", () => {
+    const diff = diffAnalyses(analysis([row("Tesco", 5, "Shopping")]), analysis([row(" TESCO ", 5, "Food")]));
+    expect(diff.recategorized).toEqual([{ transaction: row(" TESCO ", 5, "Food"), from: "Shopping", to: "Food" }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it("matches repeated rows one to one", () => {
+    const diff = diffAnalyses(analysis([row("Costa", 3), row("Costa", 3)]), analysis([row("Costa", 3)]));
+    expect(diff.unchanged).toBe(1);
+    expect(diff.removed).toEqual([row("Costa", 3)]);
+  });
+
+  it("tells the same amount in another currency apart", () => {
+    const diff = diffAnalyses(analysis([row("Costa", 3)]), analysis([row("Costa", 3, "Food", "EUR")]));
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(1);
+  });
+
+  it("notices a new summary or advice", () => {
+    const rows = [row("Tesco", 5)];
+    expect(diffAnalyses(analysis(rows), analysis(rows, "other"))).toMatchObject({ summaryChanged: true, adviceChanged: false });
+    expect(diffAnalyses(analysis(rows), analysis(rows, "s", "other"))).toMatchObject({ summaryChanged: false, adviceChanged: true });
+  });
+});
@@ -0,0 +1,60 @@
+// Comparison of two versions of a document's analysis
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+
+type DiffTransaction = Pick<Transaction, "date" | "merchant" | "amount" | "category"> & { currency?: string };
+
+interface DiffableAnalysis {
+  totalSpent: number;
+  transactions: readonly DiffTransaction[];
+  summary?: string;
+  advice?: string;
+}
+
+export interface AnalysisDiff {
+  totalSpent: { from: number; to: number };
+  added: DiffTransaction[];   // Only in the newer version
+  removed: DiffTransaction[]; // Only in the older version
+  recategorized: Array<{ transaction: DiffTransaction; from: TransactionCategory; to: TransactionCategory }>;
+  unchanged: number;
+  summaryChanged: boolean;
+  adviceChanged: boolean;
+}
+
+// Rows are the same transaction when date, merchant, amount and currency agree.
+// Statements can legitimately repeat a row (two identical coffees), so matching is one-to-one.
+export function diffAnalyses(from: DiffableAnalysis, to: DiffableAnalysis): AnalysisDiff {
+  const unmatched = new Map<string, DiffTransaction[]>();
+  for (const t of from.transactions) {
+    const key = transactionKey(t);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), t]);
+  }
+
+  const added: DiffTransaction[] = [];
+  const recategorized: AnalysisDiff["recategorized"] = [];
+  let unchanged = 0;
+  for (const t of to.transactions) {
+    const previous = unmatched.get(transactionKey(t))?.shift();
+    if (!previous) {
+      added.push(t);
+    } else if (previous.category !== t.category) {
+      recategorized.push({ transaction: t, from: previous.category, to: t.category });
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    totalSpent: { from: from.totalSpent, to: to.totalSpent },
+    added,
+    removed: [...unmatched.values()].flat(),
+    recategorized,
+    unchanged,
+    summaryChanged: (from.summary ?? "") !== (to.summary ?? ""),
+    adviceChanged: (from.advice ?? "") !== (to.advice ?? ""),
+  };
+}
+
+function transactionKey(t: DiffTransaction): string {
+  return [t.date, t.merchant.trim().toLowerCase(), t.amount.toFixed(2), t.currency ?? ""].join("|");
+}
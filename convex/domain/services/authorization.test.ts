@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  AccessAction,
+  DocumentAction,
+  checkDocumentAccess,
+  checkStorageAccess,
+  checkStorageClaim,
+  checkWorkspaceAccess,
+  isAccessDenied,
+} from "./authorization";
+import { WorkspaceRole } from "../entities/workspace";
+
+const OWNER = "user-owner";
+const OTHER = "user-other";
+const WORKSPACE = "workspace-1";
+
+const DOCUMENT_ACTIONS: DocumentAction[] = ["create", "read", "update", "delete", "retry", "reanalyze", "extract"];
+const ROLES: WorkspaceRole[] = ["owner", "editor", "viewer"];
+
+// Which actions each role may take; everything else is insufficient_role
+const ALLOWED: Record<WorkspaceRole, AccessAction[]> = {
+  owner: [...DOCUMENT_ACTIONS, "manage"],
+  editor: DOCUMENT_ACTIONS,
+  viewer: ["read", "extract"],
+};
+
+const roleMessage = (role: WorkspaceRole) => `${role === "viewer" ? "A" : "An"} ${role} can't do this in this workspace`;
+
+const workspaceDoc = { ownerId: OWNER, workspaceId: WORKSPACE };
+const legacyDoc = { ownerId: OWNER }; // From before workspaces
+
+describe("checkWorkspaceAccess", () => {
+  for (const role of ROLES) {
+    for (const action of [...DOCUMENT_ACTIONS, "manage"] as AccessAction[]) {
+      const allowed = ALLOWED[role].includes(action);
+      it(`${allowed ? "lets" : "stops"} a ${role} ${action}`, () => {
+        const access = checkWorkspaceAccess(role, action);
+        if (allowed) {
+          expect(access).toEqual({ ok: true, value: role });
+        } else {
+          expect(access).toEqual({
+            ok: false,
+            error: { action, reason: "insufficient_role", message: roleMessage(role) },
+          });
+        }
+      });
+    }
+  }
+
+  it("stops a non-member whatever the action", () => {
+    for (const action of [...DOCUMENT_ACTIONS, "manage"] as AccessAction[]) {
+      expect(checkWorkspaceAccess(null, action)).toEqual({
+        ok: false,
+        error: { action, reason: "not_member", message: "Workspace not found" },
+      });
+    }
+  });
+});
+
+describe("checkDocumentAccess", () => {
+  it("reports a missing document as not_found", () => {
+    expect(checkDocumentAccess(OWNER, null, "owner", "read")).toEqual({
+      ok: false,
+      error: { action: "read", reason: "not_found", message: "Document not found" },
+    });
+  });
+
+  for (const role of ROLES) {
+    for (const action of DOCUMENT_ACTIONS) {
+      const allowed = ALLOWED[role].includes(action);
+      it(`${allowed ? "lets" : "stops"} a workspace ${role} ${action} a document`, () => {
+        const access = checkDocumentAccess(OTHER, workspaceDoc, role, action);
+        if (allowed) {
+          expect(access).toEqual({ ok: true, value: workspaceDoc });
+        } else {
+          // Members are told it's their role
+          expect(access).toEqual({
+            ok: false,
+            error: { action, reason: "insufficient_role", message: roleMessage(role) },
+          });
+        }
+      });
+    }
+  }
+
+  it("hides a workspace document from a non-member behind the not-found message", () => {
+    for (const action of DOCUMENT_ACTIONS) {
+      expect(checkDocumentAccess(OTHER, workspaceDoc, null, action)).toEqual({
+        ok: false,
+        error: { action, reason: "not_member", message: "Document not found" },
+      });
+    }
+  });
+
+  it("lets the uploader of a document from before workspaces do anything with it", () => {
+    for (const action of DOCUMENT_ACTIONS) {
+      expect(checkDocumentAccess(OWNER, legacyDoc, null, action)).toEqual({ ok: true, value: legacyDoc });
+    }
+  });
+
+  it("stops anyone else on a document from before workspaces, whatever their role", () => {
+    for (const role of [...ROLES, null]) {
+      expect(checkDocumentAccess(OTHER, legacyDoc, role, "read")).toEqual({
+        ok: false,
+        error: { action: "read", reason: "not_owner", message: "Document not found" },
+      });
+    }
+  });
+});
+
+describe("checkStorageAccess", () => {
+  it("reports a file no document uses as not_found", () => {
+    expect(checkStorageAccess(OWNER, [], "extract")).toEqual({
+      ok: false,
+      error: { action: "extract", reason: "not_found", message: "Document not found" },
+    });
+  });
+
+  for (const role of ROLES) {
+    it(`lets a workspace ${role} read a file behind one of its documents`, () => {
+      expect(checkStorageAccess(OTHER, [{ doc: workspaceDoc, role }], "extract")).toEqual({ ok: true, value: workspaceDoc });
+    });
+  }
+
+  it("stops a viewer from a write action on the file", () => {
+    expect(checkStorageAccess(OTHER, [{ doc: workspaceDoc, role: "viewer" }], "update")).toEqual({
+      ok: false,
+      error: { action: "update", reason: "not_owner", message: "Document not found" },
+    });
+  });
+
+  it("stops a non-member with the not-found message", () => {
+    expect(checkStorageAccess(OTHER, [{ doc: workspaceDoc, role: null }], "extract")).toEqual({
+      ok: false,
+      error: { action: "extract", reason: "not_owner", message: "Document not found" },
+    });
+  });
+
+  it("is satisfied by any one of the documents using the file", () => {
+    const mine = { ownerId: OTHER, workspaceId: "workspace-2" };
+    expect(
+      checkStorageAccess(OTHER, [{ doc: workspaceDoc, role: null }, { doc: mine, role: "viewer" }], "extract")
+    ).toEqual({ ok: true, value: mine });
+  });
+
+  it("lets the uploader read a file behind a document from before workspaces", () => {
+    expect(checkStorageAccess(OWNER, [{ doc: legacyDoc, role: null }], "extract")).toEqual({ ok: true, value: legacyDoc });
+    expect(checkStorageAccess(OTHER, [{ doc: legacyDoc, role: null }], "extract").ok).toBe(false);
+  });
+});
+
+describe("checkStorageClaim", () => {
+  it("allows a file no document uses yet", () => {
+    expect(checkStorageClaim(OWNER, [])).toEqual({ ok: true, value: undefined });
+  });
+
+  it("allows a file only the uploader's own documents use (a re-upload)", () => {
+    expect(checkStorageClaim(OWNER, [workspaceDoc, legacyDoc])).toEqual({ ok: true, value: undefined });
+  });
+
+  it("refuses a file behind someone else's document, even a workspace member's", () => {
+    for (const docs of [[workspaceDoc], [{ ownerId: OTHER, workspaceId: WORKSPACE }, workspaceDoc]]) {
+      expect(checkStorageClaim(OTHER, docs)).toEqual({
+        ok: false,
+        error: { action: "create", reason: "not_owner", message: "File not found" },
+      });
+    }
+  });
+});
+
+describe("isAccessDenied", () => {
+  it("recognises only a denial", () => {
+    expect(isAccessDenied({ denied: true, message: "Document not found" })).toBe(true);
+    expect(isAccessDenied({ success: true })).toBe(false);
+    expect(isAccessDenied(null)).toBe(false);
+  });
+});
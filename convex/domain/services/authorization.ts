@@ -0,0 +1,114 @@
+// Access policy for workspaces, documents and their stored files
+
+import { WorkspaceRole, hasRole } from "../entities/workspace";
+import { Result, err, ok } from "../types/result";
+
+export type DocumentAction = "create" | "read" | "update" | "delete" | "retry" | "reanalyze" | "extract";
+export type AccessAction = DocumentAction | "manage"; // manage = members, invites and settings of a workspace
+
+export type AccessDenialReason =
+  | "not_found"         // No such document (or file) - possibly an id being probed
+  | "not_owner"         // Exists, but belongs to someone else
+  | "not_member"        // Not in the workspace at all
+  | "insufficient_role"; // In the workspace, but e.g. a viewer trying to edit
+
+export interface AccessDenial {
+  action: AccessAction;
+  reason: AccessDenialReason;
+  message: string;
+}
+
+// What a denied mutation returns instead of throwing, so the audit record it wrote is committed
+export interface AccessDenied {
+  denied: true;
+  message: string;
+}
+
+// Least role each action needs within a workspace
+const REQUIRED_ROLE: Record<AccessAction, WorkspaceRole> = {
+  read: "viewer",
+  extract: "viewer",
+  create: "editor",
+  update: "editor",
+  delete: "editor",
+  retry: "editor",
+  reanalyze: "editor",
+  manage: "owner",
+};
+
+interface OwnedResource {
+  ownerId: string;      // Uploader
+  workspaceId?: string; // Absent on documents from before workspaces: only the uploader may use them
+}
+
+// Both reasons share one message so callers can't tell someone else's document from a missing one
+const DENIAL_MESSAGE = "Document not found";
+
+// `role` is the actor's role in the workspace in question, null when they aren't a member
+export function checkWorkspaceAccess(role: WorkspaceRole | null, action: AccessAction): Result<WorkspaceRole, AccessDenial> {
+  if (role === null) {
+    return err({ action, reason: "not_member", message: "Workspace not found" });
+  }
+  if (!hasRole(role, REQUIRED_ROLE[action])) {
+    const article = role === "viewer" ? "A" : "An";
+    return err({ action, reason: "insufficient_role", message: `${article} ${role} can't do this in this workspace` });
+  }
+  return ok(role);
+}
+
+// `role` is the actor's role in the document's workspace
+export function checkDocumentAccess<T extends OwnedResource>(
+  actorId: string,
+  doc: T | null,
+  role: WorkspaceRole | null,
+  action: DocumentAction
+): Result<T, AccessDenial> {
+  if (!doc) {
+    return err({ action, reason: "not_found", message: DENIAL_MESSAGE });
+  }
+
+  if (doc.workspaceId === undefined) {
+    return doc.ownerId === actorId ? ok(doc) : err({ action, reason: "not_owner", message: DENIAL_MESSAGE });
+  }
+
+  const access = checkWorkspaceAccess(role, action);
+  if (!access.ok) {
+    // Outsiders learn nothing; members are told it's their role
+    return err(access.error.reason === "not_member" ? { ...access.error, message: DENIAL_MESSAGE } : access.error);
+  }
+  return ok(doc);
+}
+
+// A stored file is readable by whoever may read a document made from it.
+// The same file may back several documents (e.g. re-uploads), any one of them is enough.
+export function checkStorageAccess<T extends OwnedResource>(
+  actorId: string,
+  docsUsingFile: ReadonlyArray<{ doc: T; role: WorkspaceRole | null }>,
+  action: DocumentAction
+): Result<T, AccessDenial> {
+  for (const { doc, role } of docsUsingFile) {
+    if (checkDocumentAccess(actorId, doc, role, action).ok) {
+      return ok(doc);
+    }
+  }
+  return err({
+    action,
+    reason: docsUsingFile.length === 0 ? "not_found" : "not_owner",
+    message: DENIAL_MESSAGE,
+  });
+}
+
+// A new document may only point at a file nobody else has claimed
+export function checkStorageClaim<T extends OwnedResource>(
+  actorId: string,
+  docsUsingFile: readonly T[]
+): Result<void, AccessDenial> {
+  if (docsUsingFile.some((doc) => doc.ownerId !== actorId)) {
+    return err({ action: "create", reason: "not_owner", message: "File not found" });
+  }
+  return ok(undefined);
+}
+
+export function isAccessDenied(value: unknown): value is AccessDenied {
+  return typeof value === "object" && value !== null && (value as AccessDenied).denied === true;
+}
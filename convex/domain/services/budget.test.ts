@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { BudgetStatus, budgetProgress, monthOf, monthlySpending, validateBudgetLimit } from "./budget";
+import { buildRateTable } from "./currency";
+
+describe("validateBudgetLimit", () => {
+  const CASES: Array<[number, ReturnType<typeof validateBudgetLimit>]> = [
+    [250, { ok: true, value: 250 }],
+    [99.999, { ok: true, value: 100 }],
+    [1_000_000, { ok: true, value: 1_000_000 }],
+    [1_000_001, { ok: false, error: "Budget must be at most 1000000" }],
+    [0, { ok: false, error: "Budget must be a positive amount" }],
+    [-5, { ok: false, error: "Budget must be a positive amount" }],
+    [NaN, { ok: false, error: "Budget must be a positive amount" }],
+  ];
+
+  for (const [limit, expected] of CASES) {
+    it(`checks ${limit}`, () => {
+      expect(validateBudgetLimit(limit)).toEqual(expected);
+    });
+  }
+});
+
+describe("monthOf", () => {
+  const CASES: Array<[string, string | null]> = [
+    ["2024-03-15", "2024-03"],
+    ["15/03/2024", null],
+    ["2024-03", null],
+  ];
+
+  for (const [date, expected] of CASES) {
+    it(`reads ${date} as ${expected}`, () => {
+      expect(monthOf(date)).toBe(expected);
+    });
+  }
+});
+
+describe("monthlySpending", () => {
+  const rates = buildRateTable([
+    { currency: "GBP", date: "2024-03-01", perUsd: 0.8 },
+    { currency: "GBP", date: "2024-04-01", perUsd: 0.5 },
+  ]);
+
+  it("totals each month and category in the target currency, converting at the row's date", () => {
+    const spending = monthlySpending(
+      [
+        { date: "2024-03-02", amount: 8, currency: "GBP", category: "Food" },
+        { date: "2024-03-20", amount: 10, currency: "USD", category: "Food" },
+        { date: "2024-04-02", amount: 10, currency: "USD", category: "Food" },
+        { date: "2024-04-03", amount: 4.1, category: "Travel" }, // Before multi-currency: GBP
+      ],
+      "GBP",
+      rates
+    );
+    expect(spending).toEqual({
+      byMonth: { "2024-03": { Food: 16 }, "2024-04": { Food: 5, Travel: 4.1 } },
+      missingRates: [],
+    });
+  });
+
+  it("nets refunds off the month they land in", () => {
+    const spending = monthlySpending(
+      [
+        { date: "2024-03-02", amount: 30, currency: "GBP", category: "Shopping" },
+        { date: "2024-03-09", amount: -12.5, currency: "GBP", category: "Shopping" },
+      ],
+      "GBP",
+      rates
+    );
+    expect(spending.byMonth).toEqual({ "2024-03": { Shopping: 17.5 } });
+  });
+
+  it("skips undated rows and reports currencies without a rate", () => {
+    const spending = monthlySpending(
+      [
+        { date: "unknown", amount: 8, currency: "GBP", category: "Food" },
+        { date: "2024-03-02", amount: 8, currency: "JPY", category: "Food" },
+      ],
+      "GBP",
+      rates
+    );
+    expect(spending).toEqual({ byMonth: {}, missingRates: ["JPY"] });
+  });
+});
+
+describe("budgetProgress", () => {
+  const CASES: Array<[number, number, BudgetStatus]> = [
+    [50, 50, "ok"],
+    [80, 20, "warning"], // At the warning ratio
+    [100, 0, "warning"], // Spent exactly: not over yet
+    [100.01, -0.01, "over"],
+  ];
+
+  for (const [spent, remaining, status] of CASES) {
+    it(`is ${status} with ${spent} of 100 spent`, () => {
+      expect(budgetProgress({ category: "Food", limit: 100, currency: "GBP" }, spent)).toEqual({
+        category: "Food",
+        limit: 100,
+        currency: "GBP",
+        spent,
+        remaining,
+        ratio: spent / 100,
+        status,
+      });
+    });
+  }
+});
@@ -0,0 +1,83 @@
+// Monthly category budgets: spend per month, and progress against each limit
+
+import { Result, err, ok } from "../types/result";
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { DEFAULT_CURRENCY, RateTable, convertAmount } from "./currency";
+import { round } from "./money";
+
+// Past this share of the limit a budget is flagged before it is actually overspent
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const MAX_LIMIT = 1_000_000;
+
+export type BudgetStatus = "ok" | "warning" | "over";
+
+export interface BudgetLimit {
+  category: TransactionCategory;
+  limit: number;
+  currency: string;
+}
+
+export interface BudgetProgress extends BudgetLimit {
+  spent: number;
+  remaining: number; // Negative once overspent
+  ratio: number;     // spent / limit
+  status: BudgetStatus;
+}
+
+type SpendTransaction = Pick<Transaction, "date" | "amount" | "category"> & { currency?: string };
+
+export interface MonthlySpending {
+  byMonth: Record<string, Partial<Record<TransactionCategory, number>>>; // "YYYY-MM" -> category -> spent
+  missingRates: string[]; // Currencies left out (no exchange rate)
+}
+
+export function validateBudgetLimit(limit: number): Result<number, string> {
+  if (!Number.isFinite(limit) || limit <= 0) {
+    return err("Budget must be a positive amount");
+  }
+  if (limit > MAX_LIMIT) {
+    return err(`Budget must be at most ${MAX_LIMIT}`);
+  }
+  return ok(round(limit));
+}
+
+// "2024-03-15" -> "2024-03"; dates the validator couldn't fix are skipped rather than guessed
+export function monthOf(date: string): string | null {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date.slice(0, 7) : null;
+}
+
+// Each transaction converted at its own date, so a month's total doesn't move with today's rates.
+// Refunds are negative and net off the month they land in.
+export function monthlySpending(
+  transactions: readonly SpendTransaction[],
+  target: string,
+  rates: RateTable
+): MonthlySpending {
+  const byMonth: MonthlySpending["byMonth"] = {};
+  const missing = new Set<string>();
+  for (const t of transactions) {
+    const month = monthOf(t.date);
+    if (!month) continue;
+    const currency = t.currency ?? DEFAULT_CURRENCY;
+    const amount = convertAmount(t.amount, currency, target, t.date, rates);
+    if (amount === null) {
+      missing.add(currency);
+      continue;
+    }
+    const totals = (byMonth[month] ??= {});
+    totals[t.category] = round((totals[t.category] ?? 0) + amount);
+  }
+  return { byMonth, missingRates: [...missing] };
+}
+
+export function budgetProgress(budget: BudgetLimit, spent: number): BudgetProgress {
+  const ratio = spent / budget.limit;
+  return {
+    ...budget,
+    spent,
+    remaining: round(budget.limit - spent),
+    ratio,
+    status: ratio > 1 ? "over" : ratio >= BUDGET_WARNING_RATIO ? "warning" : "ok",
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { CategoryRule, applyCategoryRules, ruleMatches, setCategoryByHand, validateRule } from "./category-rules";
+import { Transaction } from "../types/analysis";
+
+const rule = (fields: Partial<CategoryRule>): CategoryRule => ({ match: "contains", pattern: "tesco", category: "Food", ...fields });
+
+describe("validateRule", () => {
+  it("trims the pattern", () => {
+    expect(validateRule(rule({ pattern: "  tesco " }))).toEqual({ ok: true, value: rule({ pattern: "tesco" }) });
+  });
+
+  const REFUSED: Array<[string, Partial<CategoryRule>, string]> = [
+    ["an empty pattern", { pattern: "   " }, "Pattern must not be empty"],
+    ["bounds the wrong way round", { minAmount: 10, maxAmount: 5 }, "Minimum amount is greater than maximum amount"],
+  ];
+
+  for (const [name, fields, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(validateRule(rule(fields))).toEqual({ ok: false, error: message });
+    });
+  }
+
+  it("refuses a broken regular expression", () => {
+    expect(validateRule(rule({ match: "regex", pattern: "tesco(" })).ok).toBe(false);
+  });
+});
+
+describe("ruleMatches", () => {
+  const CASES: Array<[string, Partial<CategoryRule>, string, number, boolean]> = [
+    ["exact, ignoring case and spaces", { match: "exact", pattern: "TESCO" }, " tesco ", 5, true],
+    ["exact, not a longer name", { match: "exact", pattern: "tesco" }, "Tesco Express", 5, false],
+    ["contains", { match: "contains", pattern: "Tesco" }, "TESCO EXPRESS 123", 5, true],
+    ["contains, elsewhere", { match: "contains", pattern: "tesco" }, "Sainsbury's", 5, false],
+    ["regex, case-insensitive", { match: "regex", pattern: "^tfl\\b" }, "TFL TRAVEL", 5, true],
+    ["from the minimum, inclusive", { minAmount: 5 }, "Tesco", 5, true],
+    ["not below the minimum", { minAmount: 5 }, "Tesco", 4.99, false],
+    ["up to the maximum, inclusive", { maxAmount: 5 }, "Tesco", 5, true],
+    ["not above the maximum", { maxAmount: 5 }, "Tesco", 5.01, false],
+  ];
+
+  for (const [name, fields, merchant, amount, expected] of CASES) {
+    it(`${expected ? "matches" : "misses"} ${name}`, () => {
+      expect(ruleMatches(rule(fields), { merchant, amount })).toBe(expected);
+    });
+  }
+});
+
+describe("applyCategoryRules", () => {
+  type Row = Pick<Transaction, "merchant" | "amount" | "category" | "categorySource" | "modelCategory">;
+  const row = (merchant: string, category: Row["category"], extra: Partial<Row> = {}): Row => ({ merchant, amount: 5, category, ...extra });
+
+  it("overrides the model and keeps its answer underneath", () => {
+    expect(applyCategoryRules([row("Tesco", "Shopping")], [rule({})])).toEqual([
+      row("Tesco", "Food", { categorySource: "rule", modelCategory: "Shopping" }),
+    ]);
+  });
+
+  it("lets the first matching rule win", () => {
+    const rules = [rule({ category: "Travel" }), rule({ category: "Transport" })];
+    expect(applyCategoryRules([row("Tesco", "Food")], rules)[0].category).toBe("Travel");
+  });
+
+  it("leaves a row the user categorised alone", () => {
+    const mine = row("Tesco", "Travel", { categorySource: "user", modelCategory: "Shopping" });
+    expect(applyCategoryRules([mine], [rule({})])).toEqual([mine]);
+  });
+
+  it("gives the model's answer back once the rule is gone", () => {
+    const ruled = row("Tesco", "Food", { categorySource: "rule", modelCategory: "Shopping" });
+    expect(applyCategoryRules([ruled], [])).toEqual([row("Tesco", "Shopping")]);
+  });
+
+  it("doesn't mark a row a rule agrees with", () => {
+    expect(applyCategoryRules([row("Tesco", "Food")], [rule({})])).toEqual([row("Tesco", "Food")]);
+  });
+});
+
+describe("setCategoryByHand", () => {
+  it("keeps the model's answer underneath", () => {
+    expect(setCategoryByHand({ merchant: "Tesco", amount: 5, category: "Shopping" }, "Food")).toEqual({
+      merchant: "Tesco",
+      amount: 5,
+      category: "Food",
+      categorySource: "user",
+      modelCategory: "Shopping",
+    });
+  });
+
+  it("keeps the model's answer, not a rule's, when a rule had set it", () => {
+    const ruled = { merchant: "Tesco", amount: 5, category: "Food" as const, categorySource: "rule" as const, modelCategory: "Shopping" as const };
+    expect(setCategoryByHand(ruled, "Travel")).toMatchObject({ category: "Travel", categorySource: "user", modelCategory: "Shopping" });
+  });
+});
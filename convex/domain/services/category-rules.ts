@@ -0,0 +1,83 @@
+// User-defined merchant -> category rules
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { Result, ok, err } from "../types/result";
+
+export type RuleMatch =
+  | "exact"    // Whole merchant name, ignoring case and surrounding spaces
+  | "contains" // Substring of the merchant name, ignoring case
+  | "regex";   // JavaScript regular expression, case-insensitive
+
+// The parts of a transaction rules look at and rewrite (stored rows may lack a currency)
+type Categorized = Pick<Transaction, "merchant" | "rawMerchant" | "amount" | "category" | "categorySource" | "modelCategory">;
+
+export interface CategoryRule {
+  match: RuleMatch;
+  pattern: string;
+  category: TransactionCategory;
+  minAmount?: number; // Inclusive bounds on the transaction amount
+  maxAmount?: number;
+}
+
+// Rules are checked when saved, so applying them never has to deal with a broken pattern.
+export function validateRule(rule: CategoryRule): Result<CategoryRule, string> {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return err("Pattern must not be empty");
+  }
+  if (rule.match === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      return err(error instanceof Error ? error.message : "Invalid regular expression");
+    }
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+    return err("Minimum amount is greater than maximum amount");
+  }
+  return ok({ ...rule, pattern });
+}
+
+export function patternMatches(match: RuleMatch, pattern: string, merchant: string): boolean {
+  const name = merchant.trim().toLowerCase();
+  switch (match) {
+    case "exact":
+      return name === pattern.trim().toLowerCase();
+    case "contains":
+      return name.includes(pattern.trim().toLowerCase());
+    case "regex":
+      return new RegExp(pattern, "i").test(merchant);
+  }
+}
+
+// A rule written against the statement's spelling keeps working once the merchant registry renames the row
+export function ruleMatches(rule: CategoryRule, transaction: Pick<Transaction, "merchant" | "rawMerchant" | "amount">): boolean {
+  if (rule.minAmount !== undefined && transaction.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && transaction.amount > rule.maxAmount) return false;
+
+  const names = transaction.rawMerchant ? [transaction.merchant, transaction.rawMerchant] : [transaction.merchant];
+  return names.some((name) => patternMatches(rule.match, rule.pattern, name));
+}
+
+// Rules override the model but never a category the user set by hand. The first matching rule wins.
+// Works from the model's category kept on each row, so it can be re-run after rules change
+// (removing a rule gives the model's answer back) without calling the model again.
+export function applyCategoryRules<T extends Categorized>(transactions: readonly T[], rules: readonly CategoryRule[]): T[] {
+  return transactions.map((t) => {
+    if (t.categorySource === "user") return t;
+
+    const { categorySource: _source, modelCategory, ...rest } = t;
+    const base = modelCategory ?? t.category;
+    const rule = rules.find((r) => ruleMatches(r, t));
+    if (!rule || rule.category === base) {
+      return { ...rest, category: base } as T;
+    }
+    return { ...rest, category: rule.category, categorySource: "rule", modelCategory: base } as T;
+  });
+}
+
+// A hand-picked category on one row; the model's answer is kept underneath
+export function setCategoryByHand<T extends Categorized>(transaction: T, category: TransactionCategory): T {
+  const modelCategory = transaction.categorySource === undefined ? transaction.category : transaction.modelCategory;
+  return { ...transaction, category, categorySource: "user", modelCategory };
+}
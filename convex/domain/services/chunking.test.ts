@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { chunkPages, mergeChunkTransactions } from "./chunking";
+import { Transaction } from "../types/analysis";
+
+describe("chunkPages", () => {
+  const CASES: Array<[string, string[], number, string[]]> = [
+    ["keeps short pages together", ["aaa", "bbb"], 10, ["aaa\nbbb"]],
+    ["starts a new chunk at a page that wouldn't fit", ["aaaa", "bbbb", "cccc"], 10, ["aaaa\nbbbb", "cccc"]],
+    ["fits a page exactly, joining newline included", ["aaaa", "bbbbb"], 10, ["aaaa\nbbbbb"]],
+    ["drops blank pages", ["aaa", "   ", "", "bbb"], 3, ["aaa", "bbb"]],
+    ["splits an oversized page on its lines", ["short", "l1 aa\nl2 bb\nl3 cc", "tail"], 11, ["short", "l1 aa\nl2 bb", "l3 cc", "tail"]],
+    ["hard-cuts a single runaway line", ["abcdefghij"], 4, ["abcd", "efgh", "ij"]],
+    ["returns nothing for no pages", [], 10, []],
+  ];
+
+  for (const [name, pages, maxChars, expected] of CASES) {
+    it(name, () => {
+      expect(chunkPages(pages, maxChars)).toEqual(expected);
+    });
+  }
+
+  it("never returns a chunk over the limit", () => {
+    const pages = ["x".repeat(25), "y\n".repeat(20), "z".repeat(9)];
+    for (const chunk of chunkPages(pages, 10)) {
+      expect(chunk.length).toBeLessThanOrEqual(10);
+    }
+  });
+});
+
+describe("mergeChunkTransactions", () => {
+  const row = (merchant: string, amount = 5, date = "2024-03-05"): Transaction => ({ date, merchant, amount, currency: "GBP", category: "Food" });
+
+  it("drops a row repeated at the top of the next chunk", () => {
+    expect(mergeChunkTransactions([[row("Tesco"), row("Costa")], [row("costa "), row("Boots")]])).toEqual({
+      transactions: [row("Tesco"), row("Costa"), row("Boots")],
+      duplicatesRemoved: 1,
+    });
+  });
+
+  it("keeps identical purchases inside one chunk", () => {
+    expect(mergeChunkTransactions([[row("Costa"), row("Costa")]])).toEqual({
+      transactions: [row("Costa"), row("Costa")],
+      duplicatesRemoved: 0,
+    });
+  });
+
+  it("drops only as many repeats as the previous chunk had", () => {
+    const merged = mergeChunkTransactions([[row("Costa")], [row("Costa"), row("Costa")]]);
+    expect(merged.transactions).toEqual([row("Costa"), row("Costa")]);
+    expect(merged.duplicatesRemoved).toBe(1);
+  });
+
+  it("only compares neighbouring chunks", () => {
+    const merged = mergeChunkTransactions([[row("Costa")], [row("Tesco")], [row("Costa")]]);
+    expect(merged.transactions).toHaveLength(3);
+    expect(merged.duplicatesRemoved).toBe(0);
+  });
+
+  it("tells rows apart by date and amount", () => {
+    const merged = mergeChunkTransactions([[row("Costa")], [row("Costa", 6), row("Costa", 5, "2024-03-06")]]);
+    expect(merged.duplicatesRemoved).toBe(0);
+  });
+});
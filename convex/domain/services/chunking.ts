@@ -0,0 +1,93 @@
+// Page-aware chunking of statement text and merging of per-chunk results
+
+import { Transaction } from "../types/analysis";
+
+// Comfortably below gpt-4o-mini's context once the prompt and JSON answer are added
+export const DEFAULT_CHUNK_CHARS = 12_000;
+
+// Packs consecutive pages into chunks so a page is never split unless it alone exceeds the limit.
+export function chunkPages(pages: readonly string[], maxChars: number = DEFAULT_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current);
+    current = "";
+  };
+
+  for (const page of pages) {
+    if (page.length > maxChars) {
+      flush();
+      chunks.push(...splitByLines(page, maxChars));
+      continue;
+    }
+    if (current && current.length + page.length + 1 > maxChars) {
+      flush();
+    }
+    current = current ? `${current}\n${page}` : page;
+  }
+  flush();
+
+  return chunks;
+}
+
+function splitByLines(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    if (current && current.length + line.length + 1 > maxChars) {
+      parts.push(current);
+      current = "";
+    }
+    // A single runaway line is hard-cut rather than dropped
+    for (let i = 0; i < line.length; i += maxChars) {
+      const piece = line.slice(i, i + maxChars);
+      current = current ? `${current}\n${piece}` : piece;
+      if (current.length >= maxChars) {
+        parts.push(current);
+        current = "";
+      }
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts;
+}
+
+export interface MergedTransactions {
+  transactions: Transaction[];
+  duplicatesRemoved: number;
+}
+
+function transactionKey(t: Transaction): string {
+  return `${t.date}|${t.merchant.trim().toLowerCase()}|${t.amount}`;
+}
+
+// Statements repeat rows around page breaks (carried-forward lines, running headers), so a row
+// that also appears in the previous chunk is dropped once. Identical purchases inside the same
+// chunk are kept: two coffees on the same day are real spending.
+export function mergeChunkTransactions(chunks: readonly Transaction[][]): MergedTransactions {
+  const transactions: Transaction[] = [];
+  let duplicatesRemoved = 0;
+  let previousKeys = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const remaining = new Map(previousKeys);
+    const currentKeys = new Map<string, number>();
+
+    for (const t of chunk) {
+      const key = transactionKey(t);
+      currentKeys.set(key, (currentKeys.get(key) ?? 0) + 1);
+
+      const seen = remaining.get(key) ?? 0;
+      if (seen > 0) {
+        remaining.set(key, seen - 1);
+        duplicatesRemoved++;
+        continue;
+      }
+      transactions.push(t);
+    }
+    previousKeys = currentKeys;
+  }
+
+  return { transactions, duplicatesRemoved };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRateTable,
+  convertAmount,
+  currenciesToConvert,
+  currencyFromAmount,
+  findRate,
+  normalizeCurrency,
+} from "./currency";
+
+describe("normalizeCurrency", () => {
+  const CASES: Array<[unknown, string | null]> = [
+    ["EUR", "EUR"],
+    [" usd ", "USD"],
+    ["£", "GBP"],
+    ["₩", "KRW"],
+    ["원", "KRW"],
+    ["US$", "USD"],
+    ["euro", null],
+    ["", null],
+    [978, null],
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`reads ${JSON.stringify(value)} as ${expected}`, () => {
+      expect(normalizeCurrency(value)).toBe(expected);
+    });
+  }
+});
+
+describe("currencyFromAmount", () => {
+  const CASES: Array<[unknown, string | null]> = [
+    ["€12.50", "EUR"],
+    ["12.50 EUR", "EUR"],
+    ["US$ 4.00", "USD"],
+    ["$4.00", "USD"],
+    ["₩50,000", "KRW"],
+    ["12.50 CR", null], // A refund marker, not a currency
+    ["12.50CR", null],
+    ["£-3.00", "GBP"],
+    ["12.50", null],
+    [12.5, null],
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`finds ${expected} in ${JSON.stringify(value)}`, () => {
+      expect(currencyFromAmount(value)).toBe(expected);
+    });
+  }
+});
+
+describe("rates", () => {
+  const table = buildRateTable([
+    { currency: "GBP", date: "2024-03-10", perUsd: 0.8 },
+    { currency: "GBP", date: "2024-03-01", perUsd: 0.75 },
+    { currency: "EUR", date: "2024-03-01", perUsd: 0.9 },
+  ]);
+
+  const RATES: Array<[string, string, number | null]> = [
+    ["USD", "2024-01-01", 1],
+    ["GBP", "2024-03-05", 0.75],
+    ["GBP", "2024-03-10", 0.8],
+    ["GBP", "2024-04-01", 0.8],
+    ["GBP", "2024-01-01", 0.75], // Earlier than any rate: the earliest is used
+    ["JPY", "2024-03-05", null],
+  ];
+
+  for (const [currency, date, expected] of RATES) {
+    it(`finds ${expected} for ${currency} on ${date}`, () => {
+      expect(findRate(table, currency, date)).toBe(expected);
+    });
+  }
+
+  const CONVERSIONS: Array<[number, string, string, number | null]> = [
+    [10, "GBP", "GBP", 10],
+    [7.5, "GBP", "USD", 10],
+    [10, "USD", "GBP", 7.5],
+    [7.5, "GBP", "EUR", 9],
+    [1, "EUR", "GBP", 0.83],
+    [10, "JPY", "GBP", null],
+    [10, "GBP", "JPY", null],
+  ];
+
+  for (const [amount, from, to, expected] of CONVERSIONS) {
+    it(`converts ${amount} ${from} to ${expected} ${to}`, () => {
+      expect(convertAmount(amount, from, to, "2024-03-05", table)).toBe(expected);
+    });
+  }
+});
+
+describe("currenciesToConvert", () => {
+  const CASES: Array<[string, Array<{ currency?: string }>, string, string[]]> = [
+    ["nothing when all are already in the target", [{ currency: "EUR" }, { currency: "EUR" }], "EUR", []],
+    ["treats rows without a currency as GBP", [{}], "GBP", []],
+    ["the others and the target", [{ currency: "EUR" }, {}], "GBP", ["EUR", "GBP"]],
+    ["the target's rate for USD rows, never USD itself", [{ currency: "USD" }], "EUR", ["EUR"]],
+    ["nothing for no rows", [], "EUR", []],
+  ];
+
+  for (const [name, transactions, target, expected] of CASES) {
+    it(name, () => {
+      expect(currenciesToConvert(transactions, target).sort()).toEqual(expected);
+    });
+  }
+});
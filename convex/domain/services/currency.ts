@@ -0,0 +1,91 @@
+// Currency detection and conversion over a local exchange-rate table
+
+// Statements without any currency hint are assumed to be from a UK card, as before multi-currency support
+export const DEFAULT_CURRENCY = "GBP";
+
+const SYMBOL_CURRENCIES: ReadonlyArray<[string, string]> = [
+  ["US$", "USD"],
+  ["£", "GBP"],
+  ["€", "EUR"],
+  ["₩", "KRW"],
+  ["원", "KRW"],
+  ["¥", "JPY"],
+  ["$", "USD"],
+];
+
+// ISO 4217 code, or a symbol we can map to one
+export function normalizeCurrency(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+  return SYMBOL_CURRENCIES.find(([symbol]) => text === symbol)?.[1] ?? null;
+}
+
+// Models often leave the currency inside the amount string ("€12.50", "12.50 EUR")
+export function currencyFromAmount(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.match(/\b([A-Z]{3})\b/)?.[1];
+  if (code) return code;
+  return SYMBOL_CURRENCIES.find(([symbol]) => value.includes(symbol))?.[1] ?? null;
+}
+
+// Units of `currency` per 1 USD on `date`; USD is the pivot so one row per currency per day suffices
+export interface ExchangeRate {
+  currency: string;
+  date: string; // YYYY-MM-DD
+  perUsd: number;
+}
+
+export type RateTable = ReadonlyMap<string, readonly ExchangeRate[]>;
+
+export function buildRateTable(rates: readonly ExchangeRate[]): RateTable {
+  const table = new Map<string, ExchangeRate[]>();
+  for (const rate of rates) {
+    table.set(rate.currency, [...(table.get(rate.currency) ?? []), rate]);
+  }
+  for (const list of table.values()) {
+    list.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return table;
+}
+
+// Latest rate on or before `date`; falls back to the earliest known rate for older transactions
+export function findRate(table: RateTable, currency: string, date: string): number | null {
+  if (currency === "USD") return 1;
+  const rates = table.get(currency);
+  if (!rates || rates.length === 0) return null;
+
+  let found = rates[0];
+  for (const rate of rates) {
+    if (rate.date > date) break;
+    found = rate;
+  }
+  return found.perUsd;
+}
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+  table: RateTable
+): number | null {
+  if (from === to) return amount;
+  const fromRate = findRate(table, from, date);
+  const toRate = findRate(table, to, date);
+  if (fromRate === null || toRate === null) return null;
+  return Math.round((amount / fromRate) * toRate * 100) / 100;
+}
+
+// Currencies a set of transactions needs rates for when expressed in `target`
+export function currenciesToConvert(
+  transactions: ReadonlyArray<{ currency?: string }>,
+  target: string
+): string[] {
+  const sources = new Set(transactions.map((t) => t.currency ?? DEFAULT_CURRENCY));
+  if ([...sources].every((currency) => currency === target)) return [];
+  // USD is the pivot, so even a USD-only statement needs the target's rate
+  const needed = new Set([...sources, target]);
+  needed.delete("USD");
+  return [...needed];
+}
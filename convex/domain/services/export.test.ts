@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { exportFilename, transactionsToCsv } from "./export";
+
+const row = (merchant: string, currency?: string) => ({ date: "2024-03-01", merchant, amount: -12.5, category: "Food" as const, currency });
+
+describe("transactionsToCsv", () => {
+  it("writes a header and one CRLF-terminated line per transaction", () => {
+    expect(transactionsToCsv([row("Tesco", "GBP")])).toBe(
+      "date,merchant,amount,currency,category\r\n2024-03-01,Tesco,-12.5,GBP,Food\r\n"
+    );
+  });
+
+  it("writes only the header for no transactions", () => {
+    expect(transactionsToCsv([])).toBe("date,merchant,amount,currency,category\r\n");
+  });
+
+  const MERCHANTS: Array<[string, string]> = [
+    ['Joe\'s "Diner", Leeds', '"Joe\'s ""Diner"", Leeds"'],
+    ["Line\nbreak", '"Line\nbreak"'],
+    ["=HYPERLINK(1)", "'=HYPERLINK(1)"],
+    ["+44 Ltd", "'+44 Ltd"],
+    ["-refund", "'-refund"],
+    ["@home", "'@home"],
+    ["=SUM(A1,B1)", `"'=SUM(A1,B1)"`],
+  ];
+
+  for (const [merchant, cell] of MERCHANTS) {
+    it(`writes the merchant ${JSON.stringify(merchant)} safely`, () => {
+      const line = transactionsToCsv([row(merchant, "GBP")]).split("\r\n")[1];
+      expect(line).toBe(`2024-03-01,${cell},-12.5,GBP,Food`);
+    });
+  }
+
+  it("falls back to the statement currency, then GBP, for rows without one", () => {
+    expect(transactionsToCsv([row("A")], "EUR")).toContain(",EUR,");
+    expect(transactionsToCsv([row("A")])).toContain(",GBP,");
+    expect(transactionsToCsv([row("A", "USD")], "EUR")).toContain(",USD,");
+  });
+});
+
+describe("exportFilename", () => {
+  const CASES: Array<[string, string]> = [
+    ["March statement.pdf", "March statement.csv"],
+    ["export.v2.ofx", "export.v2.csv"],
+    ["no extension", "no extension.csv"],
+    ['a/b:c*"d', "a_b_c__d.csv"],
+    [".pdf", "transactions.csv"],
+    ["   ", "transactions.csv"],
+  ];
+
+  for (const [title, expected] of CASES) {
+    it(`names ${JSON.stringify(title)} ${expected}`, () => {
+      expect(exportFilename(title)).toBe(expected);
+    });
+  }
+});
@@ -0,0 +1,36 @@
+// CSV export of a document's transactions
+
+import { Transaction } from "../types/analysis";
+import { DEFAULT_CURRENCY } from "./currency";
+
+type ExportTransaction = Pick<Transaction, "date" | "merchant" | "amount" | "category"> & { currency?: string };
+
+const HEADER = ["date", "merchant", "amount", "currency", "category"];
+
+// Spreadsheets run cells starting with these as formulas; merchant names come from the statement
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Rows saved before multi-currency have no currency: they are in the statement's, or GBP
+export function transactionsToCsv(transactions: readonly ExportTransaction[], statementCurrency?: string): string {
+  const rows = transactions.map((t) =>
+    [
+      csvCell(t.date),
+      csvCell(t.merchant),
+      String(t.amount),
+      csvCell(t.currency ?? statementCurrency ?? DEFAULT_CURRENCY),
+      csvCell(t.category),
+    ].join(",")
+  );
+  return [HEADER.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// "March statement.pdf" -> "March statement.csv"
+export function exportFilename(title: string): string {
+  const base = title.replace(/\.[^./\\]+$/, "").replace(/[\\/:*?"<>|]/g, "_").trim();
+  return `${base || "transactions"}.csv`;
+}
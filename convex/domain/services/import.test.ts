@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { importedTransactions } from "./import";
+
+describe("importedTransactions", () => {
+  it("keeps money out, uncategorised, in the statement currency", () => {
+    expect(importedTransactions([{ date: "2024-03-01", merchant: "Tesco", amount: 12.5 }], "EUR")).toEqual({
+      transactions: [{ date: "2024-03-01", merchant: "Tesco", amount: 12.5, currency: "EUR", category: "Other" }],
+      issues: [],
+    });
+  });
+
+  it("excludes money coming in", () => {
+    expect(importedTransactions([{ date: "2024-03-01", merchant: "Salary", amount: -1000 }], "GBP")).toEqual({
+      transactions: [],
+      issues: [{ row: 0, action: "rejected", reason: "Incoming payment of 1000 excluded" }],
+    });
+  });
+
+  it("numbers issues by their row in the export", () => {
+    const { transactions, issues } = importedTransactions(
+      [
+        { date: "2024-03-01", merchant: "Salary", amount: -1000 },
+        { date: "2024-03-02", merchant: "Tesco", amount: 12.5 },
+        { date: "soon", merchant: "Costa", amount: 2.8 },
+        { date: "2024-03-04", merchant: "Boots", amount: "£4.00", currency: "USD" },
+      ],
+      "GBP"
+    );
+    expect(transactions.map((t) => [t.merchant, t.currency])).toEqual([
+      ["Tesco", "GBP"],
+      ["Boots", "USD"],
+    ]);
+    expect(issues).toEqual([
+      { row: 0, action: "rejected", reason: "Incoming payment of 1000 excluded" },
+      { row: 2, action: "rejected", reason: 'Unparseable date: "soon"' },
+      { row: 3, action: "repaired", reason: 'Amount "£4.00" parsed as 4' },
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+// Validation of rows parsed from bank exports (CSV, OFX, QIF)
+
+import { ImportedRow } from "../ports/importer.interface";
+import { ValidationIssue } from "../types/analysis";
+import { ValidatedTransactions, validateTransactions } from "./transaction-validation";
+
+// Category given to every row until categorisation runs
+const UNCATEGORISED = "Other";
+
+// Bank exports list every movement on the account, not just spending.
+// Money coming in is excluded, as the statement prompt tells the model to do with payment records.
+// Row numbers in issues refer to the position in the export.
+export function importedTransactions(
+  rows: readonly ImportedRow[],
+  statementCurrency: string
+): ValidatedTransactions {
+  const issues: ValidationIssue[] = [];
+  const outgoing: Array<{ row: ImportedRow; index: number }> = [];
+
+  rows.forEach((row, index) => {
+    if (typeof row.amount === "number" && row.amount < 0) {
+      issues.push({ row: index, action: "rejected", reason: `Incoming payment of ${-row.amount} excluded` });
+    } else {
+      outgoing.push({ row, index });
+    }
+  });
+
+  const validated = validateTransactions(
+    outgoing.map(({ row }) => ({ ...row, category: UNCATEGORISED })),
+    statementCurrency
+  );
+  for (const issue of validated.issues) {
+    issues.push({ ...issue, row: outgoing[issue.row].index });
+  }
+  issues.sort((a, b) => a.row - b.row);
+
+  return { transactions: validated.transactions, issues };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { DateRange, spendingInsights } from "./insights";
+
+type Period = { from: string; to: string };
+
+// 2024-03-09 and 2024-03-10 are a weekend
+const MARCH = { from: "2024-03-04", to: "2024-03-10" };
+const FEBRUARY = { from: "2024-02-26", to: "2024-02-29" };
+
+describe("spendingInsights", () => {
+  it("averages over the days statements cover and splits weekday from weekend", () => {
+    const insights = spendingInsights(
+      [
+        { date: "2024-03-04", amount: 50, category: "Food" },
+        { date: "2024-03-09", amount: 20, category: "Travel" },
+      ],
+      [MARCH]
+    );
+    expect(insights).toMatchObject({
+      totalSpent: 70,
+      days: 7,
+      averageDailySpent: 10,
+      from: "2024-03-04",
+      to: "2024-03-10",
+      statements: 1,
+      weekday: { totalSpent: 50, days: 5, averageDailySpent: 10 },
+      weekend: { totalSpent: 20, days: 2, averageDailySpent: 10 },
+    });
+  });
+
+  // £14 spent on 2024-03-05, over different statement periods
+  const COVERAGE: Array<[string, Period[], DateRange | undefined, { days: number; averageDailySpent: number; statements: number }]> = [
+    ["one statement", [MARCH], undefined, { days: 7, averageDailySpent: 2, statements: 1 }],
+    ["a day covered by two statements once", [MARCH, { from: "2024-03-04", to: "2024-03-05" }], undefined, { days: 7, averageDailySpent: 2, statements: 2 }],
+    ["no days between statements", [FEBRUARY, MARCH], undefined, { days: 11, averageDailySpent: 1.27, statements: 2 }],
+    ["only the covered days of the range asked for", [FEBRUARY, MARCH], { from: "2024-03-05", to: "2024-03-07" }, { days: 3, averageDailySpent: 4.67, statements: 1 }],
+    ["no statements", [], undefined, { days: 0, averageDailySpent: 0, statements: 0 }],
+  ];
+
+  for (const [name, periods, range, expected] of COVERAGE) {
+    it(`averages over ${name}`, () => {
+      expect(spendingInsights([{ date: "2024-03-05", amount: 14, category: "Food" }], periods, range)).toMatchObject(expected);
+    });
+  }
+
+  it("compares each month with the one before when statements cover both", () => {
+    const { months, categoryShifts } = spendingInsights(
+      [
+        { date: "2024-02-27", amount: 40, category: "Food" },
+        { date: "2024-02-28", amount: 60, category: "Travel" },
+        { date: "2024-03-05", amount: 90, category: "Food" },
+        { date: "2024-03-06", amount: 30, category: "Travel" },
+      ],
+      [FEBRUARY, MARCH]
+    );
+    expect(months).toEqual([
+      { month: "2024-02", totalSpent: 100, days: 4, averageDailySpent: 25, change: null, changeRatio: null },
+      { month: "2024-03", totalSpent: 120, days: 7, averageDailySpent: 17.14, change: 20, changeRatio: 0.2 },
+    ]);
+    expect(categoryShifts).toEqual([
+      { category: "Food", share: 0.75, previousShare: 0.4, change: 0.35 },
+      { category: "Travel", share: 0.25, previousShare: 0.6, change: -0.35 },
+    ]);
+  });
+
+  it("has no change for a month after a gap", () => {
+    const { months, categoryShifts } = spendingInsights(
+      [{ date: "2024-03-05", amount: 10, category: "Food" }],
+      [{ from: "2024-01-10", to: "2024-01-12" }, MARCH]
+    );
+    expect(months.map((m) => [m.month, m.change])).toEqual([
+      ["2024-01", null],
+      ["2024-03", null],
+    ]);
+    expect(categoryShifts).toEqual([]);
+  });
+
+  it("keeps to the range asked for", () => {
+    const insights = spendingInsights(
+      [
+        { date: "2024-02-28", amount: 100, category: "Food" },
+        { date: "2024-03-05", amount: 12, category: "Food" },
+      ],
+      [FEBRUARY, MARCH],
+      { from: "2024-03-05", to: "2024-03-07" }
+    );
+    expect(insights).toMatchObject({ totalSpent: 12, days: 3, averageDailySpent: 4, from: "2024-03-05", to: "2024-03-07", statements: 1 });
+  });
+
+  it("is empty without statements", () => {
+    expect(spendingInsights([], [])).toMatchObject({ totalSpent: 0, days: 0, averageDailySpent: 0, from: null, to: null, months: [] });
+  });
+});
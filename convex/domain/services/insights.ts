@@ -0,0 +1,143 @@
+// Spending insights over a date range: daily average over the days statements cover,
+// month-over-month changes, category share shifts, and weekday against weekend spending
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { round } from "./money";
+import { daysCovered, formatDay, isWeekend, parseDay } from "./period";
+
+// Amounts already in one reporting currency (see transactionsInCurrency)
+type InsightTransaction = Pick<Transaction, "date" | "amount" | "category">;
+
+export interface DateRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export interface DaySplit {
+  totalSpent: number;
+  days: number;
+  averageDailySpent: number;
+}
+
+export interface MonthInsight extends DaySplit {
+  month: string; // YYYY-MM
+  change: number | null;      // totalSpent minus the previous calendar month's, when statements cover it
+  changeRatio: number | null; // change relative to the previous month's total
+}
+
+// Share of the month's spending, latest month against the one before
+export interface CategoryShift {
+  category: TransactionCategory;
+  share: number;
+  previousShare: number;
+  change: number; // share - previousShare
+}
+
+export interface SpendingInsights extends DaySplit {
+  from: string | null; // First and last day statements cover within the range
+  to: string | null;
+  statements: number;  // Statement periods reaching into the range
+  months: MonthInsight[]; // Oldest first
+  categoryShifts: CategoryShift[]; // Biggest moves first; empty without two consecutive months
+  weekday: DaySplit;
+  weekend: DaySplit;
+}
+
+function split(totalSpent: number, days: number): DaySplit {
+  return { totalSpent: round(totalSpent), days, averageDailySpent: days > 0 ? round(totalSpent / days) : 0 };
+}
+
+function previousMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 2, 1)).toISOString().slice(0, 7);
+}
+
+function shares(byCategory: ReadonlyMap<TransactionCategory, number>, total: number): Map<TransactionCategory, number> {
+  return new Map([...byCategory].map(([category, spent]) => [category, total > 0 ? spent / total : 0]));
+}
+
+// `periods` are the statements' first-to-last transaction dates. Days are counted once however many
+// statements cover them, so overlaps don't dilute the average and gaps between statements don't count.
+export function spendingInsights(
+  transactions: readonly InsightTransaction[],
+  periods: ReadonlyArray<{ from: string; to: string }>,
+  range: DateRange = {}
+): SpendingInsights {
+  const from = range.from ? parseDay(range.from) : null;
+  const to = range.to ? parseDay(range.to) : null;
+  const inRange = (day: number) => (from === null || day >= from) && (to === null || day <= to);
+
+  const days = daysCovered(periods).filter(inRange);
+  const statements = periods.filter((p) => {
+    const start = parseDay(p.from);
+    const end = parseDay(p.to);
+    return start !== null && end !== null && (to === null || start <= to) && (from === null || end >= from);
+  }).length;
+
+  const daysByMonth = new Map<string, number>();
+  let weekendDays = 0;
+  for (const day of days) {
+    const month = formatDay(day).slice(0, 7);
+    daysByMonth.set(month, (daysByMonth.get(month) ?? 0) + 1);
+    if (isWeekend(day)) weekendDays++;
+  }
+
+  let total = 0;
+  let weekendSpent = 0;
+  const spentByMonth = new Map<string, number>();
+  const categoriesByMonth = new Map<string, Map<TransactionCategory, number>>();
+  for (const t of transactions) {
+    const day = parseDay(t.date);
+    if (day === null || !inRange(day)) continue;
+    const month = t.date.slice(0, 7);
+    total += t.amount;
+    if (isWeekend(day)) weekendSpent += t.amount;
+    spentByMonth.set(month, (spentByMonth.get(month) ?? 0) + t.amount);
+    const byCategory = categoriesByMonth.get(month) ?? new Map<TransactionCategory, number>();
+    byCategory.set(t.category, (byCategory.get(t.category) ?? 0) + t.amount);
+    categoriesByMonth.set(month, byCategory);
+  }
+
+  const months = [...daysByMonth.keys()].sort().map((month): MonthInsight => {
+    const spent = spentByMonth.get(month) ?? 0;
+    const previous = previousMonth(month);
+    const previousSpent = daysByMonth.has(previous) ? spentByMonth.get(previous) ?? 0 : null;
+    const change = previousSpent === null ? null : round(spent - previousSpent);
+    return {
+      month,
+      ...split(spent, daysByMonth.get(month) ?? 0),
+      change,
+      changeRatio: change === null || !previousSpent ? null : round(change / previousSpent, 4),
+    };
+  });
+
+  const latest = months[months.length - 1];
+  const categoryShifts: CategoryShift[] = [];
+  if (latest && latest.change !== null) {
+    const previous = previousMonth(latest.month);
+    const now = shares(categoriesByMonth.get(latest.month) ?? new Map(), spentByMonth.get(latest.month) ?? 0);
+    const before = shares(categoriesByMonth.get(previous) ?? new Map(), spentByMonth.get(previous) ?? 0);
+    for (const category of new Set([...now.keys(), ...before.keys()])) {
+      const share = now.get(category) ?? 0;
+      const previousShare = before.get(category) ?? 0;
+      categoryShifts.push({
+        category,
+        share: round(share, 4),
+        previousShare: round(previousShare, 4),
+        change: round(share - previousShare, 4),
+      });
+    }
+    categoryShifts.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  }
+
+  return {
+    ...split(total, days.length),
+    from: days.length > 0 ? formatDay(days[0]) : null,
+    to: days.length > 0 ? formatDay(days[days.length - 1]) : null,
+    statements,
+    months,
+    categoryShifts,
+    weekday: split(total - weekendSpent, days.length - weekendDays),
+    weekend: split(weekendSpent, weekendDays),
+  };
+}
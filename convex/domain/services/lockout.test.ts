@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  AttemptState,
+  CLIENT_LOCKOUT,
+  CODE_LOCKOUT,
+  LockoutPolicy,
+  lockDurationMs,
+  lockExpired,
+  lockRemainingMs,
+  registerFailure,
+} from "./lockout";
+
+const POLICY: LockoutPolicy = { freeAttempts: 3, baseLockMs: 1000, maxLockMs: 5000, failureWindowMs: 60_000 };
+
+describe("lockDurationMs", () => {
+  const CASES: Array<[number, number]> = [
+    [0, 0],
+    [3, 0], // The last free attempt
+    [4, 1000],
+    [5, 2000],
+    [6, 4000],
+    [7, 5000], // Capped
+    [20, 5000],
+  ];
+
+  for (const [failures, expected] of CASES) {
+    it(`locks for ${expected}ms after ${failures} failures`, () => {
+      expect(lockDurationMs(failures, POLICY)).toBe(expected);
+    });
+  }
+
+  it("gives a code fewer free attempts than a client", () => {
+    expect(lockDurationMs(6, CODE_LOCKOUT)).toBeGreaterThan(0);
+    expect(lockDurationMs(6, CLIENT_LOCKOUT)).toBe(0);
+  });
+});
+
+describe("registerFailure", () => {
+  it("counts the first failure without locking", () => {
+    expect(registerFailure(null, 100, POLICY)).toEqual({ failures: 1, lastFailureAt: 100, lockedUntil: undefined });
+  });
+
+  it("locks once the free attempts are used up", () => {
+    expect(registerFailure({ failures: 3, lastFailureAt: 100 }, 200, POLICY)).toEqual({
+      failures: 4,
+      lastFailureAt: 200,
+      lockedUntil: 1200,
+    });
+  });
+
+  it("forgets failures older than the window", () => {
+    expect(registerFailure({ failures: 10, lastFailureAt: 0, lockedUntil: 5000 }, 60_000, POLICY)).toEqual({
+      failures: 1,
+      lastFailureAt: 60_000,
+      lockedUntil: undefined,
+    });
+  });
+});
+
+describe("lock state", () => {
+  const CASES: Array<[string, AttemptState | null, number, number, boolean]> = [
+    ["no attempts", null, 1000, 0, false],
+    ["failures without a lock", { failures: 2, lastFailureAt: 0 }, 1000, 0, false],
+    ["a running lock", { failures: 4, lastFailureAt: 0, lockedUntil: 1500 }, 1000, 500, false],
+    ["a lock that just ran out", { failures: 4, lastFailureAt: 0, lockedUntil: 1000 }, 1000, 0, true],
+  ];
+
+  for (const [name, state, now, remaining, expired] of CASES) {
+    it(`reads ${name}`, () => {
+      expect(lockRemainingMs(state, now)).toBe(remaining);
+      expect(lockExpired(state, now)).toBe(expired);
+    });
+  }
+});
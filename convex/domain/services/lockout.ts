@@ -0,0 +1,57 @@
+// Exponential lockout after repeated failed sign-ins
+
+export interface LockoutPolicy {
+  freeAttempts: number;    // Failures allowed before the first lock
+  baseLockMs: number;      // First lock; each further failure doubles it
+  maxLockMs: number;
+  failureWindowMs: number; // Failures older than this are forgotten
+}
+
+// A code guards one account, so it locks early
+export const CODE_LOCKOUT: LockoutPolicy = {
+  freeAttempts: 5,
+  baseLockMs: 30_000,
+  maxLockMs: 60 * 60_000,
+  failureWindowMs: 24 * 60 * 60_000,
+};
+
+// A client may legitimately try a few accounts (shared device), but not sweep through codes
+export const CLIENT_LOCKOUT: LockoutPolicy = {
+  freeAttempts: 20,
+  baseLockMs: 30_000,
+  maxLockMs: 60 * 60_000,
+  failureWindowMs: 24 * 60 * 60_000,
+};
+
+export interface AttemptState {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil?: number;
+}
+
+export function lockDurationMs(failures: number, policy: LockoutPolicy): number {
+  const over = failures - policy.freeAttempts;
+  if (over <= 0) return 0;
+  return Math.min(policy.baseLockMs * 2 ** (over - 1), policy.maxLockMs);
+}
+
+// How long until the next attempt is allowed (0 = now)
+export function lockRemainingMs(state: AttemptState | null, now: number): number {
+  return state?.lockedUntil !== undefined ? Math.max(0, state.lockedUntil - now) : 0;
+}
+
+// A lock that has run out but hasn't been cleared yet: the moment to record an unlock
+export function lockExpired(state: AttemptState | null, now: number): boolean {
+  return state?.lockedUntil !== undefined && state.lockedUntil <= now;
+}
+
+export function registerFailure(state: AttemptState | null, now: number, policy: LockoutPolicy): AttemptState {
+  const recent = state && now - state.lastFailureAt < policy.failureWindowMs ? state.failures : 0;
+  const failures = recent + 1;
+  const lockMs = lockDurationMs(failures, policy);
+  return {
+    failures,
+    lastFailureAt: now,
+    lockedUntil: lockMs > 0 ? now + lockMs : undefined,
+  };
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+  Merchant,
+  MerchantAlias,
+  applyMerchantRegistry,
+  findMerchant,
+  mergeMerchants,
+  merchantSpending,
+  resolveMerchants,
+  splitMerchant,
+  validateAlias,
+  validateMerchant,
+} from "./merchants";
+import { Transaction } from "../types/analysis";
+
+const tesco: Merchant = { name: "Tesco", aliases: [{ match: "contains", pattern: "tesco" }], defaultCategory: "Food" };
+const tescoMobile: Merchant = { name: "Tesco Mobile", aliases: [{ match: "name", pattern: "TESCO MOBILE 0800" }] };
+
+describe("validateAlias", () => {
+  const CASES: Array<[MerchantAlias, ReturnType<typeof validateAlias>]> = [
+    [{ match: "contains", pattern: "  tesco " }, { ok: true, value: { match: "contains", pattern: "tesco" } }],
+    [{ match: "contains", pattern: "   " }, { ok: false, error: "Alias must not be empty" }],
+    [
+      { match: "name", pattern: "12345" },
+      { ok: false, error: `"12345" has no name left once reference numbers are dropped; use "contains" instead` },
+    ],
+    [{ match: "regex", pattern: "^tesco (express|extra)$" }, { ok: true, value: { match: "regex", pattern: "^tesco (express|extra)$" } }],
+  ];
+
+  for (const [alias, expected] of CASES) {
+    it(`checks ${alias.match} ${JSON.stringify(alias.pattern)}`, () => {
+      expect(validateAlias(alias)).toEqual(expected);
+    });
+  }
+
+  it("refuses a regular expression that doesn't compile", () => {
+    expect(validateAlias({ match: "regex", pattern: "tesco(" }).ok).toBe(false);
+  });
+});
+
+describe("validateMerchant", () => {
+  it("trims, drops repeated aliases and blank branding", () => {
+    expect(
+      validateMerchant({
+        name: " Tesco ",
+        aliases: [
+          { match: "contains", pattern: "tesco" },
+          { match: "contains", pattern: "TESCO " },
+        ],
+        color: " ",
+      })
+    ).toEqual({ ok: true, value: { name: "Tesco", aliases: [{ match: "contains", pattern: "tesco" }], defaultCategory: undefined, logoUrl: undefined, color: undefined } });
+  });
+
+  const REFUSED: Array<[string, Partial<Merchant>, string]> = [
+    ["a blank name", { name: "  " }, "Name must not be empty"],
+    ["a name over 100 characters", { name: "x".repeat(101) }, "Name must be at most 100 characters"],
+    ["too many aliases", { aliases: Array.from({ length: 51 }, (_, i) => ({ match: "contains" as const, pattern: `shop ${i}` })) }, "A merchant can have at most 50 aliases"],
+    ["a colour that isn't #RRGGBB", { color: "red" }, "Colour must be #RRGGBB"],
+    ["a logo that isn't a URL", { logoUrl: "tesco.png" }, "Logo must be a URL"],
+    ["a logo over http", { logoUrl: "http://example.com/tesco.png" }, "Logo must be an https URL"],
+  ];
+
+  for (const [name, change, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(validateMerchant({ ...tesco, ...change })).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("findMerchant", () => {
+  const merchants = [tesco, tescoMobile];
+
+  const CASES: Array<[string, string | undefined]> = [
+    ["TESCO STORES 3297", "Tesco"],
+    ["Tesco Mobile 0800", "Tesco Mobile"], // Named exactly, so the pattern doesn't take it
+    ["tesco mobile", "Tesco Mobile"],
+    ["Sainsbury's", undefined],
+  ];
+
+  for (const [merchant, expected] of CASES) {
+    it(`finds ${expected} for ${JSON.stringify(merchant)}`, () => {
+      expect(findMerchant(merchants, merchant)?.name).toBe(expected);
+    });
+  }
+});
+
+describe("resolveMerchants", () => {
+  it("renames to the registry's name and keeps the statement's spelling", () => {
+    expect(resolveMerchants([{ merchant: "TESCO STORES 3297" }], [tesco])).toEqual([{ merchant: "Tesco", rawMerchant: "TESCO STORES 3297" }]);
+  });
+
+  it("gives the statement's name back once the merchant is gone", () => {
+    expect(resolveMerchants([{ merchant: "Tesco", rawMerchant: "TESCO STORES 3297" }], [])).toEqual([{ merchant: "TESCO STORES 3297" }]);
+  });
+
+  it("keeps no separate spelling when it already is the registry's name", () => {
+    expect(resolveMerchants([{ merchant: "Tesco" }], [tesco])).toEqual([{ merchant: "Tesco" }]);
+  });
+});
+
+describe("applyMerchantRegistry", () => {
+  const row: Transaction = { date: "2024-03-01", merchant: "TESCO STORES 3297", amount: 30, currency: "GBP", category: "Other" };
+
+  it("applies the default category after resolving the name", () => {
+    expect(applyMerchantRegistry([row], [tesco], [])).toEqual([
+      { ...row, merchant: "Tesco", rawMerchant: "TESCO STORES 3297", category: "Food", categorySource: "rule", modelCategory: "Other" },
+    ]);
+  });
+
+  it("lets the user's own rules win over the default category", () => {
+    const [resolved] = applyMerchantRegistry([row], [tesco], [{ match: "exact", pattern: "Tesco", category: "Shopping" }]);
+    expect(resolved.category).toBe("Shopping");
+  });
+});
+
+describe("mergeMerchants", () => {
+  it("turns the other merchant's name and aliases into aliases and keeps its own settings first", () => {
+    expect(mergeMerchants({ name: "Tesco", aliases: [], color: "#003366" }, { ...tescoMobile, color: "#ff0000", defaultCategory: "Utilities" })).toEqual({
+      name: "Tesco",
+      aliases: [{ match: "name", pattern: "Tesco Mobile" }, ...tescoMobile.aliases],
+      defaultCategory: "Utilities",
+      logoUrl: undefined,
+      color: "#003366",
+    });
+  });
+});
+
+describe("splitMerchant", () => {
+  const merchant: Merchant = {
+    name: "Tesco",
+    aliases: [
+      { match: "contains", pattern: "tesco" },
+      { match: "name", pattern: "Tesco Mobile" },
+    ],
+  };
+
+  it("moves the chosen aliases to a new merchant", () => {
+    expect(splitMerchant(merchant, [1], "Tesco Mobile")).toEqual({
+      ok: true,
+      value: {
+        kept: { name: "Tesco", aliases: [merchant.aliases[0]] },
+        split: { name: "Tesco Mobile", aliases: [merchant.aliases[1]], defaultCategory: undefined, logoUrl: undefined, color: undefined },
+      },
+    });
+  });
+
+  const REFUSED: Array<[string, number[], string, string]> = [
+    ["no aliases", [], "Tesco Mobile", "Pick the aliases to split off"],
+    ["an alias that isn't there", [2], "Tesco Mobile", "Pick the aliases to split off"],
+    ["the same name", [1], "TESCO", `"TESCO" would still match Tesco`],
+  ];
+
+  for (const [name, indexes, newName, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(splitMerchant(merchant, indexes, newName)).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("merchantSpending", () => {
+  it("groups registry merchants by name and others by their normalised name, biggest first", () => {
+    const spend = merchantSpending(
+      [
+        { date: "2024-03-01", merchant: "Tesco", rawMerchant: "TESCO STORES 3297", amount: 10.1 },
+        { date: "2024-03-09", merchant: "Tesco", rawMerchant: "Tesco Express", amount: 20.2 },
+        { date: "2024-04-02", merchant: "Tesco", rawMerchant: "TESCO STORES 3297", amount: 5 },
+        { date: "2024-03-05", merchant: "NETFLIX.COM 0123", amount: 10.99 },
+        { date: "2024-04-05", merchant: "Netflix.com", amount: 10.99 },
+      ],
+      [tesco]
+    );
+    expect(spend).toEqual([
+      {
+        name: "Tesco",
+        registered: true,
+        spellings: ["TESCO STORES 3297", "Tesco Express"],
+        totalSpent: 35.3,
+        transactions: 3,
+        months: [
+          { month: "2024-03", totalSpent: 30.3, transactions: 2 },
+          { month: "2024-04", totalSpent: 5, transactions: 1 },
+        ],
+      },
+      {
+        name: "NETFLIX.COM 0123",
+        registered: false,
+        spellings: ["NETFLIX.COM 0123", "Netflix.com"],
+        totalSpent: 21.98,
+        transactions: 2,
+        months: [
+          { month: "2024-03", totalSpent: 10.99, transactions: 1 },
+          { month: "2024-04", totalSpent: 10.99, transactions: 1 },
+        ],
+      },
+    ]);
+  });
+});
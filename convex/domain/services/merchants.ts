@@ -0,0 +1,231 @@
+// Merchant registry: canonical names for the many ways statements spell one shop
+// ("TESCO STORES 3297", "Tesco Express", "TESCO.COM" -> "Tesco"), with optional default categories and branding.
+// Applied after extraction, before category rules, so it never depends on what the model called the merchant.
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { Result, ok, err } from "../types/result";
+import { CategoryRule, applyCategoryRules, patternMatches } from "./category-rules";
+import { round } from "./money";
+import { normalizeMerchant } from "./subscriptions";
+
+export const MERCHANT_ALIAS_MATCHES = ["name", "contains", "regex"] as const;
+export type MerchantAliasMatch =
+  | "name"     // Same name once case, punctuation, reference numbers and noise words are dropped
+  | "contains" // Substring of the statement's merchant, ignoring case
+  | "regex";   // JavaScript regular expression, case-insensitive
+
+export interface MerchantAlias {
+  match: MerchantAliasMatch;
+  pattern: string;
+}
+
+export interface Merchant {
+  name: string;
+  aliases: MerchantAlias[];
+  defaultCategory?: TransactionCategory; // Applied like a category rule, after the user's own rules
+  logoUrl?: string; // https only
+  color?: string;   // #RRGGBB
+}
+
+export interface MerchantSpendMonth {
+  month: string; // YYYY-MM
+  totalSpent: number;
+  transactions: number;
+}
+
+export interface MerchantSpend {
+  name: string;
+  registered: boolean; // false: a statement spelling no registry merchant claims yet
+  spellings: string[]; // The statements' own names behind it
+  totalSpent: number;
+  transactions: number;
+  months: MerchantSpendMonth[]; // Oldest first
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_ALIASES = 50;
+
+// The parts of a transaction the registry looks at and rewrites, names alone or with categories
+type Named = Pick<Transaction, "merchant" | "rawMerchant">;
+type Categorized = Named & Pick<Transaction, "amount" | "category" | "categorySource" | "modelCategory">;
+
+// Amounts already in one reporting currency (see transactionsInCurrency)
+type SpendTransaction = Pick<Transaction, "date" | "merchant" | "rawMerchant" | "amount">;
+
+function sameName(a: string, b: string): boolean {
+  const key = normalizeMerchant(a);
+  return key !== "" && key === normalizeMerchant(b);
+}
+
+function aliasMatches(alias: MerchantAlias, merchant: string): boolean {
+  return alias.match === "name" ? sameName(alias.pattern, merchant) : patternMatches(alias.match, alias.pattern, merchant);
+}
+
+function aliasKey(alias: MerchantAlias): string {
+  return `${alias.match}:${alias.pattern.trim().toLowerCase()}`;
+}
+
+function uniqueAliases(aliases: readonly MerchantAlias[]): MerchantAlias[] {
+  const seen = new Set<string>();
+  return aliases.filter((alias) => {
+    const key = aliasKey(alias);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function validateAlias(alias: MerchantAlias): Result<MerchantAlias, string> {
+  const pattern = alias.pattern.trim();
+  if (!pattern) {
+    return err("Alias must not be empty");
+  }
+  if (alias.match === "name" && normalizeMerchant(pattern) === "") {
+    return err(`"${pattern}" has no name left once reference numbers are dropped; use "contains" instead`);
+  }
+  if (alias.match === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      return err(error instanceof Error ? error.message : "Invalid regular expression");
+    }
+  }
+  return ok({ match: alias.match, pattern });
+}
+
+// Merchants are checked when saved, so resolving never has to deal with a broken pattern
+export function validateMerchant(merchant: Merchant): Result<Merchant, string> {
+  const name = merchant.name.trim();
+  if (!name) {
+    return err("Name must not be empty");
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return err(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const aliases: MerchantAlias[] = [];
+  for (const alias of merchant.aliases) {
+    const validated = validateAlias(alias);
+    if (!validated.ok) return validated;
+    aliases.push(validated.value);
+  }
+  if (aliases.length > MAX_ALIASES) {
+    return err(`A merchant can have at most ${MAX_ALIASES} aliases`);
+  }
+  const color = merchant.color?.trim() || undefined;
+  if (color && !/^#[0-9a-f]{6}$/i.test(color)) {
+    return err("Colour must be #RRGGBB");
+  }
+  const logoUrl = merchant.logoUrl?.trim() || undefined;
+  if (logoUrl) {
+    let url: URL;
+    try {
+      url = new URL(logoUrl);
+    } catch {
+      return err("Logo must be a URL");
+    }
+    if (url.protocol !== "https:") {
+      return err("Logo must be an https URL");
+    }
+  }
+  return ok({ name, aliases: uniqueAliases(aliases), defaultCategory: merchant.defaultCategory, logoUrl, color });
+}
+
+// A merchant named exactly (its own name or a "name" alias) wins over a pattern, so "Tesco Mobile"
+// split off from "Tesco" keeps its rows even though Tesco's "contains tesco" also matches. Oldest first within each.
+export function findMerchant<M extends Merchant>(merchants: readonly M[], merchant: string): M | undefined {
+  return (
+    merchants.find((m) => sameName(m.name, merchant) || m.aliases.some((alias) => alias.match === "name" && aliasMatches(alias, merchant))) ??
+    merchants.find((m) => m.aliases.some((alias) => alias.match !== "name" && aliasMatches(alias, merchant)))
+  );
+}
+
+// Works from the statement's spelling kept on each row, so it can be re-run after the registry
+// changes (removing a merchant gives the statement's name back)
+export function resolveMerchants<T extends Named>(transactions: readonly T[], merchants: readonly Merchant[]): T[] {
+  return transactions.map((t) => {
+    const { rawMerchant, ...rest } = t;
+    const raw = rawMerchant ?? t.merchant;
+    const found = findMerchant(merchants, raw);
+    if (!found || found.name === raw) {
+      return { ...rest, merchant: raw } as T;
+    }
+    return { ...rest, merchant: found.name, rawMerchant: raw } as T;
+  });
+}
+
+// Default categories as rules on the canonical name, to run after the user's own rules
+export function merchantCategoryRules(merchants: readonly Merchant[]): CategoryRule[] {
+  return merchants.flatMap((m) => (m.defaultCategory ? [{ match: "exact" as const, pattern: m.name, category: m.defaultCategory }] : []));
+}
+
+// Registry names first, then the user's rules, then the registry's default categories (the first match wins)
+export function applyMerchantRegistry<T extends Categorized>(
+  transactions: readonly T[],
+  merchants: readonly Merchant[],
+  rules: readonly CategoryRule[]
+): T[] {
+  return applyCategoryRules(resolveMerchants(transactions, merchants), [...rules, ...merchantCategoryRules(merchants)]);
+}
+
+// `from` disappears into `into`: its name and aliases become aliases, and `into` keeps its own settings where set
+export function mergeMerchants(into: Merchant, from: Merchant): Merchant {
+  return {
+    ...into,
+    aliases: uniqueAliases([...into.aliases, { match: "name", pattern: from.name }, ...from.aliases]),
+    defaultCategory: into.defaultCategory ?? from.defaultCategory,
+    logoUrl: into.logoUrl ?? from.logoUrl,
+    color: into.color ?? from.color,
+  };
+}
+
+// The aliases at `indexes` move to a new merchant called `name`; the rest stay
+export function splitMerchant(merchant: Merchant, indexes: readonly number[], name: string): Result<{ kept: Merchant; split: Merchant }, string> {
+  const moving = new Set(indexes);
+  if (moving.size === 0 || [...moving].some((i) => !Number.isInteger(i) || i < 0 || i >= merchant.aliases.length)) {
+    return err("Pick the aliases to split off");
+  }
+  const split = validateMerchant({ name, aliases: merchant.aliases.filter((_, i) => moving.has(i)) });
+  if (!split.ok) return split;
+  if (sameName(split.value.name, merchant.name)) {
+    return err(`"${split.value.name}" would still match ${merchant.name}`);
+  }
+  return ok({
+    kept: { ...merchant, aliases: merchant.aliases.filter((_, i) => !moving.has(i)) },
+    split: split.value,
+  });
+}
+
+// Spending per merchant, month by month, biggest first. Registry merchants group by their canonical name;
+// other merchants by their normalised name, so "NETFLIX.COM 0123" and "Netflix.com" still land together.
+export function merchantSpending(transactions: readonly SpendTransaction[], merchants: readonly Merchant[]): MerchantSpend[] {
+  const registered = new Set(merchants.map((m) => m.name));
+  const groups = new Map<string, { name: string; registered: boolean; spellings: Set<string>; months: Map<string, MerchantSpendMonth> }>();
+  for (const t of transactions) {
+    const isRegistered = registered.has(t.merchant);
+    const key = isRegistered ? `registry:${t.merchant}` : `name:${normalizeMerchant(t.merchant) || t.merchant}`;
+    const group = groups.get(key) ?? { name: t.merchant, registered: isRegistered, spellings: new Set<string>(), months: new Map() };
+    group.spellings.add(t.rawMerchant ?? t.merchant);
+    const month = t.date.slice(0, 7);
+    const entry = group.months.get(month) ?? { month, totalSpent: 0, transactions: 0 };
+    entry.totalSpent += t.amount;
+    entry.transactions++;
+    group.months.set(month, entry);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((group): MerchantSpend => {
+      const months = [...group.months.values()]
+        .sort((a, b) => a.month.localeCompare(b.month))
+        .map((m) => ({ ...m, totalSpent: round(m.totalSpent) }));
+      return {
+        name: group.name,
+        registered: group.registered,
+        spellings: [...group.spellings].sort(),
+        totalSpent: round(months.reduce((sum, m) => sum + m.totalSpent, 0)),
+        transactions: months.reduce((sum, m) => sum + m.transactions, 0),
+        months,
+      };
+    })
+    .sort((a, b) => b.totalSpent - a.totalSpent);
+}
@@ -0,0 +1,6 @@
+// Money arithmetic shared by the services that total and convert amounts
+
+// Money to the cent; ratios and shares pass more digits
+export function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
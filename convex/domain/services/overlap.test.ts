@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { countOnce, findOverlap } from "./overlap";
+
+const row = (date: string, merchant: string, amount: number, currency = "GBP") => ({ date, merchant, amount, currency });
+
+describe("findOverlap", () => {
+  const march = [row("2024-03-01", "TESCO STORES 3021", 12.5), row("2024-03-10", "Netflix.com", 10.99), row("2024-03-20", "Shell", 40)];
+
+  it("finds the same file uploaded twice", () => {
+    expect(findOverlap(march, march)).toEqual({ sharedTransactions: 3, from: "2024-03-01", to: "2024-03-20" });
+  });
+
+  it("matches rows whose merchant is spelled differently by another export", () => {
+    const csv = [row("2024-03-10", "NETFLIX.COM 0123", 10.99), row("2024-03-20", "SHELL", 40), row("2024-03-25", "Boots", 8)];
+    expect(findOverlap(csv, march)).toEqual({ sharedTransactions: 2, from: "2024-03-10", to: "2024-03-20" });
+  });
+
+  it("needs half the rows in the shared period to match", () => {
+    const others = [row("2024-03-01", "Tesco Stores", 12.5), row("2024-03-05", "Greggs", 3), row("2024-03-06", "Pret", 4)];
+    expect(findOverlap(others, march)).toBeNull();
+  });
+
+  it("matches each row one-to-one", () => {
+    const twice = [row("2024-03-01", "Tesco", 5), row("2024-03-01", "Tesco", 5)];
+    expect(findOverlap(twice, [row("2024-03-01", "Tesco", 5)])).toEqual({ sharedTransactions: 1, from: "2024-03-01", to: "2024-03-01" });
+  });
+
+  const NONE: Array<[string, ReturnType<typeof row>[], ReturnType<typeof row>[]]> = [
+    ["periods that don't meet", [row("2024-04-01", "Tesco", 5)], march],
+    ["the same amount in another currency", [row("2024-03-20", "Shell", 40, "EUR")], [row("2024-03-20", "Shell", 40)]],
+    ["an empty statement", [], march],
+  ];
+
+  for (const [name, incoming, existing] of NONE) {
+    it(`finds nothing for ${name}`, () => {
+      expect(findOverlap(incoming, existing)).toBeNull();
+    });
+  }
+});
+
+describe("countOnce", () => {
+  const a = [row("2024-03-01", "Tesco", 5), row("2024-03-01", "Tesco", 5), row("2024-03-02", "Shell", 40)];
+
+  it("leaves out the rows a later document shares with the one it overlaps", () => {
+    const b = [row("2024-03-01", "TESCO", 5), row("2024-03-03", "Boots", 8)];
+    const counted = countOnce([
+      { id: "a", transactions: a, overlapsWith: [] },
+      { id: "b", transactions: b, overlapsWith: ["a"] },
+    ]);
+    expect(counted).toEqual([...a, b[1]]);
+  });
+
+  it("keeps identical rows of documents not marked as overlapping", () => {
+    const counted = countOnce([
+      { id: "a", transactions: a, overlapsWith: [] },
+      { id: "b", transactions: a, overlapsWith: [] },
+    ]);
+    expect(counted).toHaveLength(6);
+  });
+
+  it("counts a row repeated in the later document only as often as the earlier one has it", () => {
+    const b = [row("2024-03-01", "Tesco", 5), row("2024-03-01", "Tesco", 5), row("2024-03-01", "Tesco", 5)];
+    const counted = countOnce([
+      { id: "a", transactions: a, overlapsWith: [] },
+      { id: "b", transactions: b, overlapsWith: ["a"] },
+    ]);
+    expect(counted).toEqual([...a, b[2]]);
+  });
+
+  it("counts a row shared by several earlier documents once", () => {
+    const c = [row("2024-03-02", "Shell", 40)];
+    const counted = countOnce([
+      { id: "a", transactions: a, overlapsWith: [] },
+      { id: "b", transactions: c, overlapsWith: ["a"] },
+      { id: "c", transactions: c, overlapsWith: ["a", "b"] },
+    ]);
+    expect(counted).toEqual(a);
+  });
+});
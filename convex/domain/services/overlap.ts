@@ -0,0 +1,108 @@
+// Overlapping statements: the same transactions arriving in more than one document
+// (the same file uploaded twice, or statements whose periods run into each other)
+
+import { Transaction } from "../types/analysis";
+import { normalizeMerchant } from "./subscriptions";
+
+type OverlapTransaction = Pick<Transaction, "date" | "merchant" | "amount"> & { currency?: string };
+
+// Share of the new statement's rows, within the period both cover, that must also be in the
+// earlier one. Keeps a coincidence (two members buying the same coffee) from counting as an overlap.
+export const OVERLAP_MIN_SHARE = 0.5;
+
+export const OVERLAP_KINDS = [
+  "duplicate", // The same file (content hash), found on upload
+  "overlap",   // Shared transactions, found after analysis
+] as const;
+export type OverlapKind = (typeof OVERLAP_KINDS)[number];
+
+// Skip drops the new upload, replace drops the earlier documents, merge keeps both
+export const OVERLAP_RESOLUTIONS = ["skip", "replace", "merge"] as const;
+export type OverlapResolution = (typeof OVERLAP_RESOLUTIONS)[number];
+
+export interface StatementOverlap {
+  sharedTransactions: number;
+  from: string; // The period both statements cover
+  to: string;
+}
+
+// Merchant names are normalised: a PDF statement and the bank's CSV export of it spell them differently
+function transactionKey(t: OverlapTransaction): string {
+  return [t.date, normalizeMerchant(t.merchant), t.amount.toFixed(2), t.currency ?? ""].join("|");
+}
+
+function countKeys(transactions: readonly OverlapTransaction[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    const key = transactionKey(t);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function span(transactions: readonly OverlapTransaction[]): { from: string; to: string } | null {
+  const dates = transactions.map((t) => t.date).sort();
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+}
+
+// Rows are matched one-to-one, as a statement can hold two identical purchases
+export function findOverlap(
+  incoming: readonly OverlapTransaction[],
+  existing: readonly OverlapTransaction[]
+): StatementOverlap | null {
+  const a = span(incoming);
+  const b = span(existing);
+  if (!a || !b) return null;
+  const from = a.from > b.from ? a.from : b.from;
+  const to = a.to < b.to ? a.to : b.to;
+  if (from > to) return null;
+
+  const remaining = countKeys(existing);
+  let shared = 0;
+  let inPeriod = 0;
+  for (const t of incoming) {
+    if (t.date < from || t.date > to) continue;
+    inPeriod++;
+    const key = transactionKey(t);
+    const left = remaining.get(key) ?? 0;
+    if (left > 0) {
+      remaining.set(key, left - 1);
+      shared++;
+    }
+  }
+  return shared > 0 && shared >= inPeriod * OVERLAP_MIN_SHARE ? { sharedTransactions: shared, from, to } : null;
+}
+
+export interface OverlappingDocument<T extends OverlapTransaction> {
+  id: string;
+  transactions: readonly T[];
+  overlapsWith: readonly string[]; // Earlier documents found to share its transactions
+}
+
+// Every document's transactions, with the rows it shares with an earlier document it overlaps left
+// out, so cross-statement totals count each transaction once. Documents must be in upload order.
+// Only documents marked as overlapping are compared, so unrelated statements keep identical rows.
+export function countOnce<T extends OverlapTransaction>(documents: ReadonlyArray<OverlappingDocument<T>>): T[] {
+  const keysById = new Map(documents.map((d) => [d.id, countKeys(d.transactions)]));
+  const counted: T[] = [];
+
+  for (const doc of documents) {
+    // A row already counted by any of the earlier documents (each matched at most as often as it appears there)
+    const alreadyCounted = new Map<string, number>();
+    for (const id of doc.overlapsWith) {
+      for (const [key, count] of keysById.get(id) ?? []) {
+        alreadyCounted.set(key, Math.max(alreadyCounted.get(key) ?? 0, count));
+      }
+    }
+    for (const t of doc.transactions) {
+      const key = transactionKey(t);
+      const left = alreadyCounted.get(key) ?? 0;
+      if (left > 0) {
+        alreadyCounted.set(key, left - 1);
+        continue;
+      }
+      counted.push(t);
+    }
+  }
+  return counted;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { computePeriodStats, dateRange, daysCovered, formatDay, isWeekend, parseDay, summarizeTransactions } from "./period";
+
+describe("computePeriodStats", () => {
+  const CASES: Array<[string, Array<{ date?: unknown }>, number, { period: string; averageDailySpent: number }]> = [
+    ["one day", [{ date: "2024-03-05" }], 30, { period: "2024-03-05 ~ 2024-03-05", averageDailySpent: 30 }],
+    [
+      "counts both ends of the range",
+      [{ date: "2024-03-10" }, { date: "2024-03-01" }],
+      100,
+      { period: "2024-03-01 ~ 2024-03-10", averageDailySpent: 10 },
+    ],
+    [
+      "rounds the average to the cent",
+      [{ date: "2024-03-01" }, { date: "2024-03-03" }],
+      10,
+      { period: "2024-03-01 ~ 2024-03-03", averageDailySpent: 3.33 },
+    ],
+    [
+      "skips dates it can't read",
+      [{ date: "soon" }, { date: "2024-03-01" }, {}, { date: "2024-03-02" }],
+      10,
+      { period: "2024-03-01 ~ 2024-03-02", averageDailySpent: 5 },
+    ],
+    ["no dates at all", [{ date: "soon" }, {}], 10, { period: "날짜 정보 없음", averageDailySpent: 0 }],
+    ["no transactions", [], 0, { period: "날짜 정보 없음", averageDailySpent: 0 }],
+  ];
+
+  for (const [name, transactions, totalSpent, expected] of CASES) {
+    it(name, () => {
+      expect(computePeriodStats(transactions, totalSpent)).toEqual(expected);
+    });
+  }
+});
+
+describe("summarizeTransactions", () => {
+  it("totals the rows to the cent", () => {
+    expect(
+      summarizeTransactions([
+        { date: "2024-03-01", amount: 0.1 },
+        { date: "2024-03-02", amount: 0.2 },
+      ])
+    ).toEqual({ totalSpent: 0.3, period: "2024-03-01 ~ 2024-03-02", averageDailySpent: 0.15, missingRates: [] });
+  });
+
+  it("leaves out rows it can't convert and reports their currency", () => {
+    const rows = [
+      { date: "2024-03-01", amount: 10, currency: "EUR" },
+      { date: "2024-03-02", amount: 500, currency: "JPY" },
+      { date: "2024-03-02", amount: 700, currency: "JPY" },
+    ];
+    expect(summarizeTransactions(rows, (t) => (t.currency === "EUR" ? t.amount : null))).toEqual({
+      totalSpent: 10,
+      period: "2024-03-01 ~ 2024-03-02",
+      averageDailySpent: 5,
+      missingRates: ["JPY"],
+    });
+  });
+});
+
+describe("dateRange", () => {
+  it("spans the first and last readable date", () => {
+    expect(dateRange([{ date: "2024-03-09" }, { date: "soon" }, { date: "2024-03-01" }, { date: "2024-03-05" }])).toEqual({
+      from: "2024-03-01",
+      to: "2024-03-09",
+    });
+  });
+
+  it("is null without a readable date", () => {
+    expect(dateRange([{ date: "soon" }])).toBeNull();
+    expect(dateRange([])).toBeNull();
+  });
+});
+
+describe("daysCovered", () => {
+  const CASES: Array<[string, Array<{ from: string; to: string }>, number]> = [
+    ["one statement", [{ from: "2024-03-01", to: "2024-03-31" }], 31],
+    ["statements that overlap", [{ from: "2024-03-01", to: "2024-03-31" }, { from: "2024-03-15", to: "2024-04-14" }], 45],
+    ["one inside another", [{ from: "2024-03-01", to: "2024-03-31" }, { from: "2024-03-10", to: "2024-03-12" }], 31],
+    ["a gap between", [{ from: "2024-03-01", to: "2024-03-10" }, { from: "2024-03-21", to: "2024-03-30" }], 20],
+    ["statements that meet", [{ from: "2024-03-01", to: "2024-03-10" }, { from: "2024-03-11", to: "2024-03-20" }], 20],
+    ["unreadable dates", [{ from: "soon", to: "2024-03-10" }], 0],
+    ["nothing", [], 0],
+  ];
+
+  for (const [name, ranges, expected] of CASES) {
+    it(`counts ${expected} days for ${name}`, () => {
+      expect(daysCovered(ranges)).toHaveLength(expected);
+    });
+  }
+
+  it("lists each day once, ascending", () => {
+    expect(daysCovered([{ from: "2024-03-03", to: "2024-03-04" }, { from: "2024-03-01", to: "2024-03-03" }]).map(formatDay)).toEqual([
+      "2024-03-01",
+      "2024-03-02",
+      "2024-03-03",
+      "2024-03-04",
+    ]);
+  });
+});
+
+describe("parseDay", () => {
+  const CASES: Array<[string, number | null]> = [
+    ["1970-01-01", 0],
+    ["2024-03-31", 19813],
+    ["2024-02-29", 19782],
+    ["2023-02-29", null], // Would roll into March
+    ["2024-13-01", null],
+    ["31/03/2024", null],
+    ["2024-03-31T23:00:00Z", null],
+  ];
+
+  for (const [date, expected] of CASES) {
+    it(`reads ${date} as ${expected}`, () => {
+      expect(parseDay(date)).toBe(expected);
+    });
+  }
+
+  it("round-trips through formatDay", () => {
+    expect(formatDay(parseDay("2024-03-31")!)).toBe("2024-03-31");
+  });
+});
+
+describe("isWeekend", () => {
+  it("is Saturday and Sunday", () => {
+    const week = ["2024-03-04", "2024-03-08", "2024-03-09", "2024-03-10"].map((d) => isWeekend(parseDay(d)!));
+    expect(week).toEqual([false, false, true, true]);
+  });
+});
@@ -0,0 +1,103 @@
+// Statement totals, period and daily average calculation
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Statement dates are calendar days, not instants: "2024-03-31" is read as that day in UTC so neither
+// the server's nor the browser's timezone can move it. Returns days since 1970-01-01, or null.
+export function parseDay(date: string): number | null {
+  const match = DAY_PATTERN.exec(date);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const parsed = new Date(time);
+  // "2024-02-30" would otherwise roll over into March
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) return null;
+  return time / MS_PER_DAY;
+}
+
+export function formatDay(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+export function isWeekend(day: number): boolean {
+  const weekday = new Date(day * MS_PER_DAY).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+export interface PeriodStats {
+  period: string;
+  averageDailySpent: number;
+}
+
+// Derived in code rather than asked of the model so the numbers are always consistent.
+export function computePeriodStats(
+  transactions: ReadonlyArray<{ date?: unknown }>,
+  totalSpent: number
+): PeriodStats {
+  const days = transactions
+    .map((t) => parseDay(String(t.date)))
+    .filter((day): day is number => day !== null)
+    .sort((a, b) => a - b);
+
+  if (days.length === 0) {
+    return { period: "날짜 정보 없음", averageDailySpent: 0 };
+  }
+
+  const first = days[0];
+  const last = days[days.length - 1];
+  const period = `${formatDay(first)} ~ ${formatDay(last)}`;
+
+  // Inclusive day count (+1 day)
+  const diffDays = last - first + 1;
+  const averageDailySpent = Number((totalSpent / diffDays).toFixed(2));
+
+  return { period, averageDailySpent };
+}
+
+export interface StatementTotals extends PeriodStats {
+  totalSpent: number;
+  missingRates: string[];
+}
+
+type Summarizable = { date: string; amount: number; currency?: string };
+
+// Totals always come from the validated rows so they can't disagree with the list the user sees.
+// `amountOf` converts a row into the reporting currency; rows it can't convert are left out and
+// their currency reported, rather than adding up amounts in different currencies.
+export function summarizeTransactions<T extends Summarizable>(
+  transactions: readonly T[],
+  amountOf: (t: T) => number | null = (t) => t.amount
+): StatementTotals {
+  const missing = new Set<string>();
+  let total = 0;
+  for (const t of transactions) {
+    const amount = amountOf(t);
+    if (amount === null) missing.add(t.currency ?? "unknown");
+    else total += amount;
+  }
+
+  const totalSpent = Number(total.toFixed(2));
+  return { totalSpent, ...computePeriodStats(transactions, totalSpent), missingRates: [...missing] };
+}
+
+// First and last transaction date, for summaries that no longer carry the rows themselves
+export function dateRange(transactions: ReadonlyArray<{ date: string }>): { from: string; to: string } | null {
+  const dates = transactions
+    .map((t) => t.date)
+    .filter((date) => parseDay(date) !== null)
+    .sort();
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+}
+
+// Every day inside at least one of the periods (inclusive), each once however many statements cover it, ascending
+export function daysCovered(ranges: ReadonlyArray<{ from: string; to: string }>): number[] {
+  const days = new Set<number>();
+  for (const range of ranges) {
+    const from = parseDay(range.from);
+    const to = parseDay(range.to);
+    if (from === null || to === null) continue;
+    for (let day = from; day <= to; day++) days.add(day);
+  }
+  return [...days].sort((a, b) => a - b);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { SavingsGoal, SavingsStatus, baselineMonths, savingsProgress, validateSavingsGoal } from "./savings";
+
+const goal: SavingsGoal = {
+  name: "Eat out less",
+  targetAmount: 100,
+  startDate: "2024-04-01",
+  deadline: "2024-04-30",
+  baselineMonth: "2024-03",
+  categories: ["Food"],
+};
+
+describe("validateSavingsGoal", () => {
+  it("trims the name, rounds the target and drops repeated categories", () => {
+    expect(validateSavingsGoal({ ...goal, name: " Eat out less ", targetAmount: 99.999, categories: ["Food", "Food"] })).toEqual({
+      ok: true,
+      value: { ...goal, targetAmount: 100, categories: ["Food"] },
+    });
+  });
+
+  it("reads no categories as all spending", () => {
+    expect(validateSavingsGoal({ ...goal, categories: [] })).toMatchObject({ ok: true, value: { categories: undefined } });
+  });
+
+  const REFUSED: Array<[string, Partial<SavingsGoal>, string]> = [
+    ["a blank name", { name: " " }, "Name must not be empty"],
+    ["a name over 100 characters", { name: "x".repeat(101) }, "Name must be at most 100 characters"],
+    ["a target of nothing", { targetAmount: 0 }, "Target must be a positive amount"],
+    ["a date that doesn't exist", { deadline: "2024-04-31" }, "Dates must be YYYY-MM-DD"],
+    ["a deadline on the start day", { deadline: "2024-04-01" }, "The deadline must be after the goal starts"],
+    ["a baseline that isn't a month", { baselineMonth: "March" }, "Baseline month must be YYYY-MM"],
+    ["a baseline in the starting month", { baselineMonth: "2024-04" }, "The baseline month must be before the month the goal starts"],
+  ];
+
+  for (const [name, change, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(validateSavingsGoal({ ...goal, ...change })).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("baselineMonths", () => {
+  it("lists each earlier month once, latest first", () => {
+    expect(baselineMonths(["2024-02", "2024-04", "2024-03", "2024-02", "2024-05"], "2024-04-15")).toEqual(["2024-03", "2024-02"]);
+  });
+});
+
+describe("savingsProgress", () => {
+  const march = { from: "2024-03-01", to: "2024-03-31" };
+  const april = { from: "2024-04-01", to: "2024-04-10" };
+  // £10 a day on food in March; travel isn't part of the goal
+  const baseline = [
+    { date: "2024-03-05", amount: 310, category: "Food" as const },
+    { date: "2024-03-06", amount: 100, category: "Travel" as const },
+  ];
+  const spentInApril = (amount: number) => [...baseline, { date: "2024-04-03", amount, category: "Food" as const }];
+
+  it("measures savings against the baseline over the days statements cover", () => {
+    expect(savingsProgress(goal, spentInApril(50), [march, april], "2024-04-12")).toEqual({
+      baseline: { month: "2024-03", spent: 310, days: 31, dailySpent: 10 },
+      saved: 50,
+      remaining: 50,
+      ratio: 0.5,
+      days: 10,
+      measuredTo: "2024-04-10",
+      months: [{ month: "2024-04", spent: 50, days: 10, saved: 50 }],
+      dailySaving: 5,
+      requiredDailySaving: 2.5,
+      projectedDate: "2024-04-20",
+      status: "on_pace",
+    });
+  });
+
+  const STATUSES: Array<[string, number, Array<{ from: string; to: string }>, string, SavingsStatus, string | null]> = [
+    ["saving too slowly", 90, [march, april], "2024-04-12", "behind", "2024-07-09"],
+    ["the target reached", 0, [march, april], "2024-04-12", "achieved", "2024-04-10"],
+    ["the deadline passed", 50, [march, april], "2024-05-01", "missed", "2024-04-20"],
+    ["no statement for the baseline month", 50, [april], "2024-04-12", "no_data", null],
+  ];
+
+  for (const [name, spent, periods, today, status, projectedDate] of STATUSES) {
+    it(`is ${status} with ${name}`, () => {
+      expect(savingsProgress(goal, spentInApril(spent), periods, today)).toMatchObject({ status, projectedDate });
+    });
+  }
+
+  it("counts every category when the goal names none", () => {
+    const progress = savingsProgress({ ...goal, categories: undefined }, spentInApril(50), [march, april], "2024-04-12");
+    expect(progress.baseline).toEqual({ month: "2024-03", spent: 410, days: 31, dailySpent: 13.23 });
+  });
+});
@@ -0,0 +1,173 @@
+// Savings goals: spending cut against a baseline month, turned into a target amount with a deadline.
+// Savings are measured per day statements cover, so a statement that covers half a month counts half a month.
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { Result, ok, err } from "../types/result";
+import { round } from "./money";
+import { daysCovered, formatDay, parseDay } from "./period";
+
+export const SAVINGS_STATUSES = ["achieved", "on_pace", "behind", "missed", "no_data"] as const;
+export type SavingsStatus = (typeof SAVINGS_STATUSES)[number];
+
+export interface SavingsGoal {
+  name: string;
+  targetAmount: number;
+  startDate: string;     // YYYY-MM-DD; spending from this day on counts towards the goal
+  deadline: string;      // YYYY-MM-DD, inclusive
+  baselineMonth: string; // YYYY-MM before startDate: the spending the goal cuts back from
+  categories?: TransactionCategory[]; // The categories being "dieted"; absent for all spending
+}
+
+export interface SavingsBaseline {
+  month: string;
+  spent: number;
+  days: number; // Days of the month statements cover
+  dailySpent: number;
+}
+
+export interface SavingsMonth {
+  month: string; // YYYY-MM
+  spent: number;
+  days: number;
+  saved: number; // Baseline spending over the same days, minus what was spent
+}
+
+export interface SavingsProgress {
+  baseline: SavingsBaseline | null; // null once no statement covers the baseline month (e.g. it was deleted)
+  saved: number;
+  remaining: number;
+  ratio: number; // saved / targetAmount, unclamped
+  days: number;  // Days since the start statements cover, up to the deadline
+  measuredTo: string | null; // Last of those days
+  months: SavingsMonth[]; // Oldest first
+  dailySaving: number; // Average saved per measured day
+  requiredDailySaving: number | null; // Needed from measuredTo to reach the target by the deadline
+  projectedDate: string | null; // When the target is reached at the current pace; null if it never is
+  status: SavingsStatus;
+}
+
+// Amounts already in the goal's currency (see transactionsInCurrency)
+type SavingsTransaction = Pick<Transaction, "date" | "amount" | "category">;
+
+type Period = { from: string; to: string };
+
+const MAX_NAME_LENGTH = 100;
+
+function monthOfDay(day: number): string {
+  return formatDay(day).slice(0, 7);
+}
+
+export function validateSavingsGoal(goal: SavingsGoal): Result<SavingsGoal, string> {
+  const name = goal.name.trim();
+  if (!name) {
+    return err("Name must not be empty");
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return err(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (!Number.isFinite(goal.targetAmount) || goal.targetAmount <= 0) {
+    return err("Target must be a positive amount");
+  }
+  const start = parseDay(goal.startDate);
+  const deadline = parseDay(goal.deadline);
+  if (start === null || deadline === null) {
+    return err("Dates must be YYYY-MM-DD");
+  }
+  if (deadline <= start) {
+    return err("The deadline must be after the goal starts");
+  }
+  if (parseDay(`${goal.baselineMonth}-01`) === null) {
+    return err("Baseline month must be YYYY-MM");
+  }
+  if (goal.baselineMonth >= goal.startDate.slice(0, 7)) {
+    return err("The baseline month must be before the month the goal starts");
+  }
+  const categories = goal.categories && goal.categories.length > 0 ? [...new Set(goal.categories)] : undefined;
+  return ok({ ...goal, name, targetAmount: round(goal.targetAmount), categories });
+}
+
+// Months (YYYY-MM) with transactions before `before` (YYYY-MM-DD), latest first: the baselines a goal can pick
+export function baselineMonths(months: readonly string[], before: string): string[] {
+  const month = before.slice(0, 7);
+  return [...new Set(months)].filter((m) => m < month).sort().reverse();
+}
+
+export function savingsProgress(
+  goal: SavingsGoal,
+  transactions: readonly SavingsTransaction[],
+  periods: readonly Period[],
+  today: string // YYYY-MM-DD
+): SavingsProgress {
+  const start = parseDay(goal.startDate) ?? 0;
+  const deadline = parseDay(goal.deadline) ?? start;
+  const now = parseDay(today) ?? deadline;
+  const counts = (t: SavingsTransaction) => !goal.categories || goal.categories.includes(t.category);
+
+  const covered = daysCovered(periods);
+  const baselineDays = covered.filter((day) => monthOfDay(day) === goal.baselineMonth).length;
+  const baselineSpent = transactions.filter((t) => t.date.startsWith(goal.baselineMonth) && counts(t)).reduce((sum, t) => sum + t.amount, 0);
+  const baseline =
+    baselineDays > 0
+      ? { month: goal.baselineMonth, spent: round(baselineSpent), days: baselineDays, dailySpent: round(baselineSpent / baselineDays) }
+      : null;
+
+  // Spending and days since the start, month by month
+  const measured = covered.filter((day) => day >= start && day <= deadline);
+  const byMonth = new Map<string, { spent: number; days: number }>();
+  for (const day of measured) {
+    const entry = byMonth.get(monthOfDay(day)) ?? { spent: 0, days: 0 };
+    entry.days++;
+    byMonth.set(monthOfDay(day), entry);
+  }
+  for (const t of transactions) {
+    const day = parseDay(t.date);
+    if (day === null || day < start || day > deadline || !counts(t)) continue;
+    const entry = byMonth.get(t.date.slice(0, 7));
+    if (entry) entry.spent += t.amount;
+  }
+  const dailyBaseline = baseline ? baselineSpent / baselineDays : 0;
+  const months = [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { spent, days }]) => ({ month, spent: round(spent), days, saved: round(dailyBaseline * days - spent) }));
+
+  const saved = round(months.reduce((sum, m) => sum + m.saved, 0));
+  const remaining = round(Math.max(goal.targetAmount - saved, 0));
+  const days = measured.length;
+  const last = days > 0 ? measured[days - 1] : null;
+  const dailySaving = days > 0 ? round(saved / days) : 0;
+  const daysLeft = last !== null ? deadline - last : deadline - start + 1;
+  const requiredDailySaving = remaining > 0 && daysLeft > 0 ? round(remaining / daysLeft) : null;
+
+  // At the pace so far, carried on from the last day a statement covers
+  let projectedDate: string | null = null;
+  if (remaining === 0 && last !== null) {
+    projectedDate = formatDay(last);
+  } else if (last !== null && dailySaving > 0) {
+    projectedDate = formatDay(last + Math.ceil(remaining / dailySaving));
+  }
+
+  let status: SavingsStatus;
+  if (remaining === 0 && days > 0) {
+    status = "achieved";
+  } else if (now > deadline) {
+    status = "missed";
+  } else if (!baseline || days === 0) {
+    status = "no_data";
+  } else {
+    status = projectedDate !== null && projectedDate <= goal.deadline ? "on_pace" : "behind";
+  }
+
+  return {
+    baseline,
+    saved,
+    remaining,
+    ratio: round(saved / goal.targetAmount),
+    days,
+    measuredTo: last !== null ? formatDay(last) : null,
+    months,
+    dailySaving,
+    requiredDailySaving,
+    projectedDate,
+    status,
+  };
+}
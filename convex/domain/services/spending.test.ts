@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeSpending,
+  spendingInCurrency,
+  topCategory,
+  topExpenses,
+  totalsByCategory,
+  transactionsInCurrency,
+} from "./spending";
+import { buildRateTable } from "./currency";
+import { Transaction } from "../types/analysis";
+
+type Row = Pick<Transaction, "amount" | "category">;
+
+describe("totalsByCategory", () => {
+  const CASES: Array<[string, Row[], ReturnType<typeof totalsByCategory>]> = [
+    ["nothing spent", [], {}],
+    [
+      "adds up each category",
+      [
+        { amount: 10, category: "Food" },
+        { amount: 5.5, category: "Transport" },
+        { amount: 2.25, category: "Food" },
+      ],
+      { Food: 12.25, Transport: 5.5 },
+    ],
+    [
+      "keeps totals to the cent",
+      [
+        { amount: 0.1, category: "Food" },
+        { amount: 0.2, category: "Food" },
+      ],
+      { Food: 0.3 },
+    ],
+    [
+      "takes refunds off",
+      [
+        { amount: 30, category: "Shopping" },
+        { amount: -12.5, category: "Shopping" },
+      ],
+      { Shopping: 17.5 },
+    ],
+  ];
+
+  for (const [name, transactions, expected] of CASES) {
+    it(name, () => {
+      expect(totalsByCategory(transactions)).toEqual(expected);
+    });
+  }
+});
+
+describe("topCategory", () => {
+  const CASES: Array<[string, Row[], string | null]> = [
+    ["nothing spent", [], null],
+    [
+      "picks the biggest total, not the biggest charge",
+      [
+        { amount: 40, category: "Travel" },
+        { amount: 25, category: "Food" },
+        { amount: 25, category: "Food" },
+      ],
+      "Food",
+    ],
+    [
+      "keeps the first of a tie",
+      [
+        { amount: 10, category: "Transport" },
+        { amount: 10, category: "Food" },
+      ],
+      "Transport",
+    ],
+  ];
+
+  for (const [name, transactions, expected] of CASES) {
+    it(name, () => {
+      expect(topCategory(transactions)).toBe(expected);
+    });
+  }
+});
+
+describe("spendingInCurrency", () => {
+  const rates = buildRateTable([
+    { currency: "GBP", date: "2024-03-01", perUsd: 0.8 },
+    { currency: "EUR", date: "2024-03-01", perUsd: 0.9 },
+  ]);
+
+  it("converts each row at its date and totals in the target currency", () => {
+    const spending = spendingInCurrency(
+      [
+        { date: "2024-03-01", amount: 8, currency: "GBP", category: "Food" },
+        { date: "2024-03-02", amount: 10, currency: "USD", category: "Travel" },
+        { date: "2024-03-02", amount: 9, currency: "EUR", category: "Food" },
+      ],
+      "GBP",
+      rates
+    );
+    expect(spending).toEqual({
+      currency: "GBP",
+      totalSpent: 24,
+      averageDailySpent: 12,
+      byCategory: { Food: 16, Travel: 8 },
+      amounts: [8, 8, 8],
+      missingRates: [],
+    });
+  });
+
+  it("leaves out rows without a rate and reports them", () => {
+    const spending = spendingInCurrency(
+      [
+        { date: "2024-03-01", amount: 8, currency: "GBP", category: "Food" },
+        { date: "2024-03-01", amount: 1000, currency: "JPY", category: "Food" },
+      ],
+      "GBP",
+      rates
+    );
+    expect(spending.totalSpent).toBe(8);
+    expect(spending.byCategory).toEqual({ Food: 8 });
+    expect(spending.amounts).toEqual([8, null]);
+    expect(spending.missingRates).toEqual(["JPY"]);
+  });
+
+  it("treats rows without a currency as GBP", () => {
+    expect(spendingInCurrency([{ date: "2024-03-01", amount: 8, category: "Food" }], "USD", rates).amounts).toEqual([10]);
+  });
+});
+
+describe("transactionsInCurrency", () => {
+  const rates = buildRateTable([{ currency: "GBP", date: "2024-03-01", perUsd: 0.8 }]);
+
+  it("swaps each amount for its converted value and keeps the rest of the row", () => {
+    const rows = [
+      { date: "2024-03-01", amount: 10, currency: "USD", category: "Food" as const, merchant: "Diner" },
+      { date: "2024-03-02", amount: 5, currency: "GBP", category: "Travel" as const, merchant: "Bus" },
+    ];
+    expect(transactionsInCurrency(rows, "GBP", rates)).toEqual({
+      transactions: [
+        { ...rows[0], amount: 8 },
+        { ...rows[1], amount: 5 },
+      ],
+      missingRates: [],
+    });
+  });
+
+  it("leaves out rows without a rate and reports them", () => {
+    const rows = [{ date: "2024-03-01", amount: 900, currency: "JPY", category: "Food" as const }];
+    expect(transactionsInCurrency(rows, "GBP", rates)).toEqual({ transactions: [], missingRates: ["JPY"] });
+  });
+});
+
+describe("topExpenses", () => {
+  const rows = [
+    { merchant: "Hotel", amount: 300 },   // GBP
+    { merchant: "Coffee", amount: 50000 }, // KRW
+    { merchant: "Taxi", amount: 40 },
+  ];
+
+  it("ranks by the converted amounts", () => {
+    expect(topExpenses(rows, [300, 28, 40], 2).map((t) => t.merchant)).toEqual(["Hotel", "Taxi"]);
+  });
+
+  it("falls back to the raw amount where there was no rate", () => {
+    expect(topExpenses(rows, [300, null, 40], 1).map((t) => t.merchant)).toEqual(["Coffee"]);
+  });
+});
+
+describe("describeSpending", () => {
+  const totals = { totalSpent: 80, period: "2024-03-01 ~ 2024-03-31" };
+
+  it("names the biggest category and its share", () => {
+    expect(describeSpending(3, totals, { Food: 60, Transport: 20 }, "GBP")).toEqual({
+      summary: "3 transactions totalling 80.00 GBP (2024-03-01 ~ 2024-03-31).",
+      advice: "Food is your biggest category at 60.00 GBP (75% of spending), so that is the first place to look for savings.",
+    });
+  });
+
+  it("gives no advice without spending", () => {
+    expect(describeSpending(0, { totalSpent: 0, period: "-" }, {}, "EUR")).toEqual({ summary: "0 transactions totalling 0.00 EUR (-)." });
+    expect(describeSpending(1, { totalSpent: -5, period: "-" }, { Shopping: -5 }, "EUR").advice).toBeUndefined();
+  });
+});
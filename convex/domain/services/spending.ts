@@ -0,0 +1,119 @@
+// Category-level spending breakdowns
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { round } from "./money";
+import { DEFAULT_CURRENCY, RateTable, convertAmount } from "./currency";
+import { summarizeTransactions } from "./period";
+
+type Convertible = Pick<Transaction, "date" | "amount" | "category"> & { currency?: string };
+
+export function totalsByCategory<T extends Pick<Transaction, "amount" | "category">>(
+  transactions: readonly T[],
+  amountOf: (t: T) => number | null = (t) => t.amount
+): Partial<Record<TransactionCategory, number>> {
+  const totals: Partial<Record<TransactionCategory, number>> = {};
+  for (const t of transactions) {
+    const amount = amountOf(t);
+    if (amount === null) continue;
+    totals[t.category] = round((totals[t.category] ?? 0) + amount);
+  }
+  return totals;
+}
+
+export function topCategory(
+  transactions: ReadonlyArray<Pick<Transaction, "amount" | "category">>
+): TransactionCategory | null {
+  const entries = Object.entries(totalsByCategory(transactions)) as [TransactionCategory, number][];
+  if (entries.length === 0) return null;
+  return entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+export interface SpendingInCurrency {
+  currency: string;
+  totalSpent: number;
+  averageDailySpent: number;
+  byCategory: Partial<Record<TransactionCategory, number>>;
+  amounts: Array<number | null>; // Each transaction converted, in input order
+  missingRates: string[];
+}
+
+// Re-expresses a statement in another currency (e.g. the user's base currency) at each transaction's date
+export function spendingInCurrency(
+  transactions: readonly Convertible[],
+  target: string,
+  rates: RateTable
+): SpendingInCurrency {
+  const amounts = transactions.map((t) =>
+    convertAmount(t.amount, t.currency ?? DEFAULT_CURRENCY, target, t.date, rates)
+  );
+  const rows = transactions.map((t, i) => ({ ...t, converted: amounts[i] }));
+  const amountOf = (row: (typeof rows)[number]) => row.converted;
+  const { totalSpent, averageDailySpent, missingRates } = summarizeTransactions(rows, amountOf);
+
+  return {
+    currency: target,
+    totalSpent,
+    averageDailySpent,
+    byCategory: totalsByCategory(rows, amountOf),
+    amounts,
+    missingRates,
+  };
+}
+
+// The transactions with their amounts in `target`, for analyses that work on the rows themselves.
+// Transactions without a rate are left out (and reported) rather than added in another currency.
+export function transactionsInCurrency<T extends Convertible>(
+  transactions: readonly T[],
+  target: string,
+  rates: RateTable
+): { transactions: T[]; missingRates: string[] } {
+  const { amounts, missingRates } = spendingInCurrency(transactions, target, rates);
+  return {
+    transactions: transactions.flatMap((t, i) => {
+      const amount = amounts[i];
+      return amount === null ? [] : [{ ...t, amount }];
+    }),
+    missingRates,
+  };
+}
+
+// Largest charges, ranked by their value in one currency so a ₩50,000 coffee doesn't top a £300 hotel.
+// `amounts` are the converted values in input order (SpendingInCurrency.amounts); null falls back to the raw amount.
+export function topExpenses<T extends Pick<Transaction, "amount">>(
+  transactions: readonly T[],
+  amounts: ReadonlyArray<number | null>,
+  count: number
+): T[] {
+  return transactions
+    .map((t, i) => ({ t, value: amounts[i] ?? t.amount }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, count)
+    .map(({ t }) => t);
+}
+
+export interface SpendingCommentary {
+  summary: string;
+  advice?: string;
+}
+
+// Plain-numbers stand-in for the model's commentary, used when a statement is imported without one.
+// byCategory must already be in the statement currency.
+export function describeSpending(
+  transactionCount: number,
+  totals: { totalSpent: number; period: string },
+  byCategory: Partial<Record<TransactionCategory, number>>,
+  currency: string
+): SpendingCommentary {
+  const summary = `${transactionCount} transactions totalling ${totals.totalSpent.toFixed(2)} ${currency} (${totals.period}).`;
+  const entries = Object.entries(byCategory) as [TransactionCategory, number][];
+  if (entries.length === 0 || totals.totalSpent <= 0) {
+    return { summary };
+  }
+
+  const [top, spent] = entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const share = Math.round((spent / totals.totalSpent) * 100);
+  return {
+    summary,
+    advice: `${top} is your biggest category at ${spent.toFixed(2)} ${currency} (${share}% of spending), so that is the first place to look for savings.`,
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  CancellationOutcome,
+  SubscriptionCadence,
+  cancellationOutcome,
+  detectRecurringCharges,
+  nextChargeDate,
+  normalizeMerchant,
+} from "./subscriptions";
+
+const charge = (date: string, amount: number, merchant = "NETFLIX.COM", currency = "GBP") => ({ date, merchant, amount, currency });
+
+describe("normalizeMerchant", () => {
+  const CASES: Array<[string, string]> = [
+    ["NETFLIX.COM 0123*AB12", "NETFLIX"],
+    ["Netflix.com", "NETFLIX"],
+    ["PAYPAL *SPOTIFY", "SPOTIFY"],
+    ["O2 UK Ltd", "O2"],
+    ["Gym Group PLC DD 48213", "GYM GROUP"],
+    ["***", ""],
+  ];
+
+  for (const [merchant, expected] of CASES) {
+    it(`reads ${JSON.stringify(merchant)} as ${JSON.stringify(expected)}`, () => {
+      expect(normalizeMerchant(merchant)).toBe(expected);
+    });
+  }
+});
+
+describe("nextChargeDate", () => {
+  const CASES: Array<[string, SubscriptionCadence, string]> = [
+    ["2024-03-01", "weekly", "2024-03-08"],
+    ["2024-12-28", "weekly", "2025-01-04"],
+    ["2024-03-15", "monthly", "2024-04-15"],
+    ["2024-01-31", "monthly", "2024-02-29"], // Shorter month
+    ["2024-12-10", "monthly", "2025-01-10"],
+    ["2024-02-29", "annual", "2025-02-28"],
+  ];
+
+  for (const [date, cadence, expected] of CASES) {
+    it(`follows ${date} ${cadence} with ${expected}`, () => {
+      expect(nextChargeDate(date, cadence)).toBe(expected);
+    });
+  }
+});
+
+describe("detectRecurringCharges", () => {
+  it("finds a monthly subscription and what it costs a year", () => {
+    const [found] = detectRecurringCharges([
+      charge("2024-01-05", 10.99),
+      charge("2024-02-05", 10.99, "Netflix.com 9981"),
+      charge("2024-03-05", 10.99),
+    ]);
+    expect(found).toEqual({
+      merchantKey: "NETFLIX",
+      merchant: "NETFLIX.COM",
+      currency: "GBP",
+      cadence: "monthly",
+      amount: 10.99,
+      previousAmount: undefined,
+      firstChargeDate: "2024-01-05",
+      lastChargeDate: "2024-03-05",
+      nextExpectedDate: "2024-04-05",
+      yearlyCost: 131.88,
+      occurrences: 3,
+    });
+  });
+
+  it("notes a price rise on the latest charge", () => {
+    const [found] = detectRecurringCharges([charge("2024-01-05", 10), charge("2024-02-05", 10), charge("2024-03-05", 12)]);
+    expect(found).toMatchObject({ amount: 12, previousAmount: 10 });
+  });
+
+  it("counts a charge repeated by overlapping statements once", () => {
+    const [found] = detectRecurringCharges([
+      charge("2024-01-05", 10),
+      charge("2024-02-05", 10),
+      charge("2024-02-05", 10),
+      charge("2024-03-05", 10),
+    ]);
+    expect(found.occurrences).toBe(3);
+  });
+
+  it("tolerates one missing month", () => {
+    const dates = ["2024-01-05", "2024-02-05", "2024-03-05", "2024-05-05", "2024-06-05"];
+    expect(detectRecurringCharges(dates.map((d) => charge(d, 10)))).toHaveLength(1);
+  });
+
+  it("finds an annual charge from two years", () => {
+    const [found] = detectRecurringCharges([charge("2023-06-01", 95, "AMAZON PRIME"), charge("2024-06-01", 95, "AMAZON PRIME")]);
+    expect(found).toMatchObject({ cadence: "annual", yearlyCost: 95, nextExpectedDate: "2025-06-01" });
+  });
+
+  const IGNORED: Array<[string, ReturnType<typeof charge>[]]> = [
+    ["only two monthly charges", [charge("2024-01-05", 10), charge("2024-02-05", 10)]],
+    ["amounts that vary too much", [charge("2024-01-05", 10), charge("2024-02-05", 30), charge("2024-03-05", 10)]],
+    ["irregular dates", [charge("2024-01-05", 10), charge("2024-01-20", 10), charge("2024-03-05", 10)]],
+    ["refunds", [charge("2024-01-05", -10), charge("2024-02-05", -10), charge("2024-03-05", -10)]],
+    ["the same merchant in different currencies", [charge("2024-01-05", 10), charge("2024-02-05", 10, "NETFLIX.COM", "EUR"), charge("2024-03-05", 10)]],
+  ];
+
+  for (const [name, charges] of IGNORED) {
+    it(`ignores ${name}`, () => {
+      expect(detectRecurringCharges(charges)).toEqual([]);
+    });
+  }
+});
+
+describe("cancellationOutcome", () => {
+  const subscription = { cadence: "monthly" as const, lastChargeDate: "2024-03-05", nextExpectedDate: "2024-04-05" };
+
+  const CASES: Array<[string, string, string | null, CancellationOutcome]> = [
+    ["no statement yet reaches the next charge", "2024-03-10", "2024-04-01", "pending"],
+    ["no statements at all", "2024-03-10", null, "pending"],
+    ["a statement passes the next charge without it", "2024-03-10", "2024-04-30", "stopped"],
+    ["cancelled after a charge was already due", "2024-04-10", "2024-04-30", "pending"],
+    ["a later statement passes that charge too", "2024-04-10", "2024-05-05", "stopped"],
+  ];
+
+  for (const [name, cancelledOn, coveredUntil, expected] of CASES) {
+    it(`is ${expected} when ${name}`, () => {
+      expect(cancellationOutcome(subscription, cancelledOn, coveredUntil)).toBe(expected);
+    });
+  }
+
+  it("is still_charging when charged after the cancellation", () => {
+    expect(cancellationOutcome({ ...subscription, lastChargeDate: "2024-04-05" }, "2024-03-10", "2024-04-30")).toBe("still_charging");
+  });
+});
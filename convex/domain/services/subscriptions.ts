@@ -0,0 +1,173 @@
+// Recurring charge detection across statements
+
+import { Transaction } from "../types/analysis";
+import { DEFAULT_CURRENCY } from "./currency";
+import { round } from "./money";
+
+export const SUBSCRIPTION_CADENCES = ["weekly", "monthly", "annual"] as const;
+export type SubscriptionCadence = (typeof SUBSCRIPTION_CADENCES)[number];
+
+// detected = found, not yet reviewed; the rest are the user's answer
+export const SUBSCRIPTION_STATUSES = ["detected", "confirmed", "ignored", "cancelled"] as const;
+export type SubscriptionStatus = (typeof SUBSCRIPTION_STATUSES)[number];
+
+// After "cancelled": has a later statement shown the charge stop?
+export type CancellationOutcome =
+  | "pending"         // No statement yet reaches the next expected charge
+  | "stopped"         // It does, and there was no charge
+  | "still_charging"; // Charged again after being cancelled
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+interface CadenceRule {
+  minDays: number;
+  maxDays: number;
+  minCharges: number; // One repeat of a monthly amount is too easily a coincidence
+  perYear: number;
+}
+
+const CADENCE_RULES: Record<SubscriptionCadence, CadenceRule> = {
+  weekly: { minDays: 5, maxDays: 9, minCharges: 3, perYear: 52 },
+  monthly: { minDays: 25, maxDays: 35, minCharges: 3, perYear: 12 },
+  annual: { minDays: 350, maxDays: 380, minCharges: 2, perYear: 1 },
+};
+
+// A missing statement leaves a gap; most intervals still have to fit the cadence
+const MIN_REGULAR_SHARE = 0.75;
+// Every charge within this much of the typical amount (a price rise stays the same subscription)
+const AMOUNT_TOLERANCE = 0.25;
+// Smaller moves are rounding or FX noise, not a price change
+const PRICE_CHANGE_THRESHOLD = 0.01;
+
+// Words that vary between statements without changing who is charging
+const MERCHANT_NOISE = new Set(["LTD", "LIMITED", "INC", "LLC", "PLC", "CO", "COM", "WWW", "UK", "GB", "PAYMENT", "DD", "SO"]);
+
+// Card processors that put their own name first: "PAYPAL *SPOTIFY"
+const PAYMENT_PROCESSORS = new Set(["PAYPAL", "SQ", "SUMUP", "IZ", "ZETTLE"]);
+
+type Charge = Pick<Transaction, "date" | "merchant" | "amount"> & { currency?: string };
+
+export interface RecurringCharge {
+  merchantKey: string;
+  merchant: string;         // As it read on the latest charge
+  currency: string;
+  cadence: SubscriptionCadence;
+  amount: number;           // Latest charge
+  previousAmount?: number;  // Set when the latest charge differs from the one before
+  firstChargeDate: string;
+  lastChargeDate: string;
+  nextExpectedDate: string;
+  yearlyCost: number;
+  occurrences: number;
+}
+
+// "NETFLIX.COM 0123*AB12" and "Netflix.com" -> "NETFLIX". Short codes such as "O2" stay;
+// runs of three or more digits are references that change from charge to charge.
+export function normalizeMerchant(merchant: string): string {
+  const [head, ...rest] = merchant.toUpperCase().split("*");
+  const name = rest.length > 0 && PAYMENT_PROCESSORS.has(head.trim()) ? rest.join(" ") : head;
+  return name
+    .replace(/[^A-Z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !/\d{3,}/.test(word) && !MERCHANT_NOISE.has(word))
+    .join(" ");
+}
+
+function toDay(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00Z`).getTime() / MS_PER_DAY);
+}
+
+function median(values: readonly number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Calendar step, so a monthly charge on the 31st is next due at the end of a shorter month
+export function nextChargeDate(date: string, cadence: SubscriptionCadence): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (cadence === "weekly") {
+    d.setUTCDate(d.getUTCDate() + 7);
+    return d.toISOString().slice(0, 10);
+  }
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  if (cadence === "monthly") d.setUTCMonth(d.getUTCMonth() + 1);
+  else d.setUTCFullYear(d.getUTCFullYear() + 1);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString().slice(0, 10);
+}
+
+function classify(dates: readonly string[]): SubscriptionCadence | null {
+  const days = dates.map(toDay);
+  const intervals = days.slice(1).map((day, i) => day - days[i]);
+  if (intervals.length === 0) return null;
+
+  const typical = median(intervals);
+  for (const cadence of SUBSCRIPTION_CADENCES) {
+    const rule = CADENCE_RULES[cadence];
+    if (typical < rule.minDays || typical > rule.maxDays || dates.length < rule.minCharges) continue;
+    const regular = intervals.filter((i) => i >= rule.minDays && i <= rule.maxDays).length;
+    if (regular / intervals.length >= MIN_REGULAR_SHARE) return cadence;
+  }
+  return null;
+}
+
+// Same normalised merchant and currency, similar amounts, regular cadence.
+// Statements that overlap repeat a charge on the same day; it is counted once.
+export function detectRecurringCharges(transactions: readonly Charge[]): RecurringCharge[] {
+  const groups = new Map<string, Charge[]>();
+  for (const t of transactions) {
+    const merchantKey = normalizeMerchant(t.merchant);
+    if (t.amount <= 0 || !merchantKey || !/^\d{4}-\d{2}-\d{2}$/.test(t.date)) continue; // Refunds aren't charges
+    const key = `${merchantKey}|${t.currency ?? DEFAULT_CURRENCY}`;
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  const found: RecurringCharge[] = [];
+  for (const [key, group] of groups) {
+    const byDate = new Map<string, Charge>();
+    for (const t of group) byDate.set(t.date, t);
+    const charges = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    const typicalAmount = median(charges.map((c) => c.amount));
+    if (charges.some((c) => Math.abs(c.amount - typicalAmount) > typicalAmount * AMOUNT_TOLERANCE)) continue;
+
+    const cadence = classify(charges.map((c) => c.date));
+    if (!cadence) continue;
+
+    const [merchantKey, currency] = key.split("|");
+    const last = charges[charges.length - 1];
+    const before = charges[charges.length - 2];
+    const changed = Math.abs(last.amount - before.amount) > before.amount * PRICE_CHANGE_THRESHOLD;
+    found.push({
+      merchantKey,
+      merchant: last.merchant,
+      currency,
+      cadence,
+      amount: last.amount,
+      previousAmount: changed ? before.amount : undefined,
+      firstChargeDate: charges[0].date,
+      lastChargeDate: last.date,
+      nextExpectedDate: nextChargeDate(last.date, cadence),
+      yearlyCost: round(last.amount * CADENCE_RULES[cadence].perYear),
+      occurrences: charges.length,
+    });
+  }
+  return found;
+}
+
+// coveredUntil: the latest date any statement in the workspace reaches.
+// Judged on the first charge that was due after the cancellation, not the next one after the last charge.
+export function cancellationOutcome(
+  subscription: { cadence: SubscriptionCadence; lastChargeDate: string; nextExpectedDate: string },
+  cancelledOn: string,
+  coveredUntil: string | null
+): CancellationOutcome {
+  if (subscription.lastChargeDate > cancelledOn) return "still_charging";
+  let due = subscription.nextExpectedDate;
+  while (due <= cancelledOn) due = nextChargeDate(due, subscription.cadence);
+  if (coveredUntil !== null && coveredUntil >= due) return "stopped";
+  return "pending";
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  TransactionEdit,
+  TransactionInput,
+  addedRow,
+  applyTransactionEditAt,
+  applyTransactionEdits,
+  editTarget,
+  editedRow,
+  splitRows,
+  validateTransactionInput,
+} from "./transaction-edits";
+import { Transaction } from "../types/analysis";
+
+const tesco: Transaction = { date: "2024-03-01", merchant: "TESCO STORES 3021", amount: 30, currency: "GBP", category: "Food" };
+const shell: Transaction = { date: "2024-03-02", merchant: "Shell", amount: 40, currency: "GBP", category: "Transport" };
+
+describe("validateTransactionInput", () => {
+  const input: TransactionInput = { date: " 2024-03-05 ", merchant: " Boots ", amount: 8.125, category: "Shopping" };
+
+  it("trims, rounds to the cent and takes the statement currency", () => {
+    expect(validateTransactionInput(input, "GBP")).toEqual({
+      ok: true,
+      value: { date: "2024-03-05", merchant: "Boots", amount: 8.13, currency: "GBP", category: "Shopping" },
+    });
+  });
+
+  it("reads a currency the user typed", () => {
+    expect(validateTransactionInput({ ...input, currency: "€" }, "GBP")).toMatchObject({ ok: true, value: { currency: "EUR" } });
+  });
+
+  const REFUSED: Array<[string, Partial<TransactionInput>, string]> = [
+    ["a date that doesn't exist", { date: "2024-02-30" }, "Date must be a valid YYYY-MM-DD date"],
+    ["a blank merchant", { merchant: "  " }, "Merchant must not be empty"],
+    ["a merchant over 200 characters", { merchant: "x".repeat(201) }, "Merchant must be at most 200 characters"],
+    ["a zero amount", { amount: 0 }, "Amount must be a non-zero number (negative for refunds)"],
+    ["an amount that isn't a number", { amount: NaN }, "Amount must be a non-zero number (negative for refunds)"],
+    ["an unknown currency", { currency: "XYZ1" }, "Unknown currency: XYZ1"],
+  ];
+
+  for (const [name, change, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(validateTransactionInput({ ...input, ...change }, "GBP")).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("editedRow", () => {
+  it("marks the row edited and keeps its category when unchanged", () => {
+    expect(editedRow(tesco, { ...tesco, amount: 31 })).toEqual({ ...tesco, amount: 31, edited: true });
+  });
+
+  it("keeps the model's category underneath a hand-picked one", () => {
+    expect(editedRow(tesco, { ...tesco, category: "Shopping" })).toEqual({
+      ...tesco,
+      category: "Shopping",
+      categorySource: "user",
+      modelCategory: "Food",
+      edited: true,
+    });
+  });
+
+  it("drops the statement's spelling once the merchant is renamed by hand", () => {
+    const resolved = { ...tesco, merchant: "Tesco", rawMerchant: "TESCO STORES 3021" };
+    expect(editedRow(resolved, { ...tesco, merchant: "Tesco", amount: 31 }).rawMerchant).toBe("TESCO STORES 3021");
+    expect(editedRow(resolved, { ...tesco, merchant: "Tesco Extra" }).rawMerchant).toBeUndefined();
+  });
+});
+
+describe("addedRow", () => {
+  it("is the user's from the start", () => {
+    expect(addedRow(shell)).toEqual({ ...shell, categorySource: "user", edited: true });
+  });
+});
+
+describe("splitRows", () => {
+  it("splits a charge into parts that add up to it", () => {
+    const split = splitRows(tesco, [
+      { amount: 20, category: "Food" },
+      { amount: 10, category: "Shopping", merchant: "Tesco household" },
+    ]);
+    expect(split).toEqual({
+      ok: true,
+      value: [
+        { ...tesco, amount: 20, edited: true },
+        { ...tesco, merchant: "Tesco household", amount: 10, category: "Shopping", categorySource: "user", modelCategory: "Food", edited: true },
+      ],
+    });
+  });
+
+  const REFUSED: Array<[string, Array<{ amount: number }>, string]> = [
+    ["one part", [{ amount: 30 }], "Split into 2 to 10 parts"],
+    ["eleven parts", Array(11).fill({ amount: 30 / 11 }), "Split into 2 to 10 parts"],
+    ["a zero part", [{ amount: 30 }, { amount: 0 }], "Every part needs a non-zero amount"],
+    ["parts that don't add up", [{ amount: 20 }, { amount: 5 }], "Parts add up to 25.00, not 30.00"],
+  ];
+
+  for (const [name, parts, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(splitRows(tesco, parts.map((p) => ({ ...p, category: "Food" as const })))).toEqual({ ok: false, error: message });
+    });
+  }
+});
+
+describe("editTarget", () => {
+  const coffee: Transaction = { date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", category: "Food" };
+
+  it("keeps the statement's spelling and which of several identical rows it is", () => {
+    const rows = [coffee, shell, { ...coffee, merchant: "Pret A Manger", rawMerchant: "PRET" }];
+    expect(editTarget(rows, 0)).toEqual({ date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", occurrence: 0 });
+    expect(editTarget(rows, 2)).toEqual({ date: "2024-03-03", merchant: "PRET", amount: 3.5, currency: "GBP", occurrence: 1 });
+  });
+});
+
+describe("applyTransactionEditAt", () => {
+  // Two coffees at the same price on one day
+  const coffee: Transaction = { date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", category: "Food" };
+  const rows = [coffee, { ...coffee }, shell];
+
+  const CASES: Array<[string, number, TransactionEdit<Transaction>, Transaction[]]> = [
+    ["edits the second of two identical rows", 1, { kind: "edit", target: coffee, rows: [{ ...coffee, amount: 4 }] }, [coffee, { ...coffee, amount: 4 }, shell]],
+    ["deletes the second of two identical rows", 1, { kind: "delete", target: coffee, rows: [] }, [coffee, shell]],
+    ["splits a row in place", 2, { kind: "split", target: shell, rows: [{ ...shell, amount: 30 }, { ...shell, amount: 10 }] }, [coffee, coffee, { ...shell, amount: 30 }, { ...shell, amount: 10 }]],
+    ["adds past the last row", 3, { kind: "add", rows: [tesco] }, [coffee, coffee, shell, tesco]],
+  ];
+
+  for (const [name, index, edit, expected] of CASES) {
+    it(name, () => {
+      expect(applyTransactionEditAt(rows, index, edit)).toEqual(expected);
+    });
+  }
+});
+
+describe("applyTransactionEdits", () => {
+  const edit = (kind: TransactionEdit["kind"], target: TransactionEdit["target"], rows: Transaction[]): TransactionEdit<Transaction> => ({
+    kind,
+    target,
+    rows,
+  });
+
+  it("replays an edit on a re-analysis that spells the merchant differently", () => {
+    const reanalysed = [{ ...tesco, merchant: "Tesco Stores" }, shell];
+    const result = applyTransactionEdits(reanalysed, [edit("edit", tesco, [{ ...tesco, amount: 31 }])]);
+    expect(result).toEqual({ transactions: [{ ...tesco, amount: 31 }, shell], unmatched: 0 });
+  });
+
+  it("adds, deletes and splits in the order they were made", () => {
+    const boots = { ...shell, merchant: "Boots", amount: 8 };
+    const parts = [
+      { ...tesco, amount: 20 },
+      { ...tesco, amount: 10, category: "Shopping" as const },
+    ];
+    const result = applyTransactionEdits(
+      [tesco, shell],
+      [edit("add", undefined, [boots]), edit("delete", shell, []), edit("split", tesco, parts)]
+    );
+    expect(result).toEqual({ transactions: [...parts, boots], unmatched: 0 });
+  });
+
+  it("lets a later edit find the row an earlier one produced", () => {
+    const first = { ...shell, amount: 45 };
+    const result = applyTransactionEdits([shell], [edit("edit", shell, [first]), edit("edit", first, [{ ...first, amount: 50 }])]);
+    expect(result.transactions).toEqual([{ ...shell, amount: 50 }]);
+  });
+
+  it("replays an edit on the same one of several identical rows", () => {
+    // The same charge as far as matching goes; the category only tells them apart here
+    const coffee: Transaction = { date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", category: "Food" };
+    const lunch = { ...coffee, category: "Shopping" as const };
+    const rows = [coffee, lunch, shell];
+    const result = applyTransactionEdits(rows, [edit("edit", editTarget(rows, 1), [{ ...lunch, amount: 4 }])]);
+    expect(result).toEqual({ transactions: [coffee, { ...lunch, amount: 4 }, shell], unmatched: 0 });
+  });
+
+  it("reads an edit stored without an occurrence as the first identical row", () => {
+    const coffee: Transaction = { date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", category: "Food" };
+    const result = applyTransactionEdits([coffee, { ...coffee }], [edit("edit", coffee, [{ ...coffee, amount: 4 }])]);
+    expect(result.transactions).toEqual([{ ...coffee, amount: 4 }, coffee]);
+  });
+
+  it("counts an edit whose identical row the new version no longer has", () => {
+    const coffee: Transaction = { date: "2024-03-03", merchant: "Pret", amount: 3.5, currency: "GBP", category: "Food" };
+    const target = editTarget([coffee, coffee], 1);
+    expect(applyTransactionEdits([coffee], [edit("delete", target, [])])).toEqual({ transactions: [coffee], unmatched: 1 });
+  });
+
+  it("counts edits whose row is gone", () => {
+    const result = applyTransactionEdits([tesco], [edit("delete", shell, []), edit("edit", { ...tesco, currency: "EUR" }, [])]);
+    expect(result).toEqual({ transactions: [tesco], unmatched: 2 });
+  });
+});
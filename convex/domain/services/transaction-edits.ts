@@ -0,0 +1,173 @@
+// Hand edits to an analysed statement's transactions. They are kept apart from the model's output and
+// replayed over every version of it, so re-analysing a statement doesn't undo a correction.
+
+import { Transaction, TransactionCategory } from "../types/analysis";
+import { Result, ok, err } from "../types/result";
+import { normalizeCurrency } from "./currency";
+import { round } from "./money";
+import { parseDay } from "./period";
+import { setCategoryByHand } from "./category-rules";
+import { normalizeMerchant } from "./subscriptions";
+
+export const TRANSACTION_EDIT_KINDS = ["edit", "add", "delete", "split"] as const;
+export type TransactionEditKind = (typeof TRANSACTION_EDIT_KINDS)[number];
+
+const MAX_MERCHANT_LENGTH = 200;
+const MAX_SPLIT_PARTS = 10;
+
+// Stored rows may lack a currency (saved before multi-currency)
+type EditableTransaction = Omit<Transaction, "currency"> & { currency?: string };
+type EditTarget = Pick<Transaction, "date" | "merchant" | "amount"> & {
+  currency?: string;
+  occurrence?: number; // Among identical rows (two coffees at the same price on one day), which one; 0 when absent
+};
+
+export interface TransactionEdit<T extends EditableTransaction = EditableTransaction> {
+  kind: TransactionEditKind;
+  target?: EditTarget; // The row as it stood when it was edited (edit, delete, split)
+  rows: T[]; // What takes its place: one row for edit and add, two or more for split, none for delete
+}
+
+// A row as the user types it in
+export interface TransactionInput {
+  date: string;
+  merchant: string;
+  amount: number;
+  currency?: string;
+  category: TransactionCategory;
+}
+
+export interface SplitPart {
+  amount: number;
+  category: TransactionCategory;
+  merchant?: string; // Defaults to the split row's
+}
+
+export interface EditedTransactions<T> {
+  transactions: T[];
+  unmatched: number; // Edits whose row the current version no longer has
+}
+
+// A re-analysis may spell the merchant differently, so names are compared normalised.
+// Rows are matched on the statement's spelling: the registry's canonical name can change under them.
+function sameTransaction(row: EditableTransaction, target: EditTarget): boolean {
+  return (
+    row.date === target.date &&
+    round(row.amount) === round(target.amount) &&
+    (row.currency ?? "") === (target.currency ?? "") &&
+    normalizeMerchant(row.rawMerchant ?? row.merchant) === normalizeMerchant(target.merchant)
+  );
+}
+
+// What later versions are searched for: the row at `index` as the statement spelled it,
+// and how many identical rows come before it
+export function editTarget(transactions: readonly EditableTransaction[], index: number): EditTarget {
+  const row = transactions[index];
+  const target = { date: row.date, merchant: row.rawMerchant ?? row.merchant, amount: row.amount, currency: row.currency };
+  const occurrence = transactions.slice(0, index).filter((other) => sameTransaction(other, target)).length;
+  return { ...target, occurrence };
+}
+
+export function validateTransactionInput(input: TransactionInput, statementCurrency: string): Result<Transaction, string> {
+  const date = input.date.trim();
+  if (parseDay(date) === null) {
+    return err("Date must be a valid YYYY-MM-DD date");
+  }
+  const merchant = input.merchant.trim();
+  if (!merchant) {
+    return err("Merchant must not be empty");
+  }
+  if (merchant.length > MAX_MERCHANT_LENGTH) {
+    return err(`Merchant must be at most ${MAX_MERCHANT_LENGTH} characters`);
+  }
+  if (!Number.isFinite(input.amount) || input.amount === 0) {
+    return err("Amount must be a non-zero number (negative for refunds)");
+  }
+  const currency = input.currency ? normalizeCurrency(input.currency) : statementCurrency;
+  if (!currency) {
+    return err(`Unknown currency: ${input.currency}`);
+  }
+  return ok({ date, merchant, amount: round(input.amount), currency, category: input.category });
+}
+
+// The corrected row keeps the model's category underneath when the user picked another one.
+// A merchant typed by hand replaces the statement's spelling, so the registry resolves what was typed.
+export function editedRow<T extends EditableTransaction>(original: T, input: Transaction): T {
+  const renamed = input.merchant !== original.merchant;
+  const row = {
+    ...original,
+    date: input.date,
+    merchant: input.merchant,
+    rawMerchant: renamed ? undefined : original.rawMerchant,
+    amount: input.amount,
+    currency: input.currency,
+    edited: true,
+  };
+  return input.category === original.category ? row : setCategoryByHand(row, input.category);
+}
+
+// A row the model missed (e.g. a refund) has no model category to fall back to
+export function addedRow(input: Transaction): Transaction {
+  return { ...input, categorySource: "user", edited: true };
+}
+
+// One charge into several, e.g. a supermarket receipt that was part food, part household.
+// The parts must add up to the original so the statement total doesn't move.
+export function splitRows<T extends EditableTransaction>(original: T, parts: readonly SplitPart[]): Result<T[], string> {
+  if (parts.length < 2 || parts.length > MAX_SPLIT_PARTS) {
+    return err(`Split into 2 to ${MAX_SPLIT_PARTS} parts`);
+  }
+  if (parts.some((p) => !Number.isFinite(p.amount) || p.amount === 0)) {
+    return err("Every part needs a non-zero amount");
+  }
+  const total = parts.reduce((sum, p) => sum + round(p.amount), 0);
+  if (Math.abs(total - original.amount) > 0.005) {
+    return err(`Parts add up to ${total.toFixed(2)}, not ${original.amount.toFixed(2)}`);
+  }
+  return ok(
+    parts.map((part) => {
+      const merchant = part.merchant?.trim() || original.merchant;
+      const rawMerchant = merchant === original.merchant ? original.rawMerchant : undefined;
+      const row = { ...original, merchant, rawMerchant, amount: round(part.amount), edited: true };
+      return part.category === original.category ? row : setCategoryByHand(row, part.category);
+    })
+  );
+}
+
+// An edit made on screen applies to the row that was picked (`index`; past the last row for an add), even when
+// an identical row comes before it, such as two coffees at the same price on one day. The target only finds
+// the row again in later versions (applyTransactionEdits).
+export function applyTransactionEditAt<T extends EditableTransaction>(
+  transactions: readonly T[],
+  index: number,
+  edit: TransactionEdit<T>
+): T[] {
+  const rows = [...transactions];
+  rows.splice(index, edit.kind === "add" ? 0 : 1, ...edit.rows);
+  return rows;
+}
+
+// Edits apply in the order they were made, each to the row matching its target (the same one among
+// identical rows), so an edit of an edited (or added) row finds the row the earlier edit produced
+export function applyTransactionEdits<T extends EditableTransaction>(
+  transactions: readonly T[],
+  edits: ReadonlyArray<TransactionEdit<T>>
+): EditedTransactions<T> {
+  const rows = [...transactions];
+  let unmatched = 0;
+  for (const edit of edits) {
+    if (edit.kind === "add") {
+      rows.push(...edit.rows);
+      continue;
+    }
+    const target = edit.target;
+    const matches = target ? rows.flatMap((row, i) => (sameTransaction(row, target) ? [i] : [])) : [];
+    const index = matches[target?.occurrence ?? 0] ?? -1;
+    if (index === -1) {
+      unmatched++;
+      continue;
+    }
+    rows.splice(index, 1, ...edit.rows);
+  }
+  return { transactions: rows, unmatched };
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { detectDateOrder, parseAmount, parseCategory, parseDate, validateTransactions } from "./transaction-validation";
+
+describe("parseAmount", () => {
+  const CASES: Array<[unknown, number | null]> = [
+    [12.5, 12.5],
+    [12.345, 12.35],
+    [Infinity, null],
+    ["12.50", 12.5],
+    ["  12.50 ", 12.5],
+    ["£12.50", 12.5],
+    ["1,234.50", 1234.5],
+    ["12,50", 12.5], // Decimal comma
+    ["1.234,50", 1234.5],
+    ["-12.50", -12.5],
+    ["(12.50)", -12.5],
+    ["12.50 CR", -12.5],
+    ["12.50 cr", -12.5],
+    ["12.50CR", -12.5],
+    ["£-3.00", -3], // Sign after the symbol
+    ["-£3.00", -3],
+    ["(£12.50)", -12.5],
+    ["€ -1.234,50", -1234.5],
+    ["1.234", 1234], // Dots as thousands separators
+    ["1.234.567", 1234567],
+    ["0.125", 0.13],
+    ["45.00-", -45], // Trailing minus
+    ["45.00 DR", 45],
+    ["45.00dr", 45],
+    ["12.50 SCR", 12.5], // A currency code, not a credit
+    ["twelve", null],
+    ["", null],
+    ["1.2.3", null],
+    [null, null],
+    [undefined, null],
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`reads ${JSON.stringify(value)} as ${expected}`, () => {
+      expect(parseAmount(value)).toBe(expected);
+    });
+  }
+});
+
+describe("parseDate", () => {
+  const CASES: Array<[unknown, string | null]> = [
+    ["2024-03-05", "2024-03-05"],
+    ["2024/3/5", "2024-03-05"],
+    ["2024-03-05T10:00:00Z", "2024-03-05"],
+    ["05/03/2024", "2024-03-05"], // Day first
+    ["5.3.24", "2024-03-05"],
+    ["5 Mar 2024", "2024-03-05"],
+    ["5 March, 24", "2024-03-05"],
+    ["Mar 5, 2024", "2024-03-05"],
+    ["31/02/2024", null], // No such day
+    ["2024-13-01", null],
+    ["yesterday", null],
+    [20240305, null],
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`reads ${JSON.stringify(value)} as ${expected}`, () => {
+      expect(parseDate(value)).toBe(expected);
+    });
+  }
+});
+
+describe("month-first dates", () => {
+  const CASES: Array<[string, string | null]> = [
+    ["03/25/2024", "2024-03-25"],
+    ["3.4.24", "2024-03-04"],
+    ["25/03/2024", null],
+    ["2024-03-25", "2024-03-25"], // Year-first is never ambiguous
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`reads ${JSON.stringify(value)} as ${expected}`, () => {
+      expect(parseDate(value, "mdy")).toBe(expected);
+    });
+  }
+});
+
+describe("detectDateOrder", () => {
+  const CASES: Array<[string, string[], string]> = [
+    ["a day over 12 first", ["01/02/2024", "25/02/2024"], "dmy"],
+    ["a day over 12 second", ["01/02/2024", "02/25/2024"], "mdy"],
+    ["only ambiguous dates", ["01/02/2024", "03/04/2024"], "dmy"],
+    ["no numeric dates", ["2024-02-25", "5 Mar 2024"], "dmy"],
+  ];
+
+  for (const [name, values, expected] of CASES) {
+    it(`settles on ${expected} for ${name}`, () => {
+      expect(detectDateOrder(values)).toBe(expected);
+    });
+  }
+});
+
+describe("parseCategory", () => {
+  const CASES: Array<[unknown, string | null]> = [
+    ["Food", "Food"],
+    [" food ", "Food"],
+    ["Groceries", "Food"],
+    ["direct debit", "Transaction"],
+    ["Pets", null],
+    [3, null],
+  ];
+
+  for (const [value, expected] of CASES) {
+    it(`maps ${JSON.stringify(value)} to ${expected}`, () => {
+      expect(parseCategory(value)).toBe(expected);
+    });
+  }
+});
+
+describe("validateTransactions", () => {
+  it("keeps well-formed rows untouched", () => {
+    const row = { date: "2024-03-05", merchant: "Tesco", amount: 12.5, currency: "EUR", category: "Food" };
+    expect(validateTransactions([row])).toEqual({ transactions: [row], issues: [] });
+  });
+
+  const CURRENCIES: Array<[string, Record<string, unknown>, string, string[]]> = [
+    ["inherits the statement currency", { amount: 12.5 }, "USD", []],
+    ["reads a symbol in the amount", { amount: "€12.50" }, "EUR", ['Amount "€12.50" parsed as 12.5']],
+    ["reads a code in the amount", { amount: "12.50 JPY" }, "JPY", ['Amount "12.50 JPY" parsed as 12.5']],
+    ["prefers the row's own currency", { amount: "€12.50", currency: "usd" }, "USD", ['Amount "€12.50" parsed as 12.5']],
+    ["replaces a currency it can't read", { amount: 12.5, currency: "pounds" }, "USD", ['Unknown currency "pounds" replaced by USD']],
+  ];
+
+  for (const [name, fields, currency, repairs] of CURRENCIES) {
+    it(name, () => {
+      const { transactions, issues } = validateTransactions([{ date: "2024-03-05", merchant: "Tesco", category: "Food", ...fields }], "USD");
+      expect(transactions[0].currency).toBe(currency);
+      expect(issues.map((i) => i.reason)).toEqual(repairs);
+    });
+  }
+
+  it("repairs what it can and says what it changed", () => {
+    const { transactions, issues } = validateTransactions([
+      { date: "05/03/2024", merchant: "  ", amount: "£12.50", category: "groceries" },
+    ]);
+    expect(transactions).toEqual([
+      { date: "2024-03-05", merchant: "Unknown merchant", amount: 12.5, currency: "GBP", category: "Food" },
+    ]);
+    expect(issues).toEqual([
+      { row: 0, action: "repaired", reason: 'Amount "£12.50" parsed as 12.5' },
+      { row: 0, action: "repaired", reason: 'Date "05/03/2024" normalised to 2024-03-05' },
+      { row: 0, action: "repaired", reason: "Missing merchant name" },
+      { row: 0, action: "repaired", reason: 'Category "groceries" mapped to Food' },
+    ]);
+  });
+
+  it("files an unknown category under Other", () => {
+    const { transactions, issues } = validateTransactions([
+      { date: "2024-03-05", merchant: "Vet", amount: 40, category: "Pets" },
+    ]);
+    expect(transactions[0].category).toBe("Other");
+    expect(issues).toEqual([{ row: 0, action: "repaired", reason: 'Unknown category "Pets" mapped to Other' }]);
+  });
+
+  const REJECTED: Array<[string, unknown, string]> = [
+    ["a row that isn't an object", "Tesco 12.50", "Row is not an object"],
+    ["a null row", null, "Row is not an object"],
+    ["an amount it can't read", { date: "2024-03-05", merchant: "Tesco", amount: "lots" }, 'Non-numeric amount: "lots"'],
+    ["a date it can't read", { date: "soon", merchant: "Tesco", amount: 1 }, 'Unparseable date: "soon"'],
+  ];
+
+  for (const [name, row, reason] of REJECTED) {
+    it(`rejects ${name}`, () => {
+      expect(validateTransactions([row])).toEqual({ transactions: [], issues: [{ row: 0, action: "rejected", reason }] });
+    });
+  }
+
+  it("numbers issues by their row in the model's output", () => {
+    const { transactions, issues } = validateTransactions([
+      { date: "2024-03-05", merchant: "Tesco", amount: 1, category: "Food" },
+      null,
+      { date: "2024-03-06", merchant: "Boots", amount: 2, category: "Shopping" },
+    ]);
+    expect(transactions.map((t) => t.merchant)).toEqual(["Tesco", "Boots"]);
+    expect(issues).toEqual([{ row: 1, action: "rejected", reason: "Row is not an object" }]);
+  });
+});
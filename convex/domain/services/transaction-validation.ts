@@ -0,0 +1,207 @@
+// Validation and repair of model-produced transaction rows
+
+import {
+  TRANSACTION_CATEGORIES,
+  Transaction,
+  TransactionCategory,
+  ValidationIssue,
+} from "../types/analysis";
+import { Result, ok, err } from "../types/result";
+import { round } from "./money";
+import { DEFAULT_CURRENCY, currencyFromAmount, normalizeCurrency } from "./currency";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Labels models commonly produce instead of our own category names
+const CATEGORY_SYNONYMS: Record<string, TransactionCategory> = {
+  groceries: "Food",
+  grocery: "Food",
+  dining: "Food",
+  restaurant: "Food",
+  restaurants: "Food",
+  "food & drink": "Food",
+  retail: "Shopping",
+  clothing: "Shopping",
+  electronics: "Shopping",
+  transportation: "Transport",
+  fuel: "Transport",
+  taxi: "Transport",
+  bills: "Utilities",
+  utility: "Utilities",
+  hotel: "Travel",
+  flights: "Travel",
+  transfer: "Transaction",
+  transfers: "Transaction",
+  "direct debit": "Transaction",
+};
+
+export interface ValidatedTransactions {
+  transactions: Transaction[];
+  issues: ValidationIssue[];
+}
+
+// Every row ends up either as a well-formed Transaction or as a rejected issue with a reason,
+// so bad model output can no longer reach the charts.
+// Rows without their own currency inherit the statement currency.
+export function validateTransactions(
+  rows: readonly unknown[],
+  statementCurrency: string = DEFAULT_CURRENCY
+): ValidatedTransactions {
+  const transactions: Transaction[] = [];
+  const issues: ValidationIssue[] = [];
+
+  rows.forEach((row, index) => {
+    const result = validateRow(row, statementCurrency);
+    if (!result.ok) {
+      issues.push({ row: index, action: "rejected", reason: result.error });
+      return;
+    }
+    transactions.push(result.value.transaction);
+    for (const reason of result.value.repairs) {
+      issues.push({ row: index, action: "repaired", reason });
+    }
+  });
+
+  return { transactions, issues };
+}
+
+function validateRow(
+  row: unknown,
+  statementCurrency: string
+): Result<{ transaction: Transaction; repairs: string[] }, string> {
+  if (typeof row !== "object" || row === null) {
+    return err("Row is not an object");
+  }
+  const raw = row as Record<string, unknown>;
+  const repairs: string[] = [];
+
+  const amount = parseAmount(raw.amount);
+  if (amount === null) {
+    return err(`Non-numeric amount: ${JSON.stringify(raw.amount)}`);
+  }
+  if (typeof raw.amount !== "number") {
+    repairs.push(`Amount ${JSON.stringify(raw.amount)} parsed as ${amount}`);
+  }
+
+  const date = parseDate(raw.date);
+  if (date === null) {
+    return err(`Unparseable date: ${JSON.stringify(raw.date)}`);
+  }
+  if (date !== raw.date) {
+    repairs.push(`Date ${JSON.stringify(raw.date)} normalised to ${date}`);
+  }
+
+  let merchant = typeof raw.merchant === "string" ? raw.merchant.trim() : "";
+  if (!merchant) {
+    merchant = "Unknown merchant";
+    repairs.push("Missing merchant name");
+  }
+
+  let currency = normalizeCurrency(raw.currency) ?? currencyFromAmount(raw.amount);
+  if (currency === null) {
+    if (raw.currency !== undefined && raw.currency !== null && raw.currency !== "") {
+      repairs.push(`Unknown currency ${JSON.stringify(raw.currency)} replaced by ${statementCurrency}`);
+    }
+    currency = statementCurrency;
+  }
+
+  let category = parseCategory(raw.category);
+  if (category === null) {
+    category = "Other";
+    repairs.push(`Unknown category ${JSON.stringify(raw.category)} mapped to Other`);
+  } else if (category !== raw.category) {
+    repairs.push(`Category ${JSON.stringify(raw.category)} mapped to ${category}`);
+  }
+
+  return ok({ transaction: { date, merchant, amount, currency, category }, repairs });
+}
+
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? round(value) : null;
+  }
+  if (typeof value !== "string") return null;
+
+  // Statements mark refunds as "(12.50)", "-12.50", "£-3.00", "45.00-" or "12.50CR", and charges as
+  // "12.50DR". Currency symbols, codes and spaces go first, so a sign written after the symbol is still read.
+  // The suffix must not end a currency code ("12.50 SCR" is a charge in rupees).
+  const suffix = value.trim().match(/(?<![A-Z])(CR|DR)$/i)?.[1].toUpperCase();
+  const bare = (suffix ? value.trim().slice(0, -2) : value).replace(/[^\d.,()-]/g, "");
+  const negative = suffix === "CR" || bare.startsWith("-") || bare.endsWith("-") || /^\(.*\)$/.test(bare);
+  let text = bare.replace(/[^\d.,]/g, "");
+
+  // "12,50" and "1.234,50" use a decimal comma; "1,234.50" uses commas as thousands separators.
+  // Amounts carry cents, so three digits after a lone dot ("1.234") are thousands too.
+  if (/^\d{1,3}(\.\d{3})+,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else if (/^[1-9]\d{0,2}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, "");
+  } else {
+    text = /^\d+,\d{1,2}$/.test(text) ? text.replace(",", ".") : text.replace(/,/g, "");
+  }
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const amount = Number(text);
+  return round(negative ? -amount : amount);
+}
+
+// Order of day and month in numeric dates such as 03/04/2024
+export type DateOrder = "dmy" | "mdy";
+
+// Returns YYYY-MM-DD, reading ambiguous numeric dates day-first (UK statements) unless told otherwise
+export function parseDate(value: unknown, order: DateOrder = "dmy"): string | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/))) {
+    return toIsoDate(+match[1], +match[2], +match[3]);
+  }
+  if ((match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/))) {
+    const [day, month] = order === "dmy" ? [+match[1], +match[2]] : [+match[2], +match[1]];
+    return toIsoDate(expandYear(+match[3]), month, day);
+  }
+  if ((match = text.match(/^(\d{1,2})\s+([A-Za-z]{3,})\.?,?\s+(\d{2}|\d{4})$/))) {
+    return toIsoDate(expandYear(+match[3]), monthNumber(match[2]), +match[1]);
+  }
+  if ((match = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{2}|\d{4})$/))) {
+    return toIsoDate(expandYear(+match[3]), monthNumber(match[1]), +match[2]);
+  }
+  return null;
+}
+
+// Exports carry one date format per file, so a single unambiguous date such as 25/03
+// or 03/25 settles the order for every row. Without one we keep the UK default.
+export function detectDateOrder(values: readonly string[]): DateOrder {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]/);
+    if (!match) continue;
+    if (+match[1] > 12) return "dmy";
+    if (+match[2] > 12) return "mdy";
+  }
+  return "dmy";
+}
+
+export function parseCategory(value: unknown): TransactionCategory | null {
+  if (typeof value !== "string") return null;
+  const key = value.trim().toLowerCase();
+  const exact = TRANSACTION_CATEGORIES.find((c) => c.toLowerCase() === key);
+  return exact ?? CATEGORY_SYNONYMS[key] ?? null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects impossible dates such as 31/02 that Date would silently roll over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { UsageRecord, aggregateUsage, estimateCostUsd } from "./usage";
+
+describe("estimateCostUsd", () => {
+  const CASES: Array<[string, { promptTokens: number; completionTokens: number }, { input: number; output: number } | null, number]> = [
+    ["prices input and output per million tokens", { promptTokens: 1_000_000, completionTokens: 500_000 }, { input: 0.15, output: 0.6 }, 0.45],
+    ["keeps six decimals", { promptTokens: 1234, completionTokens: 567 }, { input: 0.15, output: 0.6 }, 0.000525],
+    ["costs nothing for a model without a price", { promptTokens: 1000, completionTokens: 1000 }, null, 0],
+    ["costs nothing without tokens", { promptTokens: 0, completionTokens: 0 }, { input: 2.5, output: 10 }, 0],
+  ];
+
+  for (const [name, tokens, price, expected] of CASES) {
+    it(name, () => {
+      expect(estimateCostUsd({ ...tokens, totalTokens: tokens.promptTokens + tokens.completionTokens }, price)).toBe(expected);
+    });
+  }
+});
+
+describe("aggregateUsage", () => {
+  const run = (model: string, day: string, cost: number, durationMs: number): UsageRecord => ({
+    model,
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    estimatedCostUsd: cost,
+    durationMs,
+    processedAt: Date.parse(`${day}T12:00:00Z`),
+  });
+
+  it("reports zeros when nothing ran", () => {
+    expect(aggregateUsage([])).toEqual({
+      totals: { runs: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0, averageDurationMs: 0 },
+      byDay: [],
+      byModel: [],
+    });
+  });
+
+  it("adds up every run and averages the duration", () => {
+    const { totals } = aggregateUsage([run("gpt-4o-mini", "2024-03-01", 0.1, 1000), run("gpt-4o", "2024-03-02", 0.2, 2001)]);
+    expect(totals).toEqual({
+      runs: 2,
+      promptTokens: 200,
+      completionTokens: 100,
+      totalTokens: 300,
+      estimatedCostUsd: 0.3,
+      averageDurationMs: 1501,
+    });
+  });
+
+  it("groups by UTC day, oldest first", () => {
+    const report = aggregateUsage([
+      run("gpt-4o-mini", "2024-03-02", 0.1, 1000),
+      run("gpt-4o-mini", "2024-03-01", 0.1, 1000),
+      run("gpt-4o", "2024-03-02", 0.3, 1000),
+    ]);
+    expect(report.byDay.map((d) => [d.day, d.runs, d.estimatedCostUsd])).toEqual([
+      ["2024-03-01", 1, 0.1],
+      ["2024-03-02", 2, 0.4],
+    ]);
+  });
+
+  it("groups by model, most expensive first", () => {
+    const report = aggregateUsage([
+      run("gpt-4o-mini", "2024-03-01", 0.1, 1000),
+      run("gpt-4o", "2024-03-01", 0.3, 1000),
+      run("gpt-4o-mini", "2024-03-02", 0.1, 1000),
+    ]);
+    expect(report.byModel.map((m) => [m.model, m.runs, m.estimatedCostUsd])).toEqual([
+      ["gpt-4o", 1, 0.3],
+      ["gpt-4o-mini", 2, 0.2],
+    ]);
+  });
+});
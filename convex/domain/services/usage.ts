@@ -0,0 +1,89 @@
+// Model usage cost estimation and aggregation
+
+import { TokenUsage } from "../ports/llm.interface";
+
+// USD per one million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export function estimateCostUsd(usage: TokenUsage, price: ModelPrice | null): number {
+  if (!price) return 0;
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
+
+export interface UsageRecord {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  durationMs: number;
+  processedAt: number;
+}
+
+export interface UsageTotals {
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  averageDurationMs: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;     // UTC day, YYYY-MM-DD, oldest first
+  byModel: Array<UsageTotals & { model: string }>; // Most expensive first
+}
+
+export function aggregateUsage(records: readonly UsageRecord[]): UsageReport {
+  const byDay = groupTotals(records, (r) => new Date(r.processedAt).toISOString().slice(0, 10));
+  const byModel = groupTotals(records, (r) => r.model);
+
+  return {
+    totals: sumTotals(records),
+    byDay: [...byDay.entries()]
+      .map(([day, totals]) => ({ day, ...totals }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    byModel: [...byModel.entries()]
+      .map(([model, totals]) => ({ model, ...totals }))
+      .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd),
+  };
+}
+
+function groupTotals(
+  records: readonly UsageRecord[],
+  keyOf: (record: UsageRecord) => string
+): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return new Map([...groups.entries()].map(([key, group]) => [key, sumTotals(group)]));
+}
+
+function sumTotals(records: readonly UsageRecord[]): UsageTotals {
+  const totals = records.reduce(
+    (acc, r) => ({
+      promptTokens: acc.promptTokens + r.promptTokens,
+      completionTokens: acc.completionTokens + r.completionTokens,
+      totalTokens: acc.totalTokens + r.totalTokens,
+      estimatedCostUsd: acc.estimatedCostUsd + r.estimatedCostUsd,
+      durationMs: acc.durationMs + r.durationMs,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0, durationMs: 0 }
+  );
+
+  return {
+    runs: records.length,
+    promptTokens: totals.promptTokens,
+    completionTokens: totals.completionTokens,
+    totalTokens: totals.totalTokens,
+    estimatedCostUsd: Number(totals.estimatedCostUsd.toFixed(6)),
+    averageDurationMs: records.length > 0 ? Math.round(totals.durationMs / records.length) : 0,
+  };
+}
@@ -1,2 +1,74 @@
 // Analysis result domain interfaces
 
+export const TRANSACTION_CATEGORIES = [
+  "Food",
+  "Shopping",
+  "Transport",
+  "Utilities",
+  "Travel",
+  "Transaction",
+  "Other",
+] as const;
+
+export type TransactionCategory = (typeof TRANSACTION_CATEGORIES)[number];
+
+// What belongs in each category. Also the definition the model is given in its prompts.
+export const CATEGORY_DESCRIPTIONS: Record<TransactionCategory, string> = {
+  Food: "Restaurants, cafes, grocery stores, food delivery, bars, pubs, clubs",
+  Shopping: "Retail stores, online shopping, clothing, electronics",
+  Transport: "Public transport, taxis, fuel, parking, car maintenance",
+  Utilities: "Electricity, water, gas, internet, phone bills",
+  Travel: "Hotels, flights, travel bookings, vacation expenses",
+  Transaction: "Bank transfers, account transfers, direct debits, standing orders, wire transfers, remittances",
+  Other: "Any transaction that doesn't fit the above categories",
+};
+
+// Who decided a transaction's category when it wasn't the model
+export type CategorySource =
+  | "rule"  // One of the user's category rules matched
+  | "user"; // Set by hand on this transaction
+
+export interface Transaction {
+  date: string; // YYYY-MM-DD
+  merchant: string; // The registry's canonical name when one matched (see services/merchants.ts)
+  rawMerchant?: string; // The statement's own spelling, kept while the registry renames the row
+  amount: number;
+  currency: string; // ISO 4217, e.g. "GBP"
+  category: TransactionCategory;
+  categorySource?: CategorySource; // Absent when the model's category stands
+  modelCategory?: TransactionCategory; // The model's category, kept while overridden
+  edited?: boolean; // Corrected, added or split by hand (see services/transaction-edits.ts)
+}
+
+// What happened to a model-produced row that didn't match the Transaction shape
+export interface ValidationIssue {
+  row: number; // Index in the model output
+  chunk?: number; // Which chunk of a long statement the row came from
+  action: "repaired" | "rejected";
+  reason: string;
+}
+
+// Governance record of one analysis run: which model ran and what it cost
+export interface AnalysisRunMetadata {
+  model: string;
+  promptVersion: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  durationMs: number;
+}
+
+export interface FinancialAnalysis {
+  currency: string; // Statement (billing) currency; totalSpent and averageDailySpent are in it
+  totalSpent: number;
+  period?: string;
+  averageDailySpent?: number;
+  transactions: Transaction[];
+  summary?: string; // AI's sarcastic or encouraging comment (English)
+  advice?: string;  // Specific cost-cutting advice (English)
+  issues?: ValidationIssue[];
+  duplicatesRemoved?: number; // Rows repeated across page boundaries
+  missingRates?: string[]; // Currencies left out of the totals for lack of an exchange rate
+  unmatchedEdits?: number; // Hand edits whose row this version doesn't have
+}
@@ -0,0 +1,18 @@
+// Structured pipeline failure recorded in executionErrors
+
+import { ExtractionErrorCode } from "../ports/extractor.interface";
+import { LLMErrorCode } from "../ports/llm.interface";
+
+export type PipelineStep = "extraction" | "analysis";
+
+export type PipelineErrorCode =
+  | ExtractionErrorCode
+  | LLMErrorCode
+  | "CONFIG_ERROR"      // Deployment is misconfigured (e.g. unknown LLM_PROVIDER)
+  | "UNEXPECTED_ERROR"; // Infrastructure threw instead of returning a Result
+
+export interface PipelineError {
+  step: PipelineStep;
+  code: PipelineErrorCode;
+  message: string;
+}
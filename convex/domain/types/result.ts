@@ -1,2 +1,8 @@
 // Result<T, E> union type for error handling
 
+// Failures are modelled as values so callers are forced to handle them explicitly.
+export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
+
+export const ok = <T>(value: T): Result<T, never> => ({ ok: true, value });
+
+export const err = <E>(error: E): Result<never, E> => ({ ok: false, error });
@@ -0,0 +1,77 @@
+// Convex implementation of IDocumentRepository
+
+import { ActionCtx } from "../../_generated/server";
+import { internal } from "../../_generated/api";
+import { Id } from "../../_generated/dataModel";
+import { IDocumentRepository } from "../../domain/ports/repo.interface";
+import { AnalysisProgress, DocumentStatus } from "../../domain/entities/document";
+import { AnalysisRunMetadata, FinancialAnalysis } from "../../domain/types/analysis";
+import { PipelineError } from "../../domain/types/errors";
+
+// Actions cannot touch the database directly, so every write goes through internal mutations.
+export class ConvexDocumentRepository implements IDocumentRepository {
+  constructor(private readonly ctx: ActionCtx) {}
+
+  async updateStatus(documentId: string, status: DocumentStatus): Promise<void> {
+    await this.ctx.runMutation(internal.documents.updateStatus, {
+      documentId: documentId as Id<"documents">,
+      status,
+    });
+  }
+
+  async saveAnalysis(
+    documentId: string,
+    analysis: FinancialAnalysis,
+    metadata: AnalysisRunMetadata
+  ): Promise<void> {
+    await this.ctx.runMutation(internal.documents.saveAnalysisResult, {
+      documentId: documentId as Id<"documents">,
+      analysis,
+      metadata,
+    });
+  }
+
+  async markFailed(documentId: string, error: PipelineError): Promise<void> {
+    await this.ctx.runMutation(internal.documents.markFailed, {
+      documentId: documentId as Id<"documents">,
+      ...error,
+    });
+  }
+
+  async updateProgress(documentId: string, progress: AnalysisProgress): Promise<void> {
+    await this.ctx.runMutation(internal.documents.updateProgress, {
+      documentId: documentId as Id<"documents">,
+      progress,
+    });
+  }
+
+  // Text can be far larger than a document row should be, so it lives in file storage
+  async saveExtractedText(documentId: string, pages: string[]): Promise<void> {
+    const textStorageId = await this.ctx.storage.store(
+      new Blob([JSON.stringify(pages)], { type: "application/json" })
+    );
+    await this.ctx.runMutation(internal.documents.setExtractedText, {
+      documentId: documentId as Id<"documents">,
+      textStorageId,
+    });
+  }
+
+  async getExtractedText(documentId: string): Promise<string[] | null> {
+    const textStorageId = await this.ctx.runQuery(internal.documents.getTextStorageId, {
+      documentId: documentId as Id<"documents">,
+    });
+    if (!textStorageId) return null;
+
+    const blob = await this.ctx.storage.get(textStorageId);
+    if (!blob) return null;
+
+    // Cache written before page-aware extraction held plain text; treat it as a single page
+    const text = await blob.text();
+    try {
+      const pages: unknown = JSON.parse(text);
+      return Array.isArray(pages) ? pages.map(String) : [text];
+    } catch {
+      return [text];
+    }
+  }
+}
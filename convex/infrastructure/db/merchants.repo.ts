@@ -0,0 +1,17 @@
+// Convex implementation of IMerchantRepository
+
+import { ActionCtx } from "../../_generated/server";
+import { internal } from "../../_generated/api";
+import { Id } from "../../_generated/dataModel";
+import { IMerchantRepository } from "../../domain/ports/merchants.interface";
+import { Merchant } from "../../domain/services/merchants";
+
+export class ConvexMerchantRepository implements IMerchantRepository {
+  constructor(private readonly ctx: Pick<ActionCtx, "runQuery">) {}
+
+  async merchantsForDocument(documentId: string): Promise<Merchant[]> {
+    return await this.ctx.runQuery(internal.merchants.forDocument, {
+      documentId: documentId as Id<"documents">,
+    });
+  }
+}
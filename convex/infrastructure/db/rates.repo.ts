@@ -0,0 +1,15 @@
+// Convex implementation of IExchangeRateRepository
+
+import { ActionCtx } from "../../_generated/server";
+import { internal } from "../../_generated/api";
+import { IExchangeRateRepository } from "../../domain/ports/rates.interface";
+import { ExchangeRate } from "../../domain/services/currency";
+
+export class ConvexExchangeRateRepository implements IExchangeRateRepository {
+  constructor(private readonly ctx: Pick<ActionCtx, "runQuery">) {}
+
+  async getRates(currencies: readonly string[]): Promise<ExchangeRate[]> {
+    if (currencies.length === 0) return [];
+    return await this.ctx.runQuery(internal.currency.ratesFor, { currencies: [...currencies] });
+  }
+}
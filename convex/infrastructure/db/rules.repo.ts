@@ -0,0 +1,17 @@
+// Convex implementation of ICategoryRuleRepository
+
+import { ActionCtx } from "../../_generated/server";
+import { internal } from "../../_generated/api";
+import { Id } from "../../_generated/dataModel";
+import { ICategoryRuleRepository } from "../../domain/ports/rules.interface";
+import { CategoryRule } from "../../domain/services/category-rules";
+
+export class ConvexCategoryRuleRepository implements ICategoryRuleRepository {
+  constructor(private readonly ctx: Pick<ActionCtx, "runQuery">) {}
+
+  async rulesForDocument(documentId: string): Promise<CategoryRule[]> {
+    return await this.ctx.runQuery(internal.categoryRules.forDocument, {
+      documentId: documentId as Id<"documents">,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createLLMClient } from "./llm.factory";
+import { MockLLMClient } from "./mock.client";
+import { OpenAIClient } from "./openai.client";
+
+describe("createLLMClient", () => {
+  const CLIENTS: Array<[string, Record<string, string>, new (...args: never[]) => unknown]> = [
+    ["the mock when asked for by name", { LLM_PROVIDER: "mock" }, MockLLMClient],
+    ["the mock even with a key set", { LLM_PROVIDER: "mock", OPENAI_API_KEY: "sk-test" }, MockLLMClient],
+    ["OpenAI by default", { OPENAI_API_KEY: "sk-test" }, OpenAIClient],
+    ["OpenAI when asked for by name", { LLM_PROVIDER: "openai", OPENAI_API_KEY: "sk-test" }, OpenAIClient],
+  ];
+
+  for (const [name, env, client] of CLIENTS) {
+    it(`picks ${name}`, () => {
+      expect(createLLMClient(env)).toBeInstanceOf(client);
+    });
+  }
+
+  const REFUSED: Array<[string, Record<string, string>, string]> = [
+    ["no key and no provider", {}, "OPENAI_API_KEY is not set (set LLM_PROVIDER=mock to run without one)"],
+    ["OpenAI without a key", { LLM_PROVIDER: "openai" }, "OPENAI_API_KEY is not set (set LLM_PROVIDER=mock to run without one)"],
+    ["an unknown provider", { LLM_PROVIDER: "claude" }, "Unknown LLM_PROVIDER: claude"],
+    ["an unknown fixture", { LLM_PROVIDER: "mock", MOCK_LLM_FIXTURE: "nope" }, "Unknown MOCK_LLM_FIXTURE: nope"],
+  ];
+
+  for (const [name, env, message] of REFUSED) {
+    it(`refuses ${name}`, () => {
+      expect(() => createLLMClient(env)).toThrow(message);
+    });
+  }
+});
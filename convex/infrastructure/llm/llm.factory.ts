@@ -0,0 +1,35 @@
+// Selects the ILLMClient implementation from environment config
+
+import { ILLMClient } from "../../domain/ports/llm.interface";
+import { OpenAIClient } from "./openai.client";
+import { MockLLMClient } from "./mock.client";
+import { isMockFixtureName } from "./mock.fixtures";
+
+type Env = Record<string, string | undefined>;
+
+// LLM_PROVIDER=openai|mock picks the adapter; it defaults to openai.
+// The mock is only ever used when asked for by name: a deployment that lost its key
+// fails with CONFIG_ERROR instead of quietly analysing statements with canned answers.
+export function createLLMClient(env: Env = process.env): ILLMClient {
+  const provider = env.LLM_PROVIDER ?? "openai";
+
+  if (provider === "mock") {
+    const fixture = env.MOCK_LLM_FIXTURE ?? "default";
+    if (!isMockFixtureName(fixture)) {
+      throw new Error(`Unknown MOCK_LLM_FIXTURE: ${fixture}`);
+    }
+    return new MockLLMClient(fixture);
+  }
+
+  if (provider === "openai") {
+    if (!env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY is not set (set LLM_PROVIDER=mock to run without one)");
+    }
+    return new OpenAIClient({
+      apiKey: env.OPENAI_API_KEY,
+      model: env.OPENAI_MODEL,
+    });
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+}
@@ -1,2 +1,69 @@
 // Mock client for testing
 
+import {
+  ILLMClient,
+  LLMAnalysisResponse,
+  LLMCategorizationResponse,
+  LLMError,
+} from "../../domain/ports/llm.interface";
+import { Result, ok, err } from "../../domain/types/result";
+import { MOCK_CATEGORY_KEYWORDS, MOCK_FIXTURES, MockFixture, MockFixtureName } from "./mock.fixtures";
+
+// Rough chars-per-token ratio so mock usage numbers look like real ones
+const CHARS_PER_TOKEN = 4;
+
+// Deterministic stand-in for a real model: same input always yields the same output,
+// with no network access and no API key.
+export class MockLLMClient implements ILLMClient {
+  readonly model = "mock";
+  readonly promptVersion = "mock-v1";
+  private readonly fixture: MockFixture;
+
+  constructor(fixtureName: MockFixtureName = "default") {
+    this.fixture = MOCK_FIXTURES[fixtureName];
+  }
+
+  async analyzeStatement(text: string): Promise<Result<LLMAnalysisResponse, LLMError>> {
+    if (this.fixture.kind === "error") {
+      return err(this.fixture.error);
+    }
+
+    // Copy so callers can't mutate the shared fixture
+    const analysis = structuredClone(this.fixture.analysis);
+    const promptTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(JSON.stringify(analysis).length / CHARS_PER_TOKEN);
+
+    return ok({
+      analysis,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: this.model,
+    });
+  }
+
+  async categorizeMerchants(merchants: readonly string[]): Promise<Result<LLMCategorizationResponse, LLMError>> {
+    if (this.fixture.kind === "error") {
+      return err(this.fixture.error);
+    }
+
+    const categories = merchants.map((merchant) => {
+      const name = merchant.toLowerCase();
+      return MOCK_CATEGORY_KEYWORDS.find(([keyword]) => name.includes(keyword))?.[1] ?? "Other";
+    });
+    const promptTokens = Math.ceil(merchants.join("\n").length / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(JSON.stringify(categories).length / CHARS_PER_TOKEN);
+
+    return ok({
+      categories,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: this.model,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+// Canned LLM responses for the mock client
+
+import { LLMError, StatementAnalysis } from "../../domain/ports/llm.interface";
+import { TransactionCategory } from "../../domain/types/analysis";
+
+export type MockFixture =
+  | { kind: "analysis"; analysis: StatementAnalysis }
+  | { kind: "error"; error: LLMError };
+
+export const MOCK_FIXTURES = {
+  // A typical month of card spending across several categories
+  default: {
+    kind: "analysis",
+    analysis: {
+      currency: "GBP",
+      totalSpent: 412.85,
+      transactions: [
+        { date: "2024-03-01", merchant: "Tesco", amount: 54.2, category: "Food" },
+        { date: "2024-03-03", merchant: "TfL Travel", amount: 18.4, category: "Transport" },
+        { date: "2024-03-07", merchant: "Pret A Manger", amount: 7.95, category: "Food" },
+        { date: "2024-03-12", merchant: "Amazon", amount: 89.99, category: "Shopping" },
+        { date: "2024-03-15", merchant: "British Gas", amount: 72.31, category: "Utilities" },
+        { date: "2024-03-22", merchant: "Premier Inn", amount: 120.0, category: "Travel" },
+        { date: "2024-03-30", merchant: "Deliveroo", amount: 50.0, category: "Food" },
+      ],
+      summary: "Your wallet went on holiday before you did.",
+      advice: "Food delivery adds up fast: cooking twice more a week would save around £40 a month.",
+    },
+  },
+  // A statement with nothing to report
+  empty: {
+    kind: "analysis",
+    analysis: {
+      totalSpent: 0,
+      transactions: [],
+      summary: "A spotless month. Suspiciously spotless.",
+      advice: "Nothing to cut. Keep it up.",
+    },
+  },
+  // A euro card used on a trip with a stop-over in Seoul
+  abroad: {
+    kind: "analysis",
+    analysis: {
+      currency: "EUR",
+      totalSpent: 301.4,
+      transactions: [
+        { date: "2024-05-02", merchant: "Carrefour", amount: 48.3, currency: "EUR", category: "Food" },
+        { date: "2024-05-03", merchant: "SNCF", amount: 89.0, currency: "EUR", category: "Transport" },
+        { date: "2024-05-06", merchant: "Olive Young", amount: "₩45,000", category: "Shopping" },
+        { date: "2024-05-07", merchant: "Korean Air", amount: 120.0, currency: "USD", category: "Travel" },
+      ],
+      summary: "Three currencies in a week: your card has seen more of the world than most people.",
+      advice: "Travel dominates: booking flights further ahead usually saves 15-20%.",
+    },
+  },
+  // Rows in the shapes models get wrong: string amounts, UK dates, off-list categories
+  messy: {
+    kind: "analysis",
+    analysis: {
+      totalSpent: 96.5,
+      transactions: [
+        { date: "02/03/2024", merchant: "Sainsbury's", amount: "£1,024.50", category: "groceries" },
+        { date: "2024-03-05", merchant: "Uber", amount: 14.2, category: "transport" },
+        { date: "5 Mar 2024", merchant: "", amount: "(12.00)", category: "Shopping" },
+        { date: "sometime in March", merchant: "Netflix", amount: 10.99, category: "Entertainment" },
+        { date: "2024-03-09", merchant: "Boots", amount: "N/A", category: "Other" },
+        { date: "2024-03-11", merchant: "Spotify", amount: 11.99, category: "Subscriptions" },
+      ],
+      summary: "Your statement is as messy as your spending.",
+      advice: "Groceries dominate: try a weekly shop with a list.",
+    },
+  },
+  timeout: {
+    kind: "error",
+    error: { code: "MODEL_TIMEOUT", message: "Mock model timed out." },
+  },
+  invalid: {
+    kind: "error",
+    error: { code: "INVALID_FORMAT", message: "Mock model returned malformed JSON." },
+  },
+} satisfies Record<string, MockFixture>;
+
+export type MockFixtureName = keyof typeof MOCK_FIXTURES;
+
+export function isMockFixtureName(name: string): name is MockFixtureName {
+  return name in MOCK_FIXTURES;
+}
+
+// Merchant-name keywords the mock uses to categorise imported rows; first match wins
+export const MOCK_CATEGORY_KEYWORDS: ReadonlyArray<[string, TransactionCategory]> = [
+  ["tesco", "Food"],
+  ["sainsbury", "Food"],
+  ["waitrose", "Food"],
+  ["lidl", "Food"],
+  ["aldi", "Food"],
+  ["pret", "Food"],
+  ["deliveroo", "Food"],
+  ["restaurant", "Food"],
+  ["cafe", "Food"],
+  ["amazon", "Shopping"],
+  ["boots", "Shopping"],
+  ["argos", "Shopping"],
+  ["tfl", "Transport"],
+  ["uber", "Transport"],
+  ["trainline", "Transport"],
+  ["shell", "Transport"],
+  ["british gas", "Utilities"],
+  ["octopus", "Utilities"],
+  ["water", "Utilities"],
+  ["vodafone", "Utilities"],
+  ["hotel", "Travel"],
+  ["inn", "Travel"],
+  ["airways", "Travel"],
+  ["transfer", "Transaction"],
+  ["standing order", "Transaction"],
+];
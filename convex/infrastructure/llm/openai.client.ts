@@ -1,2 +1,191 @@
 // OpenAI API integration implementation
 
+import OpenAI from "openai";
+import {
+  ILLMClient,
+  LLMAnalysisResponse,
+  LLMCategorizationResponse,
+  LLMError,
+  StatementAnalysis,
+  TokenUsage,
+} from "../../domain/ports/llm.interface";
+import { CATEGORY_DESCRIPTIONS, TRANSACTION_CATEGORIES } from "../../domain/types/analysis";
+import { Result, ok, err } from "../../domain/types/result";
+
+export interface OpenAIClientOptions {
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Bump when buildStatementPrompt or buildCategorizationPrompt changes
+const PROMPT_VERSION = "statement-v3";
+
+// Built from the domain list so the prompt can't drift from the categories we accept
+const CATEGORY_GUIDE = TRANSACTION_CATEGORIES.map(
+  (category) => `           * ${category}: ${CATEGORY_DESCRIPTIONS[category]}`
+).join("\n");
+
+function buildStatementPrompt(text: string): string {
+  return `
+      You are an expert financial assistant. Analyze the following credit card statement text (OCR result) and organize it into structured JSON data.
+
+      [Fields to Extract]
+
+      1. totalSpent: Total amount spent (number)
+
+      2. currency: Billing currency of the statement (ISO 4217 code, e.g. GBP, EUR, USD, KRW)
+
+      3. transactions: List of transactions (array)
+
+         - date: Transaction date (YYYY-MM-DD)
+
+         - merchant: Merchant name (Cleaned up)
+
+         - amount: Amount (Number)
+
+         - currency: Currency of the amount (ISO 4217 code). Use the billing currency unless the line shows another one
+
+         - category: Category (Infer one from the list below):
+${CATEGORY_GUIDE}
+
+      4. summary: A one-sentence sarcastic or encouraging comment on the user's spending habits (English).
+
+      5. advice: Specific advice on where to cut costs based on the highest spending category (English).
+
+      [Constraints]
+
+      - Output ONLY valid JSON.
+
+      - Exclude payment records.
+
+      [Text to Analyze]
+
+      ${text}
+
+    `;
+}
+
+function buildCategorizationPrompt(merchants: readonly string[]): string {
+  return `
+      You are an expert financial assistant. Assign a spending category to each merchant below, taken from a bank export.
+
+      [Categories]
+${CATEGORY_GUIDE}
+
+      [Output]
+
+      - Output ONLY valid JSON of the form {"categories": ["Food", "Transport", ...]}.
+
+      - Return exactly one category per merchant, in the same order as the input.
+
+      [Merchants]
+
+      ${JSON.stringify(merchants)}
+
+    `;
+}
+
+interface JsonCompletion {
+  parsed: Record<string, unknown>;
+  usage: TokenUsage;
+  model: string;
+}
+
+export class OpenAIClient implements ILLMClient {
+  readonly model: string;
+  readonly promptVersion = PROMPT_VERSION;
+  private readonly openai: OpenAI;
+
+  constructor(options: OpenAIClientOptions = {}) {
+    this.model = options.model ?? DEFAULT_MODEL;
+    this.openai = new OpenAI({
+      apiKey: options.apiKey,
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    });
+  }
+
+  async analyzeStatement(text: string): Promise<Result<LLMAnalysisResponse, LLMError>> {
+    const completion = await this.completeJson("You are a helpful financial data extractor.", buildStatementPrompt(text));
+    if (!completion.ok) return completion;
+
+    const parsed = completion.value.parsed as Partial<StatementAnalysis>;
+    return ok({
+      analysis: {
+        currency: typeof parsed.currency === "string" ? parsed.currency : undefined,
+        totalSpent: Number(parsed.totalSpent) || 0,
+        transactions: Array.isArray(parsed.transactions) ? parsed.transactions : [],
+        summary: typeof parsed.summary === "string" ? parsed.summary : undefined,
+        advice: typeof parsed.advice === "string" ? parsed.advice : undefined,
+      },
+      usage: completion.value.usage,
+      model: completion.value.model,
+    });
+  }
+
+  async categorizeMerchants(merchants: readonly string[]): Promise<Result<LLMCategorizationResponse, LLMError>> {
+    const completion = await this.completeJson(
+      "You are a helpful financial data categoriser.",
+      buildCategorizationPrompt(merchants)
+    );
+    if (!completion.ok) return completion;
+
+    const { categories } = completion.value.parsed;
+    if (!Array.isArray(categories)) {
+      return err({ code: "INVALID_FORMAT", message: "GPT response had no categories array." });
+    }
+    return ok({ categories, usage: completion.value.usage, model: completion.value.model });
+  }
+
+  private async completeJson(system: string, prompt: string): Promise<Result<JsonCompletion, LLMError>> {
+    let completion: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      completion = await this.openai.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        response_format: { type: "json_object" }, // Force JSON mode
+      });
+    } catch (error) {
+      return err(toLLMError(error));
+    }
+
+    const content = completion.choices[0]?.message.content;
+    if (!content) {
+      return err({ code: "EMPTY_RESPONSE", message: "GPT returned an empty response." });
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return err({ code: "INVALID_FORMAT", message: "GPT response was not valid JSON." });
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      return err({ code: "INVALID_FORMAT", message: "GPT response was not a JSON object." });
+    }
+
+    return ok({
+      parsed: parsed as Record<string, unknown>,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+        totalTokens: completion.usage?.total_tokens ?? 0,
+      },
+      model: completion.model || this.model,
+    });
+  }
+}
+
+function toLLMError(error: unknown): LLMError {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return { code: "MODEL_TIMEOUT", message: "OpenAI request timed out." };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { code: "PROVIDER_ERROR", message };
+}
@@ -0,0 +1,20 @@
+// Provider price list used for cost estimates
+
+import { ModelPrice } from "../../domain/services/usage";
+
+// USD per one million tokens, from the OpenAI pricing page. Update when prices change.
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  mock: { input: 0, output: 0 },
+};
+
+// Providers report dated snapshots ("gpt-4o-mini-2024-07-18"), so match the longest known prefix
+export function priceForModel(model: string): ModelPrice | null {
+  const match = Object.keys(MODEL_PRICING)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, randomDigits, randomToken, sha256Hex, verifyPassword } from "./crypto";
+
+describe("passwords", () => {
+  it("verifies the password a hash was made from, and nothing else", async () => {
+    const stored = await hashPassword("correct horse");
+    expect(stored).toMatch(/^pbkdf2-sha256\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await verifyPassword("correct horse", stored)).toEqual({ valid: true, needsRehash: false });
+    expect(await verifyPassword("correct hors", stored)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("correct horse")).not.toBe(await hashPassword("correct horse"));
+  });
+
+  it("accepts a plaintext password from before hashing and asks for a rehash", async () => {
+    expect(await verifyPassword("1234", "1234")).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword("123", "1234")).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it("asks for a rehash of a hash with fewer iterations", async () => {
+    const [scheme, , salt] = (await hashPassword("x")).split("$");
+    // The same password and salt at 1000 iterations
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode("correct horse"), "PBKDF2", false, ["deriveBits"]);
+    const saltBytes = new Uint8Array((salt.match(/../g) ?? []).map((pair) => parseInt(pair, 16)));
+    const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt: saltBytes, iterations: 1000, hash: "SHA-256" }, key, 256);
+    const hash = Array.from(new Uint8Array(bits), (b) => b.toString(16).padStart(2, "0")).join("");
+    expect(await verifyPassword("correct horse", [scheme, 1000, salt, hash].join("$"))).toEqual({ valid: true, needsRehash: true });
+  });
+});
+
+describe("tokens", () => {
+  it("are hex of the requested size and never repeat", () => {
+    expect(randomToken()).toMatch(/^[0-9a-f]{64}$/);
+    expect(randomToken(4)).toMatch(/^[0-9a-f]{8}$/);
+    expect(randomToken()).not.toBe(randomToken());
+  });
+
+  it("are stored as their SHA-256 digest", async () => {
+    expect(await sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("randomDigits", () => {
+  it("are decimal digits of the requested length, zero-padded", () => {
+    for (let i = 0; i < 100; i++) {
+      expect(randomDigits(6)).toMatch(/^\d{6}$/);
+    }
+    expect(randomDigits(1)).toMatch(/^\d$/);
+  });
+});
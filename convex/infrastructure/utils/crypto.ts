@@ -0,0 +1,80 @@
+// Password hashing and token helpers (Web Crypto, available in the default Convex runtime)
+
+const HASH_SCHEME = "pbkdf2-sha256";
+// OWASP recommends far more for PBKDF2-SHA256, but mutations have a tight CPU budget.
+// The count is stored with each hash, so raising it later upgrades users on their next login.
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const encoder = new TextEncoder();
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean; // Stored in plaintext or with old parameters
+}
+
+// Stored as "pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return [HASH_SCHEME, PBKDF2_ITERATIONS, toHex(salt), toHex(hash)].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  const [scheme, iterations, salt, hash] = stored.split("$");
+
+  // Accounts created before hashing still hold the plaintext password
+  if (scheme !== HASH_SCHEME || !iterations || !salt || !hash) {
+    const valid = constantTimeEqual(encoder.encode(password), encoder.encode(stored));
+    return { valid, needsRehash: valid };
+  }
+
+  const candidate = await pbkdf2(password, fromHex(salt), Number(iterations));
+  const valid = constantTimeEqual(candidate, fromHex(hash));
+  return { valid, needsRehash: valid && Number(iterations) < PBKDF2_ITERATIONS };
+}
+
+// Opaque bearer token handed to the client; only its digest is stored
+export function randomToken(bytes = 32): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+// Uniformly random decimal digits, e.g. a sign-in code
+export function randomDigits(length: number): string {
+  const limit = 10 ** length;
+  // Values past the last whole multiple of `limit` are drawn again, so no code is likelier than another
+  const ceiling = Math.floor(2 ** 32 / limit) * limit;
+  for (;;) {
+    const [value] = crypto.getRandomValues(new Uint32Array(1));
+    if (value < ceiling) {
+      return String(value % limit).padStart(length, "0");
+    }
+  }
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(text))));
+}
+
+async function pbkdf2(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt, iterations, hash: "SHA-256" }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array((hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16)));
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvRecords, parseCsvStatement } from "./csv.parser";
+import { ImportedRow } from "../../domain/ports/importer.interface";
+
+function rowsOf(text: string, mapping = {}): ImportedRow[] {
+  const result = parseCsvStatement(text, mapping);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value.rows;
+}
+
+describe("parseCsvRecords", () => {
+  const CASES: Array<[string, string, string[][]]> = [
+    ["comma separated", "a,b\n1,2", [["a", "b"], ["1", "2"]]],
+    ["semicolons, as European exports use", "a;b\n1,50;2", [["a", "b"], ["1,50", "2"]]],
+    ["tabs", "a\tb\n1\t2", [["a", "b"], ["1", "2"]]],
+    ["a quoted delimiter", 'a,b\n"x, y",2', [["a", "b"], ["x, y", "2"]]],
+    ["doubled quotes", 'a\n"say ""hi"""', [["a"], ['say "hi"']]],
+    ["a line break inside quotes", 'a,b\n"two\nlines",2', [["a", "b"], ["two\nlines", "2"]]],
+    ["CRLF line endings", "a,b\r\n1,2\r\n", [["a", "b"], ["1", "2"]]],
+    ["empty fields", "a,,c", [["a", "", "c"]]],
+  ];
+
+  for (const [name, text, expected] of CASES) {
+    it(`reads ${name}`, () => {
+      expect(parseCsvRecords(text)).toEqual(expected);
+    });
+  }
+});
+
+describe("parseCsvStatement", () => {
+  it("reads a card export where purchases are positive", () => {
+    expect(rowsOf("Date,Description,Amount\n2024-03-01,Tesco,12.50\n2024-03-02,Refund,-3.00\n2024-03-03,Costa,2.80")).toEqual([
+      { date: "2024-03-01", merchant: "Tesco", amount: 12.5, currency: undefined },
+      { date: "2024-03-02", merchant: "Refund", amount: -3, currency: undefined },
+      { date: "2024-03-03", merchant: "Costa", amount: 2.8, currency: undefined },
+    ]);
+  });
+
+  it("flips a current-account export where money out is negative", () => {
+    expect(rowsOf("Date,Description,Amount\n01/03/2024,Tesco,-12.50\n02/03/2024,Salary,1000\n03/03/2024,Costa,-2.80").map((r) => r.amount)).toEqual([
+      12.5, -1000, 2.8,
+    ]);
+  });
+
+  it("reads separate debit and credit columns", () => {
+    expect(rowsOf("Date,Details,Paid out,Paid in\n2024-03-01,Tesco,12.50,\n2024-03-02,Salary,,1000").map((r) => r.amount)).toEqual([
+      12.5, -1000,
+    ]);
+  });
+
+  it("finds the header under account details and skips blank lines", () => {
+    const text = "Account,12345678\nSort code,00-00-00\n\nDate,Payee,Amount,Currency\n2024-03-01,Tesco,12.50,EUR\n,,,\n";
+    expect(rowsOf(text)).toEqual([{ date: "2024-03-01", merchant: "Tesco", amount: 12.5, currency: "EUR" }]);
+  });
+
+  it("reads European exports with semicolons and decimal commas", () => {
+    expect(rowsOf("Date;Description;Amount\n25.03.2024;Lidl;1.234,50").map((r) => [r.date, r.amount])).toEqual([["2024-03-25", 1234.5]]);
+  });
+
+  it("reads month-first dates when one row proves it", () => {
+    expect(rowsOf("Date,Description,Amount\n03/04/2024,A,1\n03/25/2024,B,1").map((r) => r.date)).toEqual(["2024-03-04", "2024-03-25"]);
+  });
+
+  it("uses the columns the user picked over the ones it would detect", () => {
+    const text = "Posted,Memo,Narrative,Value\n2024-03-01,card 1234,Tesco,12.50";
+    expect(rowsOf(text, { date: "Posted", merchant: "Narrative", amount: "Value" })).toEqual([
+      { date: "2024-03-01", merchant: "Tesco", amount: 12.5, currency: undefined },
+    ]);
+  });
+
+  it("passes values it can't read on raw for validation to reject", () => {
+    expect(rowsOf("Date,Description,Amount\nsoon,Tesco,lots")).toEqual([{ date: "soon", merchant: "Tesco", amount: "lots", currency: undefined }]);
+  });
+
+  const ERRORS: Array<[string, string, string, string]> = [
+    ["a header without an amount", "Date,Description\n2024-03-01,Tesco", "MISSING_COLUMNS", "No amount column found in the CSV header. Map the columns manually."],
+    ["no header at all", "2024-03-01,Tesco,12.50", "MISSING_COLUMNS", "No date, description, amount columns found in the CSV header. Map the columns manually."],
+    ["a header without rows", "Date,Description,Amount\n", "EMPTY_TEXT", "The CSV file contains no transactions."],
+  ];
+
+  for (const [name, text, code, message] of ERRORS) {
+    it(`refuses ${name}`, () => {
+      expect(parseCsvStatement(text)).toEqual({ ok: false, error: { code, message } });
+    });
+  }
+});
@@ -0,0 +1,186 @@
+// CSV bank export parsing
+
+import { ExtractionError } from "../../domain/ports/extractor.interface";
+import { CsvColumnMapping, ImportedRow, ImportedStatement } from "../../domain/ports/importer.interface";
+import { detectDateOrder, parseAmount, parseDate } from "../../domain/services/transaction-validation";
+import { Result, ok, err } from "../../domain/types/result";
+
+type CsvField = keyof CsvColumnMapping;
+type ColumnIndexes = Partial<Record<CsvField, number>>;
+
+// Header names used by common UK/EU/US bank exports, compared lower-cased and trimmed
+const HEADER_SYNONYMS: Record<CsvField, readonly string[]> = {
+  date: ["date", "transaction date", "posting date", "posted date", "booking date", "value date", "completed date"],
+  merchant: ["description", "merchant", "payee", "name", "details", "narrative", "transaction description", "memo"],
+  amount: ["amount", "value", "transaction amount", "billing amount"],
+  debit: ["debit", "debit amount", "paid out", "money out", "withdrawal", "withdrawals", "out"],
+  credit: ["credit", "credit amount", "paid in", "money in", "deposit", "deposits", "in"],
+  currency: ["currency", "ccy", "currency code"],
+};
+
+// Some banks put account details above the header row
+const MAX_HEADER_SEARCH_ROWS = 10;
+
+export function parseCsvStatement(
+  text: string,
+  mapping: CsvColumnMapping = {}
+): Result<ImportedStatement, ExtractionError> {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+
+  // The header is the first row naming every required column; the closest miss explains the error
+  let headerRow = -1;
+  let columns: ColumnIndexes = {};
+  let closest: ColumnIndexes = {};
+  for (let i = 0; i < Math.min(records.length, MAX_HEADER_SEARCH_ROWS); i++) {
+    const candidate = resolveColumns(records[i], mapping);
+    if (missingColumns(candidate).length === 0) {
+      headerRow = i;
+      columns = candidate;
+      break;
+    }
+    if (Object.keys(candidate).length > Object.keys(closest).length) closest = candidate;
+  }
+  if (headerRow === -1) {
+    const missing = missingColumns(closest);
+    return err({
+      code: "MISSING_COLUMNS",
+      message: `No ${missing.join(", ")} column${missing.length > 1 ? "s" : ""} found in the CSV header. Map the columns manually.`,
+    });
+  }
+
+  const body = records.slice(headerRow + 1).filter((record) => record.some((cell) => cell.trim()));
+  if (body.length === 0) {
+    return err({ code: "EMPTY_TEXT", message: "The CSV file contains no transactions." });
+  }
+
+  const cell = (record: string[], field: CsvField): string => {
+    const index = columns[field];
+    return index === undefined ? "" : (record[index] ?? "").trim();
+  };
+
+  const order = detectDateOrder(body.map((record) => cell(record, "date")));
+  const rows: ImportedRow[] = body.map((record) => {
+    const rawDate = cell(record, "date");
+    return {
+      date: parseDate(rawDate, order) ?? rawDate,
+      merchant: cell(record, "merchant"),
+      amount: readAmount(record, columns, cell),
+      currency: cell(record, "currency") || undefined,
+    };
+  });
+
+  return ok({ rows: columns.amount !== undefined ? withSpendingPositive(rows) : rows });
+}
+
+// Separate debit/credit columns say the direction outright; a single amount column is read as signed
+function readAmount(
+  record: string[],
+  columns: ColumnIndexes,
+  cell: (record: string[], field: CsvField) => string
+): number | string {
+  if (columns.amount !== undefined) {
+    return parseAmount(cell(record, "amount")) ?? cell(record, "amount");
+  }
+
+  const debit = cell(record, "debit");
+  if (debit) {
+    const value = parseAmount(debit);
+    return value === null ? debit : Math.abs(value);
+  }
+  const credit = cell(record, "credit");
+  const value = parseAmount(credit);
+  return value === null ? credit : -Math.abs(value);
+}
+
+// Current-account exports show money out as negative, card exports show purchases as positive.
+// Most rows on either are spending, so whichever sign dominates is taken to mean money out.
+function withSpendingPositive(rows: ImportedRow[]): ImportedRow[] {
+  const amounts = rows.map((row) => row.amount).filter((amount): amount is number => typeof amount === "number");
+  const negatives = amounts.filter((amount) => amount < 0).length;
+  if (negatives <= amounts.length - negatives) return rows;
+  return rows.map((row) => (typeof row.amount === "number" ? { ...row, amount: -row.amount } : row));
+}
+
+function resolveColumns(header: string[], mapping: CsvColumnMapping): ColumnIndexes {
+  const names = header.map((name) => name.trim().toLowerCase());
+  const columns: ColumnIndexes = {};
+
+  for (const field of Object.keys(HEADER_SYNONYMS) as CsvField[]) {
+    const chosen = mapping[field]?.trim().toLowerCase();
+    // Synonyms are listed by preference, so "Description" beats a "Memo" column further left
+    const candidates = chosen ? [chosen] : HEADER_SYNONYMS[field];
+    const index = candidates.map((name) => names.indexOf(name)).find((i) => i !== -1);
+    if (index !== undefined) columns[field] = index;
+  }
+
+  // Read amounts from one place: a chosen debit/credit pair beats a detected amount column,
+  // otherwise a single signed amount column is preferred
+  if (!mapping.amount && (mapping.debit || mapping.credit)) {
+    delete columns.amount;
+  } else if (columns.amount !== undefined) {
+    delete columns.debit;
+    delete columns.credit;
+  }
+  return columns;
+}
+
+function missingColumns(columns: ColumnIndexes): string[] {
+  const missing: string[] = [];
+  if (columns.date === undefined) missing.push("date");
+  if (columns.merchant === undefined) missing.push("description");
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    missing.push("amount");
+  }
+  return missing;
+}
+
+// RFC 4180 records: quoted fields may contain the delimiter, doubled quotes and line breaks
+export function parseCsvRecords(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+// European exports use ";" because "," is their decimal separator
+function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/, MAX_HEADER_SEARCH_ROWS).join("\n");
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: sample.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
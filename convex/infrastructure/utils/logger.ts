@@ -1,2 +1,23 @@
 // System logging utility
 
+type LogLevel = "info" | "warn" | "error";
+
+function write(level: LogLevel, scope: string, message: string, meta?: unknown) {
+  const line = `[${scope}] ${message}`;
+  const args = meta === undefined ? [line] : [line, meta];
+
+  if (level === "error") console.error(...args);
+  else if (level === "warn") console.warn(...args);
+  else console.log(...args);
+}
+
+// Scoped logger so pipeline logs can be grepped per component in the Convex dashboard.
+export function createLogger(scope: string) {
+  return {
+    info: (message: string, meta?: unknown) => write("info", scope, message, meta),
+    warn: (message: string, meta?: unknown) => write("warn", scope, message, meta),
+    error: (message: string, meta?: unknown) => write("error", scope, message, meta),
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseOfxStatement } from "./ofx.parser";
+
+// OFX 1.x leaves leaf tags unclosed
+const SGML = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>EUR
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240301120000.000[0:GMT]<TRNAMT>-12.50<NAME>Caf&eacute; &amp; Bar<MEMO>card 1234</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240302<TRNAMT>1000.00<MEMO>Salary</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const XML = `<?xml version="1.0"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>GBP</CURDEF>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20240305</DTPOSTED><TRNAMT>-4.20</TRNAMT><NAME>Costa</NAME><CURRENCY><CURSYM>USD</CURSYM></CURRENCY></STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+describe("parseOfxStatement", () => {
+  it("reads OFX 1.x with unclosed tags, turning debits into spending", () => {
+    expect(parseOfxStatement(SGML)).toEqual({
+      ok: true,
+      value: {
+        currency: "EUR",
+        rows: [
+          { date: "2024-03-01", merchant: "Caf&eacute; & Bar", amount: 12.5, currency: undefined },
+          { date: "2024-03-02", merchant: "Salary", amount: -1000, currency: undefined },
+        ],
+      },
+    });
+  });
+
+  it("reads OFX 2.x XML and a row's own currency", () => {
+    expect(parseOfxStatement(XML)).toEqual({
+      ok: true,
+      value: { currency: "GBP", rows: [{ date: "2024-03-05", merchant: "Costa", amount: 4.2, currency: "USD" }] },
+    });
+  });
+
+  it("passes values it can't read on raw", () => {
+    const result = parseOfxStatement("<OFX><STMTTRN><DTPOSTED>soon<TRNAMT>lots<NAME>Tesco</STMTTRN></OFX>");
+    expect(result.ok && result.value.rows).toEqual([{ date: "soon", merchant: "Tesco", amount: "lots", currency: undefined }]);
+  });
+
+  const ERRORS: Array<[string, string, string, string]> = [
+    ["a file that isn't OFX", "Date,Amount\n2024-03-01,1", "PARSE_FAILED", "The file is not an OFX statement."],
+    ["a statement without transactions", "<OFX><BANKTRANLIST></BANKTRANLIST></OFX>", "EMPTY_TEXT", "The OFX file contains no transactions."],
+  ];
+
+  for (const [name, text, code, message] of ERRORS) {
+    it(`refuses ${name}`, () => {
+      expect(parseOfxStatement(text)).toEqual({ ok: false, error: { code, message } });
+    });
+  }
+});
@@ -0,0 +1,59 @@
+// OFX (Open Financial Exchange) statement parsing
+
+import { ExtractionError } from "../../domain/ports/extractor.interface";
+import { ImportedRow, ImportedStatement } from "../../domain/ports/importer.interface";
+import { parseAmount } from "../../domain/services/transaction-validation";
+import { normalizeCurrency } from "../../domain/services/currency";
+import { Result, ok, err } from "../../domain/types/result";
+
+// Handles both OFX 1.x (SGML, leaf tags left unclosed) and OFX 2.x (XML).
+// Only the leaf values of each <STMTTRN> are needed, so a tag-value regex is enough.
+export function parseOfxStatement(text: string): Result<ImportedStatement, ExtractionError> {
+  if (!/<OFX>/i.test(text)) {
+    return err({ code: "PARSE_FAILED", message: "The file is not an OFX statement." });
+  }
+
+  const blocks = [...text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)].map((match) => match[1]);
+  if (blocks.length === 0) {
+    return err({ code: "EMPTY_TEXT", message: "The OFX file contains no transactions." });
+  }
+
+  const rows: ImportedRow[] = blocks.map((block) => {
+    const rawDate = tagValue(block, "DTPOSTED") ?? "";
+    const rawAmount = tagValue(block, "TRNAMT") ?? "";
+    const amount = parseAmount(rawAmount);
+    return {
+      date: ofxDate(rawDate) ?? rawDate,
+      merchant: tagValue(block, "NAME") ?? tagValue(block, "MEMO") ?? "",
+      // OFX amounts are signed from the account's point of view: debits are negative
+      amount: amount === null ? rawAmount : -amount,
+      currency: normalizeCurrency(tagValue(block, "CURSYM")) ?? undefined,
+    };
+  });
+
+  return ok({
+    currency: normalizeCurrency(tagValue(text, "CURDEF")) ?? undefined,
+    rows,
+  });
+}
+
+function tagValue(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match ? decodeEntities(match[1].trim()) : "";
+  return value || null;
+}
+
+// 20240301, 20240301120000 or 20240301120000.000[0:GMT] -> 2024-03-01
+function ofxDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseQifStatement } from "./qif.parser";
+
+describe("parseQifStatement", () => {
+  it("reads payments as spending and deposits as money in", () => {
+    const text = "!Type:Bank\nD2024-03-01\nT-12.50\nPTesco\n^\nD2024-03-02\nU1,000.00\nT1,000.00\nMSalary\n^\n";
+    expect(parseQifStatement(text)).toEqual({
+      ok: true,
+      value: {
+        rows: [
+          { date: "2024-03-01", merchant: "Tesco", amount: 12.5 },
+          { date: "2024-03-02", merchant: "Salary", amount: -1000 },
+        ],
+      },
+    });
+  });
+
+  const DATES: Array<[string, string[], string[]]> = [
+    ["day-first by default", ["03/04/2024"], ["2024-04-03"]],
+    ["month-first when one date proves it", ["03/04/2024", "03/25/2024"], ["2024-03-04", "2024-03-25"]],
+    ["Quicken's apostrophe years", ["1/ 3'24"], ["2024-03-01"]],
+  ];
+
+  for (const [name, dates, expected] of DATES) {
+    it(`reads dates ${name}`, () => {
+      const text = dates.map((date) => `D${date}\nT-1.00\nPShop\n^`).join("\n");
+      const result = parseQifStatement(`!Type:CCard\n${text}`);
+      expect(result.ok && result.value.rows.map((r) => r.date)).toEqual(expected);
+    });
+  }
+
+  it("prefers the payee to the memo and skips empty records", () => {
+    const result = parseQifStatement("!Type:Bank\n^\nD2024-03-01\nT-1.00\nMcard 1234\nPCosta\n^");
+    expect(result.ok && result.value.rows).toEqual([{ date: "2024-03-01", merchant: "Costa", amount: 1 }]);
+  });
+
+  it("passes values it can't read on raw", () => {
+    const result = parseQifStatement("!Type:Bank\nDsoon\nTlots\nPTesco\n^");
+    expect(result.ok && result.value.rows).toEqual([{ date: "soon", merchant: "Tesco", amount: "lots" }]);
+  });
+
+  const ERRORS: Array<[string, string, string, string]> = [
+    ["a file that isn't QIF", "Date,Amount\n2024-03-01,1", "PARSE_FAILED", "The file is not a QIF statement."],
+    ["a statement without transactions", "!Type:Bank\n^\n", "EMPTY_TEXT", "The QIF file contains no transactions."],
+  ];
+
+  for (const [name, text, code, message] of ERRORS) {
+    it(`refuses ${name}`, () => {
+      expect(parseQifStatement(text)).toEqual({ ok: false, error: { code, message } });
+    });
+  }
+});
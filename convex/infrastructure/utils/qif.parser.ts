@@ -0,0 +1,70 @@
+// QIF (Quicken Interchange Format) statement parsing
+
+import { ExtractionError } from "../../domain/ports/extractor.interface";
+import { ImportedRow, ImportedStatement } from "../../domain/ports/importer.interface";
+import { detectDateOrder, parseAmount, parseDate } from "../../domain/services/transaction-validation";
+import { Result, ok, err } from "../../domain/types/result";
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+}
+
+// One field per line, keyed by its first character; "^" ends a transaction.
+// Only the fields needed for spending are read (D date, T/U amount, P payee, M memo).
+export function parseQifStatement(text: string): Result<ImportedStatement, ExtractionError> {
+  if (!/^!Type:/im.test(text) && !/^\^/m.test(text)) {
+    return err({ code: "PARSE_FAILED", message: "The file is not a QIF statement." });
+  }
+
+  const records: QifRecord[] = [];
+  let current: QifRecord = emptyRecord();
+  for (const line of text.split(/\r?\n/)) {
+    const value = line.slice(1).trim();
+    switch (line[0]) {
+      case "D":
+        current.date = value;
+        break;
+      case "T":
+      case "U":
+        current.amount ||= value;
+        break;
+      case "P":
+        current.payee = value;
+        break;
+      case "M":
+        current.memo = value;
+        break;
+      case "^":
+        if (current.date || current.amount) records.push(current);
+        current = emptyRecord();
+        break;
+    }
+  }
+
+  if (records.length === 0) {
+    return err({ code: "EMPTY_TEXT", message: "The QIF file contains no transactions." });
+  }
+
+  // Quicken writes years after 1999 as 1/ 3'24
+  const dates = records.map((record) => record.date.replace(/'/g, "/").replace(/\s+/g, ""));
+  const order = detectDateOrder(dates);
+
+  const rows: ImportedRow[] = records.map((record, index) => {
+    const amount = parseAmount(record.amount);
+    return {
+      date: parseDate(dates[index], order) ?? record.date,
+      merchant: record.payee || record.memo,
+      // QIF amounts are signed from the account's point of view: payments are negative
+      amount: amount === null ? record.amount : -amount,
+    };
+  });
+
+  return ok({ rows });
+}
+
+function emptyRecord(): QifRecord {
+  return { date: "", amount: "", payee: "", memo: "" };
+}
@@ -0,0 +1,46 @@
+// Structured bank export import (CSV, OFX, QIF)
+
+import { ActionCtx } from "../../_generated/server";
+import { Id } from "../../_generated/dataModel";
+import { ExtractionError } from "../../domain/ports/extractor.interface";
+import {
+  CsvColumnMapping,
+  ImportedStatement,
+  IStatementImporter,
+  StructuredFormat,
+} from "../../domain/ports/importer.interface";
+import { Result, err } from "../../domain/types/result";
+import { parseCsvStatement } from "./csv.parser";
+import { parseOfxStatement } from "./ofx.parser";
+import { parseQifStatement } from "./qif.parser";
+
+// Reads the uploaded export from Convex storage and parses it without any model call.
+export class StorageStatementImporter implements IStatementImporter {
+  constructor(private readonly storage: ActionCtx["storage"]) {}
+
+  async import(
+    storageId: string,
+    format: StructuredFormat,
+    mapping?: CsvColumnMapping
+  ): Promise<Result<ImportedStatement, ExtractionError>> {
+    const fileUrl = await this.storage.getUrl(storageId as Id<"_storage">);
+    if (!fileUrl) {
+      return err({ code: "FILE_NOT_FOUND", message: `File not found. storageId: ${storageId}` });
+    }
+
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      return err({ code: "DOWNLOAD_FAILED", message: `File download failed: ${response.status}` });
+    }
+
+    const text = await response.text();
+    switch (format) {
+      case "csv":
+        return parseCsvStatement(text, mapping);
+      case "ofx":
+        return parseOfxStatement(text);
+      case "qif":
+        return parseQifStatement(text);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// Spending insights across a workspace's statements
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { currenciesToConvert } from "./domain/services/currency";
+import { transactionsInCurrency } from "./domain/services/spending";
+import { dateRange, parseDay } from "./domain/services/period";
+import { spendingInsights } from "./domain/services/insights";
+import { getUserBaseCurrency, loadRateTable } from "./currency";
+import { requireWorkspace } from "./authorization";
+import { requireUser } from "./sessions";
+import { countedTransactions } from "./transactions";
+
+// 1. [Read] Insights over any date range (everything by default) of the workspace's analysed statements,
+// or one member's, in the caller's base currency. Transactions shared by overlapping statements count once.
+export const get = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    uploaderId: v.optional(v.id("users")),
+    from: v.optional(v.string()), // YYYY-MM-DD, inclusive
+    to: v.optional(v.string()),   // YYYY-MM-DD, inclusive
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const { from, to } = args;
+    if ((from && parseDay(from) === null) || (to && parseDay(to) === null)) {
+      throw new Error("Dates must be YYYY-MM-DD");
+    }
+    if (from && to && from > to) {
+      throw new Error("The start of the range must not be after its end");
+    }
+
+    // The table holds every statement's active analysis, so one being re-analysed, or whose re-analysis
+    // failed, still counts with its last analysis
+    const { transactions, documents, rows } = await countedTransactions(
+      ctx,
+      { workspaceId: args.workspaceId, ownerId: args.uploaderId },
+      { from, to }
+    );
+    const baseCurrency = await getUserBaseCurrency(ctx, user._id);
+    const rates = await loadRateTable(ctx, currenciesToConvert(transactions, baseCurrency));
+    const { transactions: converted, missingRates } = transactionsInCurrency(transactions, baseCurrency, rates);
+    const periods = documents.flatMap((doc) => dateRange(doc.analysis?.transactions ?? []) ?? []);
+
+    return {
+      currency: baseCurrency,
+      ...spendingInsights(converted, periods, { from, to }),
+      sharedTransactions: rows - transactions.length,
+      missingRates,
+    };
+  },
+});
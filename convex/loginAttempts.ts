@@ -0,0 +1,89 @@
+// Failed sign-in tracking: per-code and per-client counters with exponential lockout
+
+import { MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { LockoutPolicy, lockExpired, lockRemainingMs, registerFailure } from "./domain/services/lockout";
+import { createLogger } from "./infrastructure/utils/logger";
+
+const logger = createLogger("auth");
+
+export interface AttemptCounter {
+  key: string;              // "code:<code>" or "client:<clientId>"
+  policy: LockoutPolicy;
+  ownerId?: Id<"users">;    // Account whose activity log shows this counter's events
+}
+
+async function loadCounter(ctx: MutationCtx, key: string): Promise<Doc<"loginAttempts"> | null> {
+  return await ctx.db
+    .query("loginAttempts")
+    .withIndex("by_key", (q) => q.eq("key", key))
+    .first();
+}
+
+async function recordEvent(
+  ctx: MutationCtx,
+  counter: AttemptCounter,
+  type: Doc<"authEvents">["type"],
+  clientId: string,
+  lockedUntil?: number
+) {
+  if (type !== "failed_attempt") {
+    logger.warn(`Sign-in ${type}`, { key: counter.key, lockedUntil });
+  }
+  if (counter.ownerId) {
+    await ctx.db.insert("authEvents", { userId: counter.ownerId, type, clientId, lockedUntil, timestamp: Date.now() });
+  }
+}
+
+// Longest wait across the counters (0 = may try now). Locks that have run out are cleared and recorded as unlocks;
+// the failure count stays, so the next failure locks again, for longer.
+export async function remainingLockMs(
+  ctx: MutationCtx,
+  counters: readonly AttemptCounter[],
+  clientId: string,
+  now: number
+): Promise<number> {
+  let wait = 0;
+  for (const counter of counters) {
+    const row = await loadCounter(ctx, counter.key);
+    if (row && lockExpired(row, now)) {
+      await ctx.db.patch(row._id, { lockedUntil: undefined });
+      await recordEvent(ctx, counter, "unlocked", clientId);
+    }
+    wait = Math.max(wait, lockRemainingMs(row, now));
+  }
+  return wait;
+}
+
+// Counts a failure against every counter; returns the longest lock it started (0 = none)
+export async function recordFailure(
+  ctx: MutationCtx,
+  counters: readonly AttemptCounter[],
+  clientId: string,
+  now: number
+): Promise<number> {
+  let wait = 0;
+  for (const counter of counters) {
+    const row = await loadCounter(ctx, counter.key);
+    const next = registerFailure(row, now, counter.policy);
+    if (row) {
+      await ctx.db.patch(row._id, next);
+    } else {
+      await ctx.db.insert("loginAttempts", { key: counter.key, ...next });
+    }
+
+    await recordEvent(ctx, counter, "failed_attempt", clientId);
+    if (next.lockedUntil !== undefined) {
+      await recordEvent(ctx, counter, "locked", clientId, next.lockedUntil);
+      wait = Math.max(wait, next.lockedUntil - now);
+    }
+  }
+  return wait;
+}
+
+export async function clearFailures(ctx: MutationCtx, counter: AttemptCounter) {
+  const row = await loadCounter(ctx, counter.key);
+  if (row) {
+    await ctx.db.delete(row._id);
+  }
+}
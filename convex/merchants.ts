@@ -0,0 +1,294 @@
+// Merchant registry of a workspace, and spend per merchant over time
+
+import { internalQuery, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  Merchant,
+  applyMerchantRegistry,
+  mergeMerchants,
+  merchantSpending,
+  splitMerchant,
+  validateMerchant,
+} from "./domain/services/merchants";
+import { CategoryRule } from "./domain/services/category-rules";
+import { currenciesToConvert } from "./domain/services/currency";
+import { transactionsInCurrency } from "./domain/services/spending";
+import { parseDay } from "./domain/services/period";
+import { authorizeWorkspace, denyAccess, requireWorkspace } from "./authorization";
+import { getUserBaseCurrency, loadRateTable } from "./currency";
+import { loadRules } from "./categoryRules";
+import { requireUser } from "./sessions";
+import { recordDocumentEvent } from "./documentEvents";
+import { countedTransactions, syncDocumentTransactions } from "./transactions";
+import { categoryValidator, merchantAliasValidator } from "./schema";
+
+type Transactions = NonNullable<Doc<"documents">["analysis"]>["transactions"];
+
+const merchantFields = {
+  name: v.string(),
+  aliases: v.array(merchantAliasValidator),
+  defaultCategory: v.optional(categoryValidator),
+  logoUrl: v.optional(v.string()),
+  color: v.optional(v.string()), // #RRGGBB
+};
+
+function toMerchant({ name, aliases, defaultCategory, logoUrl, color }: Doc<"merchants">): Merchant {
+  return { name, aliases, defaultCategory, logoUrl, color };
+}
+
+// Oldest first, which is also the order merchants are matched in
+export async function loadMerchants(ctx: QueryCtx, workspaceId: Id<"workspaces"> | undefined): Promise<Doc<"merchants">[]> {
+  if (!workspaceId) return [];
+  return await ctx.db
+    .query("merchants")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+}
+
+// A document's rows under its workspace's registry and its owner's rules, as the analysis pipeline leaves them.
+// Shared with documents.selectVersion, categoryRules.reapplyRules and hand edits.
+export async function categorizeTransactions(ctx: QueryCtx, doc: Doc<"documents">, transactions: Transactions): Promise<Transactions> {
+  const merchants = await loadMerchants(ctx, doc.workspaceId);
+  const rules = await loadRules(ctx, doc.ownerId);
+  return applyMerchantRegistry(transactions, merchants.map(toMerchant), rules);
+}
+
+// Canonical names can't be told apart by case alone
+async function nameTaken(ctx: QueryCtx, workspaceId: Id<"workspaces">, name: string, except?: Id<"merchants">) {
+  const merchants = await loadMerchants(ctx, workspaceId);
+  return merchants.some((m) => m._id !== except && m.name.toLowerCase() === name.toLowerCase());
+}
+
+// Re-resolves every analysed statement of the workspace after the registry changed.
+// Only names and categories move, so totals stay and no model call is needed.
+async function reapplyRegistry(ctx: MutationCtx, workspaceId: Id<"workspaces">, actorId: Id<"users">) {
+  const merchants = (await loadMerchants(ctx, workspaceId)).map(toMerchant);
+  const docs = await ctx.db
+    .query("documents")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+
+  const rulesByOwner = new Map<Id<"users">, CategoryRule[]>();
+  let documentsUpdated = 0;
+  let transactionsChanged = 0;
+  for (const doc of docs) {
+    if (!doc.analysis || doc.status !== "completed") continue;
+
+    const rules = rulesByOwner.get(doc.ownerId) ?? (await loadRules(ctx, doc.ownerId));
+    rulesByOwner.set(doc.ownerId, rules);
+    const before = doc.analysis.transactions;
+    const transactions = applyMerchantRegistry(before, merchants, rules);
+    const changed = transactions.filter((t, i) => t.merchant !== before[i].merchant || t.category !== before[i].category).length;
+    if (changed === 0) continue;
+
+    const analysis = { ...doc.analysis, transactions };
+    await ctx.db.patch(doc._id, { analysis });
+    await syncDocumentTransactions(ctx, { ...doc, analysis });
+    await recordDocumentEvent(ctx, doc, {
+      type: "merchants_renamed",
+      actorId,
+      detail: `${changed} transaction${changed === 1 ? "" : "s"} by the merchant registry`,
+    });
+    documentsUpdated++;
+    transactionsChanged += changed;
+  }
+
+  // Subscriptions are keyed by merchant, so renamed rows may join or leave one
+  if (documentsUpdated > 0) {
+    await ctx.scheduler.runAfter(0, internal.subscriptions.detect, { workspaceId });
+  }
+  return { documentsUpdated, transactionsChanged };
+}
+
+// Loads a merchant and checks the caller may change its workspace's registry
+async function editableMerchant(ctx: MutationCtx, userId: Id<"users">, merchantId: Id<"merchants">) {
+  const merchant = await ctx.db.get(merchantId);
+  if (!merchant) {
+    throw new Error("Merchant not found");
+  }
+  return { merchant, access: await authorizeWorkspace(ctx, userId, merchant.workspaceId, "update") };
+}
+
+// 1. [Read] The workspace's registry, oldest first
+export const list = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    return await loadMerchants(ctx, args.workspaceId);
+  },
+});
+
+// 2. [Create] Register a merchant (editors and owners); past statements are renamed straight away
+export const create = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    ...merchantFields,
+  },
+  handler: async (ctx, args) => {
+    const { sessionToken, workspaceId, ...fields } = args;
+    const user = await requireUser(ctx, sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, workspaceId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", workspaceId, access.error);
+    }
+
+    const validated = validateMerchant(fields);
+    if (!validated.ok) {
+      throw new Error(validated.error);
+    }
+    if (await nameTaken(ctx, workspaceId, validated.value.name)) {
+      throw new Error(`There is already a merchant called ${validated.value.name}`);
+    }
+    const merchantId = await ctx.db.insert("merchants", { workspaceId, ...validated.value, updatedAt: Date.now() });
+    return { merchantId, ...(await reapplyRegistry(ctx, workspaceId, user._id)) };
+  },
+});
+
+// 3. [Update] Rename a merchant or change its aliases, default category or branding
+export const update = mutation({
+  args: {
+    sessionToken: v.string(),
+    merchantId: v.id("merchants"),
+    ...merchantFields,
+  },
+  handler: async (ctx, args) => {
+    const { sessionToken, merchantId, ...fields } = args;
+    const user = await requireUser(ctx, sessionToken);
+    const { merchant, access } = await editableMerchant(ctx, user._id, merchantId);
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", merchant.workspaceId, access.error);
+    }
+
+    const validated = validateMerchant(fields);
+    if (!validated.ok) {
+      throw new Error(validated.error);
+    }
+    if (await nameTaken(ctx, merchant.workspaceId, validated.value.name, merchantId)) {
+      throw new Error(`There is already a merchant called ${validated.value.name}`);
+    }
+    await ctx.db.replace(merchantId, { workspaceId: merchant.workspaceId, ...validated.value, updatedAt: Date.now() });
+    return await reapplyRegistry(ctx, merchant.workspaceId, user._id);
+  },
+});
+
+// 4. [Delete] Drop a merchant; its rows go back to the statements' own names
+export const remove = mutation({
+  args: {
+    sessionToken: v.string(),
+    merchantId: v.id("merchants"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const { merchant, access } = await editableMerchant(ctx, user._id, args.merchantId);
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", merchant.workspaceId, access.error);
+    }
+
+    await ctx.db.delete(args.merchantId);
+    return await reapplyRegistry(ctx, merchant.workspaceId, user._id);
+  },
+});
+
+// 5. [Update] Merge one merchant into another: its name and aliases become the other's aliases
+export const merge = mutation({
+  args: {
+    sessionToken: v.string(),
+    intoId: v.id("merchants"),
+    fromId: v.id("merchants"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const { merchant: into, access } = await editableMerchant(ctx, user._id, args.intoId);
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", into.workspaceId, access.error);
+    }
+    const from = await ctx.db.get(args.fromId);
+    if (!from || from.workspaceId !== into.workspaceId || from._id === into._id) {
+      throw new Error("Pick another merchant of this workspace to merge");
+    }
+
+    const merged = validateMerchant(mergeMerchants(toMerchant(into), toMerchant(from)));
+    if (!merged.ok) {
+      throw new Error(merged.error);
+    }
+    await ctx.db.replace(into._id, { workspaceId: into.workspaceId, ...merged.value, updatedAt: Date.now() });
+    await ctx.db.delete(from._id);
+    return await reapplyRegistry(ctx, into.workspaceId, user._id);
+  },
+});
+
+// 6. [Create] Split aliases off into a new merchant (e.g. "Tesco Mobile" wrongly under "Tesco")
+export const split = mutation({
+  args: {
+    sessionToken: v.string(),
+    merchantId: v.id("merchants"),
+    aliasIndexes: v.array(v.number()), // Positions in the merchant's aliases
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const { merchant, access } = await editableMerchant(ctx, user._id, args.merchantId);
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", merchant.workspaceId, access.error);
+    }
+
+    const result = splitMerchant(toMerchant(merchant), args.aliasIndexes, args.name);
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+    if (await nameTaken(ctx, merchant.workspaceId, result.value.split.name)) {
+      throw new Error(`There is already a merchant called ${result.value.split.name}`);
+    }
+    const now = Date.now();
+    await ctx.db.patch(merchant._id, { aliases: result.value.kept.aliases, updatedAt: now });
+    const merchantId = await ctx.db.insert("merchants", { workspaceId: merchant.workspaceId, ...result.value.split, updatedAt: now });
+    return { merchantId, ...(await reapplyRegistry(ctx, merchant.workspaceId, user._id)) };
+  },
+});
+
+// 7. [Read] Spend per merchant, month by month, over any date range of the workspace's analysed statements,
+// in the caller's base currency. Merchants not in the registry are listed under their statement names.
+export const spending = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    from: v.optional(v.string()), // YYYY-MM-DD, inclusive
+    to: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const { from, to } = args;
+    if ((from && parseDay(from) === null) || (to && parseDay(to) === null)) {
+      throw new Error("Dates must be YYYY-MM-DD");
+    }
+
+    const { transactions } = await countedTransactions(ctx, { workspaceId: args.workspaceId }, { from, to });
+    const baseCurrency = await getUserBaseCurrency(ctx, user._id);
+    const rates = await loadRateTable(ctx, currenciesToConvert(transactions, baseCurrency));
+    const { transactions: converted, missingRates } = transactionsInCurrency(transactions, baseCurrency, rates);
+
+    const merchants = await loadMerchants(ctx, args.workspaceId);
+    return {
+      currency: baseCurrency,
+      merchants: merchantSpending(converted, merchants.map(toMerchant)),
+      missingRates,
+    };
+  },
+});
+
+// 8. [Internal] The registry of a document's workspace, for the analysis pipeline
+export const forDocument = internalQuery({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    return doc ? (await loadMerchants(ctx, doc.workspaceId)).map(toMerchant) : [];
+  },
+});
@@ -0,0 +1,158 @@
+// Savings goals of a user: a target amount by a deadline, measured as spending cut against a baseline month
+
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { SavingsGoal, baselineMonths, savingsProgress, validateSavingsGoal } from "./domain/services/savings";
+import { currenciesToConvert } from "./domain/services/currency";
+import { transactionsInCurrency } from "./domain/services/spending";
+import { dateRange } from "./domain/services/period";
+import { getUserBaseCurrency, loadRateTable } from "./currency";
+import { requireUser } from "./sessions";
+import { countedTransactions, transactionMonths } from "./transactions";
+import { categoryValidator } from "./schema";
+
+const goalFields = {
+  name: v.string(),
+  targetAmount: v.number(),
+  deadline: v.string(), // YYYY-MM-DD
+  categories: v.optional(v.array(categoryValidator)), // Absent: all spending
+};
+
+// Today as a calendar day in UTC, the way statement dates are read
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// The user's own statements from `from` on, whichever workspace they are in; shared transactions count once
+async function myStatements(ctx: QueryCtx, userId: Id<"users">, from: string) {
+  const { transactions, documents } = await countedTransactions(ctx, { ownerId: userId }, { from });
+  return {
+    transactions,
+    periods: documents.flatMap((doc) => dateRange(doc.analysis?.transactions ?? []) ?? []),
+  };
+}
+
+// The months before `before` my statements reach into, latest first
+async function myBaselineMonths(ctx: QueryCtx, userId: Id<"users">, before: string) {
+  return baselineMonths(await transactionMonths(ctx, { ownerId: userId }), before);
+}
+
+// 1. [Read] My goals with their progress, and the months a new goal can take as its baseline
+export const list = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const goals = await ctx.db
+      .query("savingsGoals")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", user._id))
+      .collect();
+    // Nothing before the earliest baseline counts towards any goal
+    const earliest = goals.map((g) => g.baselineMonth).sort()[0];
+    const { transactions, periods } = earliest
+      ? await myStatements(ctx, user._id, `${earliest}-01`)
+      : { transactions: [], periods: [] };
+
+    // Each goal is measured in the currency it was set in
+    const currencies = [...new Set(goals.map((g) => g.currency))];
+    const rates = await loadRateTable(
+      ctx,
+      currencies.flatMap((currency) => currenciesToConvert(transactions, currency))
+    );
+    const converted = new Map(currencies.map((currency) => [currency, transactionsInCurrency(transactions, currency, rates)]));
+
+    const now = today();
+    return {
+      currency: await getUserBaseCurrency(ctx, user._id),
+      baselineMonths: await myBaselineMonths(ctx, user._id, now),
+      goals: goals.map((goal) => ({
+        ...goal,
+        progress: savingsProgress(goal, converted.get(goal.currency)?.transactions ?? [], periods, now),
+      })),
+      missingRates: [...new Set([...converted.values()].flatMap((c) => c.missingRates))],
+    };
+  },
+});
+
+// 2. [Create] Set a goal in my base currency, starting today. The baseline defaults to the latest month
+// my statements cover before this one.
+export const create = mutation({
+  args: {
+    sessionToken: v.string(),
+    ...goalFields,
+    baselineMonth: v.optional(v.string()), // YYYY-MM
+  },
+  handler: async (ctx, args) => {
+    const { sessionToken, baselineMonth, ...fields } = args;
+    const user = await requireUser(ctx, sessionToken);
+    const startDate = today();
+    const months = await myBaselineMonths(ctx, user._id, startDate);
+    const baseline = baselineMonth ?? months[0];
+    if (!baseline) {
+      throw new Error("Analyse a statement from an earlier month first: it is the baseline savings are measured against");
+    }
+    if (!months.includes(baseline)) {
+      throw new Error(`None of my statements cover ${baseline}`);
+    }
+
+    const goal: SavingsGoal = { ...fields, startDate, baselineMonth: baseline };
+    const validated = validateSavingsGoal(goal);
+    if (!validated.ok) {
+      throw new Error(validated.error);
+    }
+    return await ctx.db.insert("savingsGoals", {
+      ownerId: user._id,
+      ...validated.value,
+      currency: await getUserBaseCurrency(ctx, user._id),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// 3. [Update] Change a goal's name, target, deadline or categories; its start and baseline stay
+export const update = mutation({
+  args: {
+    sessionToken: v.string(),
+    goalId: v.id("savingsGoals"),
+    ...goalFields,
+  },
+  handler: async (ctx, args) => {
+    const { sessionToken, goalId, ...fields } = args;
+    const user = await requireUser(ctx, sessionToken);
+    const goal = await ctx.db.get(goalId);
+    if (!goal) {
+      throw new Error("Goal not found");
+    }
+    if (goal.ownerId !== user._id) {
+      throw new Error("Not authorized to change this goal");
+    }
+
+    const validated = validateSavingsGoal({ ...fields, startDate: goal.startDate, baselineMonth: goal.baselineMonth });
+    if (!validated.ok) {
+      throw new Error(validated.error);
+    }
+    // Clearing the categories (undefined) removes them: the goal covers all spending again
+    await ctx.db.patch(goalId, validated.value);
+    return { success: true };
+  },
+});
+
+// 4. [Delete] Drop one of my goals
+export const remove = mutation({
+  args: {
+    sessionToken: v.string(),
+    goalId: v.id("savingsGoals"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const goal = await ctx.db.get(args.goalId);
+    if (!goal) {
+      throw new Error("Goal not found");
+    }
+    if (goal.ownerId !== user._id) {
+      throw new Error("Not authorized to delete this goal");
+    }
+    await ctx.db.delete(args.goalId);
+    return { success: true };
+  },
+});
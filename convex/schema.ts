@@ -1,20 +1,214 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Mirrors TRANSACTION_CATEGORIES in domain/types/analysis.ts
+export const categoryValidator = v.union(
+  v.literal("Food"),
+  v.literal("Shopping"),
+  v.literal("Transport"),
+  v.literal("Utilities"),
+  v.literal("Travel"),
+  v.literal("Transaction"),
+  v.literal("Other")
+);
+
+// Mirrors WORKSPACE_ROLES in domain/entities/workspace.ts
+export const workspaceRoleValidator = v.union(v.literal("viewer"), v.literal("editor"), v.literal("owner"));
+
+// Mirrors Transaction in domain/types/analysis.ts
+export const transactionValidator = v.object({
+  date: v.string(),     // YYYY-MM-DD
+  merchant: v.string(), // The merchant registry's canonical name when one matched
+  rawMerchant: v.optional(v.string()), // The statement's spelling, kept while the registry renames the row
+  amount: v.number(),
+  currency: v.optional(v.string()), // ISO 4217; absent on rows saved before multi-currency (GBP)
+  category: categoryValidator,
+  // Set when a category rule or the user overrode the model; modelCategory keeps the model's answer
+  categorySource: v.optional(v.union(v.literal("rule"), v.literal("user"))),
+  modelCategory: v.optional(categoryValidator),
+  edited: v.optional(v.boolean()), // Corrected, added or split by hand
+});
+
+export const analysisValidator = v.object({
+  currency: v.optional(v.string()), // Statement currency; absent on analyses saved before multi-currency (GBP)
+  totalSpent: v.number(),
+  period: v.optional(v.string()),
+  averageDailySpent: v.optional(v.number()),
+  transactions: v.array(transactionValidator),
+  summary: v.optional(v.string()), // AI's sarcastic or encouraging comment (English)
+  advice: v.optional(v.string()), // Specific cost-cutting advice (English)
+  // Rows the validator repaired or rejected, with the reason
+  issues: v.optional(v.array(v.object({
+    row: v.number(),
+    chunk: v.optional(v.number()),
+    action: v.union(v.literal("repaired"), v.literal("rejected")),
+    reason: v.string(),
+  }))),
+  duplicatesRemoved: v.optional(v.number()), // Rows repeated across page boundaries
+  missingRates: v.optional(v.array(v.string())), // Currencies left out of totals (no exchange rate)
+  unmatchedEdits: v.optional(v.number()), // Hand edits whose row this version doesn't have
+});
+
+// Mirrors STATEMENT_FORMATS in domain/entities/document.ts
+export const statementFormatValidator = v.union(
+  v.literal("pdf"),
+  v.literal("csv"),
+  v.literal("ofx"),
+  v.literal("qif")
+);
+
+// Mirrors CsvColumnMapping in domain/ports/importer.interface.ts (CSV header names)
+export const columnMappingValidator = v.object({
+  date: v.optional(v.string()),
+  merchant: v.optional(v.string()),
+  amount: v.optional(v.string()),
+  debit: v.optional(v.string()),
+  credit: v.optional(v.string()),
+  currency: v.optional(v.string()),
+});
+
+// Mirrors SUBSCRIPTION_STATUSES in domain/services/subscriptions.ts
+export const subscriptionStatusValidator = v.union(
+  v.literal("detected"),
+  v.literal("confirmed"),
+  v.literal("ignored"),
+  v.literal("cancelled")
+);
+
+// Mirrors DocumentStatus in domain/entities/document.ts
+export const documentStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("extracting"),
+  v.literal("analyzing"),
+  v.literal("completed"),
+  v.literal("failed")
+);
+
+// Mirrors DOCUMENT_EVENT_TYPES in domain/entities/document.ts
+export const documentEventTypeValidator = v.union(
+  v.literal("uploaded"),
+  v.literal("status_changed"),
+  v.literal("analysis_saved"),
+  v.literal("recategorized"),
+  v.literal("version_selected"),
+  v.literal("exported"),
+  v.literal("deleted"),
+  v.literal("overlap_found"),
+  v.literal("overlap_resolved"),
+  v.literal("edited"),
+  v.literal("merchants_renamed")
+);
+
+// Mirrors TRANSACTION_EDIT_KINDS in domain/services/transaction-edits.ts
+export const transactionEditKindValidator = v.union(
+  v.literal("edit"),
+  v.literal("add"),
+  v.literal("delete"),
+  v.literal("split")
+);
+
+// Mirrors OVERLAP_KINDS in domain/services/overlap.ts
+export const overlapKindValidator = v.union(v.literal("duplicate"), v.literal("overlap"));
+
+// Mirrors OVERLAP_RESOLUTIONS in domain/services/overlap.ts
+export const overlapResolutionValidator = v.union(v.literal("skip"), v.literal("replace"), v.literal("merge"));
+
+// Mirrors RuleMatch in domain/services/category-rules.ts
+export const ruleMatchValidator = v.union(v.literal("exact"), v.literal("contains"), v.literal("regex"));
+
+// Mirrors MERCHANT_ALIAS_MATCHES in domain/services/merchants.ts
+export const merchantAliasValidator = v.object({
+  match: v.union(v.literal("name"), v.literal("contains"), v.literal("regex")),
+  pattern: v.string(),
+});
+
+// Mirrors AnalysisRunMetadata in domain/types/analysis.ts
+export const runMetadataValidator = v.object({
+  model: v.string(),
+  promptVersion: v.string(),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+  estimatedCostUsd: v.number(),
+  durationMs: v.number(),
+});
+
 export default defineSchema({
   // 0. Users Table: User accounts
   users: defineTable({
     code: v.string(),       // 6-digit code
-    password: v.string(),   // 2-digit password (stored as string)
+    password: v.string(),   // Salted PBKDF2 hash; legacy rows hold the plaintext until their next login
     name: v.optional(v.string()),
     email: v.optional(v.string()),
+    baseCurrency: v.optional(v.string()), // ISO 4217 currency all aggregates are shown in (default GBP)
+    deletionRequestedAt: v.optional(v.number()), // Set by account.deleteAccount; the row goes once its data is purged
   }).index("by_code", ["code"]),
 
+  // 0-1. Sessions Table: Server-issued sign-ins
+  // Only a SHA-256 digest of each token is stored, so a database leak doesn't hand out live sessions.
+  sessions: defineTable({
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    expiresAt: v.number(),
+    revokedAt: v.optional(v.number()), // Set by logout, password change or revoking the device
+    deviceLabel: v.optional(v.string()), // e.g. "Chrome on macOS", for the signed-in devices list
+  })
+    .index("by_tokenHash", ["tokenHash"])
+    .index("by_userId", ["userId"]),
+
+  // 0-2. Login Attempts Table: Failed sign-in counters, one row per code and per client
+  loginAttempts: defineTable({
+    key: v.string(), // "code:<code>" or "client:<clientId>"
+    failures: v.number(),
+    lastFailureAt: v.number(),
+    lockedUntil: v.optional(v.number()),
+  }).index("by_key", ["key"]),
+
+  // 0-3. Auth Events Table: What the account owner is shown about attempts on their code
+  authEvents: defineTable({
+    userId: v.id("users"),
+    type: v.union(v.literal("failed_attempt"), v.literal("locked"), v.literal("unlocked")),
+    clientId: v.optional(v.string()), // Client-reported, so informational only
+    lockedUntil: v.optional(v.number()),
+    timestamp: v.number(),
+  }).index("by_userId_timestamp", ["userId", "timestamp"]),
+
+  // 0-4. Workspaces Table: Households sharing documents and dashboards
+  workspaces: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+  }),
+
+  // 0-5. Workspace Members Table: Who is in which workspace, and as what
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: workspaceRoleValidator,
+    joinedAt: v.number(),
+  })
+    .index("by_workspaceId", ["workspaceId"])
+    .index("by_userId", ["userId"])
+    .index("by_workspaceId_userId", ["workspaceId", "userId"]),
+
+  // 0-6. Workspace Invites Table: Single-use join codes (only a SHA-256 digest is stored, as for sessions)
+  workspaceInvites: defineTable({
+    workspaceId: v.id("workspaces"),
+    codeHash: v.string(),
+    role: workspaceRoleValidator, // Role the invitee joins with
+    createdBy: v.id("users"),
+    expiresAt: v.number(),
+    usedBy: v.optional(v.id("users")),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_codeHash", ["codeHash"])
+    .index("by_workspaceId", ["workspaceId"]),
+
   // 1. Documents Table: Stores the source of truth for every upload.
   documents: defineTable({
     title: v.string(),
     storageId: v.id("_storage"), // Reference to Convex's built-in file storage
-    ownerId: v.id("users"),        // Reference to users table
+    ownerId: v.id("users"),        // Reference to users table (the uploader)
+    workspaceId: v.optional(v.id("workspaces")), // Absent until the uploader's first sign-in after workspaces
     
     // Status as a State Machine (Failure as a designed state)
     status: v.union(
@@ -22,26 +216,142 @@ export default defineSchema({
       v.literal("extracting"),   // Text is being pulled from PDF
       v.literal("analyzing"),    // LLM is processing the text
       v.literal("completed"),    // Successfully analyzed
-      v.literal("failed")        // Terminal error state
+      v.literal("failed")        // Terminal error state (until retried)
     ),
+
+    // PDF statements go through the model; bank exports are parsed. Absent on older documents (PDF).
+    sourceFormat: v.optional(statementFormatValidator),
+    columnMapping: v.optional(columnMappingValidator), // CSV only, user overrides of detected columns
+
+    // Cached extraction output so a retry of the analysis step doesn't re-parse the file
+    textStorageId: v.optional(v.id("_storage")),
+
+    // Chunk progress while a long statement is being analysed
+    progress: v.optional(v.object({
+      completedChunks: v.number(),
+      totalChunks: v.number(),
+    })),
     
-    // Analysis result storage (optional)
-    analysis: v.optional(v.object({
-      totalSpent: v.number(),
-      period: v.optional(v.string()),
-      averageDailySpent: v.optional(v.number()),
-      transactions: v.array(v.any()), // Complex objects use v.any() or detailed definition
-      summary: v.optional(v.string()), // AI's sarcastic or encouraging comment (English)
-      advice: v.optional(v.string()), // Specific cost-cutting advice (English)
+    // Analysis result storage (optional): a working copy of the active version
+    analysis: v.optional(analysisValidator),
+    activeResultId: v.optional(v.id("analysisResults")), // Which analysisResults version `analysis` came from
+
+    // SHA-256 of the uploaded file, from file storage. Absent on documents uploaded before the duplicate check.
+    contentHash: v.optional(v.string()),
+    // Earlier documents of the workspace holding the same file or the same transactions.
+    // Until a member chooses to skip, replace or merge, a duplicate file is not analysed.
+    overlap: v.optional(v.object({
+      kind: overlapKindValidator,
+      documentIds: v.array(v.id("documents")),
+      sharedTransactions: v.optional(v.number()), // Overlaps only
+      from: v.optional(v.string()), // Period both cover (overlaps only)
+      to: v.optional(v.string()),
+      merged: v.optional(v.boolean()), // Kept alongside them; shared transactions are counted once
     })),
   })
     .index("by_status", ["status"])
-    .index("by_ownerId", ["ownerId"]),
+    .index("by_ownerId", ["ownerId"])
+    .index("by_storageId", ["storageId"])
+    .index("by_workspaceId", ["workspaceId"])
+    .index("by_workspaceId_contentHash", ["workspaceId", "contentHash"]),
+
+  // One row per transaction of each document's active analysis (a copy of analysis.transactions,
+  // rewritten whenever that changes), for queries across statements
+  transactions: defineTable({
+    documentId: v.id("documents"),
+    ownerId: v.id("users"),                      // The document's uploader
+    workspaceId: v.optional(v.id("workspaces")), // Absent while the document is
+    index: v.number(), // Position in analysis.transactions
+    date: v.string(),  // YYYY-MM-DD
+    merchant: v.string(),
+    rawMerchant: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(), // Always set: rows from before multi-currency take the statement's
+    category: categoryValidator,
+    categorySource: v.optional(v.union(v.literal("rule"), v.literal("user"))),
+    modelCategory: v.optional(categoryValidator),
+    edited: v.optional(v.boolean()),
+  })
+    .index("by_documentId_index", ["documentId", "index"])
+    .index("by_ownerId_date", ["ownerId", "date"])
+    .index("by_ownerId_category_date", ["ownerId", "category", "date"])
+    .index("by_workspaceId_date", ["workspaceId", "date"])
+    .index("by_workspaceId_category_date", ["workspaceId", "category", "date"])
+    .searchIndex("search_merchant", { searchField: "merchant", filterFields: ["workspaceId", "category"] }),
+
+  // Hand edits of a document's transactions, in the order they were made. Replayed over every
+  // analysis version (a new run or a restored one) so corrections survive re-analysis.
+  transactionEdits: defineTable({
+    documentId: v.id("documents"),
+    actorId: v.id("users"),
+    kind: transactionEditKindValidator,
+    // The row as it stood when edited, matched again in later versions (edit, delete, split)
+    target: v.optional(v.object({
+      date: v.string(),
+      merchant: v.string(),
+      amount: v.number(),
+      currency: v.optional(v.string()),
+      occurrence: v.optional(v.number()), // Which of several identical rows; absent on edits stored before it was kept
+    })),
+    rows: v.array(transactionValidator), // What takes its place; none for a delete
+    createdAt: v.number(),
+  }).index("by_documentId", ["documentId"]),
+
+  // Monthly spending limit per category, shared by a workspace. Amounts are in `currency`
+  // (the base currency of whoever set it); spend is converted into it at each transaction's date.
+  budgets: defineTable({
+    workspaceId: v.id("workspaces"),
+    category: categoryValidator,
+    limit: v.number(),
+    currency: v.string(),
+    updatedAt: v.number(),
+  }).index("by_workspaceId_category", ["workspaceId", "category"]),
+
+  // Recurring charges found across a workspace's statements (subscriptions.detect).
+  // Detection refreshes the charge fields; status and cancellation are the members' answers.
+  subscriptions: defineTable({
+    workspaceId: v.id("workspaces"),
+    merchantKey: v.string(), // Normalised merchant; with currency, identifies the subscription
+    merchant: v.string(),
+    currency: v.string(),
+    cadence: v.union(v.literal("weekly"), v.literal("monthly"), v.literal("annual")),
+    amount: v.number(),
+    previousAmount: v.optional(v.number()), // Set while the latest charge is a price change
+    firstChargeDate: v.string(),
+    lastChargeDate: v.string(),
+    nextExpectedDate: v.string(),
+    yearlyCost: v.number(),
+    occurrences: v.number(),
+    status: subscriptionStatusValidator,
+    cancelledOn: v.optional(v.string()), // YYYY-MM-DD the member marked it cancelled
+    outcome: v.optional(v.union(v.literal("pending"), v.literal("stopped"), v.literal("still_charging"))),
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId", ["workspaceId"])
+    .index("by_workspaceId_merchantKey", ["workspaceId", "merchantKey"]),
+
+  // Append-only history of each document, kept after the document is deleted
+  documentEvents: defineTable({
+    documentId: v.id("documents"),
+    documentTitle: v.string(), // Copied so the history still reads after deletion
+    ownerId: v.id("users"),    // The document's uploader
+    actorId: v.optional(v.id("users")), // Absent when the processing pipeline did it
+    type: documentEventTypeValidator,
+    fromStatus: v.optional(documentStatusValidator),
+    toStatus: v.optional(documentStatusValidator),
+    durationMs: v.optional(v.number()), // Time spent in fromStatus
+    detail: v.optional(v.string()),
+    timestamp: v.number(),
+  })
+    .index("by_documentId_timestamp", ["documentId", "timestamp"])
+    .index("by_ownerId_timestamp", ["ownerId", "timestamp"])
+    .index("by_actorId_timestamp", ["actorId", "timestamp"]),
 
   // 2. Analysis Results Table: Stores the structured output.
   // This is separated to keep the documents table "lean".
   analysisResults: defineTable({
     documentId: v.id("documents"),
+    ownerId: v.id("users"),
     summary: v.string(),
     
     // Domain-specific data (Budget/Diet focus)
@@ -51,13 +361,25 @@ export default defineSchema({
       items: v.array(v.string()),
     }),
 
+    // Every run is kept as a numbered version of the document's analysis, so a re-analysis
+    // never loses the previous output. Both are absent on rows saved before versioning.
+    version: v.optional(v.number()),
+    analysis: v.optional(analysisValidator),
+
     // Metadata for Governance (Crucial for AI startups)
     metadata: v.object({
       model: v.string(),      // e.g., "gpt-4o"
-      tokenUsage: v.number(), // Track cost per request
+      promptVersion: v.optional(v.string()), // Absent on runs before prompts were versioned
+      tokenUsage: v.number(), // Track cost per request (prompt + completion)
+      promptTokens: v.number(),
+      completionTokens: v.number(),
+      estimatedCostUsd: v.number(),
+      durationMs: v.number(), // Wall time of the analysis step
       processedAt: v.number(),
     }),
-  }).index("by_documentId", ["documentId"]),
+  })
+    .index("by_documentId", ["documentId"])
+    .index("by_ownerId_processedAt", ["ownerId", "metadata.processedAt"]),
 
   // 3. Execution Errors Table: Failure Modeling
   // Instead of generic logs, we store errors as structured data.
@@ -68,5 +390,79 @@ export default defineSchema({
     message: v.string(),
     timestamp: v.number(),
   }).index("by_documentId", ["documentId"]),
+
+  // 4. Exchange Rates Table: Locally maintained FX reference data
+  // One row per currency per day, quoted against USD so any pair can be derived.
+  exchangeRates: defineTable({
+    currency: v.string(), // ISO 4217
+    date: v.string(),     // YYYY-MM-DD
+    perUsd: v.number(),   // Units of `currency` per 1 USD
+  }).index("by_currency_date", ["currency", "date"]),
+
+  // 5. Category Rules Table: Per-user merchant -> category overrides
+  // Applied over the model's categories, oldest rule first; the first match wins.
+  categoryRules: defineTable({
+    ownerId: v.id("users"),
+    match: ruleMatchValidator,
+    pattern: v.string(),
+    category: categoryValidator,
+    minAmount: v.optional(v.number()), // Inclusive amount range the rule is limited to
+    maxAmount: v.optional(v.number()),
+  }).index("by_ownerId", ["ownerId"]),
+
+  // Merchant registry of a workspace: canonical names, the spellings they stand for, default categories
+  // and branding. Resolved oldest first over every statement's rows (see domain/services/merchants.ts).
+  merchants: defineTable({
+    workspaceId: v.id("workspaces"),
+    name: v.string(), // Canonical name, unique within the workspace
+    aliases: v.array(merchantAliasValidator),
+    defaultCategory: v.optional(categoryValidator),
+    logoUrl: v.optional(v.string()),
+    color: v.optional(v.string()), // #RRGGBB
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId", ["workspaceId"])
+    .index("by_workspaceId_name", ["workspaceId", "name"]),
+
+  // Savings goals of a user: a target by a deadline, measured as spending cut against a baseline month
+  // of the user's own statements (see domain/services/savings.ts)
+  savingsGoals: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    targetAmount: v.number(),
+    currency: v.string(),      // The owner's base currency when the goal was set
+    startDate: v.string(),     // YYYY-MM-DD
+    deadline: v.string(),      // YYYY-MM-DD, inclusive
+    baselineMonth: v.string(), // YYYY-MM
+    categories: v.optional(v.array(categoryValidator)), // Absent: all spending
+    createdAt: v.number(),
+  }).index("by_ownerId", ["ownerId"]),
+
+  // 6. Access Denials Table: Audit trail of refused document and file access
+  // Written by mutations and actions; queries can't write, so their denials only reach the "audit" log.
+  accessDenials: defineTable({
+    userId: v.id("users"),
+    action: v.union(
+      v.literal("create"),
+      v.literal("read"),
+      v.literal("update"),
+      v.literal("delete"),
+      v.literal("retry"),
+      v.literal("reanalyze"),
+      v.literal("extract"),
+      v.literal("manage")
+    ),
+    resource: v.union(v.literal("document"), v.literal("storage"), v.literal("workspace")),
+    resourceId: v.string(), // Kept as a string: the id may not exist, or may be from another table
+    reason: v.union(
+      v.literal("not_found"),
+      v.literal("not_owner"),
+      v.literal("not_member"),
+      v.literal("insufficient_role")
+    ),
+    timestamp: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_timestamp", ["timestamp"]),
 });
 
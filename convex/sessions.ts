@@ -0,0 +1,147 @@
+// Session tokens: issued at sign-in, checked by every user-facing function
+
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { SESSION_TTL_MS, isSessionActive, normalizeDeviceLabel } from "./domain/entities/session";
+import { isPendingDeletion } from "./domain/entities/user";
+import { randomToken, sha256Hex } from "./infrastructure/utils/crypto";
+
+export interface IssuedSession {
+  sessionToken: string;
+  expiresAt: number;
+}
+
+export async function createSession(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  deviceLabel?: string
+): Promise<IssuedSession> {
+  const sessionToken = randomToken();
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  await ctx.db.insert("sessions", {
+    userId,
+    tokenHash: await sha256Hex(sessionToken),
+    expiresAt,
+    deviceLabel: normalizeDeviceLabel(deviceLabel),
+  });
+  return { sessionToken, expiresAt };
+}
+
+async function findSession(ctx: QueryCtx, sessionToken: string): Promise<Doc<"sessions"> | null> {
+  const tokenHash = await sha256Hex(sessionToken);
+  return await ctx.db
+    .query("sessions")
+    .withIndex("by_tokenHash", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+}
+
+// The caller is whoever the session token belongs to; client-supplied user ids are never trusted
+export async function requireUser(ctx: QueryCtx, sessionToken: string): Promise<Doc<"users">> {
+  const session = await findSession(ctx, sessionToken);
+  if (!session || !isSessionActive(session, Date.now())) {
+    throw new Error("Session expired. Please log in again.");
+  }
+
+  const user = await ctx.db.get(session.userId);
+  if (!user || isPendingDeletion(user)) {
+    throw new Error("Session expired. Please log in again.");
+  }
+  return user;
+}
+
+// Signs the user out everywhere except, optionally, the session making the request
+export async function revokeSessions(ctx: MutationCtx, userId: Id<"users">, keepToken?: string) {
+  const keepHash = keepToken ? await sha256Hex(keepToken) : undefined;
+  const sessions = await ctx.db
+    .query("sessions")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  for (const session of sessions) {
+    if (session.revokedAt === undefined && session.tokenHash !== keepHash) {
+      await ctx.db.patch(session._id, { revokedAt: Date.now() });
+    }
+  }
+}
+
+// 1. [Logout] Revoke the current session
+export const logout = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const session = await findSession(ctx, args.sessionToken);
+    if (session && session.revokedAt === undefined) {
+      await ctx.db.patch(session._id, { revokedAt: Date.now() });
+    }
+    return { success: true };
+  },
+});
+
+// 2. [Read] Whether a stored token still signs someone in. Never throws, so the client can restore on startup.
+export const validate = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const session = await findSession(ctx, args.sessionToken);
+    if (!session || !isSessionActive(session, Date.now())) {
+      return { valid: false as const };
+    }
+    const user = await ctx.db.get(session.userId);
+    if (!user || isPendingDeletion(user)) {
+      return { valid: false as const };
+    }
+    return { valid: true as const, code: user.code, expiresAt: session.expiresAt };
+  },
+});
+
+// 3. [Read] My signed-in devices (active sessions), newest first
+export const listDevices = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const currentHash = await sha256Hex(args.sessionToken);
+    const now = Date.now();
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+
+    return sessions
+      .filter((session) => isSessionActive(session, now))
+      .map((session) => ({
+        _id: session._id,
+        deviceLabel: session.deviceLabel ?? "Unknown device",
+        signedInAt: session._creationTime,
+        expiresAt: session.expiresAt,
+        current: session.tokenHash === currentHash,
+      }));
+  },
+});
+
+// 4. [Revoke] Sign out one of my devices
+export const revokeDevice = mutation({
+  args: {
+    sessionToken: v.string(),
+    sessionId: v.id("sessions"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.userId !== user._id) {
+      throw new Error("Device not found");
+    }
+    if (session.revokedAt === undefined) {
+      await ctx.db.patch(args.sessionId, { revokedAt: Date.now() });
+    }
+    return { success: true };
+  },
+});
+
+// 5. [Revoke] Sign out every device but this one
+export const revokeOtherDevices = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await revokeSessions(ctx, user._id, args.sessionToken);
+    return { success: true };
+  },
+});
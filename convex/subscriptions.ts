@@ -0,0 +1,133 @@
+// Subscriptions: recurring charges found across a workspace's statements
+
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { cancellationOutcome, detectRecurringCharges } from "./domain/services/subscriptions";
+import { authorizeWorkspace, denyAccess, requireWorkspace } from "./authorization";
+import { requireUser } from "./sessions";
+import { countedTransactions, latestTransactionDate } from "./transactions";
+import { subscriptionStatusValidator } from "./schema";
+
+// Re-runs detection over every analysed statement in the workspace.
+// Unreviewed finds that no longer hold are dropped; anything a member answered is kept.
+async function detectInWorkspace(ctx: MutationCtx, workspaceId: Id<"workspaces">): Promise<number> {
+  // The whole history: an annual charge needs more than a year of statements to show
+  const { transactions } = await countedTransactions(ctx, { workspaceId });
+  // How far the statements reach: a cancelled charge can only be seen to stop up to here
+  const coveredUntil = await latestTransactionDate(ctx, { workspaceId });
+  const found = detectRecurringCharges(transactions);
+  const existing = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+  const now = Date.now();
+
+  const matched = new Set<Id<"subscriptions">>();
+  for (const charge of found) {
+    const current = existing.find((s) => s.merchantKey === charge.merchantKey && s.currency === charge.currency);
+    if (!current) {
+      await ctx.db.insert("subscriptions", { workspaceId, ...charge, status: "detected", updatedAt: now });
+      continue;
+    }
+    matched.add(current._id);
+    await ctx.db.patch(current._id, {
+      ...charge,
+      previousAmount: charge.previousAmount, // Cleared once the new price has repeated
+      outcome: current.cancelledOn ? cancellationOutcome(charge, current.cancelledOn, coveredUntil) : undefined,
+      updatedAt: now,
+    });
+  }
+
+  for (const subscription of existing) {
+    if (matched.has(subscription._id)) continue;
+    if (subscription.status === "detected") {
+      await ctx.db.delete(subscription._id);
+    } else if (subscription.cancelledOn) {
+      // No longer recurring, which for a cancelled one is the point
+      await ctx.db.patch(subscription._id, {
+        outcome: cancellationOutcome(subscription, subscription.cancelledOn, coveredUntil),
+      });
+    }
+  }
+  return found.length;
+}
+
+// 1. [Read] Subscriptions of a workspace, costliest first
+export const list = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+    return subscriptions.sort((a, b) => b.yearlyCost - a.yearlyCost);
+  },
+});
+
+// 2. [Update] Confirm, ignore, or mark cancelled (editors and owners).
+// Cancelling records today's date; later statements then show whether the charge stopped.
+export const setStatus = mutation({
+  args: {
+    sessionToken: v.string(),
+    subscriptionId: v.id("subscriptions"),
+    status: subscriptionStatusValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const subscription = await ctx.db.get(args.subscriptionId);
+    if (!subscription) {
+      throw new Error("Subscription not found");
+    }
+    const access = await authorizeWorkspace(ctx, user._id, subscription.workspaceId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", subscription.workspaceId, access.error);
+    }
+
+    if (args.status !== "cancelled") {
+      await ctx.db.patch(args.subscriptionId, { status: args.status, cancelledOn: undefined, outcome: undefined, updatedAt: Date.now() });
+      return { success: true };
+    }
+    const cancelledOn = subscription.cancelledOn ?? new Date().toISOString().slice(0, 10);
+    const coveredUntil = await latestTransactionDate(ctx, { workspaceId: subscription.workspaceId });
+    await ctx.db.patch(args.subscriptionId, {
+      status: "cancelled",
+      cancelledOn,
+      outcome: cancellationOutcome(subscription, cancelledOn, coveredUntil),
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
+
+// 3. [Detect] Look for subscriptions again now (editors and owners)
+export const rescan = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+    return { found: await detectInWorkspace(ctx, args.workspaceId) };
+  },
+});
+
+// 4. [Internal] Scheduled whenever a workspace's statements change
+export const detect = internalMutation({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.workspaceId)) {
+      await detectInWorkspace(ctx, args.workspaceId);
+    }
+    return null;
+  },
+});
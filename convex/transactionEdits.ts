@@ -0,0 +1,264 @@
+// Hand edits of an analysed document's transactions: correct, add, delete or split a row.
+// Each edit is stored and replayed over later versions, and the statement's totals follow the rows.
+
+import { mutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { DEFAULT_CURRENCY, convertAmount, currenciesToConvert } from "./domain/services/currency";
+import { summarizeTransactions } from "./domain/services/period";
+import {
+  TransactionEdit,
+  addedRow,
+  applyTransactionEditAt,
+  applyTransactionEdits,
+  editTarget,
+  editedRow,
+  splitRows,
+  validateTransactionInput,
+} from "./domain/services/transaction-edits";
+import { loadRateTable } from "./currency";
+import { authorizeDocument, denyAccess } from "./authorization";
+import { requireUser } from "./sessions";
+import { categoryValidator } from "./schema";
+import { recordDocumentEvent } from "./documentEvents";
+import { syncDocumentTransactions } from "./transactions";
+import { categorizeTransactions } from "./merchants";
+
+type Analysis = NonNullable<Doc<"documents">["analysis"]>;
+
+const transactionInputValidator = v.object({
+  date: v.string(), // YYYY-MM-DD
+  merchant: v.string(),
+  amount: v.number(), // Negative for refunds
+  currency: v.optional(v.string()), // Defaults to the statement currency
+  category: categoryValidator,
+});
+
+// totalSpent, period and averageDailySpent recomputed from the rows, converted into the statement currency
+async function withTotals(ctx: QueryCtx, analysis: Analysis): Promise<Analysis> {
+  const currency = analysis.currency ?? DEFAULT_CURRENCY;
+  const rates = await loadRateTable(ctx, currenciesToConvert(analysis.transactions, currency));
+  const totals = summarizeTransactions(analysis.transactions, (t) =>
+    convertAmount(t.amount, t.currency ?? DEFAULT_CURRENCY, currency, t.date, rates)
+  );
+  return {
+    ...analysis,
+    totalSpent: totals.totalSpent,
+    period: totals.period,
+    averageDailySpent: totals.averageDailySpent,
+    missingRates: totals.missingRates.length > 0 ? totals.missingRates : undefined,
+  };
+}
+
+// A document's hand edits replayed over an analysis (a new run, or a version being restored).
+// Without edits the analysis is returned as it is, model totals included.
+// Rows the edits bring in were stored under the registry of their day, so they are resolved again.
+export async function applyStoredEdits(ctx: QueryCtx, doc: Doc<"documents">, analysis: Analysis): Promise<Analysis> {
+  const edits = await ctx.db
+    .query("transactionEdits")
+    .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+    .collect();
+  if (edits.length === 0) return analysis;
+  const { transactions, unmatched } = applyTransactionEdits(analysis.transactions, edits);
+  return await withTotals(ctx, {
+    ...analysis,
+    transactions: await categorizeTransactions(ctx, doc, transactions),
+    unmatchedEdits: unmatched > 0 ? unmatched : undefined,
+  });
+}
+
+export async function deleteDocumentEdits(ctx: MutationCtx, documentId: Id<"documents">) {
+  const edits = await ctx.db
+    .query("transactionEdits")
+    .withIndex("by_documentId", (q) => q.eq("documentId", documentId))
+    .collect();
+  for (const edit of edits) {
+    await ctx.db.delete(edit._id);
+  }
+}
+
+// Only a finished analysis: a running one would replace the rows underneath the edit
+function editableAnalysis(doc: Doc<"documents">): Analysis {
+  if (doc.status !== "completed" || !doc.analysis) {
+    throw new Error("Only analysed documents can be edited");
+  }
+  return doc.analysis;
+}
+
+function rowAt(analysis: Analysis, index: number) {
+  const row = analysis.transactions[index];
+  if (!row) {
+    throw new Error("Transaction not found");
+  }
+  return row;
+}
+
+// Stored edits are replayed over every later version (applyStoredEdits). Also used by
+// documents.recategorizeTransaction, which applies its own change to the active version.
+export async function storeTransactionEdit(
+  ctx: MutationCtx,
+  documentId: Id<"documents">,
+  actorId: Id<"users">,
+  edit: TransactionEdit<Analysis["transactions"][number]>
+) {
+  await ctx.db.insert("transactionEdits", { documentId, actorId, ...edit, createdAt: Date.now() });
+}
+
+// Stores the edit, applies it to the row at `index` of the active version and brings totals, rows and history up to date
+async function commitEdit(
+  ctx: MutationCtx,
+  actorId: Id<"users">,
+  doc: Doc<"documents">,
+  analysis: Analysis,
+  index: number,
+  edit: TransactionEdit<Analysis["transactions"][number]>,
+  detail: string
+) {
+  await storeTransactionEdit(ctx, doc._id, actorId, edit);
+  const transactions = applyTransactionEditAt(analysis.transactions, index, edit);
+  // A merchant typed by hand is resolved by the registry like one read from the statement
+  const updated = await withTotals(ctx, { ...analysis, transactions: await categorizeTransactions(ctx, doc, transactions) });
+  await ctx.db.patch(doc._id, { analysis: updated });
+  await syncDocumentTransactions(ctx, { ...doc, analysis: updated });
+  await recordDocumentEvent(ctx, doc, { type: "edited", actorId, detail });
+  if (doc.workspaceId) {
+    await ctx.scheduler.runAfter(0, internal.subscriptions.detect, { workspaceId: doc.workspaceId });
+  }
+  return { totalSpent: updated.totalSpent };
+}
+
+// 1. [Update] Correct one transaction (e.g. a misread amount or date; editors and owners)
+export const edit = mutation({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+    index: v.number(), // Position in analysis.transactions
+    transaction: transactionInputValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const analysis = editableAnalysis(doc);
+
+    const original = rowAt(analysis, args.index);
+    const input = validateTransactionInput(args.transaction, analysis.currency ?? DEFAULT_CURRENCY);
+    if (!input.ok) {
+      throw new Error(input.error);
+    }
+    return await commitEdit(
+      ctx,
+      user._id,
+      doc,
+      analysis,
+      args.index,
+      { kind: "edit", target: editTarget(analysis.transactions, args.index), rows: [editedRow(original, input.value)] },
+      `${original.merchant} ${original.amount.toFixed(2)} → ${input.value.merchant} ${input.value.amount.toFixed(2)}`
+    );
+  },
+});
+
+// 2. [Create] Add a transaction the model missed (e.g. a refund)
+export const add = mutation({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+    transaction: transactionInputValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const analysis = editableAnalysis(doc);
+
+    const input = validateTransactionInput(args.transaction, analysis.currency ?? DEFAULT_CURRENCY);
+    if (!input.ok) {
+      throw new Error(input.error);
+    }
+    return await commitEdit(
+      ctx,
+      user._id,
+      doc,
+      analysis,
+      analysis.transactions.length,
+      { kind: "add", rows: [addedRow(input.value)] },
+      `Added ${input.value.merchant} ${input.value.amount.toFixed(2)}`
+    );
+  },
+});
+
+// 3. [Delete] Drop a row that isn't spending (e.g. a card repayment counted as a purchase)
+export const remove = mutation({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+    index: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const analysis = editableAnalysis(doc);
+
+    const original = rowAt(analysis, args.index);
+    return await commitEdit(
+      ctx,
+      user._id,
+      doc,
+      analysis,
+      args.index,
+      { kind: "delete", target: editTarget(analysis.transactions, args.index), rows: [] },
+      `Deleted ${original.merchant} ${original.amount.toFixed(2)}`
+    );
+  },
+});
+
+// 4. [Update] Split one transaction into parts with their own categories; the parts must add up to it
+export const split = mutation({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+    index: v.number(),
+    parts: v.array(
+      v.object({
+        amount: v.number(),
+        category: categoryValidator,
+        merchant: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeDocument(ctx, user._id, args.documentId, "update");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "document", args.documentId, access.error);
+    }
+    const doc = access.value;
+    const analysis = editableAnalysis(doc);
+
+    const original = rowAt(analysis, args.index);
+    const rows = splitRows(original, args.parts);
+    if (!rows.ok) {
+      throw new Error(rows.error);
+    }
+    return await commitEdit(
+      ctx,
+      user._id,
+      doc,
+      analysis,
+      args.index,
+      { kind: "split", target: editTarget(analysis.transactions, args.index), rows: rows.value },
+      `Split ${original.merchant} ${original.amount.toFixed(2)} into ${rows.value.length}`
+    );
+  },
+});
@@ -0,0 +1,147 @@
+/// <reference types="vite/client" />
+
+import { convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import { createSession } from "./sessions";
+import { latestTransactionDate, countedTransactions, transactionMonths } from "./transactions";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// One statement's rows in a workspace, uploaded by a member
+async function setup(dates: string[]) {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const ownerId = await ctx.db.insert("users", { code: "100001", password: "unused" });
+    const otherId = await ctx.db.insert("users", { code: "100002", password: "unused" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Home", createdBy: ownerId });
+    const documentId = await ctx.db.insert("documents", {
+      title: "March statement",
+      storageId: await ctx.storage.store(new Blob(["statement"])),
+      ownerId,
+      workspaceId,
+      status: "completed",
+    });
+    for (const [index, date] of dates.entries()) {
+      await ctx.db.insert("transactions", {
+        documentId,
+        ownerId,
+        workspaceId,
+        index,
+        date,
+        merchant: "Tesco",
+        amount: 10,
+        currency: "GBP",
+        category: "Food",
+      });
+    }
+    return { ownerId, otherId, workspaceId };
+  });
+  return { t, ...ids };
+}
+
+describe("countedTransactions", () => {
+  it("reads only the rows within the dates", async () => {
+    const { t, workspaceId } = await setup(["2024-02-28", "2024-03-01", "2024-03-31", "2024-04-01"]);
+    const { transactions } = await t.run((ctx) => countedTransactions(ctx, { workspaceId }, { from: "2024-03-01", to: "2024-03-31" }));
+    expect(transactions.map((r) => r.date)).toEqual(["2024-03-01", "2024-03-31"]);
+  });
+
+  it("keeps to one uploader when asked, in the workspace or across workspaces", async () => {
+    const { t, workspaceId, ownerId, otherId } = await setup(["2024-03-01"]);
+    expect((await t.run((ctx) => countedTransactions(ctx, { workspaceId, ownerId }))).rows).toBe(1);
+    expect((await t.run((ctx) => countedTransactions(ctx, { workspaceId, ownerId: otherId }))).rows).toBe(0);
+    expect((await t.run((ctx) => countedTransactions(ctx, { ownerId }))).rows).toBe(1);
+  });
+
+  it("counts the rows an overlapping statement shares with an earlier one once", async () => {
+    const { t, workspaceId, ownerId } = await setup(["2024-03-01", "2024-03-02"]);
+    await t.run(async (ctx) => {
+      const earlier = await ctx.db.query("documents").first();
+      const documentId = await ctx.db.insert("documents", {
+        title: "March export",
+        storageId: await ctx.storage.store(new Blob(["export"])),
+        ownerId,
+        workspaceId,
+        status: "completed",
+        overlap: { kind: "overlap", documentIds: [earlier!._id], merged: true },
+      });
+      for (const [index, date] of ["2024-03-02", "2024-03-03"].entries()) {
+        await ctx.db.insert("transactions", {
+          documentId,
+          ownerId,
+          workspaceId,
+          index,
+          date,
+          merchant: "TESCO",
+          amount: 10,
+          currency: "GBP",
+          category: "Food",
+        });
+      }
+    });
+    const { transactions, documents, rows } = await t.run((ctx) => countedTransactions(ctx, { workspaceId }));
+    expect(transactions.map((r) => r.date)).toEqual(["2024-03-01", "2024-03-02", "2024-03-03"]);
+    expect(documents.map((doc) => doc.title)).toEqual(["March statement", "March export"]);
+    expect(rows).toBe(4);
+  });
+});
+
+describe("transactionMonths", () => {
+  it("lists each month with rows once, latest first, stepping past unreadable dates", async () => {
+    const { t, workspaceId } = await setup(["2024-01-15", "2024-03-02", "2024-03-30", "unknown", "2023-12-31"]);
+    expect(await t.run((ctx) => transactionMonths(ctx, { workspaceId }))).toEqual(["2024-03", "2024-01", "2023-12"]);
+  });
+
+  it("is empty for a workspace without rows", async () => {
+    const { t, workspaceId } = await setup([]);
+    expect(await t.run((ctx) => transactionMonths(ctx, { workspaceId }))).toEqual([]);
+  });
+});
+
+describe("latestTransactionDate", () => {
+  it("is the last day any row reaches", async () => {
+    const { t, workspaceId } = await setup(["2024-03-02", "2024-04-09", "2024-01-01"]);
+    expect(await t.run((ctx) => latestTransactionDate(ctx, { workspaceId }))).toBe("2024-04-09");
+  });
+});
+
+describe("list", () => {
+  // Two GBP rows (10.00) and a EUR row (500.00) the owner can read
+  async function withEuroRow() {
+    const { t, ownerId, workspaceId } = await setup(["2024-03-01", "2024-03-02"]);
+    const sessionToken = await t.run(async (ctx) => {
+      await ctx.db.insert("workspaceMembers", { workspaceId, userId: ownerId, role: "owner", joinedAt: Date.now() });
+      const { _id, _creationTime, ...row } = (await ctx.db.query("transactions").first())!;
+      await ctx.db.insert("transactions", { ...row, index: 2, amount: 500, currency: "EUR" });
+      return (await createSession(ctx, ownerId)).sessionToken;
+    });
+    return { t, sessionToken, workspaceId };
+  }
+  const paginationOpts = { numItems: 10, cursor: null };
+
+  it("compares amount bounds within the chosen currency only", async () => {
+    const { t, sessionToken, workspaceId } = await withEuroRow();
+    const page = await t.query(api.transactions.list, { sessionToken, workspaceId, paginationOpts, currency: "gbp", maxAmount: 100 });
+    expect(page.page.map((r) => [r.amount, r.currency])).toEqual([
+      [10, "GBP"],
+      [10, "GBP"],
+    ]);
+    const euros = await t.query(api.transactions.list, { sessionToken, workspaceId, paginationOpts, currency: "EUR", minAmount: 100 });
+    expect(euros.page.map((r) => r.amount)).toEqual([500]);
+  });
+
+  const REFUSED: Array<[string, { currency?: string; minAmount?: number; maxAmount?: number }, string]> = [
+    ["a minimum without a currency", { minAmount: 5 }, "Pick a currency to filter by amount"],
+    ["a maximum without a currency", { maxAmount: 5 }, "Pick a currency to filter by amount"],
+    ["a currency it can't read", { currency: "pounds" }, "Unknown currency: pounds"],
+  ];
+
+  for (const [name, filters, message] of REFUSED) {
+    it(`refuses ${name}`, async () => {
+      const { t, sessionToken, workspaceId } = await withEuroRow();
+      await expect(t.query(api.transactions.list, { sessionToken, workspaceId, paginationOpts, ...filters })).rejects.toThrow(message);
+    });
+  }
+});
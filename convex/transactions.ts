@@ -0,0 +1,258 @@
+// Transactions table: one row per transaction of each document's active analysis,
+// so spending can be queried across statements without loading whole documents
+
+import { internalMutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { IndexRange, paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { monthOf } from "./domain/services/budget";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./domain/services/currency";
+import { countOnce } from "./domain/services/overlap";
+import { requireDocument, requireWorkspace } from "./authorization";
+import { requireUser } from "./sessions";
+import { categoryValidator } from "./schema";
+
+// Documents backfilled per run; each may write hundreds of rows
+const BACKFILL_BATCH_SIZE = 10;
+
+// The date part of every list index, after its equality fields
+interface DateBounds extends IndexRange {
+  gte(field: "date", value: string): DateUpperBound;
+  lte(field: "date", value: string): IndexRange;
+  lt(field: "date", value: string): IndexRange;
+}
+interface DateUpperBound extends IndexRange {
+  lte(field: "date", value: string): IndexRange;
+}
+
+function withinDates(q: DateBounds, from?: string, to?: string): IndexRange {
+  if (from) {
+    const lower = q.gte("date", from);
+    return to ? lower.lte("date", to) : lower;
+  }
+  return to ? q.lte("date", to) : q;
+}
+
+// Whose rows a total across statements covers: a workspace's (optionally one uploader's), or one user's
+// own across every workspace they are in
+export type TransactionScope = { workspaceId: Id<"workspaces">; ownerId?: Id<"users"> } | { ownerId: Id<"users"> };
+
+function scopedRows(ctx: QueryCtx, scope: TransactionScope, range: (q: DateBounds) => IndexRange) {
+  const table = ctx.db.query("transactions");
+  if (!("workspaceId" in scope)) {
+    return table.withIndex("by_ownerId_date", (q) => range(q.eq("ownerId", scope.ownerId)));
+  }
+  const rows = table.withIndex("by_workspaceId_date", (q) => range(q.eq("workspaceId", scope.workspaceId)));
+  const { ownerId } = scope;
+  return ownerId ? rows.filter((q) => q.eq(q.field("ownerId"), ownerId)) : rows;
+}
+
+export async function deleteDocumentTransactions(ctx: MutationCtx, documentId: Id<"documents">) {
+  const rows = await ctx.db
+    .query("transactions")
+    .withIndex("by_documentId_index", (q) => q.eq("documentId", documentId))
+    .collect();
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+// Called whenever a document's active analysis is replaced (new run, version switch, rules reapplied).
+// Rows are rewritten rather than diffed: positions shift between versions.
+export async function syncDocumentTransactions(ctx: MutationCtx, doc: Doc<"documents">) {
+  await deleteDocumentTransactions(ctx, doc._id);
+  if (!doc.analysis) return;
+  for (const [index, t] of doc.analysis.transactions.entries()) {
+    await ctx.db.insert("transactions", {
+      documentId: doc._id,
+      ownerId: doc.ownerId,
+      workspaceId: doc.workspaceId,
+      index,
+      date: t.date,
+      merchant: t.merchant,
+      rawMerchant: t.rawMerchant,
+      amount: t.amount,
+      currency: t.currency ?? doc.analysis.currency ?? DEFAULT_CURRENCY,
+      category: t.category,
+      categorySource: t.categorySource,
+      modelCategory: t.modelCategory,
+      edited: t.edited,
+    });
+  }
+}
+
+// Rows within the dates for totals across statements, with the documents they come from (`rows` counts
+// every row read). Rows a document shares with an earlier one it overlaps (see documents.resolveOverlap)
+// are counted once; a shared row has the same date in both, so the bounds never split a pair.
+export async function countedTransactions(ctx: QueryCtx, scope: TransactionScope, dates: { from?: string; to?: string } = {}) {
+  const rows = await scopedRows(ctx, scope, (q) => withinDates(q, dates.from, dates.to)).collect();
+  const byDocument = new Map<Id<"documents">, Doc<"transactions">[]>();
+  for (const row of rows) {
+    byDocument.set(row.documentId, [...(byDocument.get(row.documentId) ?? []), row]);
+  }
+  const documents = (await Promise.all([...byDocument.keys()].map((id) => ctx.db.get(id))))
+    .filter((doc): doc is Doc<"documents"> => doc !== null)
+    .sort((a, b) => a._creationTime - b._creationTime);
+  const transactions = countOnce(
+    documents.map((doc) => ({
+      id: doc._id,
+      transactions: (byDocument.get(doc._id) ?? []).sort((a, b) => a.index - b.index),
+      overlapsWith: doc.overlap?.documentIds ?? [],
+    }))
+  );
+  return { transactions, documents, rows: rows.length };
+}
+
+// Months (YYYY-MM) with at least one row, latest first: one indexed read per month instead of every row
+export async function transactionMonths(ctx: QueryCtx, scope: TransactionScope): Promise<string[]> {
+  const months: string[] = [];
+  let before: string | null = null;
+  for (;;) {
+    const bound: string | null = before;
+    const row: Doc<"transactions"> | null = await scopedRows(ctx, scope, (q) => (bound === null ? q : q.lt("date", bound)))
+      .order("desc")
+      .first();
+    if (!row) return months;
+    const month = monthOf(row.date);
+    // The next read starts below this month; a date the validator couldn't fix only steps past itself
+    if (month === null) {
+      before = row.date;
+      continue;
+    }
+    months.push(month);
+    before = `${month}-01`;
+  }
+}
+
+// The last day any statement in scope reaches
+export async function latestTransactionDate(ctx: QueryCtx, scope: TransactionScope): Promise<string | null> {
+  const row = await scopedRows(ctx, scope, (q) => q).order("desc").first();
+  return row?.date ?? null;
+}
+
+// A single edit (e.g. a hand-set category) patches its row in place
+export async function patchDocumentTransaction(
+  ctx: MutationCtx,
+  documentId: Id<"documents">,
+  index: number,
+  fields: Partial<Pick<Doc<"transactions">, "category" | "categorySource" | "modelCategory">>
+) {
+  const row = await ctx.db
+    .query("transactions")
+    .withIndex("by_documentId_index", (q) => q.eq("documentId", documentId).eq("index", index))
+    .first();
+  if (row) {
+    await ctx.db.patch(row._id, fields);
+  }
+}
+
+// 1. [Read] A workspace's transactions, newest first, one page at a time.
+// Merchant text uses the search index (results by relevance); otherwise the narrowest date index is used.
+export const list = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    paginationOpts: paginationOptsValidator,
+    uploaderId: v.optional(v.id("users")),
+    from: v.optional(v.string()), // YYYY-MM-DD, inclusive
+    to: v.optional(v.string()),   // YYYY-MM-DD, inclusive
+    category: v.optional(categoryValidator),
+    merchant: v.optional(v.string()),
+    currency: v.optional(v.string()), // ISO 4217; required with an amount bound
+    minAmount: v.optional(v.number()),
+    maxAmount: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const { workspaceId, uploaderId, from, to, category, minAmount, maxAmount } = args;
+    const merchant = args.merchant?.trim();
+    // Amounts are compared as stored, so a bound only means something within one currency
+    const currency = args.currency === undefined ? undefined : normalizeCurrency(args.currency);
+    if (currency === null) {
+      throw new Error(`Unknown currency: ${args.currency}`);
+    }
+    if ((minAmount !== undefined || maxAmount !== undefined) && !currency) {
+      throw new Error("Pick a currency to filter by amount");
+    }
+
+    const table = ctx.db.query("transactions");
+    const rows = merchant
+      ? table.withSearchIndex("search_merchant", (q) => {
+          const scoped = q.search("merchant", merchant).eq("workspaceId", workspaceId);
+          return category ? scoped.eq("category", category) : scoped;
+        })
+      : uploaderId
+        ? category
+          ? table
+              .withIndex("by_ownerId_category_date", (q) =>
+                withinDates(q.eq("ownerId", uploaderId).eq("category", category), from, to)
+              )
+              .order("desc")
+          : table.withIndex("by_ownerId_date", (q) => withinDates(q.eq("ownerId", uploaderId), from, to)).order("desc")
+        : category
+          ? table
+              .withIndex("by_workspaceId_category_date", (q) =>
+                withinDates(q.eq("workspaceId", workspaceId).eq("category", category), from, to)
+              )
+              .order("desc")
+          : table.withIndex("by_workspaceId_date", (q) => withinDates(q.eq("workspaceId", workspaceId), from, to)).order("desc");
+
+    // Whatever the index didn't cover. Uploader indexes span workspaces, so the workspace is checked too.
+    return await rows
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("workspaceId"), workspaceId),
+          uploaderId ? q.eq(q.field("ownerId"), uploaderId) : true,
+          merchant && from ? q.gte(q.field("date"), from) : true,
+          merchant && to ? q.lte(q.field("date"), to) : true,
+          currency ? q.eq(q.field("currency"), currency) : true,
+          minAmount !== undefined ? q.gte(q.field("amount"), minAmount) : true,
+          maxAmount !== undefined ? q.lte(q.field("amount"), maxAmount) : true
+        )
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+// 2. [Read] One document's transactions in statement order, one page at a time
+export const forDocument = query({
+  args: {
+    sessionToken: v.string(),
+    documentId: v.id("documents"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireDocument(ctx, user._id, args.documentId, "read");
+    return await ctx.db
+      .query("transactions")
+      .withIndex("by_documentId_index", (q) => q.eq("documentId", args.documentId))
+      .paginate(args.paginationOpts);
+  },
+});
+
+// 3. [Internal] Fill the table for documents analysed before it existed, in batches
+// (`npx convex run transactions:backfill`)
+export const backfill = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("documents")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+    for (const doc of page.page) {
+      const existing = await ctx.db
+        .query("transactions")
+        .withIndex("by_documentId_index", (q) => q.eq("documentId", doc._id))
+        .first();
+      if (doc.analysis && !existing) {
+        await syncDocumentTransactions(ctx, doc);
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.transactions.backfill, { cursor: page.continueCursor });
+    }
+    return null;
+  },
+});
@@ -0,0 +1,67 @@
+/// <reference types="vite/client" />
+
+import { TestConvex, convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import { createSession } from "./sessions";
+import { ensureWorkspace } from "./workspaces";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+type Tester = TestConvex<typeof schema>;
+
+// A user with one analysed document in their own workspace
+async function withRun(t: Tester, code: string, costUsd: number) {
+  return await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { code, password: "unused" });
+    await ensureWorkspace(ctx, userId);
+    const { workspaceId } = (await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first())!;
+    const { sessionToken } = await createSession(ctx, userId);
+    const documentId = await ctx.db.insert("documents", {
+      title: "March statement",
+      storageId: await ctx.storage.store(new Blob(["statement"])),
+      ownerId: userId,
+      workspaceId,
+      status: "completed",
+    });
+    await ctx.db.insert("analysisResults", {
+      documentId,
+      ownerId: userId,
+      summary: "",
+      data: { category: "Food", items: [] },
+      metadata: {
+        model: "gpt-4o-mini",
+        tokenUsage: 1500,
+        promptTokens: 1000,
+        completionTokens: 500,
+        estimatedCostUsd: costUsd,
+        durationMs: 2000,
+        processedAt: Date.now(),
+      },
+    });
+    return { sessionToken, workspaceId };
+  });
+}
+
+describe("usage.overall", () => {
+  it("totals only the runs on the workspace's documents", async () => {
+    const t = convexTest(schema, modules);
+    const mine = await withRun(t, "100001", 0.01);
+    await withRun(t, "100002", 0.5);
+
+    const report = await t.query(api.usage.overall, { sessionToken: mine.sessionToken, workspaceId: mine.workspaceId });
+    expect(report.totals).toMatchObject({ runs: 1, estimatedCostUsd: 0.01 });
+  });
+
+  it("refuses a workspace the caller isn't a member of", async () => {
+    const t = convexTest(schema, modules);
+    const mine = await withRun(t, "100001", 0.01);
+    const theirs = await withRun(t, "100002", 0.5);
+
+    await expect(t.query(api.usage.overall, { sessionToken: mine.sessionToken, workspaceId: theirs.workspaceId })).rejects.toThrow();
+  });
+});
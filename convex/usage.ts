@@ -0,0 +1,73 @@
+// Model usage & cost reporting (Governance)
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { UsageRecord, aggregateUsage } from "./domain/services/usage";
+import { requireWorkspace } from "./authorization";
+import { requireUser } from "./sessions";
+
+const DEFAULT_DAYS = 30;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function toUsageRecord(row: Doc<"analysisResults">): UsageRecord {
+  return {
+    model: row.metadata.model,
+    promptTokens: row.metadata.promptTokens,
+    completionTokens: row.metadata.completionTokens,
+    totalTokens: row.metadata.tokenUsage,
+    estimatedCostUsd: row.metadata.estimatedCostUsd,
+    durationMs: row.metadata.durationMs,
+    processedAt: row.metadata.processedAt,
+  };
+}
+
+// 1. [Read] One user's analysis runs, totalled by day and by model
+export const byUser = query({
+  args: {
+    sessionToken: v.string(),
+    days: v.optional(v.number()), // Look-back window (default 30)
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const since = Date.now() - (args.days ?? DEFAULT_DAYS) * MS_PER_DAY;
+    const rows = await ctx.db
+      .query("analysisResults")
+      .withIndex("by_ownerId_processedAt", (q) =>
+        q.eq("ownerId", user._id).gte("metadata.processedAt", since)
+      )
+      .collect();
+
+    return aggregateUsage(rows.map(toUsageRecord));
+  },
+});
+
+// 2. [Read] Analysis runs on a workspace's documents (any member), totalled by day and by model.
+// Runs are found through the workspace's documents, so no one sees usage outside their own workspaces.
+export const overall = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    days: v.optional(v.number()), // Look-back window (default 30)
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const since = Date.now() - (args.days ?? DEFAULT_DAYS) * MS_PER_DAY;
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+
+    const rows: Doc<"analysisResults">[] = [];
+    for (const doc of documents) {
+      const runs = await ctx.db
+        .query("analysisResults")
+        .withIndex("by_documentId", (q) => q.eq("documentId", doc._id))
+        .collect();
+      rows.push(...runs.filter((run) => run.metadata.processedAt >= since));
+    }
+
+    return aggregateUsage(rows.map(toUsageRecord));
+  },
+});
@@ -0,0 +1,66 @@
+/// <reference types="vite/client" />
+
+import { convexTest } from "convex-test";
+import { describe, expect, it } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const clientId = "test-client-1";
+
+describe("register and signIn", () => {
+  it("opens an account under a code the server picks and signs in with it", async () => {
+    const t = convexTest(schema, modules);
+    const registered = await t.mutation(api.users.register, { password: "correct horse", clientId });
+    expect(registered).toMatchObject({ ok: true, value: { code: expect.stringMatching(/^\d{6}$/) } });
+    if (!registered.ok) return;
+
+    const signedIn = await t.mutation(api.users.signIn, { code: registered.value.code, password: "correct horse", clientId });
+    expect(signedIn.ok).toBe(true);
+  });
+
+  it("refuses an unknown code like a wrong password", async () => {
+    const t = convexTest(schema, modules);
+    const registered = await t.mutation(api.users.register, { password: "correct horse", clientId });
+    if (!registered.ok) throw new Error("register failed");
+    const unused = registered.value.code === "000000" ? "000001" : "000000";
+
+    const unknown = await t.mutation(api.users.signIn, { code: unused, password: "correct horse", clientId });
+    const wrong = await t.mutation(api.users.signIn, { code: registered.value.code, password: "wrong horse", clientId });
+    expect(unknown).toEqual({ ok: false, error: { message: "Incorrect code or password.", retryAfterMs: 0 } });
+    expect(wrong).toEqual(unknown);
+  });
+
+  it("upgrades a plaintext password from before hashing", async () => {
+    const t = convexTest(schema, modules);
+    await t.run((ctx) => ctx.db.insert("users", { code: "123456", password: "42" }));
+
+    expect((await t.mutation(api.users.signIn, { code: "123456", password: "42", clientId })).ok).toBe(true);
+    const stored = await t.run(async (ctx) => (await ctx.db.query("users").first())!.password);
+    expect(stored).toMatch(/^pbkdf2-sha256\$/);
+  });
+});
+
+describe("password length", () => {
+  it("needs 8 characters for a new account", async () => {
+    const t = convexTest(schema, modules);
+    await expect(t.mutation(api.users.register, { password: "1234567", clientId })).rejects.toThrow("Password must be 8-128 characters");
+  });
+
+  it("needs 8 characters for a changed password, while the old two digits still sign in", async () => {
+    const t = convexTest(schema, modules);
+    await t.run((ctx) => ctx.db.insert("users", { code: "123456", password: "42" }));
+    const signedIn = await t.mutation(api.users.signIn, { code: "123456", password: "42", clientId });
+    if (!signedIn.ok) throw new Error("sign-in failed");
+    const { sessionToken } = signedIn.value;
+
+    await expect(
+      t.mutation(api.account.changePassword, { sessionToken, currentPassword: "42", newPassword: "43", clientId })
+    ).rejects.toThrow("Password must be 8-128 characters");
+    expect(await t.mutation(api.account.changePassword, { sessionToken, currentPassword: "42", newPassword: "correct horse", clientId })).toEqual({
+      ok: true,
+      value: null,
+    });
+  });
+});
@@ -1,100 +1,206 @@
 // User-related queries and mutations
 
-import { mutation } from "./_generated/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-
-// 1. Check if code exists (before login step)
-export const checkCode = mutation({
-  args: { code: v.string() },
-  handler: async (ctx, args) => {
-    // Validation: Check if code is exactly 6 digits
-    const CODE_REGEX = /^\d{6}$/;
-    if (!CODE_REGEX.test(args.code)) {
-      throw new Error("Code must be exactly 6 digits (e.g., 123456)");
-    }
-
-    const user = await ctx.db
+import { Doc } from "./_generated/dataModel";
+import { IssuedSession, createSession, requireUser } from "./sessions";
+import { AttemptCounter, clearFailures, recordFailure, remainingLockMs } from "./loginAttempts";
+import { ensureWorkspace } from "./workspaces";
+import { CLIENT_LOCKOUT, CODE_LOCKOUT } from "./domain/services/lockout";
+import { isPendingDeletion } from "./domain/entities/user";
+import { Result, err, ok } from "./domain/types/result";
+import { PasswordCheck, hashPassword, randomDigits, verifyPassword } from "./infrastructure/utils/crypto";
+
+const CODE_LENGTH = 6;
+const CODE_REGEX = /^\d{6}$/;
+// Draws before giving up on finding a free code; only matters once most codes are taken
+const MAX_CODE_DRAWS = 20;
+// New and changed passwords; accounts made when two digits were allowed still sign in with them
+const MIN_PASSWORD_LENGTH = 8;
+const LEGACY_MIN_PASSWORD_LENGTH = 2;
+const MAX_PASSWORD_LENGTH = 128;
+const CLIENT_ID_REGEX = /^[A-Za-z0-9-]{8,64}$/;
+
+// For a password being set (register, changePassword)
+export function validatePassword(password: string, minLength = MIN_PASSWORD_LENGTH) {
+  if (password.length < minLength || password.length > MAX_PASSWORD_LENGTH) {
+    throw new Error(`Password must be ${minLength}-${MAX_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function validateClientId(clientId: string) {
+  if (!CLIENT_ID_REGEX.test(clientId)) {
+    throw new Error("Invalid client id");
+  }
+}
+
+function validateCredentials(code: string, password: string, clientId: string) {
+  if (!CODE_REGEX.test(code)) {
+    throw new Error("Code must be exactly 6 digits (e.g., 123456)");
+  }
+  validatePassword(password, LEGACY_MIN_PASSWORD_LENGTH);
+  validateClientId(clientId);
+}
+
+export interface RegisterSuccess extends IssuedSession {
+  code: string; // The new account's code, shown once
+}
+
+export interface SignInFailure {
+  message: string;
+  retryAfterMs: number; // 0 unless locked out
+}
+
+function lockedOut(waitMs: number): SignInFailure {
+  const minutes = Math.ceil(waitMs / 60_000);
+  return {
+    message: `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    retryAfterMs: waitMs,
+  };
+}
+
+const INCORRECT: SignInFailure = { message: "Incorrect code or password.", retryAfterMs: 0 };
+
+// Re-checks a signed-in user's password before a sensitive change. Wrong guesses count
+// against the same per-code lockout as sign-in, so a stolen session can't brute-force it.
+export async function confirmPassword(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  password: string,
+  clientId: string
+): Promise<Result<void, SignInFailure>> {
+  const now = Date.now();
+  const counter: AttemptCounter = { key: `code:${user.code}`, policy: CODE_LOCKOUT, ownerId: user._id };
+
+  const wait = await remainingLockMs(ctx, [counter], clientId, now);
+  if (wait > 0) {
+    return err(lockedOut(wait));
+  }
+
+  const check = await verifyPassword(password, user.password);
+  if (!check.valid) {
+    const lockMs = await recordFailure(ctx, [counter], clientId, now);
+    return err(lockMs > 0 ? lockedOut(lockMs) : { message: "Current password is incorrect.", retryAfterMs: 0 });
+  }
+  return ok(undefined);
+}
+
+// A code no account holds, including one still being deleted
+async function unusedCode(ctx: MutationCtx): Promise<string | null> {
+  for (let draw = 0; draw < MAX_CODE_DRAWS; draw++) {
+    const code = randomDigits(CODE_LENGTH);
+    const taken = await ctx.db
       .query("users")
-      .withIndex("by_code", (q) => q.eq("code", args.code))
+      .withIndex("by_code", (q) => q.eq("code", code))
       .first();
-
-    // Return true if user exists, false otherwise
-    return !!user;
-  },
-});
-
-// 2. Register new user (when code doesn't exist)
-export const register = mutation({
-  args: { 
+    if (!taken) return code;
+  }
+  return null;
+}
+
+// 1. Sign in to an existing account.
+// An unknown code is refused like a wrong password, and accounts are only created by register,
+// which picks the code itself, so nothing tells whether a code is in use.
+// Failures are returned, not thrown: a throw would roll back the attempt counters with everything else.
+export const signIn = mutation({
+  args: {
     code: v.string(),
     password: v.string(),
+    clientId: v.string(), // Random id the browser keeps; spoofable, so the per-code counter is the real limit
+    deviceLabel: v.optional(v.string()), // Shown in the signed-in devices list
   },
-  handler: async (ctx, args) => {
-    // Validation
-    const CODE_REGEX = /^\d{6}$/;
-    const PASSWORD_REGEX = /^\d{2}$/;
-
-    if (!CODE_REGEX.test(args.code)) {
-      throw new Error("Code must be exactly 6 digits (e.g., 123456)");
-    }
-
-    if (!PASSWORD_REGEX.test(args.password)) {
-      throw new Error("Password must be exactly 2 digits (e.g., 12)");
-    }
+  handler: async (ctx, args): Promise<Result<IssuedSession, SignInFailure>> => {
+    validateCredentials(args.code, args.password, args.clientId);
 
-    // Double-check if code was created in the meantime
-    const existing = await ctx.db
+    const now = Date.now();
+    const user = await ctx.db
       .query("users")
       .withIndex("by_code", (q) => q.eq("code", args.code))
       .first();
 
-    if (existing) {
-      throw new Error("Code already exists. Please use login instead.");
+    const codeCounter: AttemptCounter = { key: `code:${args.code}`, policy: CODE_LOCKOUT, ownerId: user?._id };
+    const counters = [codeCounter, { key: `client:${args.clientId}`, policy: CLIENT_LOCKOUT }];
+
+    const wait = await remainingLockMs(ctx, counters, args.clientId, now);
+    if (wait > 0) {
+      return err(lockedOut(wait));
     }
 
-    const userId = await ctx.db.insert("users", {
-      code: args.code,
-      password: args.password,
-      name: `User ${args.code}`,
-    });
+    // No account, or one being deleted, fails like a wrong password and counts the same.
+    // The password is still hashed so the refusal takes as long as a real check.
+    const usable = user && !isPendingDeletion(user) ? user : null;
+    let check: PasswordCheck = { valid: false, needsRehash: false };
+    if (usable) {
+      check = await verifyPassword(args.password, usable.password);
+    } else {
+      await hashPassword(args.password);
+    }
+    if (!usable || !check.valid) {
+      const lockMs = await recordFailure(ctx, counters, args.clientId, now);
+      return err(lockMs > 0 ? lockedOut(lockMs) : INCORRECT);
+    }
+
+    // Legacy plaintext (or weaker) hashes are upgraded while we have the password in hand
+    if (check.needsRehash) {
+      await ctx.db.patch(usable._id, { password: await hashPassword(args.password) });
+    }
 
-    return userId;
+    // Only the account's own counter resets; the client's runs out with time, so signing in
+    // to an account you own doesn't buy more guesses at others
+    await clearFailures(ctx, codeCounter);
+    await ensureWorkspace(ctx, usable._id);
+    return ok(await createSession(ctx, usable._id, args.deviceLabel));
   },
 });
 
-// 3. Login (when code exists)
-export const login = mutation({
-  args: { 
-    code: v.string(),
+// 2. [Create] Open an account under a random unused code, returned once with the first session.
+// Every account created spends one of the client's attempts, so one browser can't open accounts
+// (and workspaces) without limit.
+export const register = mutation({
+  args: {
     password: v.string(),
+    clientId: v.string(),
+    deviceLabel: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
-    // Validation
-    const CODE_REGEX = /^\d{6}$/;
-    const PASSWORD_REGEX = /^\d{2}$/;
-
-    if (!CODE_REGEX.test(args.code)) {
-      throw new Error("Code must be exactly 6 digits (e.g., 123456)");
+  handler: async (ctx, args): Promise<Result<RegisterSuccess, SignInFailure>> => {
+    validatePassword(args.password);
+    validateClientId(args.clientId);
+
+    const now = Date.now();
+    const counters: AttemptCounter[] = [{ key: `client:${args.clientId}`, policy: CLIENT_LOCKOUT }];
+    const wait = await remainingLockMs(ctx, counters, args.clientId, now);
+    if (wait > 0) {
+      return err(lockedOut(wait));
     }
 
-    if (!PASSWORD_REGEX.test(args.password)) {
-      throw new Error("Password must be exactly 2 digits (e.g., 12)");
+    const code = await unusedCode(ctx);
+    if (!code) {
+      return err({ message: "No code is free right now. Try again later.", retryAfterMs: 0 });
     }
+    await recordFailure(ctx, counters, args.clientId, now);
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_code", (q) => q.eq("code", args.code))
-      .first();
-
-    if (!user) {
-      throw new Error("User not found. Please check your code.");
-    }
-
-    // Verify password
-    if (user.password !== args.password) {
-      throw new Error("Incorrect password. Please try again.");
-    }
+    const userId = await ctx.db.insert("users", {
+      code,
+      password: await hashPassword(args.password),
+      name: `User ${code}`,
+    });
+    await ensureWorkspace(ctx, userId);
+    return ok({ ...(await createSession(ctx, userId, args.deviceLabel)), code });
+  },
+});
 
-    return user._id;
+// 3. [Read] Recent failed attempts, lockouts and unlocks on my account
+export const recentAuthEvents = query({
+  args: {
+    sessionToken: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    return await ctx.db
+      .query("authEvents")
+      .withIndex("by_userId_timestamp", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(Math.min(args.limit ?? 20, 100));
   },
 });
@@ -0,0 +1,319 @@
+// Workspaces (households): members, roles and invites
+
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { INVITE_TTL_MS, checkMembershipChange, validateWorkspaceName } from "./domain/entities/workspace";
+import { displayName } from "./domain/entities/user";
+import { randomToken, sha256Hex } from "./infrastructure/utils/crypto";
+import { authorizeWorkspace, denyAccess, getMembership, requireWorkspace } from "./authorization";
+import { requireUser } from "./sessions";
+import { workspaceRoleValidator } from "./schema";
+
+// Legacy documents moved into a workspace per run; each takes its transaction rows along
+const ADOPT_BATCH_SIZE = 20;
+
+async function createWorkspace(ctx: MutationCtx, userId: Id<"users">, name: string): Promise<Id<"workspaces">> {
+  const workspaceId = await ctx.db.insert("workspaces", { name, createdBy: userId });
+  await ctx.db.insert("workspaceMembers", { workspaceId, userId, role: "owner", joinedAt: Date.now() });
+  return workspaceId;
+}
+
+async function loadMembers(ctx: MutationCtx, workspaceId: Id<"workspaces">) {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+}
+
+// Called at sign-in: everyone has at least one workspace, and documents uploaded
+// before workspaces existed are moved into the first one the user owns
+export async function ensureWorkspace(ctx: MutationCtx, userId: Id<"users">) {
+  const memberships = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  const home =
+    memberships.find((m) => m.role === "owner")?.workspaceId ??
+    (memberships.length === 0 ? await createWorkspace(ctx, userId, "My household") : null);
+
+  const legacy = await ctx.db
+    .query("documents")
+    .withIndex("by_ownerId", (q) => q.eq("ownerId", userId))
+    .filter((q) => q.eq(q.field("workspaceId"), undefined))
+    .first();
+  if (home && legacy) {
+    await ctx.scheduler.runAfter(0, internal.workspaces.adoptDocuments, { userId, workspaceId: home });
+  }
+}
+
+// 1. [Read] Workspaces I belong to, with my role in each
+export const listMine = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const workspaces = await Promise.all(
+      memberships.map(async (m) => {
+        const workspace = await ctx.db.get(m.workspaceId);
+        return workspace ? { _id: workspace._id, name: workspace.name, role: m.role } : null;
+      })
+    );
+    return workspaces.filter((w) => w !== null);
+  },
+});
+
+// 2. [Create] A new workspace, with me as its owner
+export const create = mutation({
+  args: {
+    sessionToken: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const name = validateWorkspaceName(args.name);
+    if (!name.ok) {
+      throw new Error(name.error);
+    }
+    return await createWorkspace(ctx, user._id, name.value);
+  },
+});
+
+// 3. [Update] Rename (owners only)
+export const rename = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "manage");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+
+    const name = validateWorkspaceName(args.name);
+    if (!name.ok) {
+      throw new Error(name.error);
+    }
+    await ctx.db.patch(args.workspaceId, { name: name.value });
+    return { success: true };
+  },
+});
+
+// 4. [Read] Members of a workspace I'm in
+export const listMembers = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "read");
+    const members = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+
+    return await Promise.all(
+      members.map(async (m) => {
+        const member = await ctx.db.get(m.userId);
+        return {
+          userId: m.userId,
+          name: member ? displayName(member) : "Deleted account",
+          role: m.role,
+          joinedAt: m.joinedAt,
+          isMe: m.userId === user._id,
+        };
+      })
+    );
+  },
+});
+
+// 5. [Update] Change a member's role (owners only; a workspace always keeps an owner)
+export const setRole = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: workspaceRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "manage");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+
+    const members = await loadMembers(ctx, args.workspaceId);
+    const change = checkMembershipChange(members, args.userId, args.role);
+    if (!change.ok) {
+      throw new Error(change.error);
+    }
+    const target = members.find((m) => m.userId === args.userId)!;
+    await ctx.db.patch(target._id, { role: args.role });
+    return { success: true };
+  },
+});
+
+// 6. [Delete] Remove a member (owners), or leave (anyone). Their uploads stay with the workspace.
+export const removeMember = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, args.userId === user._id ? "read" : "manage");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+
+    const members = await loadMembers(ctx, args.workspaceId);
+    const change = checkMembershipChange(members, args.userId, null);
+    if (!change.ok) {
+      throw new Error(change.error);
+    }
+    const target = members.find((m) => m.userId === args.userId)!;
+    await ctx.db.delete(target._id);
+    return { success: true };
+  },
+});
+
+// 7. [Create] Invite code for someone to join with the given role (owners only).
+// The code is shown once; only its digest is stored.
+export const createInvite = mutation({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+    role: workspaceRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const access = await authorizeWorkspace(ctx, user._id, args.workspaceId, "manage");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", args.workspaceId, access.error);
+    }
+
+    const inviteCode = randomToken(5).toUpperCase(); // 10 characters, easy to read out
+    const expiresAt = Date.now() + INVITE_TTL_MS;
+    await ctx.db.insert("workspaceInvites", {
+      workspaceId: args.workspaceId,
+      codeHash: await sha256Hex(inviteCode),
+      role: args.role,
+      createdBy: user._id,
+      expiresAt,
+    });
+    return { inviteCode, expiresAt };
+  },
+});
+
+// 8. [Read] Invites still waiting to be used (owners only)
+export const listInvites = query({
+  args: {
+    sessionToken: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await requireWorkspace(ctx, user._id, args.workspaceId, "manage");
+    const now = Date.now();
+    const invites = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+    return invites
+      .filter((i) => i.usedBy === undefined && i.revokedAt === undefined && i.expiresAt > now)
+      .map(({ _id, role, expiresAt }) => ({ _id, role, expiresAt }));
+  },
+});
+
+// 9. [Delete] Withdraw an invite (owners only)
+export const revokeInvite = mutation({
+  args: {
+    sessionToken: v.string(),
+    inviteId: v.id("workspaceInvites"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+    const access = await authorizeWorkspace(ctx, user._id, invite.workspaceId, "manage");
+    if (!access.ok) {
+      return await denyAccess(ctx, user._id, "workspace", invite.workspaceId, access.error);
+    }
+
+    await ctx.db.patch(args.inviteId, { revokedAt: Date.now() });
+    return { success: true };
+  },
+});
+
+// 10. [Join] Use an invite code. Members already in the workspace keep their role.
+export const join = mutation({
+  args: {
+    sessionToken: v.string(),
+    inviteCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const codeHash = await sha256Hex(args.inviteCode.trim().toUpperCase());
+    const invite = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_codeHash", (q) => q.eq("codeHash", codeHash))
+      .first();
+    if (!invite || invite.usedBy !== undefined || invite.revokedAt !== undefined || invite.expiresAt <= Date.now()) {
+      throw new Error("Invite code is invalid or has expired");
+    }
+
+    await ctx.db.patch(invite._id, { usedBy: user._id });
+    if (!(await getMembership(ctx, user._id, invite.workspaceId))) {
+      await ctx.db.insert("workspaceMembers", {
+        workspaceId: invite.workspaceId,
+        userId: user._id,
+        role: invite.role,
+        joinedAt: Date.now(),
+      });
+    }
+    return invite.workspaceId;
+  },
+});
+
+// 11. [Internal] Move a user's pre-workspace documents into their workspace, in batches
+export const adoptDocuments = internalMutation({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const docs = await ctx.db
+      .query("documents")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", args.userId))
+      .filter((q) => q.eq(q.field("workspaceId"), undefined))
+      .take(ADOPT_BATCH_SIZE);
+    for (const doc of docs) {
+      await ctx.db.patch(doc._id, { workspaceId: args.workspaceId });
+      const rows = await ctx.db
+        .query("transactions")
+        .withIndex("by_documentId_index", (q) => q.eq("documentId", doc._id))
+        .collect();
+      for (const row of rows) {
+        await ctx.db.patch(row._id, { workspaceId: args.workspaceId });
+      }
+    }
+    if (docs.length === ADOPT_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.workspaces.adoptDocuments, args);
+    } else {
+      await ctx.scheduler.runAfter(0, internal.subscriptions.detect, { workspaceId: args.workspaceId });
+    }
+    return null;
+  },
+});
@@ -1,23 +1,54 @@
 // Main screen component
 
 import { useState } from "react";
-import { useMutation, useQuery, useAction } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 import { Id } from "../convex/_generated/dataModel";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from "recharts";
 import { motion, AnimatePresence } from "framer-motion";
+import { UsagePanel } from "./components/UsagePanel";
+import { CsvColumnMapper, CsvColumnMapping } from "./components/CsvColumnMapper";
+import { CategoryRulesPanel } from "./components/CategoryRulesPanel";
+import { SignInActivity } from "./components/SignInActivity";
+import { DevicesPanel } from "./components/DevicesPanel";
+import { AccountSettings } from "./components/AccountSettings";
+import { WorkspacePanel } from "./components/WorkspacePanel";
+import { AnalysisVersions } from "./components/AnalysisVersions";
+import { DocumentTimeline } from "./components/DocumentTimeline";
+import { OverlapNotice } from "./components/OverlapNotice";
+import { InsightsPanel } from "./components/InsightsPanel";
+import { DocumentTransactions } from "./components/DocumentTransactions";
+import { ActivityFeed } from "./components/ActivityFeed";
+import { BudgetPanel } from "./components/BudgetPanel";
+import { SubscriptionsPanel } from "./components/SubscriptionsPanel";
+import { MerchantsPanel } from "./components/MerchantsPanel";
+import { SavingsGoalsPanel } from "./components/SavingsGoalsPanel";
+import { TransactionsPanel } from "./components/TransactionsPanel";
+import { TransactionCategory } from "../convex/domain/types/analysis";
+import { COMMON_CURRENCIES, formatMoney } from "./utils/money";
+import { STATEMENT_FILE_ACCEPT, readCsvHeader, statementFormatOf } from "./utils/statementFile";
+import { unlessDenied } from "./utils/access";
+import { describeDevice, getClientId } from "./utils/clientId";
+import { useAuth } from "./hooks/useAuth";
 
 // Mint color palette for charts
 const COLORS = ["#88D4AB", "#A7F3D0", "#5CB88F", "#6EE7B7", "#34D399", "#A5D6A7"];
+// Matches the server: new passwords need 8 characters, accounts made with two digits still sign in
+const MIN_PASSWORD_LENGTH = 8;
+const LEGACY_MIN_PASSWORD_LENGTH = 2;
 
 export default function App() {
   // State management
   const [code, setCode] = useState("");
   const [password, setPassword] = useState("");
-  const [step, setStep] = useState<"CODE" | "PASSWORD">("CODE");
-  const [isNewUser, setIsNewUser] = useState(false);
-  const [userId, setUserId] = useState<Id<"users"> | null>(null);
+  const [step, setStep] = useState<"CODE" | "PASSWORD" | "REGISTER">("CODE");
+  const minPasswordLength = step === "REGISTER" ? MIN_PASSWORD_LENGTH : LEGACY_MIN_PASSWORD_LENGTH;
+  const { sessionToken, code: signedInCode, isRestoring, startSession, signOut } = useAuth();
+  const [workspaceId, setWorkspaceId] = useState<Id<"workspaces"> | null>(null);
+  const [uploaderFilter, setUploaderFilter] = useState<Id<"users"> | "">("");
   const [file, setFile] = useState<File | null>(null);
+  const [csvHeaders, setCsvHeaders] = useState<string[] | null>(null);
+  const [columnMapping, setColumnMapping] = useState<CsvColumnMapping>({});
   const [error, setError] = useState<string | null>(null);
   const [expandedDocs, setExpandedDocs] = useState<Set<string>>(new Set());
   // Modal state
@@ -37,75 +68,74 @@ export default function App() {
   const isConvexConfigured = convexUrl.length > 0;
 
   // Backend function hooks (only if Convex is configured)
-  const checkCode = useMutation(api.users.checkCode);
-  const registerUser = useMutation(api.users.register);
-  const loginUser = useMutation(api.users.login);
+  const signIn = useMutation(api.users.signIn);
+  const register = useMutation(api.users.register);
   const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
   const createDocument = useMutation(api.documents.create);
   const deleteDocument = useMutation(api.documents.deleteDocument);
-  const saveAnalysis = useMutation(api.documents.saveAnalysisResult);
-  // Extract text action (if available in actions.ts)
-  const extractText = useAction(
-    (api as any).actions?.extractText as any
-  );
-  // Analyze text action
-  const analyzeText = useAction(
-    (api as any).actions?.analyzeFinancialText as any
+  const exportTransactions = useMutation(api.documents.exportTransactions);
+  const retryDocument = useMutation(api.documents.retryDocument);
+  const setBaseCurrency = useMutation(api.currency.setBaseCurrency);
+  const recategorizeTransaction = useMutation(api.documents.recategorizeTransaction);
+  const createRule = useMutation(api.categoryRules.create);
+  const reapplyRules = useMutation(api.categoryRules.reapplyRules);
+
+  // Workspaces I belong to; the first one is active until another is picked
+  const workspaces = useQuery(api.workspaces.listMine, sessionToken ? { sessionToken } : "skip");
+  const activeWorkspace = workspaces?.find((w) => w._id === workspaceId) ?? workspaces?.[0];
+  const canEdit = activeWorkspace?.role === "owner" || activeWorkspace?.role === "editor";
+  const members = useQuery(
+    api.workspaces.listMembers,
+    sessionToken && activeWorkspace ? { sessionToken, workspaceId: activeWorkspace._id } : "skip"
   );
 
-  // Real-time query for my documents (only when logged in)
-  const myDocs = useQuery(api.documents.list, userId ? { userId } : "skip");
+  // Real-time query for the workspace's documents (only when logged in)
+  const myDocs = useQuery(
+    api.documents.list,
+    sessionToken && activeWorkspace
+      ? { sessionToken, workspaceId: activeWorkspace._id, uploaderId: uploaderFilter || undefined }
+      : "skip"
+  );
+  // Workspace-wide spending over every statement, each transaction and day counted once
+  const insights = useQuery(
+    api.insights.get,
+    sessionToken && activeWorkspace
+      ? { sessionToken, workspaceId: activeWorkspace._id, uploaderId: uploaderFilter || undefined }
+      : "skip"
+  );
+  const baseCurrency = useQuery(api.currency.getBaseCurrency, sessionToken ? { sessionToken } : "skip") ?? "GBP";
 
   // Animation states
-  const isLoggedIn = !!userId;
+  const isLoggedIn = !!sessionToken;
   const hasDocuments = myDocs && myDocs.length > 0;
 
-  // 1. Code check handler (Step 1: Check if code exists)
-  const handleNextStep = async () => {
-    if (code.length !== 6) {
+  // 1. Code step (Step 1: the server isn't asked whether the code exists)
+  const handleNextStep = () => {
+    if (!/^\d{6}$/.test(code)) {
       setError("Code must be exactly 6 digits");
       return;
     }
-
-    try {
-      setError(null);
-      // Check if code exists in database
-      const exists = await checkCode({ code });
-      setIsNewUser(!exists); // If code doesn't exist, it's a new user
-      setStep("PASSWORD"); // Move to password input step
-    } catch (error) {
-      setError("Failed to check code. Please try again.");
-      console.error("Code check error:", error);
-    }
+    setError(null);
+    setStep("PASSWORD"); // Move to password input step
   };
 
-  // 2. Login/Register handler (Step 2: Complete authentication)
+  // 2. Sign-in handler (Step 2: an unknown code is refused like a wrong password)
   const handleAuthComplete = async () => {
-    if (password.length !== 2) {
-      setError("Password must be exactly 2 digits");
+    if (password.length < LEGACY_MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${LEGACY_MIN_PASSWORD_LENGTH} characters`);
       return;
     }
 
     try {
       setError(null);
-      let id: Id<"users">;
-
-      if (isNewUser) {
-        // Register new user
-        id = await registerUser({ code, password });
-        setModal({
-          show: true,
-          type: "success",
-          message: "Registration Complete!",
-          details: `Remember your code: ${code} and password: ${password}`,
-        });
-        setTimeout(() => setModal((prev) => ({ ...prev, show: false })), 3000);
-      } else {
-        // Login existing user
-        id = await loginUser({ code, password });
+      const result = await signIn({ code, password, clientId: getClientId(), deviceLabel: describeDevice() });
+      if (!result.ok) {
+        setError(result.error.message);
+        setPassword("");
+        return;
       }
 
-      setUserId(id);
+      startSession(result.value.sessionToken);
       setStep("CODE"); // Reset step for next time
       setPassword(""); // Clear password
     } catch (error: any) {
@@ -114,6 +144,38 @@ export default function App() {
     }
   };
 
+  // 3. Registration handler: the server picks the code and shows it once
+  const handleRegister = async () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await register({ password, clientId: getClientId(), deviceLabel: describeDevice() });
+      if (!result.ok) {
+        setError(result.error.message);
+        return;
+      }
+
+      // Stays open until dismissed: the code is needed to sign in again
+      setModal({
+        show: true,
+        type: "success",
+        message: "Registration Complete!",
+        details: `Your code is ${result.value.code}. Write it down: you need it and your password to sign in.`,
+      });
+      startSession(result.value.sessionToken);
+      setStep("CODE");
+      setCode("");
+      setPassword("");
+    } catch (error: any) {
+      setError(error.message || "Registration failed. Please try again.");
+      console.error("Registration error:", error);
+    }
+  };
+
   // Handle Enter key press in code input
   const handleCodeKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && code.length === 6) {
@@ -123,27 +185,91 @@ export default function App() {
 
   // Handle Enter key press in password input
   const handlePasswordKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && password.length === 2) {
-      handleAuthComplete();
+    if (e.key === "Enter" && password.length >= minPasswordLength) {
+      if (step === "REGISTER") {
+        handleRegister();
+      } else {
+        handleAuthComplete();
+      }
     }
   };
 
-  // Reset to initial state (logo click)
+  // Logo click: back to the top of the dashboard (signing out is explicit now)
   const handleLogoClick = () => {
-    setUserId(null);
+    setError(null);
+    setExpandedDocs(new Set());
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Explicit logout: revokes this device's session and resets to the initial state
+  const handleLogout = async () => {
+    await signOut();
+    setWorkspaceId(null);
+    setUploaderFilter("");
     setCode("");
     setPassword("");
     setStep("CODE");
-    setIsNewUser(false);
     setError(null);
     setExpandedDocs(new Set());
   };
 
+  // Export: the server records it in the document's timeline, then the browser saves the CSV
+  const handleExport = async (documentId: Id<"documents">) => {
+    try {
+      const { filename, csv } = unlessDenied(await exportTransactions({ documentId, sessionToken: sessionToken! }));
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError("Failed to export transactions");
+    }
+  };
+
+  // File picker: bank exports skip the model, CSVs may need their columns mapped
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setCsvHeaders(null);
+    setColumnMapping({});
+
+    if (selected && !statementFormatOf(selected.name)) {
+      setFile(null);
+      setError("Unsupported file type. Upload a PDF statement or a CSV, OFX or QIF export.");
+      return;
+    }
+    setFile(selected);
+    setError(null);
+    if (selected && statementFormatOf(selected.name) === "csv") {
+      setCsvHeaders(await readCsvHeader(selected));
+    }
+  };
+
+  // Category fix on one transaction, with the offer to make it a rule for the merchant
+  const handleRecategorize = async (documentId: Id<"documents">, index: number, category: TransactionCategory) => {
+    try {
+      const { merchant } = unlessDenied(
+        await recategorizeTransaction({ documentId, sessionToken: sessionToken!, index, category })
+      );
+      if (confirm(`Always categorise "${merchant}" as ${category}?\nThis creates a rule and applies it to your past statements.`)) {
+        await createRule({ sessionToken: sessionToken!, match: "exact", pattern: merchant, category });
+        await reapplyRules({ sessionToken: sessionToken! });
+      }
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError("Failed to change category");
+    }
+  };
+
   // 2. File upload handler (core logic)
   const handleUpload = async () => {
-    if (!file || !userId) {
-      console.error("❌ Missing file or userId");
-      setError("Missing file or user ID");
+    if (!file || !sessionToken || !activeWorkspace) {
+      console.error("❌ Missing file, session or workspace");
+      setError("Missing file, session or workspace");
       return;
     }
 
@@ -153,7 +279,7 @@ export default function App() {
     try {
       // Step A: Get upload URL
       console.log("📤 Step A: Getting upload URL...");
-      const postUrl = await generateUploadUrl();
+      const postUrl = await generateUploadUrl({ sessionToken });
       console.log("✅ Upload URL received:", postUrl);
 
       // Step B: Upload file to the URL (POST)
@@ -173,84 +299,42 @@ export default function App() {
       const { storageId } = (await result.json()) as { storageId: Id<"_storage"> };
       console.log("✅ File uploaded successfully. Storage ID:", storageId);
 
-      // Step C: Save metadata to database
+      // Step C: Save metadata to database (this also schedules server-side analysis)
       console.log("💾 Step C: Saving document metadata to database...");
-      const docId = await createDocument({
-        title: file.name,
-        storageId,
-        userId,
-      });
-      console.log("✅ Document created in database. Document ID:", docId);
-
-      // Step D: Extract text from PDF
-      console.log("📝 Step D: Starting text extraction...");
-      let text: string;
-      try {
-        text = await extractText({
-          documentId: docId,
-          storageId: storageId,
-        });
-        console.log("🔥 [Step 4] Text extraction successful!", text.length);
-      } catch (extractError) {
-        console.error("❌ Text extraction failed:", extractError);
-        console.error("❌ Error details:", {
-          message: extractError instanceof Error ? extractError.message : String(extractError),
-          stack: extractError instanceof Error ? extractError.stack : undefined,
-          error: extractError,
-        });
-        throw new Error(`Text extraction failed: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
-      }
-
-      // Step E: AI analysis request
-      setModal({
-        show: true,
-        type: "processing",
-        message: "Processing...",
-        details: "Text extraction complete! AI analysis starting...",
-      });
-      console.log("🧠 [Step 5] Starting GPT-4o-mini analysis...");
-      let analysisResult: any;
-      try {
-        analysisResult = await analyzeText({ text: text });
-        console.log("✨ [Step 5] AI analysis result:", analysisResult);
-        console.log("💰 Total spent:", analysisResult.totalSpent);
-      } catch (analyzeError) {
-        console.error("❌ AI analysis failed:", analyzeError);
-        console.error("❌ Error details:", {
-          message: analyzeError instanceof Error ? analyzeError.message : String(analyzeError),
-          stack: analyzeError instanceof Error ? analyzeError.stack : undefined,
-          error: analyzeError,
-        });
-        throw new Error(`AI analysis failed: ${analyzeError instanceof Error ? analyzeError.message : String(analyzeError)}`);
-      }
-
-      // Step F: Save to DB
-      console.log("💾 [Step 6] Saving results to Database...");
-      try {
-        await saveAnalysis({
-          documentId: docId,
-          analysis: analysisResult, // Pass JSON from AI directly
-        });
-        console.log("✅ Analysis results saved to database");
-      } catch (saveError) {
-        console.error("❌ Failed to save analysis results:", saveError);
-        console.error("❌ Error details:", {
-          message: saveError instanceof Error ? saveError.message : String(saveError),
-          stack: saveError instanceof Error ? saveError.stack : undefined,
-          error: saveError,
-        });
-        throw new Error(`Failed to save analysis: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
-      }
+      const sourceFormat = statementFormatOf(file.name) ?? "pdf";
+      const { documentId, duplicateOf } = unlessDenied(
+        await createDocument({
+          title: file.name,
+          storageId,
+          sessionToken,
+          workspaceId: activeWorkspace._id,
+          sourceFormat,
+          columnMapping: sourceFormat === "csv" ? columnMapping : undefined,
+        })
+      );
+      console.log("✅ Document created in database. Document ID:", documentId);
 
+      // Extraction and analysis now run on the server; progress arrives via the documents.list query.
+      // A file already in the workspace waits on its card for a skip / replace / merge choice instead.
       setFile(null); // Reset
+      setCsvHeaders(null);
+      setColumnMapping({});
       setError(null);
-      console.log("✅ Upload, extraction, analysis, and save completed successfully!");
-      setModal({
-        show: true,
-        type: "success",
-        message: "Analysis Complete!",
-        details: `Total Spent: £${analysisResult.totalSpent.toLocaleString()}`,
-      });
+      setModal(
+        duplicateOf
+          ? {
+              show: true,
+              type: "info",
+              message: "Already Uploaded",
+              details: `This file is already in the workspace as "${duplicateOf}". Choose on its card whether to skip, replace or keep both.`,
+            }
+          : {
+              show: true,
+              type: "success",
+              message: "Upload Complete!",
+              details: "Your statement is being analysed. You can follow its progress on the document card.",
+            }
+      );
       setTimeout(() => setModal((prev) => ({ ...prev, show: false })), 3000);
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : String(e);
@@ -335,7 +419,7 @@ export default function App() {
         {/* Back Button - Left Top */}
         {isLoggedIn && (
           <motion.button
-            onClick={handleLogoClick}
+            onClick={handleLogout}
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
             transition={{ duration: 0.3 }}
@@ -370,7 +454,7 @@ export default function App() {
             }}
           >
             <span>←</span>
-            <span>Back</span>
+            <span>Log out</span>
           </motion.button>
         )}
 
@@ -441,7 +525,7 @@ export default function App() {
 
         {/* Pre-login screen */}
         <AnimatePresence mode="wait">
-          {!userId ? (
+          {!sessionToken ? (
             <motion.div
               key="pre-login"
               initial={{ opacity: 0, y: -20 }}
@@ -460,34 +544,55 @@ export default function App() {
               }}
             >
             <div className="glass-card" style={{ textAlign: "center" }}>
-              {step === "CODE" ? (
+              {isRestoring ? (
+                // A token from a previous visit is being checked
+                <p style={{ margin: 0, color: "#666" }}>⏳ Restoring your session...</p>
+              ) : step === "CODE" ? (
                 // Step 1: Code Input (기존 스타일 유지)
-                <div style={{ display: "flex", gap: "var(--space-sm)", alignItems: "center" }}>
-                  <input
-                    type="text"
-                    maxLength={6}
-                    placeholder="Enter 6-digit code"
-                    value={code}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
-                    onKeyPress={handleCodeKeyPress}
-                    className="input-glass"
+                <>
+                  <div style={{ display: "flex", gap: "var(--space-sm)", alignItems: "center" }}>
+                    <input
+                      type="text"
+                      maxLength={6}
+                      placeholder="Enter 6-digit code"
+                      value={code}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                      onKeyPress={handleCodeKeyPress}
+                      className="input-glass"
+                      style={{
+                        flex: 1,
+                        fontSize: "18px",
+                        padding: "14px 20px",
+                      }}
+                    />
+                    <button onClick={handleNextStep} className="btn-mint" disabled={code.length !== 6}>
+                      Next
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setStep("REGISTER");
+                      setError(null);
+                    }}
                     style={{
-                      flex: 1,
-                      fontSize: "18px",
-                      padding: "14px 20px",
+                      marginTop: "var(--space-sm)",
+                      border: "none",
+                      background: "transparent",
+                      color: "var(--mint-dark)",
+                      cursor: "pointer",
+                      fontSize: "var(--text-sm)",
                     }}
-                  />
-                  <button onClick={handleNextStep} className="btn-mint" disabled={code.length !== 6}>
-                    Next
+                  >
+                    New here? Create an account
                   </button>
-                </div>
+                </>
               ) : (
-                // Step 2: Password Input
+                // Step 2: Password Input (signing in, or choosing one for a new account)
                 <div style={{ display: "flex", gap: "var(--space-sm)", alignItems: "center" }}>
                   <input
                     type="password"
-                    maxLength={2}
-                    placeholder={isNewUser ? "Set 2-digit password" : "Enter 2-digit password"}
+                    maxLength={128}
+                    placeholder={step === "REGISTER" ? "Choose a password" : "Password"}
                     value={password}
                     onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
                     onKeyPress={handlePasswordKeyPress}
@@ -519,11 +624,11 @@ export default function App() {
                     Back
                   </button>
                   <button
-                    onClick={handleAuthComplete}
+                    onClick={step === "REGISTER" ? handleRegister : handleAuthComplete}
                     className="btn-mint"
-                    disabled={password.length !== 2}
+                    disabled={password.length < minPasswordLength}
                   >
-                    {isNewUser ? "Register" : "Enter"}
+                    {step === "REGISTER" ? "Create" : "Enter"}
                   </button>
                 </div>
               )}
@@ -540,7 +645,7 @@ export default function App() {
               </div>
             ) : (
               <div className="digit-indicator">
-                {[1, 2].map((index) => (
+                {Array.from({ length: Math.min(Math.max(password.length, minPasswordLength), 12) }, (_, i) => i + 1).map((index) => (
                   <div
                     key={index}
                     className={`digit-dot ${index <= password.length ? "filled" : ""}`}
@@ -552,9 +657,9 @@ export default function App() {
             <p className="body-text" style={{ marginTop: "var(--space-lg)", textAlign: "center", color: "#9ca3af", fontSize: "var(--text-sm)" }}>
               {step === "CODE" 
                 ? "Example: Enter 123456 and press Next"
-                : isNewUser 
-                  ? "Example: Enter 12 and press Register"
-                  : "Example: Enter 12 and press Enter"
+                : step === "REGISTER"
+                  ? `At least ${MIN_PASSWORD_LENGTH} characters. Your 6-digit code is shown once the account is created`
+                  : "Enter your password and press Enter"
               }
             </p>
           </motion.div>
@@ -576,10 +681,80 @@ export default function App() {
             >
             {/* Connection Status */}
             <div className="glass-card-mint section-gap" style={{ textAlign: "center" }}>
-              ✅ Connected as: <strong className="text-mint-dark">{code}</strong>
+              ✅ Connected as: <strong className="text-mint-dark">{signedInCode}</strong>
+              <span style={{ marginLeft: "var(--space-md)", fontSize: "0.9rem", color: "#555" }}>
+                Base currency:{" "}
+                <select
+                  value={baseCurrency}
+                  onChange={async (e) => {
+                    try {
+                      await setBaseCurrency({ sessionToken: sessionToken!, currency: e.target.value });
+                    } catch (e) {
+                      console.error(e);
+                      setError("Failed to change base currency");
+                    }
+                  }}
+                  style={{ borderRadius: "8px", border: "1px solid var(--mint-primary)", padding: "2px 6px" }}
+                >
+                  {[...new Set([baseCurrency, ...COMMON_CURRENCIES])].map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </span>
+              {workspaces && workspaces.length > 0 && (
+                <div style={{ marginTop: "8px", fontSize: "0.9rem", color: "#555" }}>
+                  Workspace:{" "}
+                  <select
+                    value={activeWorkspace?._id ?? ""}
+                    onChange={(e) => {
+                      setWorkspaceId(e.target.value as Id<"workspaces">);
+                      setUploaderFilter("");
+                    }}
+                    style={{ borderRadius: "8px", border: "1px solid var(--mint-primary)", padding: "2px 6px" }}
+                  >
+                    {workspaces.map((w) => (
+                      <option key={w._id} value={w._id}>
+                        {w.name} ({w.role})
+                      </option>
+                    ))}
+                  </select>
+                  {members && members.length > 1 && (
+                    <span style={{ marginLeft: "var(--space-md)" }}>
+                      Uploaded by:{" "}
+                      <select
+                        value={uploaderFilter}
+                        onChange={(e) => setUploaderFilter(e.target.value as Id<"users"> | "")}
+                        style={{ borderRadius: "8px", border: "1px solid var(--mint-primary)", padding: "2px 6px" }}
+                      >
+                        <option value="">Everyone</option>
+                        {members.map((m) => (
+                          <option key={m.userId} value={m.userId}>
+                            {m.isMe ? "Me" : m.name}
+                          </option>
+                        ))}
+                      </select>
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
 
-            {/* Upload section */}
+            {/* Members, roles and invites */}
+            {activeWorkspace && (
+              <WorkspacePanel
+                sessionToken={sessionToken!}
+                workspace={activeWorkspace}
+                onJoined={(joined) => {
+                  setWorkspaceId(joined);
+                  setUploaderFilter("");
+                }}
+              />
+            )}
+
+            {/* Upload section (viewers can only look) */}
+            {canEdit && (
             <div className="glass-card section-gap" style={{ display: "flex", gap: "var(--space-md)", alignItems: "center", padding: "var(--space-lg)" }}>
               {/* Custom file upload button */}
               <label
@@ -589,18 +764,16 @@ export default function App() {
               >
                 <span>{file ? "📄" : "📂"}</span>
                 <span style={{ flex: 1, textAlign: "center", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                  {file ? file.name : "Select PDF File"}
+                  {file ? file.name : "Select Statement (PDF, CSV, OFX, QIF)"}
                 </span>
               </label>
 
               <input
                 id="file-upload"
                 type="file"
-                accept=".pdf"
+                accept={STATEMENT_FILE_ACCEPT}
                 className="hidden-input"
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFile(e.target.files?.[0] || null)
-                }
+                onChange={handleFileChange}
               />
 
               {/* Analyze button (always visible, disabled when no file) */}
@@ -622,6 +795,11 @@ export default function App() {
                 ✨ Analyze
               </motion.button>
             </div>
+            )}
+
+            {csvHeaders && csvHeaders.length > 0 && (
+              <CsvColumnMapper headers={csvHeaders} mapping={columnMapping} onChange={setColumnMapping} />
+            )}
 
             {/* Documents List */}
             <AnimatePresence>
@@ -631,80 +809,87 @@ export default function App() {
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.6 }}
                 >
-                  {/* Daily Spent Summary - User Level */}
-                  {(() => {
-                    const completedDocs = myDocs?.filter((doc) => doc.analysis && doc.status === "completed") || [];
-                    
-                    if (completedDocs.length === 0) return null;
-
-                    // Calculate total spent across all documents
-                    const totalSpent = completedDocs.reduce((sum, doc) => {
-                      return sum + (doc.analysis?.totalSpent || 0);
-                    }, 0);
-
-                    // Calculate total days by summing each document's period
-                    let totalDays = 0;
-                    const allPeriods: string[] = [];
-
-                    completedDocs.forEach((doc) => {
-                      if (doc.analysis?.transactions && Array.isArray(doc.analysis.transactions) && doc.analysis.transactions.length > 0) {
-                        // Calculate period for this document
-                        const dates = doc.analysis.transactions
-                          .map((t: any) => new Date(t.date).getTime())
-                          .filter((time: number) => !isNaN(time))
-                          .sort((a: number, b: number) => a - b);
-
-                        if (dates.length > 0) {
-                          const minDate = new Date(dates[0]);
-                          const maxDate = new Date(dates[dates.length - 1]);
-                          
-                          // Calculate days for this document (+1 day)
-                          const diffTime = Math.abs(maxDate.getTime() - minDate.getTime());
-                          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-                          totalDays += diffDays;
-
-                          // Store period for display
-                          const periodStr = `${minDate.toISOString().split('T')[0]} ~ ${maxDate.toISOString().split('T')[0]}`;
-                          allPeriods.push(periodStr);
-                        }
-                      }
-                    });
-
-                    // Calculate average daily spent
-                    let averageDailySpent = 0;
-                    if (totalDays > 0) {
-                      averageDailySpent = Number((totalSpent / totalDays).toFixed(2));
-                    }
+                  {/* Daily Spent Summary - Workspace Level (or one uploader's, when filtered).
+                      Worked out on the server over the days statements cover, each day and transaction once. */}
+                  {insights && insights.averageDailySpent > 0 && (
+                    <div className="glass-card-mint" style={{ marginBottom: "var(--space-lg)", textAlign: "center" }}>
+                      <div style={{ fontSize: "0.9rem", color: "#666", marginBottom: "8px" }}>Average Daily Spent</div>
+                      <div className="total-spent" style={{ fontSize: "2rem", fontWeight: 700, color: "var(--mint-dark)" }}>
+                        {formatMoney(insights.averageDailySpent, insights.currency)}
+                      </div>
+                      <div style={{ fontSize: "0.85rem", color: "#888", marginTop: "8px" }}>
+                        {insights.statements === 1
+                          ? `${insights.from} ~ ${insights.to}`
+                          : `${insights.statements} documents • ${insights.days} days`}
+                        {insights.sharedTransactions > 0 && ` • ${insights.sharedTransactions} shared transactions counted once`}
+                      </div>
+                    </div>
+                  )}
 
-                    if (averageDailySpent > 0) {
-                      return (
-                        <div className="glass-card-mint" style={{ marginBottom: "var(--space-lg)", textAlign: "center" }}>
-                          <div style={{ fontSize: "0.9rem", color: "#666", marginBottom: "8px" }}>Average Daily Spent</div>
-                          <div className="total-spent" style={{ fontSize: "2rem", fontWeight: 700, color: "var(--mint-dark)" }}>
-                            £{averageDailySpent.toLocaleString()}
-                          </div>
-                          {allPeriods.length > 0 && (
-                            <div style={{ fontSize: "0.85rem", color: "#888", marginTop: "8px" }}>
-                              {allPeriods.length === 1 
-                                ? allPeriods[0]
-                                : `${allPeriods.length} documents • ${totalDays} days`
-                              }
-                            </div>
-                          )}
-                        </div>
-                      );
-                    }
-                    return null;
-                  })()}
+                  {/* My savings goals: measured over my own statements, whichever workspace is open */}
+                  <SavingsGoalsPanel sessionToken={sessionToken!} />
+
+                  {/* Month-over-month, category shifts, weekday vs weekend */}
+                  {activeWorkspace && (
+                    <InsightsPanel
+                      key={activeWorkspace._id}
+                      sessionToken={sessionToken!}
+                      workspaceId={activeWorkspace._id}
+                      uploaderId={uploaderFilter || undefined}
+                    />
+                  )}
+
+                  {/* Monthly budgets against the workspace's spending */}
+                  {activeWorkspace && (
+                    <BudgetPanel key={activeWorkspace._id} sessionToken={sessionToken!} workspaceId={activeWorkspace._id} canEdit={canEdit} />
+                  )}
+
+                  {/* Recurring charges across the workspace's statements */}
+                  {activeWorkspace && (
+                    <SubscriptionsPanel key={activeWorkspace._id} sessionToken={sessionToken!} workspaceId={activeWorkspace._id} canEdit={canEdit} />
+                  )}
+
+                  {/* Merchant registry and spend per merchant */}
+                  {activeWorkspace && (
+                    <MerchantsPanel key={activeWorkspace._id} sessionToken={sessionToken!} workspaceId={activeWorkspace._id} canEdit={canEdit} />
+                  )}
+
+                  {/* Every statement's transactions, filtered on the server */}
+                  {activeWorkspace && (
+                    <TransactionsPanel
+                      key={activeWorkspace._id}
+                      sessionToken={sessionToken!}
+                      workspaceId={activeWorkspace._id}
+                      uploaderId={uploaderFilter || undefined}
+                    />
+                  )}
+
+                  {/* AI usage & cost */}
+                  {activeWorkspace && <UsagePanel key={activeWorkspace._id} sessionToken={sessionToken!} workspaceId={activeWorkspace._id} />}
+
+                  {/* Merchant -> category overrides */}
+                  <CategoryRulesPanel sessionToken={sessionToken!} />
+
+                  {/* Recent document activity */}
+                  <ActivityFeed sessionToken={sessionToken!} />
+
+                  {/* Failed sign-ins on my code */}
+                  <SignInActivity sessionToken={sessionToken!} />
+
+                  {/* Where I'm signed in */}
+                  <DevicesPanel sessionToken={sessionToken!} />
+
+                  {/* Profile, password and account deletion */}
+                  <AccountSettings sessionToken={sessionToken!} onAccountDeleted={handleLogout} />
 
                   <h2 className="text-mint-dark" style={{ marginBottom: "var(--space-lg)", fontSize: "var(--text-2xl)", fontWeight: 700 }}>
-                    📂 My Documents
+                    📂 Documents
                   </h2>
                   <div style={{ display: "flex", flexDirection: "column", gap: "var(--space-sm)" }}>
                     {myDocs && myDocs.length === 0 ? (
                       <div className="glass-card" style={{ textAlign: "center" }}>
                         <p className="body-text" style={{ color: "#666", margin: 0 }}>
-                          No documents yet. Upload a PDF to get started!
+                          No documents yet. Upload a PDF statement or a CSV, OFX or QIF export to get started!
                         </p>
                       </div>
                     ) : (
@@ -756,22 +941,100 @@ export default function App() {
                                 <h3 style={{ margin: 0, color: "var(--mint-dark)", fontWeight: 700 }}>
                                   {doc.title}
                                 </h3>
+                                {members && members.length > 1 && (
+                                  <span style={{ fontSize: "0.8rem", color: "#666" }}>
+                                    by {doc.uploadedByMe ? "me" : doc.uploaderName}
+                                  </span>
+                                )}
                               </div>
                               <span
                                 style={{
                                   padding: "5px 12px",
                                   borderRadius: "20px",
                                   backgroundColor:
-                                    doc.status === "completed" ? "var(--mint-light)" : "#fff5f5",
-                                  color: doc.status === "completed" ? "var(--mint-dark)" : "#c53030",
+                                    doc.status === "completed"
+                                      ? "var(--mint-light)"
+                                      : doc.status === "failed"
+                                        ? "#fff5f5"
+                                        : "#fffbeb",
+                                  color:
+                                    doc.status === "completed"
+                                      ? "var(--mint-dark)"
+                                      : doc.status === "failed"
+                                        ? "#c53030"
+                                        : "#b7791f",
                                   fontSize: "0.8rem",
                                   fontWeight: "bold",
                                 }}
                               >
+                                {doc.status !== "completed" && doc.status !== "failed" && "⏳ "}
                                 {doc.status}
+                                {doc.status === "analyzing" &&
+                                  doc.progress &&
+                                  doc.progress.totalChunks > 1 &&
+                                  ` ${doc.progress.completedChunks}/${doc.progress.totalChunks}`}
                               </span>
                             </div>
 
+                            {/* Failure reason & retry */}
+                            {doc.status === "failed" && (
+                              <div
+                                style={{
+                                  marginTop: "10px",
+                                  padding: "10px 14px",
+                                  borderRadius: "12px",
+                                  background: "rgba(248, 215, 218, 0.6)",
+                                  border: "1px solid rgba(220, 53, 69, 0.2)",
+                                  display: "flex",
+                                  justifyContent: "space-between",
+                                  alignItems: "center",
+                                  gap: "10px",
+                                }}
+                              >
+                                <div style={{ fontSize: "0.85rem", color: "#721c24" }}>
+                                  {doc.lastError ? (
+                                    <>
+                                      <strong>{doc.lastError.code}</strong> during {doc.lastError.step}:{" "}
+                                      {doc.lastError.message}
+                                    </>
+                                  ) : (
+                                    "Processing failed."
+                                  )}
+                                </div>
+                                <button
+                                  onClick={async (e) => {
+                                    e.stopPropagation(); // Prevent toggle when clicking retry
+                                    try {
+                                      unlessDenied(
+                                        await retryDocument({
+                                          documentId: doc._id,
+                                          sessionToken: sessionToken!,
+                                        })
+                                      );
+                                      setError(null);
+                                    } catch (e) {
+                                      console.error(e);
+                                      setError("Failed to retry document");
+                                    }
+                                  }}
+                                  className="btn-mint"
+                                  style={{ padding: "6px 14px", fontSize: "0.85rem", whiteSpace: "nowrap" }}
+                                >
+                                  🔄 Retry
+                                </button>
+                              </div>
+                            )}
+
+                            {/* Same file or same transactions as earlier documents */}
+                            {doc.overlap && (
+                              <OverlapNotice
+                                documentId={doc._id}
+                                sessionToken={sessionToken!}
+                                canEdit={canEdit}
+                                overlap={doc.overlap}
+                              />
+                            )}
+
                             {/* Analysis result with charts (collapsible) */}
                             <AnimatePresence>
                               {doc.analysis && isExpanded && (
@@ -802,6 +1065,11 @@ export default function App() {
                                           {doc.analysis.period}
                                         </span>
                                       )}
+                                      {!!doc.analysis.duplicatesRemoved && (
+                                        <span style={{ fontSize: "0.8rem", color: "#888", marginTop: "3px", display: "block" }}>
+                                          {doc.analysis.duplicatesRemoved} rows repeated across pages were merged
+                                        </span>
+                                      )}
                                     </div>
                                     <div style={{ textAlign: "right" }}>
                                       <div style={{ fontSize: "0.8rem", color: "#555", marginBottom: "5px" }}>
@@ -815,11 +1083,49 @@ export default function App() {
                                           color: "var(--mint-dark)",
                                         }}
                                       >
-                                        £{doc.analysis.totalSpent.toLocaleString()}
+                                        {formatMoney(doc.baseView?.totalSpent ?? doc.analysis.totalSpent, baseCurrency)}
                                       </div>
+                                      {(doc.analysis.currency ?? "GBP") !== baseCurrency && (
+                                        <div style={{ fontSize: "0.8rem", color: "#888" }}>
+                                          {formatMoney(doc.analysis.totalSpent, doc.analysis.currency)} on statement
+                                        </div>
+                                      )}
+                                      {doc.baseView && doc.baseView.missingRates.length > 0 && (
+                                        <div style={{ fontSize: "0.8rem", color: "#b7791f" }}>
+                                          ⚠️ No exchange rate for {doc.baseView.missingRates.join(", ")}
+                                        </div>
+                                      )}
                                     </div>
                                   </div>
 
+                                  {/* Rows the validator had to repair or drop */}
+                                  {doc.analysis.issues && doc.analysis.issues.length > 0 && (
+                                    <details
+                                      style={{
+                                        marginBottom: "var(--space-md)",
+                                        padding: "10px 14px",
+                                        borderRadius: "12px",
+                                        background: "#fffbeb",
+                                        fontSize: "0.85rem",
+                                        color: "#92400e",
+                                      }}
+                                    >
+                                      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+                                        ⚠️ {doc.analysis.issues.filter((i) => i.action === "repaired").length} rows repaired,{" "}
+                                        {doc.analysis.issues.filter((i) => i.action === "rejected").length} rows rejected
+                                      </summary>
+                                      <ul style={{ margin: "8px 0 0", paddingLeft: "18px" }}>
+                                        {doc.analysis.issues.map((issue, idx) => (
+                                          <li key={idx}>
+                                            Row {issue.row + 1}
+                                            {issue.chunk !== undefined && ` (part ${issue.chunk + 1})`} {issue.action}:{" "}
+                                            {issue.reason}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </details>
+                                  )}
+
                                   {/* AI Summary & Advice (2 columns) */}
                                   <div
                                     className="grid-2-col"
@@ -878,12 +1184,8 @@ export default function App() {
                                         📊 Spending by Category
                                       </h4>
                                       {(() => {
-                                        // Process category data for chart
-                                        const categoryMap: Record<string, number> = {};
-                                        doc.analysis.transactions?.forEach((t: any) => {
-                                          const cat = t.category || "Other";
-                                          categoryMap[cat] = (categoryMap[cat] || 0) + t.amount;
-                                        });
+                                        // Category totals come pre-converted to the base currency
+                                        const categoryMap: Record<string, number> = doc.baseView?.byCategory ?? {};
                                         const chartData = Object.keys(categoryMap).map((key) => ({
                                           name: key,
                                           value: categoryMap[key],
@@ -908,7 +1210,7 @@ export default function App() {
                                               </Pie>
                                               <Tooltip
                                                 formatter={(value: number | undefined) =>
-                                                  value ? `£${value.toLocaleString()}` : ""
+                                                  value ? formatMoney(value, baseCurrency) : ""
                                                 }
                                               />
                                               <Legend />
@@ -928,14 +1230,12 @@ export default function App() {
                                           🏆 Top 3 Expenses
                                         </h4>
                                         {(() => {
-                                          const sorted = [...(doc.analysis.transactions || [])].sort(
-                                            (a: any, b: any) => b.amount - a.amount
-                                          );
-                                          const top3 = sorted.slice(0, 3);
+                                          // Ranked on the server by base-currency value
+                                          const top3 = doc.analysis.topExpenses;
 
                                           return top3.length > 0 ? (
                                             <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
-                                              {top3.map((t: any, idx: number) => (
+                                              {top3.map((t, idx) => (
                                                 <li
                                                   key={idx}
                                                   style={{
@@ -961,7 +1261,7 @@ export default function App() {
                                                       fontSize: "1.1rem",
                                                     }}
                                                   >
-                                                    £{t.amount}
+                                                    {formatMoney(t.amount, t.currency)}
                                                   </div>
                                                 </li>
                                               ))}
@@ -972,78 +1272,60 @@ export default function App() {
                                         })()}
                                       </div>
 
-                                      {/* All Transactions (Collapsible) */}
-                                      <details className="glass-card-mint" style={{ padding: "15px" }}>
-                                        <summary
-                                          style={{
-                                            cursor: "pointer",
-                                            color: "var(--mint-dark)",
-                                            fontWeight: 700,
-                                            marginBottom: "10px",
-                                          }}
-                                        >
-                                          View All Transactions ({doc.analysis.transactions?.length || 0})
-                                        </summary>
-                                        <ul
-                                          style={{
-                                            listStyle: "none",
-                                            padding: 0,
-                                            marginTop: "10px",
-                                            maxHeight: "300px",
-                                            overflowY: "auto",
-                                          }}
-                                        >
-                                          {doc.analysis.transactions?.map((t: any, idx: number) => (
-                                            <li
-                                              key={idx}
-                                              style={{
-                                                borderBottom: "1px solid rgba(0,0,0,0.05)",
-                                                padding: "10px 0",
-                                                fontSize: "0.9rem",
-                                                display: "flex",
-                                                justifyContent: "space-between",
-                                              }}
-                                            >
-                                              <span>
-                                                <span style={{ color: "#718096", marginRight: "10px" }}>
-                                                  {t.date}
-                                                </span>
-                                                <strong>{t.merchant}</strong>
-                                                <span
-                                                  style={{
-                                                    marginLeft: "10px",
-                                                    fontSize: "0.8em",
-                                                    backgroundColor: "var(--mint-light)",
-                                                    padding: "2px 6px",
-                                                    borderRadius: "4px",
-                                                  }}
-                                                >
-                                                  {t.category}
-                                                </span>
-                                              </span>
-                                              <strong>£{t.amount}</strong>
-                                            </li>
-                                          ))}
-                                        </ul>
-                                      </details>
+                                      {/* All Transactions (Collapsible, paged) */}
+                                      <DocumentTransactions
+                                        documentId={doc._id}
+                                        sessionToken={sessionToken!}
+                                        count={doc.analysis.transactionCount}
+                                        canEdit={canEdit}
+                                        unmatchedEdits={doc.analysis.unmatchedEdits}
+                                        onRecategorize={(index, category) => handleRecategorize(doc._id, index, category)}
+                                      />
                                     </div>
                                   </div>
                                 </motion.div>
                               )}
                             </AnimatePresence>
 
-                            {/* Delete button */}
+                            {/* Analysis versions */}
+                            {isExpanded && doc.analysis && (
+                              <AnalysisVersions
+                                documentId={doc._id}
+                                sessionToken={sessionToken!}
+                                currency={doc.analysis.currency ?? "GBP"}
+                                canReanalyze={canEdit && doc.status === "completed"}
+                              />
+                            )}
+
+                            {/* What happened to this document, and who did it */}
+                            {isExpanded && <DocumentTimeline documentId={doc._id} sessionToken={sessionToken!} />}
+
+                            {/* Export and delete buttons */}
                             {isExpanded && (
-                              <div style={{ marginTop: "15px", textAlign: "right" }}>
+                              <div style={{ marginTop: "15px", display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+                                {doc.analysis && (
+                                  <button
+                                    className="btn-mint"
+                                    style={{ padding: "8px 16px" }}
+                                    onClick={(e) => {
+                                      e.stopPropagation(); // Prevent toggle when clicking export
+                                      handleExport(doc._id);
+                                    }}
+                                  >
+                                    ⬇️ Export CSV
+                                  </button>
+                                )}
                                 <button
                                   onClick={async (e) => {
                                     e.stopPropagation(); // Prevent toggle when clicking delete
                                     if (confirm(`Delete "${doc.title}"?`)) {
                                       try {
-                                        await deleteDocument({
-                                          documentId: doc._id,
-                                          userId: userId!,
-                                        });
+                                        unlessDenied(
+                                          await deleteDocument({
+                                            documentId: doc._id,
+                                            sessionToken: sessionToken!,
+                                          })
+                                        );
                                         setError(null);
                                       } catch (e) {
                                         console.error(e);
@@ -0,0 +1,163 @@
+// Account settings panel: profile, password change and account deletion
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { getClientId } from "../utils/clientId";
+
+interface AccountSettingsProps {
+  sessionToken: string;
+  onAccountDeleted: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "6px 8px",
+  flex: 1,
+  minWidth: "140px",
+};
+
+const sectionTitle: React.CSSProperties = { margin: "var(--space-md) 0 8px", fontWeight: 700 };
+
+export function AccountSettings({ sessionToken, onAccountDeleted }: AccountSettingsProps) {
+  const profile = useQuery(api.account.getProfile, { sessionToken });
+  const updateProfile = useMutation(api.account.updateProfile);
+  const changePassword = useMutation(api.account.changePassword);
+  const deleteAccount = useMutation(api.account.deleteAccount);
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Fill the form once the saved profile arrives
+  useEffect(() => {
+    if (profile) {
+      setName(profile.name);
+      setEmail(profile.email);
+    }
+  }, [profile]);
+
+  const handleSaveProfile = async () => {
+    try {
+      await updateProfile({ sessionToken, name, email });
+      setMessage("Profile saved.");
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to save profile");
+    }
+  };
+
+  const handleChangePassword = async () => {
+    try {
+      const result = await changePassword({ sessionToken, currentPassword, newPassword, clientId: getClientId() });
+      setMessage(result.ok ? "Password changed. Other devices have been signed out." : result.error.message);
+      setCurrentPassword("");
+      if (result.ok) setNewPassword("");
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to change password");
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (!confirm("Delete your account and every statement in it? This cannot be undone.")) {
+      return;
+    }
+    try {
+      const result = await deleteAccount({ sessionToken, password: deletePassword, clientId: getClientId() });
+      setDeletePassword("");
+      if (!result.ok) {
+        setMessage(result.error.message);
+        return;
+      }
+      onAccountDeleted();
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to delete account");
+    }
+  };
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        ⚙️ Account Settings
+      </summary>
+
+      {profile && (
+        <p className="body-text" style={{ color: "#666", fontSize: "0.85rem", margin: "var(--space-sm) 0" }}>
+          Signed in with code {profile.code}
+        </p>
+      )}
+
+      <h4 className="text-mint-dark" style={sectionTitle}>Profile</h4>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={inputStyle} />
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" style={inputStyle} />
+        <button className="btn-mint" onClick={handleSaveProfile} style={{ padding: "4px 14px" }}>
+          Save
+        </button>
+      </div>
+
+      <h4 className="text-mint-dark" style={sectionTitle}>Change password</h4>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+        <input
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          placeholder="Current password"
+          maxLength={128}
+          style={inputStyle}
+        />
+        <input
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          placeholder="New password (8+ characters)"
+          maxLength={128}
+          style={inputStyle}
+        />
+        <button
+          className="btn-mint"
+          onClick={handleChangePassword}
+          disabled={!currentPassword || !newPassword}
+          style={{ padding: "4px 14px" }}
+        >
+          Change
+        </button>
+      </div>
+
+      <h4 style={{ ...sectionTitle, color: "#e53e3e" }}>Delete account</h4>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+        <input
+          type="password"
+          value={deletePassword}
+          onChange={(e) => setDeletePassword(e.target.value)}
+          placeholder="Password"
+          maxLength={128}
+          style={inputStyle}
+        />
+        <button
+          onClick={handleDeleteAccount}
+          disabled={!deletePassword}
+          style={{
+            padding: "4px 14px",
+            borderRadius: "16px",
+            border: "1px solid #e53e3e",
+            background: "transparent",
+            color: "#e53e3e",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Delete my account
+        </button>
+      </div>
+
+      {message && <p style={{ fontSize: "0.85rem", color: "#666", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
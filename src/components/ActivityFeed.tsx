@@ -0,0 +1,48 @@
+// Activity feed: what I did to documents, and what happened to the ones I uploaded
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { describeEvent } from "../utils/documentEvents";
+
+interface ActivityFeedProps {
+  sessionToken: string;
+}
+
+export function ActivityFeed({ sessionToken }: ActivityFeedProps) {
+  const events = useQuery(api.documentEvents.myActivity, { sessionToken });
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        📜 Activity
+      </summary>
+
+      {!events ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No activity yet.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+          {events.map((event) => (
+            <li
+              key={event._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                gap: "8px",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.9rem",
+              }}
+            >
+              <span>
+                <strong className="text-mint-dark">{event.documentTitle}</strong>: {describeEvent(event)} • {event.actorName}
+              </span>
+              <span style={{ color: "#666", whiteSpace: "nowrap" }}>{new Date(event.timestamp).toLocaleString("en-GB")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
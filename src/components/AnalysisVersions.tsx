@@ -0,0 +1,154 @@
+// Analysis versions of one document: re-analyse, compare and pick the active version
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { formatMoney } from "../utils/money";
+import { unlessDenied } from "../utils/access";
+
+interface AnalysisVersionsProps {
+  documentId: Id<"documents">;
+  sessionToken: string;
+  currency: string;
+  canReanalyze: boolean;
+}
+
+export function AnalysisVersions({ documentId, sessionToken, currency, canReanalyze }: AnalysisVersionsProps) {
+  const versions = useQuery(api.documents.listVersions, { documentId, sessionToken });
+  const reanalyzeDocument = useMutation(api.documents.reanalyzeDocument);
+  const selectVersion = useMutation(api.documents.selectVersion);
+  const [compare, setCompare] = useState<{ from: Id<"analysisResults">; to: Id<"analysisResults"> } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const diff = useQuery(
+    api.documents.compareVersions,
+    compare ? { documentId, sessionToken, fromResultId: compare.from, toResultId: compare.to } : "skip"
+  );
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError(failure);
+    }
+  };
+
+  const available = versions?.filter((v) => v.available) ?? [];
+
+  return (
+    <details className="glass-card-mint" style={{ padding: "15px", marginTop: "15px" }} onClick={(e) => e.stopPropagation()}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700 }}>
+        🕘 Versions ({versions?.length ?? 0})
+      </summary>
+
+      <ul style={{ listStyle: "none", padding: 0, margin: "10px 0" }}>
+        {versions?.map((v) => (
+          <li
+            key={v._id}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "6px 0",
+              borderBottom: "1px solid rgba(0,0,0,0.05)",
+              fontSize: "0.85rem",
+            }}
+          >
+            <span>
+              <strong>v{v.version}</strong> • {v.model}
+              {v.promptVersion && ` (${v.promptVersion})`} • {new Date(v.processedAt).toLocaleString("en-GB")}
+              {v.totalSpent !== null && ` • ${formatMoney(v.totalSpent, currency)}`}
+            </span>
+            {v.active ? (
+              <span className="text-mint-dark" style={{ fontWeight: 700 }}>Active</span>
+            ) : v.available ? (
+              <button
+                className="btn-mint"
+                style={{ padding: "2px 10px", fontSize: "0.8rem" }}
+                onClick={() => run(async () => unlessDenied(await selectVersion({ documentId, sessionToken, resultId: v._id })), "Failed to switch version")}
+              >
+                Use this
+              </button>
+            ) : (
+              <span style={{ color: "#999" }} title="Saved before versioning">Totals only</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {available.length >= 2 && (
+        <div style={{ display: "flex", gap: "8px", alignItems: "center", fontSize: "0.85rem", flexWrap: "wrap" }}>
+          Compare
+          {(["from", "to"] as const).map((side) => (
+            <select
+              key={side}
+              value={compare?.[side] ?? ""}
+              onChange={(e) => {
+                const id = e.target.value as Id<"analysisResults">;
+                const other = side === "from" ? available[available.length - 1]._id : available[0]._id;
+                setCompare((prev) => ({
+                  from: side === "from" ? id : prev?.from ?? other,
+                  to: side === "to" ? id : prev?.to ?? other,
+                }));
+              }}
+              style={{ borderRadius: "8px", border: "1px solid var(--mint-primary)", padding: "2px 6px" }}
+            >
+              <option value="" disabled>
+                {side === "from" ? "older" : "newer"}
+              </option>
+              {available.map((v) => (
+                <option key={v._id} value={v._id}>
+                  v{v.version}
+                </option>
+              ))}
+            </select>
+          ))}
+        </div>
+      )}
+
+      {compare && diff && (
+        <div style={{ fontSize: "0.85rem", marginTop: "10px" }}>
+          <p>
+            Total: {formatMoney(diff.totalSpent.from, currency)} → {formatMoney(diff.totalSpent.to, currency)} •{" "}
+            {diff.unchanged} unchanged • {diff.added.length} added • {diff.removed.length} removed •{" "}
+            {diff.recategorized.length} recategorised
+            {diff.summaryChanged && " • new summary"}
+            {diff.adviceChanged && " • new advice"}
+          </p>
+          <ul style={{ paddingLeft: "18px", maxHeight: "200px", overflowY: "auto" }}>
+            {diff.added.map((t, i) => (
+              <li key={`a${i}`} style={{ color: "var(--mint-dark)" }}>
+                + {t.date} {t.merchant} {formatMoney(t.amount, t.currency ?? currency)} ({t.category})
+              </li>
+            ))}
+            {diff.removed.map((t, i) => (
+              <li key={`r${i}`} style={{ color: "#e53e3e" }}>
+                − {t.date} {t.merchant} {formatMoney(t.amount, t.currency ?? currency)} ({t.category})
+              </li>
+            ))}
+            {diff.recategorized.map(({ transaction: t, from, to }, i) => (
+              <li key={`c${i}`}>
+                ~ {t.date} {t.merchant}: {from} → {to}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "var(--space-sm)", alignItems: "center", marginTop: "10px" }}>
+        <button
+          className="btn-mint"
+          disabled={!canReanalyze}
+          style={{ padding: "4px 14px", opacity: canReanalyze ? 1 : 0.5 }}
+          onClick={() => run(async () => unlessDenied(await reanalyzeDocument({ documentId, sessionToken })), "Failed to start re-analysis")}
+        >
+          🔁 Re-analyse
+        </button>
+        {error && <span style={{ color: "#e53e3e", fontSize: "0.85rem" }}>{error}</span>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,158 @@
+// Monthly budgets panel: limit per category, progress bars and overspend warnings
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+import { BudgetStatus } from "../../convex/domain/services/budget";
+import { formatMoney } from "../utils/money";
+import { unlessDenied } from "../utils/access";
+import { monthLabel } from "../utils/dates";
+
+interface BudgetPanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  ok: "var(--mint-primary)",
+  warning: "#f6ad55",
+  over: "#e53e3e",
+};
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+export function BudgetPanel({ sessionToken, workspaceId, canEdit }: BudgetPanelProps) {
+  const [month, setMonth] = useState<string | undefined>(undefined);
+  const progress = useQuery(api.budgets.progress, { sessionToken, workspaceId, month });
+  const setBudget = useMutation(api.budgets.set);
+  const removeBudget = useMutation(api.budgets.remove);
+
+  const [category, setCategory] = useState<TransactionCategory>("Food");
+  const [limit, setLimit] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+    }
+  };
+
+  const overspent = progress?.budgets.filter((b) => b.status === "over").length ?? 0;
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }} open>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🎯 Budgets{progress && ` — ${monthLabel(progress.month)}`}
+        {overspent > 0 && <span style={{ color: "#e53e3e" }}> ({overspent} over)</span>}
+      </summary>
+
+      {progress && progress.months.length > 1 && (
+        <select value={progress.month} onChange={(e) => setMonth(e.target.value)} style={{ ...inputStyle, margin: "var(--space-sm) 0" }}>
+          {progress.months.map((m) => (
+            <option key={m} value={m}>
+              {monthLabel(m)}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {!progress ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : progress.budgets.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No budgets yet. Set a monthly limit for a category below.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+          {progress.budgets.map((b) => (
+            <li key={b._id} style={{ padding: "6px 0", fontSize: "0.9rem" }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <strong>{b.category}</strong>
+                <span>
+                  {formatMoney(b.spent, b.currency)} / {formatMoney(b.limit, b.currency)}
+                  {canEdit && (
+                    <button
+                      onClick={() => {
+                        if (!confirm(`Remove the ${b.category} budget?`)) return;
+                        run(async () => unlessDenied(await removeBudget({ sessionToken, budgetId: b._id })), "Failed to remove budget");
+                      }}
+                      style={{ border: "none", background: "transparent", color: "#e53e3e", cursor: "pointer" }}
+                      title="Remove budget"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </span>
+              </div>
+              <div style={{ height: "8px", borderRadius: "4px", background: "rgba(0,0,0,0.08)", overflow: "hidden", margin: "4px 0" }}>
+                <div
+                  style={{
+                    width: `${Math.min(Math.max(b.ratio, 0), 1) * 100}%`,
+                    height: "100%",
+                    background: STATUS_COLORS[b.status],
+                  }}
+                />
+              </div>
+              <div style={{ fontSize: "0.8rem", color: b.status === "ok" ? "#666" : STATUS_COLORS[b.status] }}>
+                {b.status === "over"
+                  ? `⚠️ Over budget by ${formatMoney(-b.remaining, b.currency)}`
+                  : `${formatMoney(b.remaining, b.currency)} left${b.status === "warning" ? " — nearly there" : ""}`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {progress && progress.missingRates.length > 0 && (
+        <p style={{ fontSize: "0.8rem", color: "#888" }}>
+          Not counted (no exchange rate): {progress.missingRates.join(", ")}
+        </p>
+      )}
+
+      {canEdit && (
+        <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap", marginTop: "var(--space-sm)" }}>
+          <select value={category} onChange={(e) => setCategory(e.target.value as TransactionCategory)} style={inputStyle}>
+            {TRANSACTION_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            placeholder="Monthly limit"
+            style={{ ...inputStyle, width: "120px" }}
+          />
+          <button
+            className="btn-mint"
+            style={{ padding: "4px 14px" }}
+            disabled={!limit}
+            onClick={() =>
+              run(async () => {
+                unlessDenied(await setBudget({ sessionToken, workspaceId, category, limit: Number(limit) }));
+                setLimit("");
+              }, "Failed to save budget")
+            }
+          >
+            Set budget
+          </button>
+        </div>
+      )}
+
+      {message && <p style={{ fontSize: "0.85rem", color: "#666", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
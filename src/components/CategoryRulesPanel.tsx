@@ -0,0 +1,164 @@
+// Category rules panel (merchant -> category overrides)
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+
+interface CategoryRulesPanelProps {
+  sessionToken: string;
+}
+
+type RuleMatch = "exact" | "contains" | "regex";
+
+const MATCH_LABELS: Record<RuleMatch, string> = {
+  exact: "is exactly",
+  contains: "contains",
+  regex: "matches regex",
+};
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+export function CategoryRulesPanel({ sessionToken }: CategoryRulesPanelProps) {
+  const rules = useQuery(api.categoryRules.list, { sessionToken });
+  const createRule = useMutation(api.categoryRules.create);
+  const removeRule = useMutation(api.categoryRules.remove);
+  const reapplyRules = useMutation(api.categoryRules.reapplyRules);
+
+  const [match, setMatch] = useState<RuleMatch>("contains");
+  const [pattern, setPattern] = useState("");
+  const [category, setCategory] = useState<TransactionCategory>("Food");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    try {
+      await createRule({
+        sessionToken,
+        match,
+        pattern,
+        category,
+        minAmount: minAmount ? Number(minAmount) : undefined,
+        maxAmount: maxAmount ? Number(maxAmount) : undefined,
+      });
+      setPattern("");
+      setMinAmount("");
+      setMaxAmount("");
+      setMessage("Rule added. Re-apply to update past statements.");
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to add rule");
+    }
+  };
+
+  const handleReapply = async () => {
+    try {
+      const result = await reapplyRules({ sessionToken });
+      setMessage(
+        `Updated ${result.transactionsChanged} transaction(s) in ${result.documentsUpdated} statement(s).`
+      );
+    } catch (e) {
+      console.error(e);
+      setMessage("Failed to re-apply rules");
+    }
+  };
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🏷️ Category Rules
+      </summary>
+
+      <p className="body-text" style={{ color: "#666", fontSize: "0.85rem", margin: "var(--space-sm) 0" }}>
+        Rules override the AI's category. The first matching rule wins; categories you set by hand are never changed.
+      </p>
+
+      {rules && rules.length > 0 ? (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+          {rules.map((rule) => (
+            <li
+              key={rule._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.9rem",
+              }}
+            >
+              <span>
+                Merchant {MATCH_LABELS[rule.match]} <strong>{rule.pattern}</strong>
+                {rule.minAmount !== undefined && ` • ≥ ${rule.minAmount}`}
+                {rule.maxAmount !== undefined && ` • ≤ ${rule.maxAmount}`}
+                {" → "}
+                <strong className="text-mint-dark">{rule.category}</strong>
+              </span>
+              <button
+                onClick={() => removeRule({ ruleId: rule._id, sessionToken }).catch((e) => console.error(e))}
+                style={{ border: "none", background: "transparent", color: "#e53e3e", cursor: "pointer" }}
+                title="Delete rule"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="body-text" style={{ color: "#666" }}>No rules yet.</p>
+      )}
+
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+        <select value={match} onChange={(e) => setMatch(e.target.value as RuleMatch)} style={inputStyle}>
+          {(Object.keys(MATCH_LABELS) as RuleMatch[]).map((m) => (
+            <option key={m} value={m}>
+              {MATCH_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder="Merchant"
+          style={{ ...inputStyle, flex: 1, minWidth: "120px" }}
+        />
+        <input
+          type="number"
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          placeholder="Min"
+          style={{ ...inputStyle, width: "70px" }}
+        />
+        <input
+          type="number"
+          value={maxAmount}
+          onChange={(e) => setMaxAmount(e.target.value)}
+          placeholder="Max"
+          style={{ ...inputStyle, width: "70px" }}
+        />
+        <select value={category} onChange={(e) => setCategory(e.target.value as TransactionCategory)} style={inputStyle}>
+          {TRANSACTION_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <button className="btn-mint" onClick={handleAdd} disabled={!pattern.trim()} style={{ padding: "4px 14px" }}>
+          Add
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: "var(--space-sm)", alignItems: "center", marginTop: "var(--space-sm)" }}>
+        <button className="btn-mint" onClick={handleReapply} style={{ padding: "4px 14px" }}>
+          🔁 Re-apply to past statements
+        </button>
+        {message && <span style={{ fontSize: "0.85rem", color: "#666" }}>{message}</span>}
+      </div>
+    </details>
+  );
+}
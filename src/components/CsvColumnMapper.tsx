@@ -0,0 +1,65 @@
+// Optional CSV column mapping for bank exports the server can't read on its own
+
+export interface CsvColumnMapping {
+  date?: string;
+  merchant?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  currency?: string;
+}
+
+interface CsvColumnMapperProps {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  onChange: (mapping: CsvColumnMapping) => void;
+}
+
+const FIELDS: Array<{ key: keyof CsvColumnMapping; label: string }> = [
+  { key: "date", label: "Date" },
+  { key: "merchant", label: "Description" },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "debit", label: "Money out" },
+  { key: "credit", label: "Money in" },
+  { key: "currency", label: "Currency" },
+];
+
+export function CsvColumnMapper({ headers, mapping, onChange }: CsvColumnMapperProps) {
+  return (
+    <details className="glass-card section-gap" style={{ padding: "var(--space-md) var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 600 }}>
+        🧩 CSV columns (detected automatically, change if needed)
+      </summary>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))",
+          gap: "var(--space-sm)",
+          marginTop: "var(--space-sm)",
+        }}
+      >
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} style={{ display: "flex", flexDirection: "column", gap: "4px", fontSize: "0.85rem", color: "#555" }}>
+            {label}
+            <select
+              value={mapping[key] ?? ""}
+              onChange={(e) => {
+                // Leave unset fields out entirely so the server auto-detects them
+                const { [key]: _previous, ...rest } = mapping;
+                onChange(e.target.value ? { ...rest, [key]: e.target.value } : rest);
+              }}
+              style={{ borderRadius: "8px", border: "1px solid var(--mint-primary)", padding: "4px 6px" }}
+            >
+              <option value="">Auto-detect</option>
+              {headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,94 @@
+// Signed-in devices panel: where my code is signed in, with per-device sign-out
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface DevicesPanelProps {
+  sessionToken: string;
+}
+
+export function DevicesPanel({ sessionToken }: DevicesPanelProps) {
+  const devices = useQuery(api.sessions.listDevices, { sessionToken });
+  const revokeDevice = useMutation(api.sessions.revokeDevice);
+  const revokeOtherDevices = useMutation(api.sessions.revokeOtherDevices);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const others = devices?.filter((d) => !d.current) ?? [];
+
+  const handleRevoke = async (sessionId: Id<"sessions">, label: string) => {
+    if (!confirm(`Sign out "${label}"?`)) return;
+    try {
+      await revokeDevice({ sessionToken, sessionId });
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to sign out device");
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm(`Sign out ${others.length} other device${others.length === 1 ? "" : "s"}?`)) return;
+    try {
+      await revokeOtherDevices({ sessionToken });
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to sign out other devices");
+    }
+  };
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        💻 Signed-in Devices{devices && ` (${devices.length})`}
+      </summary>
+
+      {!devices ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+          {devices.map((device) => (
+            <li
+              key={device._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.9rem",
+              }}
+            >
+              <span>
+                {device.deviceLabel}
+                {device.current && <strong className="text-mint-dark"> (this device)</strong>}
+              </span>
+              <span style={{ display: "flex", gap: "8px", alignItems: "center", color: "#666" }}>
+                since {new Date(device.signedInAt).toLocaleString("en-GB")}
+                {!device.current && (
+                  <button
+                    onClick={() => handleRevoke(device._id, device.deviceLabel)}
+                    style={{ border: "none", background: "transparent", color: "#e53e3e", cursor: "pointer" }}
+                    title="Sign out this device"
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {others.length > 0 && (
+        <button className="btn-mint" style={{ padding: "4px 14px" }} onClick={handleRevokeOthers}>
+          Sign out all other devices
+        </button>
+      )}
+
+      {message && <p style={{ fontSize: "0.85rem", color: "#666", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,48 @@
+// Timeline of one document: upload, every status move with its duration, edits, exports
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { describeEvent } from "../utils/documentEvents";
+
+interface DocumentTimelineProps {
+  documentId: Id<"documents">;
+  sessionToken: string;
+}
+
+export function DocumentTimeline({ documentId, sessionToken }: DocumentTimelineProps) {
+  const events = useQuery(api.documentEvents.timeline, { documentId, sessionToken });
+
+  return (
+    <details className="glass-card-mint" style={{ padding: "15px", marginTop: "15px" }} onClick={(e) => e.stopPropagation()}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700 }}>
+        🧾 Timeline ({events?.length ?? 0})
+      </summary>
+
+      {events && events.length === 0 ? (
+        <p style={{ fontSize: "0.85rem", color: "#666" }}>No history recorded (uploaded before the timeline existed).</p>
+      ) : (
+        <ol style={{ listStyle: "none", padding: 0, margin: "10px 0" }}>
+          {events?.map((event) => (
+            <li
+              key={event._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                gap: "8px",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.85rem",
+              }}
+            >
+              <span>
+                {describeEvent(event)} • <strong>{event.actorName}</strong>
+              </span>
+              <span style={{ color: "#666", whiteSpace: "nowrap" }}>{new Date(event.timestamp).toLocaleString("en-GB")}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
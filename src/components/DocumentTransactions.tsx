@@ -0,0 +1,389 @@
+// One document's transactions, paged from the transactions table, with per-row category edits
+// and, for editors, hand corrections: edit, split, delete and add rows
+
+import { useState } from "react";
+import { useMutation, usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+import { formatMoney } from "../utils/money";
+import { unlessDenied } from "../utils/access";
+
+interface DocumentTransactionsProps {
+  documentId: Id<"documents">;
+  sessionToken: string;
+  count: number;
+  canEdit: boolean;
+  unmatchedEdits?: number; // Hand edits the active version no longer has a row for
+  onRecategorize: (index: number, category: TransactionCategory) => void;
+}
+
+// A row as typed into the form; the amount stays a string until it is saved
+interface RowDraft {
+  date: string;
+  merchant: string;
+  amount: string;
+  category: TransactionCategory;
+}
+
+interface PartDraft {
+  amount: string;
+  category: TransactionCategory;
+}
+
+// The row being edited or split, by its position in the document
+type Editing = { index: number; mode: "edit"; draft: RowDraft } | { index: number; mode: "split"; parts: PartDraft[] };
+
+const PAGE_SIZE = 50;
+
+const EMPTY_ROW: RowDraft = { date: "", merchant: "", amount: "", category: "Other" };
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+  fontSize: "0.85rem",
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  border: "none",
+  background: "transparent",
+  cursor: "pointer",
+  padding: "0 4px",
+};
+
+function CategorySelect({ value, onChange }: { value: TransactionCategory; onChange: (category: TransactionCategory) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as TransactionCategory)} style={inputStyle}>
+      {TRANSACTION_CATEGORIES.map((c) => (
+        <option key={c} value={c}>
+          {c}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function RowFields({ draft, onChange }: { draft: RowDraft; onChange: (draft: RowDraft) => void }) {
+  return (
+    <>
+      <input type="date" value={draft.date} onChange={(e) => onChange({ ...draft, date: e.target.value })} style={inputStyle} />
+      <input
+        value={draft.merchant}
+        onChange={(e) => onChange({ ...draft, merchant: e.target.value })}
+        placeholder="Merchant"
+        style={{ ...inputStyle, width: "140px" }}
+      />
+      <input
+        type="number"
+        step="0.01"
+        value={draft.amount}
+        onChange={(e) => onChange({ ...draft, amount: e.target.value })}
+        placeholder="Amount"
+        title="Negative for refunds"
+        style={{ ...inputStyle, width: "90px" }}
+      />
+      <CategorySelect value={draft.category} onChange={(category) => onChange({ ...draft, category })} />
+    </>
+  );
+}
+
+export function DocumentTransactions({ documentId, sessionToken, count, canEdit, unmatchedEdits, onRecategorize }: DocumentTransactionsProps) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.transactions.forDocument,
+    { documentId, sessionToken },
+    { initialNumItems: PAGE_SIZE }
+  );
+  const editTransaction = useMutation(api.transactionEdits.edit);
+  const addTransaction = useMutation(api.transactionEdits.add);
+  const removeTransaction = useMutation(api.transactionEdits.remove);
+  const splitTransaction = useMutation(api.transactionEdits.split);
+
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [adding, setAdding] = useState<RowDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Closes the form on success; on failure it stays open with the server's reason
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setEditing(null);
+      setAdding(null);
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+    }
+  };
+
+  const rowInput = (draft: RowDraft) => ({
+    date: draft.date,
+    merchant: draft.merchant,
+    amount: Number(draft.amount),
+    category: draft.category,
+  });
+
+  return (
+    <details className="glass-card-mint" style={{ padding: "15px" }}>
+      <summary
+        style={{
+          cursor: "pointer",
+          color: "var(--mint-dark)",
+          fontWeight: 700,
+          marginBottom: "10px",
+        }}
+      >
+        View All Transactions ({count})
+      </summary>
+      {!!unmatchedEdits && (
+        <p style={{ fontSize: "0.8rem", color: "#b7791f", margin: "0 0 8px" }}>
+          {unmatchedEdits} earlier {unmatchedEdits === 1 ? "edit" : "edits"} no longer {unmatchedEdits === 1 ? "matches a row" : "match rows"} in
+          this version and {unmatchedEdits === 1 ? "was" : "were"} not applied.
+        </p>
+      )}
+      <ul
+        style={{
+          listStyle: "none",
+          padding: 0,
+          marginTop: "10px",
+          maxHeight: "300px",
+          overflowY: "auto",
+        }}
+      >
+        {results.map((t) => {
+          const current = editing?.index === t.index ? editing : null;
+          if (current?.mode === "edit") {
+            return (
+              <li key={t._id} style={{ borderBottom: "1px solid rgba(0,0,0,0.05)", padding: "10px 0" }}>
+                <div style={{ display: "flex", gap: "6px", flexWrap: "wrap", alignItems: "center" }}>
+                  <RowFields draft={current.draft} onChange={(draft) => setEditing({ ...current, draft })} />
+                  <button
+                    className="btn-mint"
+                    style={{ padding: "4px 14px" }}
+                    onClick={() =>
+                      run(
+                        async () =>
+                          unlessDenied(
+                            await editTransaction({
+                              sessionToken,
+                              documentId,
+                              index: t.index,
+                              transaction: { ...rowInput(current.draft), currency: t.currency },
+                            })
+                          ),
+                        "Failed to save transaction"
+                      )
+                    }
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditing(null)} style={{ ...iconButtonStyle, color: "#666" }}>
+                    Cancel
+                  </button>
+                </div>
+              </li>
+            );
+          }
+          if (current?.mode === "split") {
+            const remaining = t.amount - current.parts.reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+            const setPart = (i: number, part: PartDraft) =>
+              setEditing({ ...current, parts: current.parts.map((p, j) => (j === i ? part : p)) });
+            return (
+              <li key={t._id} style={{ borderBottom: "1px solid rgba(0,0,0,0.05)", padding: "10px 0", fontSize: "0.9rem" }}>
+                <div style={{ marginBottom: "6px" }}>
+                  Split <strong>{t.merchant}</strong> ({formatMoney(t.amount, t.currency)})
+                </div>
+                {current.parts.map((part, i) => (
+                  <div key={i} style={{ display: "flex", gap: "6px", alignItems: "center", marginBottom: "4px" }}>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={part.amount}
+                      onChange={(e) => setPart(i, { ...part, amount: e.target.value })}
+                      placeholder="Amount"
+                      style={{ ...inputStyle, width: "90px" }}
+                    />
+                    <CategorySelect value={part.category} onChange={(category) => setPart(i, { ...part, category })} />
+                    {current.parts.length > 2 && (
+                      <button
+                        onClick={() => setEditing({ ...current, parts: current.parts.filter((_, j) => j !== i) })}
+                        style={{ ...iconButtonStyle, color: "#e53e3e" }}
+                        title="Remove part"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+                  <button
+                    onClick={() => setEditing({ ...current, parts: [...current.parts, { amount: "", category: t.category }] })}
+                    style={{ ...iconButtonStyle, color: "var(--mint-dark)" }}
+                  >
+                    + Part
+                  </button>
+                  <span style={{ fontSize: "0.8rem", color: Math.abs(remaining) < 0.005 ? "var(--mint-dark)" : "#b7791f" }}>
+                    {formatMoney(remaining, t.currency)} left to assign
+                  </span>
+                  <button
+                    className="btn-mint"
+                    style={{ padding: "4px 14px" }}
+                    disabled={Math.abs(remaining) >= 0.005}
+                    onClick={() =>
+                      run(
+                        async () =>
+                          unlessDenied(
+                            await splitTransaction({
+                              sessionToken,
+                              documentId,
+                              index: t.index,
+                              parts: current.parts.map((p) => ({ amount: Number(p.amount), category: p.category })),
+                            })
+                          ),
+                        "Failed to split transaction"
+                      )
+                    }
+                  >
+                    Split
+                  </button>
+                  <button onClick={() => setEditing(null)} style={{ ...iconButtonStyle, color: "#666" }}>
+                    Cancel
+                  </button>
+                </div>
+              </li>
+            );
+          }
+          return (
+            <li
+              key={t._id}
+              style={{
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                padding: "10px 0",
+                fontSize: "0.9rem",
+                display: "flex",
+                justifyContent: "space-between",
+              }}
+            >
+              <span>
+                <span style={{ color: "#718096", marginRight: "10px" }}>{t.date}</span>
+                <strong title={t.rawMerchant ? `On the statement: ${t.rawMerchant}` : undefined}>{t.merchant}</strong>
+                <select
+                  value={t.category}
+                  onChange={(e) => onRecategorize(t.index, e.target.value as TransactionCategory)}
+                  title={
+                    t.categorySource === "rule"
+                      ? `Set by a rule or the merchant registry (AI said ${t.modelCategory})`
+                      : t.categorySource === "user"
+                        ? "Set by you"
+                        : "Set by AI"
+                  }
+                  style={{
+                    marginLeft: "10px",
+                    fontSize: "0.8em",
+                    backgroundColor: "var(--mint-light)",
+                    padding: "2px 6px",
+                    borderRadius: "4px",
+                    border: t.categorySource ? "1px solid var(--mint-primary)" : "none",
+                  }}
+                >
+                  {TRANSACTION_CATEGORIES.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+                {t.edited && (
+                  <span style={{ marginLeft: "6px", fontSize: "0.75rem", color: "#888" }} title="Corrected by hand">
+                    ✏️ edited
+                  </span>
+                )}
+              </span>
+              <span style={{ whiteSpace: "nowrap" }}>
+                <strong>{formatMoney(t.amount, t.currency)}</strong>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          index: t.index,
+                          mode: "edit",
+                          draft: { date: t.date, merchant: t.merchant, amount: String(t.amount), category: t.category },
+                        })
+                      }
+                      style={iconButtonStyle}
+                      title="Edit"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          index: t.index,
+                          mode: "split",
+                          parts: [
+                            { amount: String(t.amount), category: t.category },
+                            { amount: "", category: t.category },
+                          ],
+                        })
+                      }
+                      style={iconButtonStyle}
+                      title="Split"
+                    >
+                      ✂️
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!confirm(`Delete ${t.merchant} (${formatMoney(t.amount, t.currency)}) from this statement?`)) return;
+                        run(
+                          async () => unlessDenied(await removeTransaction({ sessionToken, documentId, index: t.index })),
+                          "Failed to delete transaction"
+                        );
+                      }}
+                      style={iconButtonStyle}
+                      title="Delete"
+                    >
+                      🗑️
+                    </button>
+                  </>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {status === "CanLoadMore" && (
+        <button className="btn-mint" style={{ padding: "4px 14px", marginTop: "8px" }} onClick={() => loadMore(PAGE_SIZE)}>
+          Load more
+        </button>
+      )}
+      {status === "LoadingMore" && <p style={{ fontSize: "0.85rem", color: "#666" }}>Loading...</p>}
+
+      {canEdit &&
+        (adding ? (
+          <div style={{ display: "flex", gap: "6px", flexWrap: "wrap", alignItems: "center", marginTop: "8px" }}>
+            <RowFields draft={adding} onChange={setAdding} />
+            <button
+              className="btn-mint"
+              style={{ padding: "4px 14px" }}
+              onClick={() =>
+                run(
+                  async () => unlessDenied(await addTransaction({ sessionToken, documentId, transaction: rowInput(adding) })),
+                  "Failed to add transaction"
+                )
+              }
+            >
+              Add
+            </button>
+            <button onClick={() => setAdding(null)} style={{ ...iconButtonStyle, color: "#666" }}>
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setAdding(EMPTY_ROW)} style={{ ...iconButtonStyle, color: "var(--mint-dark)", marginTop: "8px" }}>
+            + Add transaction
+          </button>
+        ))}
+      {message && <p style={{ fontSize: "0.85rem", color: "#e53e3e", margin: "6px 0 0" }}>{message}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,172 @@
+// Spending insights over a date range: month-over-month, category shifts, weekday against weekend
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { formatMoney } from "../utils/money";
+import { monthLabel } from "../utils/dates";
+
+interface InsightsPanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+  uploaderId?: Id<"users">; // The uploader filter of the documents list
+}
+
+interface Range {
+  from: string;
+  to: string;
+}
+
+const EMPTY_RANGE: Range = { from: "", to: "" };
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  padding: "4px 0",
+  borderBottom: "1px solid rgba(0,0,0,0.05)",
+};
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+// Spending going up is shown in red, going down in mint
+function changeColor(change: number): string {
+  return change > 0 ? "#e53e3e" : "var(--mint-dark)";
+}
+
+export function InsightsPanel({ sessionToken, workspaceId, uploaderId }: InsightsPanelProps) {
+  // Edited in the form, sent to the server on "Apply"
+  const [draft, setDraft] = useState<Range>(EMPTY_RANGE);
+  const [range, setRange] = useState<Range>(EMPTY_RANGE);
+  const insights = useQuery(api.insights.get, {
+    sessionToken,
+    workspaceId,
+    uploaderId,
+    from: range.from || undefined,
+    to: range.to || undefined,
+  });
+
+  const latest = insights?.months[insights.months.length - 1];
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        📈 Insights
+      </summary>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setRange(draft);
+        }}
+        style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center", margin: "var(--space-sm) 0", fontSize: "0.9rem" }}
+      >
+        <input type="date" title="From" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} style={inputStyle} />
+        <input type="date" title="To" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} style={inputStyle} />
+        <button type="submit" className="btn-mint" style={{ padding: "4px 14px" }} disabled={!!draft.from && !!draft.to && draft.from > draft.to}>
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(EMPTY_RANGE);
+            setRange(EMPTY_RANGE);
+          }}
+          style={{ border: "none", background: "transparent", color: "#666", cursor: "pointer" }}
+        >
+          All time
+        </button>
+      </form>
+
+      {!insights ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : insights.days === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No analysed statements cover this range.</p>
+      ) : (
+        <div style={{ fontSize: "0.9rem" }}>
+          <p style={{ margin: "0 0 var(--space-sm)" }}>
+            <strong>{formatMoney(insights.totalSpent, insights.currency)}</strong> over {insights.days} days ({insights.from} ~{" "}
+            {insights.to}), <strong>{formatMoney(insights.averageDailySpent, insights.currency)}</strong> a day
+          </p>
+          {insights.missingRates.length > 0 && (
+            <p style={{ fontSize: "0.8rem", color: "#b7791f", margin: "0 0 var(--space-sm)" }}>
+              Left out for lack of an exchange rate: {insights.missingRates.join(", ")}
+            </p>
+          )}
+
+          <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>Month by month</h4>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {insights.months.map((m) => (
+              <li key={m.month} style={rowStyle}>
+                <span>
+                  {monthLabel(m.month)}
+                  <span style={{ color: "#888" }}> • {m.days} days covered</span>
+                </span>
+                <span>
+                  <strong>{formatMoney(m.totalSpent, insights.currency)}</strong>
+                  {m.change !== null && (
+                    <span style={{ color: changeColor(m.change), marginLeft: "8px" }}>
+                      {m.change > 0 ? "▲" : "▼"} {formatMoney(Math.abs(m.change), insights.currency)}
+                      {m.changeRatio !== null && ` (${percent(Math.abs(m.changeRatio))})`}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {latest && insights.categoryShifts.length > 0 && (
+            <>
+              <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>
+                Category shares, {monthLabel(latest.month)} against the month before
+              </h4>
+              <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+                {insights.categoryShifts.map((c) => (
+                  <li key={c.category} style={rowStyle}>
+                    <span>{c.category}</span>
+                    <span>
+                      {percent(c.previousShare)} → <strong>{percent(c.share)}</strong>
+                      {c.change !== 0 && (
+                        <span style={{ color: changeColor(c.change), marginLeft: "8px" }}>
+                          {c.change > 0 ? "+" : "−"}
+                          {Math.round(Math.abs(c.change) * 100)} pts
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>Weekdays and weekends</h4>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {[
+              { label: "Weekdays", split: insights.weekday },
+              { label: "Weekends", split: insights.weekend },
+            ].map(({ label, split }) => (
+              <li key={label} style={rowStyle}>
+                <span>
+                  {label}
+                  <span style={{ color: "#888" }}> • {split.days} days</span>
+                </span>
+                <span>
+                  <strong>{formatMoney(split.averageDailySpent, insights.currency)}</strong> a day
+                  <span style={{ color: "#888" }}> ({formatMoney(split.totalSpent, insights.currency)})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+}
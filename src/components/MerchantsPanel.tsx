@@ -0,0 +1,488 @@
+// Merchant registry: canonical names with their aliases, default categories and branding,
+// grouping and splitting merchants, and spend per merchant month by month
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+import { MERCHANT_ALIAS_MATCHES, MerchantAlias } from "../../convex/domain/services/merchants";
+import { formatMoney } from "../utils/money";
+import { monthLabel } from "../utils/dates";
+import { unlessDenied } from "../utils/access";
+
+interface MerchantsPanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}
+
+interface MerchantDraft {
+  name: string;
+  aliases: MerchantAlias[];
+  defaultCategory: TransactionCategory | ""; // "" keeps the model's (or a rule's) category
+  logoUrl: string;
+  color: string;
+}
+
+// Which merchant the form is open for; "new" registers one
+type Editing = { merchantId: Id<"merchants"> | "new"; draft: MerchantDraft };
+
+interface Splitting {
+  merchantId: Id<"merchants">;
+  indexes: number[];
+  name: string;
+}
+
+const EMPTY_DRAFT: MerchantDraft = { name: "", aliases: [], defaultCategory: "", logoUrl: "", color: "" };
+
+const ALIAS_MATCH_LABELS: Record<MerchantAlias["match"], string> = {
+  name: "Name",
+  contains: "Contains",
+  regex: "Regex",
+};
+
+// Merchants with the most spend shown; the rest are a click away in the transactions panel
+const SPEND_ROWS = 15;
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  gap: "8px",
+  padding: "6px 0",
+  borderBottom: "1px solid rgba(0,0,0,0.05)",
+};
+
+const linkStyle: React.CSSProperties = {
+  border: "none",
+  background: "transparent",
+  cursor: "pointer",
+  padding: "0 4px",
+};
+
+function draftOf(merchant: Doc<"merchants">): MerchantDraft {
+  return {
+    name: merchant.name,
+    aliases: merchant.aliases,
+    defaultCategory: merchant.defaultCategory ?? "",
+    logoUrl: merchant.logoUrl ?? "",
+    color: merchant.color ?? "",
+  };
+}
+
+function fieldsOf(draft: MerchantDraft) {
+  return {
+    name: draft.name,
+    aliases: draft.aliases,
+    defaultCategory: draft.defaultCategory || undefined,
+    logoUrl: draft.logoUrl || undefined,
+    color: draft.color || undefined,
+  };
+}
+
+function MerchantBadge({ name, merchant }: { name: string; merchant?: Doc<"merchants"> }) {
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", gap: "6px" }}>
+      {merchant?.logoUrl ? (
+        <img src={merchant.logoUrl} alt="" width={16} height={16} style={{ borderRadius: "4px", objectFit: "contain" }} />
+      ) : (
+        <span
+          style={{
+            width: "10px",
+            height: "10px",
+            borderRadius: "50%",
+            background: merchant?.color ?? "rgba(0,0,0,0.15)",
+            display: "inline-block",
+          }}
+        />
+      )}
+      <strong>{name}</strong>
+    </span>
+  );
+}
+
+function MerchantForm({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  draft: MerchantDraft;
+  onChange: (draft: MerchantDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const setAlias = (i: number, alias: MerchantAlias) => onChange({ ...draft, aliases: draft.aliases.map((a, j) => (j === i ? alias : a)) });
+  return (
+    <div style={{ padding: "8px 0", fontSize: "0.9rem" }}>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+        <input value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="Name" style={inputStyle} />
+        <select
+          value={draft.defaultCategory}
+          onChange={(e) => onChange({ ...draft, defaultCategory: e.target.value as TransactionCategory | "" })}
+          style={inputStyle}
+          title="Default category"
+        >
+          <option value="">No default category</option>
+          {TRANSACTION_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          type="color"
+          value={draft.color || "#3eb489"}
+          onChange={(e) => onChange({ ...draft, color: e.target.value })}
+          title="Colour"
+          style={{ ...inputStyle, width: "40px", padding: "0 2px" }}
+        />
+        <input
+          value={draft.logoUrl}
+          onChange={(e) => onChange({ ...draft, logoUrl: e.target.value })}
+          placeholder="Logo URL (https)"
+          style={{ ...inputStyle, width: "180px" }}
+        />
+      </div>
+      {draft.aliases.map((alias, i) => (
+        <div key={i} style={{ display: "flex", gap: "6px", alignItems: "center", marginTop: "6px" }}>
+          <select value={alias.match} onChange={(e) => setAlias(i, { ...alias, match: e.target.value as MerchantAlias["match"] })} style={inputStyle}>
+            {MERCHANT_ALIAS_MATCHES.map((m) => (
+              <option key={m} value={m}>
+                {ALIAS_MATCH_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <input value={alias.pattern} onChange={(e) => setAlias(i, { ...alias, pattern: e.target.value })} placeholder="e.g. TESCO STORES" style={inputStyle} />
+          <button
+            onClick={() => onChange({ ...draft, aliases: draft.aliases.filter((_, j) => j !== i) })}
+            style={{ ...linkStyle, color: "#e53e3e" }}
+            title="Remove alias"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: "8px", alignItems: "center", marginTop: "8px" }}>
+        <button
+          onClick={() => onChange({ ...draft, aliases: [...draft.aliases, { match: "contains", pattern: "" }] })}
+          style={{ ...linkStyle, color: "var(--mint-dark)" }}
+        >
+          + Alias
+        </button>
+        <button className="btn-mint" style={{ padding: "4px 14px" }} disabled={!draft.name.trim()} onClick={onSave}>
+          Save
+        </button>
+        <button onClick={onCancel} style={{ ...linkStyle, color: "#666" }}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function MerchantsPanel({ sessionToken, workspaceId, canEdit }: MerchantsPanelProps) {
+  const merchants = useQuery(api.merchants.list, { sessionToken, workspaceId });
+  const spending = useQuery(api.merchants.spending, { sessionToken, workspaceId });
+  const createMerchant = useMutation(api.merchants.create);
+  const updateMerchant = useMutation(api.merchants.update);
+  const removeMerchant = useMutation(api.merchants.remove);
+  const mergeMerchant = useMutation(api.merchants.merge);
+  const splitMerchant = useMutation(api.merchants.split);
+
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [splitting, setSplitting] = useState<Splitting | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Statement names picked in the spend list to group under one merchant
+  const [picked, setPicked] = useState<string[]>([]);
+  const [groupName, setGroupName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const byName = new Map((merchants ?? []).map((m) => [m.name, m]));
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setMessage(null);
+      return true;
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+      return false;
+    }
+  };
+
+  const save = async ({ merchantId, draft }: Editing) => {
+    const saved = await run(
+      async () =>
+        unlessDenied(
+          merchantId === "new"
+            ? await createMerchant({ sessionToken, workspaceId, ...fieldsOf(draft) })
+            : await updateMerchant({ sessionToken, merchantId, ...fieldsOf(draft) })
+        ),
+      "Failed to save merchant"
+    );
+    if (saved) setEditing(null);
+  };
+
+  // Picked names join an existing merchant as aliases, or become a new one
+  const group = async () => {
+    const aliases = picked.map((pattern): MerchantAlias => ({ match: "name", pattern }));
+    const existing = byName.get(groupName.trim());
+    const grouped = await run(
+      async () =>
+        unlessDenied(
+          existing
+            ? await updateMerchant({ sessionToken, merchantId: existing._id, ...fieldsOf(draftOf(existing)), aliases: [...existing.aliases, ...aliases] })
+            : await createMerchant({ sessionToken, workspaceId, name: groupName, aliases })
+        ),
+      "Failed to group merchants"
+    );
+    if (grouped) {
+      setPicked([]);
+      setGroupName("");
+    }
+  };
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🏪 Merchants{merchants && merchants.length > 0 && ` (${merchants.length})`}
+      </summary>
+
+      <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>Spend by merchant</h4>
+      {!spending ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : spending.merchants.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No analysed statements yet.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, fontSize: "0.9rem" }}>
+          {spending.merchants.slice(0, SPEND_ROWS).map((m) => (
+            <li key={`${m.registered}:${m.name}`} style={{ borderBottom: "1px solid rgba(0,0,0,0.05)" }}>
+              <div style={{ ...rowStyle, borderBottom: "none" }}>
+                <span style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                  {canEdit && !m.registered && (
+                    <input
+                      type="checkbox"
+                      checked={m.spellings.every((s) => picked.includes(s))}
+                      onChange={(e) =>
+                        setPicked(e.target.checked ? [...picked, ...m.spellings] : picked.filter((s) => !m.spellings.includes(s)))
+                      }
+                      title="Pick to group under one merchant"
+                    />
+                  )}
+                  <button onClick={() => setExpanded(expanded === m.name ? null : m.name)} style={{ ...linkStyle, padding: 0 }}>
+                    <MerchantBadge name={m.name} merchant={byName.get(m.name)} />
+                  </button>
+                  {m.spellings.length > 1 && (
+                    <span style={{ color: "#888", fontSize: "0.8rem" }} title={m.spellings.join("\n")}>
+                      {m.spellings.length} spellings
+                    </span>
+                  )}
+                </span>
+                <span>
+                  <strong>{formatMoney(m.totalSpent, spending.currency)}</strong>
+                  <span style={{ color: "#888" }}> • {m.transactions}</span>
+                </span>
+              </div>
+              {expanded === m.name && (
+                <ul style={{ listStyle: "none", padding: "0 0 6px 22px", margin: 0, fontSize: "0.85rem", color: "#555" }}>
+                  {m.months.map((month) => (
+                    <li key={month.month} style={{ display: "flex", justifyContent: "space-between" }}>
+                      <span>{monthLabel(month.month)}</span>
+                      <span>
+                        {formatMoney(month.totalSpent, spending.currency)} ({month.transactions})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {spending && spending.missingRates.length > 0 && (
+        <p style={{ fontSize: "0.8rem", color: "#888" }}>Not counted (no exchange rate): {spending.missingRates.join(", ")}</p>
+      )}
+      {canEdit && picked.length > 0 && (
+        <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap", marginTop: "var(--space-sm)", fontSize: "0.9rem" }}>
+          <input
+            list="merchant-names"
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="New or existing merchant"
+            style={inputStyle}
+          />
+          <datalist id="merchant-names">
+            {(merchants ?? []).map((m) => (
+              <option key={m._id} value={m.name} />
+            ))}
+          </datalist>
+          <button className="btn-mint" style={{ padding: "4px 14px" }} disabled={!groupName.trim()} onClick={group}>
+            Group {picked.length} {picked.length === 1 ? "name" : "names"}
+          </button>
+          <button onClick={() => setPicked([])} style={{ ...linkStyle, color: "#666" }}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>Registry</h4>
+      {merchants && merchants.length === 0 && (
+        <p className="body-text" style={{ color: "#666" }}>
+          No merchants yet. Register one to bring a shop's different spellings together under one name.
+        </p>
+      )}
+      <ul style={{ listStyle: "none", padding: 0, margin: 0, fontSize: "0.9rem" }}>
+        {(merchants ?? []).map((m) =>
+          editing?.merchantId === m._id ? (
+            <li key={m._id}>
+              <MerchantForm
+                draft={editing.draft}
+                onChange={(draft) => setEditing({ ...editing, draft })}
+                onSave={() => save(editing)}
+                onCancel={() => setEditing(null)}
+              />
+            </li>
+          ) : (
+            <li key={m._id} style={{ padding: "6px 0", borderBottom: "1px solid rgba(0,0,0,0.05)" }}>
+              <div style={{ ...rowStyle, borderBottom: "none", padding: 0 }}>
+                <span>
+                  <MerchantBadge name={m.name} merchant={m} />
+                  {m.defaultCategory && <span style={{ color: "#888", marginLeft: "8px" }}>→ {m.defaultCategory}</span>}
+                </span>
+                {canEdit && (
+                  <span style={{ whiteSpace: "nowrap" }}>
+                    <button onClick={() => setEditing({ merchantId: m._id, draft: draftOf(m) })} style={linkStyle} title="Edit">
+                      ✏️
+                    </button>
+                    {m.aliases.length > 0 && (
+                      <button onClick={() => setSplitting({ merchantId: m._id, indexes: [], name: "" })} style={linkStyle} title="Split aliases off">
+                        ✂️
+                      </button>
+                    )}
+                    {merchants && merchants.length > 1 && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const into = merchants.find((other) => other._id === e.target.value);
+                          if (!into || !confirm(`Merge ${m.name} into ${into.name}?`)) return;
+                          run(async () => unlessDenied(await mergeMerchant({ sessionToken, intoId: into._id, fromId: m._id })), "Failed to merge merchants");
+                        }}
+                        style={{ ...inputStyle, padding: "2px 4px", fontSize: "0.8rem" }}
+                        title="Merge into another merchant"
+                      >
+                        <option value="">Merge into…</option>
+                        {merchants
+                          .filter((other) => other._id !== m._id)
+                          .map((other) => (
+                            <option key={other._id} value={other._id}>
+                              {other.name}
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (!confirm(`Remove ${m.name}? Its transactions go back to the statements' own names.`)) return;
+                        run(async () => unlessDenied(await removeMerchant({ sessionToken, merchantId: m._id })), "Failed to remove merchant");
+                      }}
+                      style={{ ...linkStyle, color: "#e53e3e" }}
+                      title="Remove merchant"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                )}
+              </div>
+              {m.aliases.length > 0 && (
+                <div style={{ display: "flex", gap: "4px", flexWrap: "wrap", marginTop: "4px" }}>
+                  {m.aliases.map((alias, i) => {
+                    const splittingThis = splitting?.merchantId === m._id;
+                    return (
+                      <label
+                        key={i}
+                        style={{ fontSize: "0.75rem", background: "var(--mint-light)", borderRadius: "4px", padding: "2px 6px" }}
+                        title={ALIAS_MATCH_LABELS[alias.match]}
+                      >
+                        {splittingThis && (
+                          <input
+                            type="checkbox"
+                            checked={splitting.indexes.includes(i)}
+                            onChange={(e) =>
+                              setSplitting({
+                                ...splitting,
+                                indexes: e.target.checked ? [...splitting.indexes, i] : splitting.indexes.filter((j) => j !== i),
+                              })
+                            }
+                            style={{ marginRight: "4px" }}
+                          />
+                        )}
+                        {alias.match === "name" ? alias.pattern : `${alias.match}: ${alias.pattern}`}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+              {splitting?.merchantId === m._id && (
+                <div style={{ display: "flex", gap: "8px", alignItems: "center", marginTop: "6px" }}>
+                  <input
+                    value={splitting.name}
+                    onChange={(e) => setSplitting({ ...splitting, name: e.target.value })}
+                    placeholder="New merchant for the picked aliases"
+                    style={inputStyle}
+                  />
+                  <button
+                    className="btn-mint"
+                    style={{ padding: "4px 14px" }}
+                    disabled={splitting.indexes.length === 0 || !splitting.name.trim()}
+                    onClick={async () => {
+                      const done = await run(
+                        async () =>
+                          unlessDenied(
+                            await splitMerchant({ sessionToken, merchantId: m._id, aliasIndexes: splitting.indexes, name: splitting.name })
+                          ),
+                        "Failed to split merchant"
+                      );
+                      if (done) setSplitting(null);
+                    }}
+                  >
+                    Split
+                  </button>
+                  <button onClick={() => setSplitting(null)} style={{ ...linkStyle, color: "#666" }}>
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        )}
+      </ul>
+
+      {canEdit &&
+        (editing?.merchantId === "new" ? (
+          <MerchantForm
+            draft={editing.draft}
+            onChange={(draft) => setEditing({ ...editing, draft })}
+            onSave={() => save(editing)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            onClick={() => setEditing({ merchantId: "new", draft: EMPTY_DRAFT })}
+            style={{ ...linkStyle, color: "var(--mint-dark)", marginTop: "var(--space-sm)" }}
+          >
+            + Add merchant
+          </button>
+        ))}
+      {message && <p style={{ fontSize: "0.85rem", color: "#e53e3e", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
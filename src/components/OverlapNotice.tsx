@@ -0,0 +1,96 @@
+// Document card notice for a statement that repeats earlier ones: skip, replace or merge
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { OverlapKind, OverlapResolution } from "../../convex/domain/services/overlap";
+import { unlessDenied } from "../utils/access";
+
+interface OverlapNoticeProps {
+  documentId: Id<"documents">;
+  sessionToken: string;
+  canEdit: boolean;
+  overlap: {
+    kind: OverlapKind;
+    documents: Array<{ _id: Id<"documents">; title: string }>; // The earlier documents still in the workspace
+    sharedTransactions?: number;
+    from?: string;
+    to?: string;
+    merged?: boolean;
+  };
+}
+
+const optionStyle: React.CSSProperties = {
+  border: "none",
+  background: "transparent",
+  color: "var(--mint-dark)",
+  cursor: "pointer",
+  fontSize: "0.85rem",
+  textDecoration: "underline",
+};
+
+export function OverlapNotice({ documentId, sessionToken, canEdit, overlap }: OverlapNoticeProps) {
+  const resolveOverlap = useMutation(api.documents.resolveOverlap);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const earlier = overlap.documents.map((d) => `"${d.title}"`).join(", ") || "an earlier document";
+  const found =
+    overlap.kind === "duplicate"
+      ? `This file was already uploaded as ${earlier}.`
+      : `${overlap.sharedTransactions} transactions (${overlap.from} ~ ${overlap.to}) also appear in ${earlier}.`;
+
+  if (overlap.merged) {
+    return (
+      <div style={{ marginTop: "10px", fontSize: "0.8rem", color: "#888" }}>
+        📑 {found} Shared transactions are counted once.
+      </div>
+    );
+  }
+
+  const resolve = async (resolution: OverlapResolution, question?: string) => {
+    if (question && !confirm(question)) return;
+    try {
+      unlessDenied(await resolveOverlap({ documentId, sessionToken, resolution }));
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : "Failed to resolve the overlap");
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: "10px",
+        padding: "10px 14px",
+        borderRadius: "12px",
+        background: "rgba(255, 243, 205, 0.6)",
+        border: "1px solid rgba(183, 121, 31, 0.2)",
+      }}
+    >
+      <div style={{ fontSize: "0.85rem", color: "#856404" }}>
+        📑 {found}{" "}
+        {overlap.kind === "duplicate"
+          ? "It won't be analysed until you choose what to do."
+          : "Until you choose, shared transactions are counted once."}
+      </div>
+      {canEdit ? (
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", marginTop: "6px" }}>
+          <button style={optionStyle} onClick={() => resolve("skip", "Delete this upload and keep the earlier document?")}>
+            Skip this upload
+          </button>
+          <button style={optionStyle} onClick={() => resolve("replace", `Delete ${earlier} and keep this upload?`)}>
+            Replace the earlier one
+          </button>
+          <button style={optionStyle} onClick={() => resolve("merge")}>
+            Keep both, count shared transactions once
+          </button>
+        </div>
+      ) : (
+        <div style={{ fontSize: "0.8rem", color: "#888", marginTop: "4px" }}>An editor of this workspace can resolve it.</div>
+      )}
+      {message && <p style={{ fontSize: "0.85rem", color: "#c53030", margin: "6px 0 0" }}>{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+// Savings goals: a target amount by a deadline, measured as spending cut against a baseline month,
+// with the projected completion date and whether the goal is on pace
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+import { SavingsStatus } from "../../convex/domain/services/savings";
+import { formatMoney } from "../utils/money";
+import { monthLabel } from "../utils/dates";
+
+interface SavingsGoalsPanelProps {
+  sessionToken: string;
+}
+
+interface GoalDraft {
+  name: string;
+  targetAmount: string;
+  deadline: string;
+  categories: TransactionCategory[]; // None: all spending
+  baselineMonth: string; // "" takes the latest covered month; fixed once the goal is set
+}
+
+// Which goal the form is open for; "new" sets one
+type Editing = { goalId: Id<"savingsGoals"> | "new"; draft: GoalDraft };
+
+const EMPTY_DRAFT: GoalDraft = { name: "", targetAmount: "", deadline: "", categories: [], baselineMonth: "" };
+
+const STATUS_LABELS: Record<SavingsStatus, { label: string; color: string }> = {
+  achieved: { label: "🎉 Achieved", color: "var(--mint-dark)" },
+  on_pace: { label: "✅ On pace", color: "var(--mint-dark)" },
+  behind: { label: "⚠️ Behind pace", color: "#dd6b20" },
+  missed: { label: "⏰ Deadline passed", color: "#e53e3e" },
+  no_data: { label: "⏳ Waiting for statements", color: "#888" },
+};
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+const linkStyle: React.CSSProperties = {
+  border: "none",
+  background: "transparent",
+  cursor: "pointer",
+  padding: "0 4px",
+};
+
+function GoalForm({
+  draft,
+  baselineMonths,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  draft: GoalDraft;
+  baselineMonths: string[] | null; // null while editing: the baseline stays
+  onChange: (draft: GoalDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const toggle = (category: TransactionCategory, on: boolean) =>
+    onChange({ ...draft, categories: on ? [...draft.categories, category] : draft.categories.filter((c) => c !== category) });
+  return (
+    <div style={{ padding: "8px 0", fontSize: "0.9rem" }}>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+        <input value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="e.g. Fewer takeaways" style={inputStyle} />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={draft.targetAmount}
+          onChange={(e) => onChange({ ...draft, targetAmount: e.target.value })}
+          placeholder="Amount to save"
+          style={{ ...inputStyle, width: "120px" }}
+        />
+        <input type="date" title="Deadline" value={draft.deadline} onChange={(e) => onChange({ ...draft, deadline: e.target.value })} style={inputStyle} />
+        {baselineMonths && (
+          <select value={draft.baselineMonth} onChange={(e) => onChange({ ...draft, baselineMonth: e.target.value })} style={inputStyle} title="Baseline month">
+            {baselineMonths.map((m, i) => (
+              <option key={m} value={i === 0 ? "" : m}>
+                Against {monthLabel(m)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <div style={{ display: "flex", gap: "10px", flexWrap: "wrap", margin: "8px 0", fontSize: "0.85rem" }}>
+        {TRANSACTION_CATEGORIES.map((c) => (
+          <label key={c}>
+            <input type="checkbox" checked={draft.categories.includes(c)} onChange={(e) => toggle(c, e.target.checked)} /> {c}
+          </label>
+        ))}
+        <span style={{ color: "#888" }}>{draft.categories.length === 0 && "(none ticked: all spending)"}</span>
+      </div>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <button
+          className="btn-mint"
+          style={{ padding: "4px 14px" }}
+          disabled={!draft.name.trim() || !(Number(draft.targetAmount) > 0) || !draft.deadline}
+          onClick={onSave}
+        >
+          Save
+        </button>
+        <button onClick={onCancel} style={{ ...linkStyle, color: "#666" }}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function SavingsGoalsPanel({ sessionToken }: SavingsGoalsPanelProps) {
+  const data = useQuery(api.savingsGoals.list, { sessionToken });
+  const createGoal = useMutation(api.savingsGoals.create);
+  const updateGoal = useMutation(api.savingsGoals.update);
+  const removeGoal = useMutation(api.savingsGoals.remove);
+
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setMessage(null);
+      return true;
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+      return false;
+    }
+  };
+
+  const save = async ({ goalId, draft }: Editing) => {
+    const fields = {
+      name: draft.name,
+      targetAmount: Number(draft.targetAmount),
+      deadline: draft.deadline,
+      categories: draft.categories.length > 0 ? draft.categories : undefined,
+    };
+    const saved = await run(
+      () =>
+        goalId === "new"
+          ? createGoal({ sessionToken, ...fields, baselineMonth: draft.baselineMonth || undefined })
+          : updateGoal({ sessionToken, goalId, ...fields }),
+      "Failed to save goal"
+    );
+    if (saved) setEditing(null);
+  };
+
+  const onTrack = data?.goals.filter((g) => g.progress.status === "on_pace" || g.progress.status === "achieved").length ?? 0;
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }} open>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🐷 Savings Goals{data && data.goals.length > 0 && ` — ${onTrack} of ${data.goals.length} on track`}
+      </summary>
+
+      {!data ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : data.goals.length === 0 && editing?.goalId !== "new" ? (
+        <p className="body-text" style={{ color: "#666" }}>
+          No goals yet. Turn the advice on your statements into a target: how much to save, by when, and on which categories.
+        </p>
+      ) : null}
+
+      <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+        {data?.goals.map((goal) => {
+          const { progress } = goal;
+          const status = STATUS_LABELS[progress.status];
+          if (editing?.goalId === goal._id) {
+            return (
+              <li key={goal._id}>
+                <GoalForm
+                  draft={editing.draft}
+                  baselineMonths={null}
+                  onChange={(draft) => setEditing({ ...editing, draft })}
+                  onSave={() => save(editing)}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            );
+          }
+          return (
+            <li key={goal._id} style={{ padding: "8px 0", fontSize: "0.9rem", borderBottom: "1px solid rgba(0,0,0,0.05)" }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <span>
+                  <strong>{goal.name}</strong>
+                  <span style={{ color: "#888" }}> • {goal.categories?.join(", ") ?? "All spending"}</span>
+                </span>
+                <span style={{ whiteSpace: "nowrap" }}>
+                  <span style={{ color: status.color, fontWeight: 600 }}>{status.label}</span>
+                  <button
+                    onClick={() =>
+                      setEditing({
+                        goalId: goal._id,
+                        draft: {
+                          name: goal.name,
+                          targetAmount: String(goal.targetAmount),
+                          deadline: goal.deadline,
+                          categories: goal.categories ?? [],
+                          baselineMonth: goal.baselineMonth,
+                        },
+                      })
+                    }
+                    style={linkStyle}
+                    title="Edit goal"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (!confirm(`Delete the goal "${goal.name}"?`)) return;
+                      run(() => removeGoal({ sessionToken, goalId: goal._id }), "Failed to delete goal");
+                    }}
+                    style={{ ...linkStyle, color: "#e53e3e" }}
+                    title="Delete goal"
+                  >
+                    ✕
+                  </button>
+                </span>
+              </div>
+              <div style={{ height: "8px", borderRadius: "4px", background: "rgba(0,0,0,0.08)", overflow: "hidden", margin: "6px 0" }}>
+                <div
+                  style={{
+                    width: `${Math.min(Math.max(progress.ratio, 0), 1) * 100}%`,
+                    height: "100%",
+                    background: status.color,
+                  }}
+                />
+              </div>
+              <div style={{ fontSize: "0.8rem", color: "#666" }}>
+                {formatMoney(progress.saved, goal.currency)} of {formatMoney(goal.targetAmount, goal.currency)} saved by {goal.deadline}
+                {progress.baseline
+                  ? ` • against ${formatMoney(progress.baseline.dailySpent, goal.currency)} a day in ${monthLabel(progress.baseline.month)}`
+                  : ` • no statement covers ${monthLabel(goal.baselineMonth)} any more`}
+              </div>
+              {progress.status !== "achieved" && progress.days > 0 && (
+                <div style={{ fontSize: "0.8rem", color: "#666" }}>
+                  Saving {formatMoney(progress.dailySaving, goal.currency)} a day (to {progress.measuredTo})
+                  {progress.projectedDate ? ` • on course for ${progress.projectedDate}` : " • not on course to reach it"}
+                  {progress.requiredDailySaving !== null && ` • ${formatMoney(progress.requiredDailySaving, goal.currency)} a day needed`}
+                </div>
+              )}
+              {progress.months.length > 1 && (
+                <div style={{ fontSize: "0.8rem", color: "#888" }}>
+                  {progress.months.map((m) => `${monthLabel(m.month)}: ${formatMoney(m.saved, goal.currency)}`).join(" • ")}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {data && data.missingRates.length > 0 && (
+        <p style={{ fontSize: "0.8rem", color: "#888" }}>Not counted (no exchange rate): {data.missingRates.join(", ")}</p>
+      )}
+
+      {data &&
+        (editing?.goalId === "new" ? (
+          <GoalForm
+            draft={editing.draft}
+            baselineMonths={data.baselineMonths}
+            onChange={(draft) => setEditing({ ...editing, draft })}
+            onSave={() => save(editing)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : data.baselineMonths.length === 0 ? (
+          <p style={{ fontSize: "0.85rem", color: "#888" }}>Goals are measured against an earlier month: analyse a past statement to set one.</p>
+        ) : (
+          <button onClick={() => setEditing({ goalId: "new", draft: EMPTY_DRAFT })} style={{ ...linkStyle, color: "var(--mint-dark)" }}>
+            + New goal ({data.currency})
+          </button>
+        ))}
+      {message && <p style={{ fontSize: "0.85rem", color: "#e53e3e", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,55 @@
+// Sign-in activity panel: failed attempts, lockouts and unlocks on my code
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+interface SignInActivityProps {
+  sessionToken: string;
+}
+
+const EVENT_LABELS = {
+  failed_attempt: "❌ Wrong password",
+  locked: "🔒 Locked",
+  unlocked: "🔓 Unlocked",
+} as const;
+
+export function SignInActivity({ sessionToken }: SignInActivityProps) {
+  const events = useQuery(api.users.recentAuthEvents, { sessionToken });
+  const failures = events?.filter((e) => e.type === "failed_attempt").length ?? 0;
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🔐 Sign-in Activity{failures > 0 && ` (${failures} failed)`}
+      </summary>
+
+      {!events ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No failed sign-in attempts on your code.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+          {events.map((event) => (
+            <li
+              key={event._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.9rem",
+              }}
+            >
+              <span>
+                {EVENT_LABELS[event.type]}
+                {event.lockedUntil !== undefined &&
+                  ` until ${new Date(event.lockedUntil).toLocaleTimeString("en-GB")}`}
+              </span>
+              <span style={{ color: "#666" }}>{new Date(event.timestamp).toLocaleString("en-GB")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,155 @@
+// Subscriptions panel: recurring charges across statements, with review and cancellation tracking
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { CancellationOutcome, SubscriptionStatus } from "../../convex/domain/services/subscriptions";
+import { formatMoney } from "../utils/money";
+import { unlessDenied } from "../utils/access";
+
+interface SubscriptionsPanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}
+
+const OUTCOME_LABELS: Record<CancellationOutcome, string> = {
+  pending: "⏳ Waiting for a statement past the next due date",
+  stopped: "✅ Charge stopped",
+  still_charging: "⚠️ Still being charged",
+};
+
+const ACTIONS: Array<{ status: SubscriptionStatus; label: string }> = [
+  { status: "confirmed", label: "Confirm" },
+  { status: "ignored", label: "Ignore" },
+  { status: "cancelled", label: "Cancelled" },
+];
+
+const actionStyle: React.CSSProperties = {
+  border: "none",
+  background: "transparent",
+  color: "var(--mint-dark)",
+  cursor: "pointer",
+  fontSize: "0.8rem",
+  textDecoration: "underline",
+};
+
+export function SubscriptionsPanel({ sessionToken, workspaceId, canEdit }: SubscriptionsPanelProps) {
+  const subscriptions = useQuery(api.subscriptions.list, { sessionToken, workspaceId });
+  const setStatus = useMutation(api.subscriptions.setStatus);
+  const rescan = useMutation(api.subscriptions.rescan);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+    }
+  };
+
+  const active = subscriptions?.filter((s) => s.status === "detected" || s.status === "confirmed") ?? [];
+  const cancelled = subscriptions?.filter((s) => s.status === "cancelled") ?? [];
+  const ignored = subscriptions?.filter((s) => s.status === "ignored") ?? [];
+
+  // Totals per currency: members' statements may be in different ones
+  const yearly = new Map<string, number>();
+  for (const s of active) yearly.set(s.currency, (yearly.get(s.currency) ?? 0) + s.yearlyCost);
+
+  const renderRow = (s: NonNullable<typeof subscriptions>[number]) => (
+    <li key={s._id} style={{ padding: "6px 0", borderBottom: "1px solid rgba(0,0,0,0.05)", fontSize: "0.9rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: "8px" }}>
+        <span>
+          <strong>{s.merchant}</strong> • {s.cadence} • {formatMoney(s.amount, s.currency)}
+          {s.status === "detected" && <span style={{ color: "#888" }}> (new)</span>}
+        </span>
+        <span style={{ color: "#666" }}>{formatMoney(s.yearlyCost, s.currency)}/year</span>
+      </div>
+      <div style={{ fontSize: "0.8rem", color: "#666" }}>
+        {s.occurrences} charges since {s.firstChargeDate} • last {s.lastChargeDate}
+        {s.status !== "cancelled" && ` • next expected ${s.nextExpectedDate}`}
+      </div>
+      {s.previousAmount !== undefined && (
+        <div style={{ fontSize: "0.8rem", color: s.amount > s.previousAmount ? "#e53e3e" : "var(--mint-dark)" }}>
+          {s.amount > s.previousAmount ? "📈 Price went up" : "📉 Price went down"} from {formatMoney(s.previousAmount, s.currency)}
+        </div>
+      )}
+      {s.status === "cancelled" && s.outcome && (
+        <div style={{ fontSize: "0.8rem", color: s.outcome === "still_charging" ? "#e53e3e" : "#666" }}>
+          Cancelled {s.cancelledOn} • {OUTCOME_LABELS[s.outcome]}
+        </div>
+      )}
+      {canEdit && (
+        <div style={{ display: "flex", gap: "4px" }}>
+          {ACTIONS.filter((a) => a.status !== s.status).map((a) => (
+            <button
+              key={a.status}
+              style={actionStyle}
+              onClick={() =>
+                run(
+                  async () => unlessDenied(await setStatus({ sessionToken, subscriptionId: s._id, status: a.status })),
+                  "Failed to update subscription"
+                )
+              }
+            >
+              {a.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🔁 Subscriptions ({active.length})
+        {[...yearly].map(([currency, total]) => ` • ${formatMoney(total, currency)}/year`).join("")}
+      </summary>
+
+      {!subscriptions ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : subscriptions.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>
+          No recurring charges found yet. They show up once the same merchant charges a similar amount on a regular cadence.
+        </p>
+      ) : (
+        <>
+          <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>{active.map(renderRow)}</ul>
+          {cancelled.length > 0 && (
+            <>
+              <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 8px", fontWeight: 700 }}>Cancelled</h4>
+              <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>{cancelled.map(renderRow)}</ul>
+            </>
+          )}
+          {ignored.length > 0 && (
+            <details style={{ marginTop: "var(--space-sm)", fontSize: "0.9rem" }}>
+              <summary style={{ cursor: "pointer", color: "#666" }}>Ignored ({ignored.length})</summary>
+              <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>{ignored.map(renderRow)}</ul>
+            </details>
+          )}
+        </>
+      )}
+
+      {canEdit && (
+        <button
+          className="btn-mint"
+          style={{ padding: "4px 14px", marginTop: "var(--space-sm)" }}
+          onClick={() =>
+            run(async () => {
+              const { found } = unlessDenied(await rescan({ sessionToken, workspaceId }));
+              setMessage(`${found} recurring charge${found === 1 ? "" : "s"} found`);
+            }, "Failed to scan for subscriptions")
+          }
+        >
+          Scan again
+        </button>
+      )}
+
+      {message && <p style={{ fontSize: "0.85rem", color: "#666", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
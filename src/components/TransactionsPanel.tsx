@@ -0,0 +1,152 @@
+// Transactions across every statement in the workspace: filter by date, category, merchant and amount
+
+import { useState } from "react";
+import { usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { TRANSACTION_CATEGORIES, TransactionCategory } from "../../convex/domain/types/analysis";
+import { COMMON_CURRENCIES, formatMoney } from "../utils/money";
+
+interface TransactionsPanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+  uploaderId?: Id<"users">; // The uploader filter of the documents list
+}
+
+interface Filters {
+  from: string;
+  to: string;
+  category: TransactionCategory | "";
+  merchant: string;
+  currency: string; // Needed for the amount bounds: amounts aren't comparable across currencies
+  minAmount: string;
+  maxAmount: string;
+}
+
+const EMPTY_FILTERS: Filters = { from: "", to: "", category: "", merchant: "", currency: "", minAmount: "", maxAmount: "" };
+const PAGE_SIZE = 25;
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+export function TransactionsPanel({ sessionToken, workspaceId, uploaderId }: TransactionsPanelProps) {
+  // Edited in the form, sent to the server on "Apply" so typing doesn't restart the query
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.transactions.list,
+    {
+      sessionToken,
+      workspaceId,
+      uploaderId,
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+      category: filters.category || undefined,
+      merchant: filters.merchant.trim() || undefined,
+      currency: filters.currency || undefined,
+      minAmount: filters.minAmount ? Number(filters.minAmount) : undefined,
+      maxAmount: filters.maxAmount ? Number(filters.maxAmount) : undefined,
+    },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  const field = (key: keyof Filters) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setDraft({ ...draft, [key]: e.target.value }),
+    style: inputStyle,
+  });
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🔎 Transactions
+      </summary>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          // Amount bounds only apply within a currency
+          setFilters(draft.currency ? draft : { ...draft, minAmount: "", maxAmount: "" });
+        }}
+        style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center", margin: "var(--space-sm) 0", fontSize: "0.9rem" }}
+      >
+        <input type="date" title="From" {...field("from")} />
+        <input type="date" title="To" {...field("to")} />
+        <select {...field("category")}>
+          <option value="">All categories</option>
+          {TRANSACTION_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input placeholder="Merchant" {...field("merchant")} />
+        <select {...field("currency")}>
+          <option value="">All currencies</option>
+          {COMMON_CURRENCIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input type="number" step="0.01" placeholder="Min" disabled={!draft.currency} {...field("minAmount")} style={{ ...inputStyle, width: "80px" }} />
+        <input type="number" step="0.01" placeholder="Max" disabled={!draft.currency} {...field("maxAmount")} style={{ ...inputStyle, width: "80px" }} />
+        <button type="submit" className="btn-mint" style={{ padding: "4px 14px" }}>
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(EMPTY_FILTERS);
+            setFilters(EMPTY_FILTERS);
+          }}
+          style={{ border: "none", background: "transparent", color: "#666", cursor: "pointer" }}
+        >
+          Clear
+        </button>
+      </form>
+
+      {filters.merchant.trim() && (
+        <p style={{ fontSize: "0.8rem", color: "#888", margin: 0 }}>Merchant searches list the best matches first.</p>
+      )}
+
+      {status === "LoadingFirstPage" ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : results.length === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No matching transactions.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0", maxHeight: "400px", overflowY: "auto" }}>
+          {results.map((t) => (
+            <li
+              key={t._id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                padding: "6px 0",
+                borderBottom: "1px solid rgba(0,0,0,0.05)",
+                fontSize: "0.9rem",
+              }}
+            >
+              <span>
+                <span style={{ color: "#718096", marginRight: "10px" }}>{t.date}</span>
+                <strong>{t.merchant}</strong> <span style={{ color: "#888" }}>• {t.category}</span>
+              </span>
+              <strong>{formatMoney(t.amount, t.currency)}</strong>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status === "CanLoadMore" && (
+        <button className="btn-mint" style={{ padding: "4px 14px" }} onClick={() => loadMore(PAGE_SIZE)}>
+          Load more
+        </button>
+      )}
+      {status === "LoadingMore" && <p style={{ fontSize: "0.85rem", color: "#666" }}>Loading...</p>}
+    </details>
+  );
+}
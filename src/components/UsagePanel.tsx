@@ -0,0 +1,118 @@
+// AI usage & cost panel (model governance)
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+
+interface UsagePanelProps {
+  sessionToken: string;
+  workspaceId: Id<"workspaces">;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
+export function UsagePanel({ sessionToken, workspaceId }: UsagePanelProps) {
+  const [scope, setScope] = useState<"mine" | "workspace">("mine");
+  const [days, setDays] = useState(30);
+
+  const mine = useQuery(api.usage.byUser, scope === "mine" ? { sessionToken, days } : "skip");
+  const workspace = useQuery(api.usage.overall, scope === "workspace" ? { sessionToken, workspaceId, days } : "skip");
+  const report = scope === "mine" ? mine : workspace;
+
+  const toggleStyle = (active: boolean): React.CSSProperties => ({
+    padding: "4px 12px",
+    borderRadius: "16px",
+    border: "1px solid var(--mint-primary)",
+    background: active ? "var(--mint-primary)" : "transparent",
+    color: active ? "white" : "var(--mint-dark)",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: "0.8rem",
+  });
+
+  return (
+    <details className="glass-card" style={{ marginBottom: "var(--space-lg)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🧾 AI Usage & Cost
+      </summary>
+
+      <div style={{ display: "flex", gap: "8px", margin: "var(--space-sm) 0", flexWrap: "wrap" }}>
+        <button style={toggleStyle(scope === "mine")} onClick={() => setScope("mine")}>
+          Mine
+        </button>
+        <button style={toggleStyle(scope === "workspace")} onClick={() => setScope("workspace")}>
+          Workspace
+        </button>
+        <span style={{ flex: 1 }} />
+        {[7, 30, 90].map((d) => (
+          <button key={d} style={toggleStyle(days === d)} onClick={() => setDays(d)}>
+            {d}d
+          </button>
+        ))}
+      </div>
+
+      {!report ? (
+        <p className="body-text" style={{ color: "#666" }}>Loading...</p>
+      ) : report.totals.runs === 0 ? (
+        <p className="body-text" style={{ color: "#666" }}>No analysis runs in the last {days} days.</p>
+      ) : (
+        <>
+          {/* Totals */}
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: "var(--space-sm)", textAlign: "center" }}>
+            {[
+              ["Runs", report.totals.runs.toLocaleString()],
+              ["Tokens", report.totals.totalTokens.toLocaleString()],
+              ["Est. Cost", formatUsd(report.totals.estimatedCostUsd)],
+              ["Avg. Duration", `${(report.totals.averageDurationMs / 1000).toFixed(1)}s`],
+            ].map(([label, value]) => (
+              <div key={label} className="glass-card-mint" style={{ padding: "12px" }}>
+                <div style={{ fontSize: "0.8rem", color: "#666" }}>{label}</div>
+                <div style={{ fontSize: "1.2rem", fontWeight: 700, color: "var(--mint-dark)" }}>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Cost by day */}
+          <div style={{ marginTop: "var(--space-md)" }}>
+            <h4 className="text-mint-dark" style={{ margin: "0 0 10px", fontWeight: 700 }}>📅 Cost by Day</h4>
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={report.byDay}>
+                <XAxis dataKey="day" fontSize={11} />
+                <YAxis fontSize={11} tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip formatter={(value: number | undefined) => (value !== undefined ? formatUsd(value) : "")} />
+                <Bar dataKey="estimatedCostUsd" name="Est. Cost" fill="var(--mint-primary)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Cost by model */}
+          <h4 className="text-mint-dark" style={{ margin: "var(--space-md) 0 10px", fontWeight: 700 }}>🤖 By Model</h4>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.9rem" }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: "#666" }}>
+                <th>Model</th>
+                <th>Runs</th>
+                <th>Prompt</th>
+                <th>Completion</th>
+                <th style={{ textAlign: "right" }}>Est. Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byModel.map((row) => (
+                <tr key={row.model} style={{ borderTop: "1px solid rgba(0,0,0,0.05)" }}>
+                  <td style={{ padding: "6px 0", fontWeight: 600 }}>{row.model}</td>
+                  <td>{row.runs}</td>
+                  <td>{row.promptTokens.toLocaleString()}</td>
+                  <td>{row.completionTokens.toLocaleString()}</td>
+                  <td style={{ textAlign: "right" }}>{formatUsd(row.estimatedCostUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,216 @@
+// Workspace panel: members and roles, invite codes, joining and creating workspaces
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { WORKSPACE_ROLES, WorkspaceRole } from "../../convex/domain/entities/workspace";
+import { unlessDenied } from "../utils/access";
+
+interface WorkspacePanelProps {
+  sessionToken: string;
+  workspace: { _id: Id<"workspaces">; name: string; role: WorkspaceRole };
+  onJoined: (workspaceId: Id<"workspaces">) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  borderRadius: "8px",
+  border: "1px solid var(--mint-primary)",
+  padding: "4px 6px",
+};
+
+const sectionTitle: React.CSSProperties = { margin: "var(--space-md) 0 8px", fontWeight: 700 };
+
+export function WorkspacePanel({ sessionToken, workspace, onJoined }: WorkspacePanelProps) {
+  const isOwner = workspace.role === "owner";
+  const members = useQuery(api.workspaces.listMembers, { sessionToken, workspaceId: workspace._id });
+  const invites = useQuery(api.workspaces.listInvites, isOwner ? { sessionToken, workspaceId: workspace._id } : "skip");
+  const setRole = useMutation(api.workspaces.setRole);
+  const removeMember = useMutation(api.workspaces.removeMember);
+  const createInvite = useMutation(api.workspaces.createInvite);
+  const revokeInvite = useMutation(api.workspaces.revokeInvite);
+  const joinWorkspace = useMutation(api.workspaces.join);
+  const createWorkspace = useMutation(api.workspaces.create);
+
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [newInvite, setNewInvite] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState("");
+  const [newName, setNewName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setMessage(null);
+    } catch (e) {
+      console.error(e);
+      setMessage(e instanceof Error ? e.message : failure);
+    }
+  };
+
+  return (
+    <details className="glass-card section-gap">
+      <summary style={{ cursor: "pointer", color: "var(--mint-dark)", fontWeight: 700, fontSize: "1.1rem" }}>
+        🏠 {workspace.name} ({members?.length ?? 0} member{members?.length === 1 ? "" : "s"})
+      </summary>
+
+      <ul style={{ listStyle: "none", padding: 0, margin: "var(--space-sm) 0" }}>
+        {members?.map((m) => (
+          <li
+            key={m.userId}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "6px 0",
+              borderBottom: "1px solid rgba(0,0,0,0.05)",
+              fontSize: "0.9rem",
+            }}
+          >
+            <span>
+              {m.isMe ? "Me" : m.name} • joined {new Date(m.joinedAt).toLocaleDateString("en-GB")}
+            </span>
+            <span style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+              {isOwner ? (
+                <select
+                  value={m.role}
+                  onChange={(e) =>
+                    run(
+                      async () =>
+                        unlessDenied(
+                          await setRole({
+                            sessionToken,
+                            workspaceId: workspace._id,
+                            userId: m.userId,
+                            role: e.target.value as WorkspaceRole,
+                          })
+                        ),
+                      "Failed to change role"
+                    )
+                  }
+                  style={inputStyle}
+                >
+                  {WORKSPACE_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <strong className="text-mint-dark">{m.role}</strong>
+              )}
+              {(isOwner || m.isMe) && (
+                <button
+                  onClick={() => {
+                    if (!confirm(m.isMe ? `Leave "${workspace.name}"?` : `Remove ${m.name} from "${workspace.name}"?`)) return;
+                    run(
+                      async () => unlessDenied(await removeMember({ sessionToken, workspaceId: workspace._id, userId: m.userId })),
+                      "Failed to remove member"
+                    );
+                  }}
+                  style={{ border: "none", background: "transparent", color: "#e53e3e", cursor: "pointer" }}
+                  title={m.isMe ? "Leave workspace" : "Remove member"}
+                >
+                  {m.isMe ? "Leave" : "✕"}
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <h4 className="text-mint-dark" style={sectionTitle}>Invite someone</h4>
+          <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+            <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)} style={inputStyle}>
+              {WORKSPACE_ROLES.map((r) => (
+                <option key={r} value={r}>
+                  as {r}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn-mint"
+              style={{ padding: "4px 14px" }}
+              onClick={() =>
+                run(async () => {
+                  const invite = unlessDenied(await createInvite({ sessionToken, workspaceId: workspace._id, role: inviteRole }));
+                  setNewInvite(invite.inviteCode);
+                }, "Failed to create invite")
+              }
+            >
+              Create invite code
+            </button>
+            {newInvite && (
+              <span style={{ fontSize: "0.9rem" }}>
+                Share this code (shown once, valid 7 days): <strong className="text-mint-dark">{newInvite}</strong>
+              </span>
+            )}
+          </div>
+          {invites && invites.length > 0 && (
+            <ul style={{ listStyle: "none", padding: 0, margin: "8px 0", fontSize: "0.85rem", color: "#666" }}>
+              {invites.map((invite) => (
+                <li key={invite._id}>
+                  Open invite as {invite.role}, expires {new Date(invite.expiresAt).toLocaleDateString("en-GB")}{" "}
+                  <button
+                    onClick={() =>
+                      run(async () => unlessDenied(await revokeInvite({ sessionToken, inviteId: invite._id })), "Failed to revoke invite")
+                    }
+                    style={{ border: "none", background: "transparent", color: "#e53e3e", cursor: "pointer" }}
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <h4 className="text-mint-dark" style={sectionTitle}>Join or create a workspace</h4>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+        <input
+          value={inviteCode}
+          onChange={(e) => setInviteCode(e.target.value)}
+          placeholder="Invite code"
+          style={{ ...inputStyle, flex: 1, minWidth: "120px" }}
+        />
+        <button
+          className="btn-mint"
+          style={{ padding: "4px 14px" }}
+          disabled={!inviteCode.trim()}
+          onClick={() =>
+            run(async () => {
+              onJoined(await joinWorkspace({ sessionToken, inviteCode }));
+              setInviteCode("");
+            }, "Failed to join workspace")
+          }
+        >
+          Join
+        </button>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New workspace name"
+          style={{ ...inputStyle, flex: 1, minWidth: "120px" }}
+        />
+        <button
+          className="btn-mint"
+          style={{ padding: "4px 14px" }}
+          disabled={!newName.trim()}
+          onClick={() =>
+            run(async () => {
+              onJoined(await createWorkspace({ sessionToken, name: newName }));
+              setNewName("");
+            }, "Failed to create workspace")
+          }
+        >
+          Create
+        </button>
+      </div>
+
+      {message && <p style={{ fontSize: "0.85rem", color: "#666", marginTop: "var(--space-sm)" }}>{message}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,76 @@
+// Client auth: keeps the session token across reloads and restores it on startup
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+const STORAGE_KEY = "budgetdiet.session";
+
+interface AuthState {
+  sessionToken: string | null; // Set only once the server has confirmed the token
+  code: string | null;         // The signed-in code, for "Connected as"
+  isRestoring: boolean;        // A stored token is being checked
+  startSession: (sessionToken: string) => void;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthState | null>(null);
+
+// Must sit inside ConvexProvider: it checks the stored token with sessions.validate
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [storedToken, setStoredToken] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+  const logout = useMutation(api.sessions.logout);
+  const session = useQuery(api.sessions.validate, storedToken ? { sessionToken: storedToken } : "skip");
+
+  // Expired, revoked from another device, or the account was deleted: forget the token
+  useEffect(() => {
+    if (session && !session.valid) {
+      localStorage.removeItem(STORAGE_KEY);
+      setStoredToken(null);
+    }
+  }, [session]);
+
+  // Signing in or out in another tab applies here too
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setStoredToken(e.newValue);
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const startSession = useCallback((sessionToken: string) => {
+    localStorage.setItem(STORAGE_KEY, sessionToken);
+    setStoredToken(sessionToken);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const token = storedToken;
+    localStorage.removeItem(STORAGE_KEY);
+    setStoredToken(null);
+    if (token) {
+      await logout({ sessionToken: token }).catch((e) => console.error("Logout error:", e));
+    }
+  }, [storedToken, logout]);
+
+  const value = useMemo<AuthState>(
+    () => ({
+      sessionToken: session?.valid ? storedToken : null,
+      code: session?.valid ? session.code : null,
+      isRestoring: storedToken !== null && session === undefined,
+      startSession,
+      signOut,
+    }),
+    [session, storedToken, startSession, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthState {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error("useAuth must be used inside AuthProvider");
+  }
+  return auth;
+}
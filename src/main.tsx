@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import { ConvexProvider, ConvexReactClient } from "convex/react";
 import { ErrorBoundary } from "./ErrorBoundary.tsx";
 import App from "./App.tsx";
+import { AuthProvider } from "./hooks/useAuth.tsx";
 import "./index.css";
 
 // Initialize Convex client
@@ -21,7 +22,9 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ErrorBoundary>
       <ConvexProvider client={convex}>
-        <App />
+        <AuthProvider>
+          <App />
+        </AuthProvider>
       </ConvexProvider>
     </ErrorBoundary>
   </React.StrictMode>
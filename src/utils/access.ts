@@ -0,0 +1,11 @@
+// Denied mutations return { denied: true, message } rather than throwing (so the server keeps its audit record)
+
+import { AccessDenied, isAccessDenied } from "../../convex/domain/services/authorization";
+
+// Turns a denial back into an error for the caller's usual try/catch
+export function unlessDenied<T>(result: T | AccessDenied): T {
+  if (isAccessDenied(result)) {
+    throw new Error(result.message);
+  }
+  return result;
+}
@@ -0,0 +1,34 @@
+// Per-browser id sent with sign-in attempts so the server can rate-limit a client across codes
+
+const STORAGE_KEY = "budgetdiet.clientId";
+
+export function getClientId(): string {
+  let id = localStorage.getItem(STORAGE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEY, id);
+  }
+  return id;
+}
+
+// Short label for the signed-in devices list, e.g. "Chrome on macOS"
+export function describeDevice(userAgent = navigator.userAgent): string {
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+  const os =
+    [
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Android", "Android"],
+      ["Mac OS X", "macOS"],
+      ["Windows", "Windows"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "unknown OS";
+  return `${browser} on ${os}`;
+}
@@ -0,0 +1,6 @@
+// Calendar labels. Statement dates are days, so they are formatted in UTC like the server reads them.
+
+// "2024-03" -> "March 2024"
+export function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" });
+}
@@ -0,0 +1,44 @@
+// Wording for document audit events, shared by the timeline and the activity feed
+
+import { DocumentEventType, DocumentStatus } from "../../convex/domain/entities/document";
+
+interface DocumentEventView {
+  type: DocumentEventType;
+  fromStatus?: DocumentStatus;
+  toStatus?: DocumentStatus;
+  durationMs?: number;
+  detail?: string;
+}
+
+const EVENT_LABELS: Record<DocumentEventType, string> = {
+  uploaded: "📤 Uploaded",
+  status_changed: "🔄 Status",
+  analysis_saved: "💾 Analysis saved",
+  recategorized: "🏷️ Recategorised",
+  version_selected: "🕘 Version selected",
+  exported: "⬇️ Exported",
+  deleted: "🗑️ Deleted",
+  overlap_found: "📑 Overlap found",
+  overlap_resolved: "📑 Overlap resolved",
+  edited: "✏️ Edited",
+  merchants_renamed: "🏪 Merchants renamed",
+};
+
+// 950 -> "0.9s", 75_000 -> "1m 15s", 7_500_000 -> "2h 5m"
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function describeEvent(event: DocumentEventView): string {
+  const parts = [EVENT_LABELS[event.type]];
+  if (event.type === "status_changed") {
+    parts.push(`${event.fromStatus} → ${event.toStatus}`);
+    if (event.durationMs !== undefined) parts.push(`after ${formatDuration(event.durationMs)}`);
+  }
+  if (event.detail) parts.push(`(${event.detail})`);
+  return parts.join(" ");
+}
@@ -0,0 +1,13 @@
+// Currency-aware amount formatting
+
+// Currencies offered in the base-currency picker
+export const COMMON_CURRENCIES = ["GBP", "EUR", "USD", "KRW", "JPY"];
+
+export function formatMoney(amount: number, currency: string = "GBP"): string {
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(amount);
+  } catch {
+    // Unknown ISO code: still show the number rather than crash the card
+    return `${currency} ${amount.toLocaleString()}`;
+  }
+}
@@ -0,0 +1,25 @@
+// Statement file types accepted by the upload box
+
+export type StatementFormat = "pdf" | "csv" | "ofx" | "qif";
+
+export const STATEMENT_FILE_ACCEPT = ".pdf,.csv,.ofx,.qif";
+
+export function statementFormatOf(fileName: string): StatementFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  return extension === "pdf" || extension === "csv" || extension === "ofx" || extension === "qif"
+    ? extension
+    : null;
+}
+
+// Column names for the CSV mapping picker. Some banks put account details above the header,
+// so the widest of the first few lines is taken as the header.
+export async function readCsvHeader(file: File): Promise<string[]> {
+  const text = (await file.slice(0, 8192).text()).replace(/^\uFEFF/, "");
+  const lines = text.split(/\r?\n/).slice(0, 10);
+  const count = (d: string) => lines.join("\n").split(d).length;
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (count(d) > count(best) ? d : best));
+
+  const rows = lines.map((line) => line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1")));
+  const header = rows.reduce((widest, row) => (row.length > widest.length ? row : widest), [] as string[]);
+  return header.filter(Boolean);
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
@@ -15,5 +16,10 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+  test: {
+    // Convex functions run in the edge runtime; convex-test has to be bundled with them
+    environment: "edge-runtime",
+    server: { deps: { inline: ["convex-test"] } },
+  },
 });
 